@@ -0,0 +1,401 @@
+#!/usr/bin/env node
+
+/**
+ * Orange Sport Center - Database Types Generator
+ *
+ * This script keeps src/types/supabase.ts in sync with supabase/migrations by:
+ * 1. Starting a throwaway in-process Postgres (PGlite)
+ * 2. Applying every migration in order
+ * 3. Introspecting the public schema into a TypeScript `Database` type
+ *
+ * Usage:
+ *   node scripts/generate-types.js          Write src/types/supabase.ts
+ *   node scripts/generate-types.js --check  Exit with an error if the checked-in types drifted
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Colors for console output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  magenta: '\x1b[35m',
+  cyan: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+const migrationsDir = path.join(process.cwd(), 'supabase', 'migrations');
+const outputPath = path.join(process.cwd(), 'src', 'types', 'supabase.ts');
+
+// Stand-ins for what the Supabase platform provides before our migrations run
+const platformSetup = `
+CREATE SCHEMA IF NOT EXISTS auth;
+CREATE SCHEMA IF NOT EXISTS extensions;
+CREATE TABLE auth.users (
+    id UUID PRIMARY KEY,
+    email TEXT,
+    raw_user_meta_data JSONB
+);
+CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+$$;
+CREATE FUNCTION auth.role() RETURNS TEXT LANGUAGE sql STABLE AS $$
+    SELECT current_setting('request.jwt.claim.role', true)
+$$;
+CREATE ROLE anon;
+CREATE ROLE authenticated;
+CREATE ROLE service_role;
+`;
+
+const stringTypes = new Set([
+  'text', 'varchar', 'bpchar', 'char', 'name', 'citext', 'uuid',
+  'date', 'time', 'timetz', 'timestamp', 'timestamptz', 'interval',
+  'inet', 'cidr', 'macaddr', 'bytea'
+]);
+const numberTypes = new Set(['int2', 'int4', 'int8', 'float4', 'float8', 'numeric', 'oid']);
+
+async function startDatabase() {
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { uuid_ossp } = await import('@electric-sql/pglite/contrib/uuid_ossp');
+  const { btree_gist } = await import('@electric-sql/pglite/contrib/btree_gist');
+
+  const db = new PGlite({ extensions: { uuid_ossp, btree_gist } });
+  await db.exec(platformSetup);
+
+  const migrations = fs.readdirSync(migrationsDir)
+    .filter(filename => filename.endsWith('.sql'))
+    .sort();
+
+  for (const filename of migrations) {
+    try {
+      await db.exec(fs.readFileSync(path.join(migrationsDir, filename), 'utf8'));
+    } catch (error) {
+      throw new Error(`${filename}: ${error.message}`);
+    }
+  }
+
+  return db;
+}
+
+async function introspect(db) {
+  const query = async (sql) => (await db.query(sql)).rows;
+
+  const types = await query(`
+    SELECT t.oid, t.typname, t.typtype, t.typelem, t.typcategory, t.typrelid, n.nspname
+    FROM pg_type t
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+  `);
+
+  const relations = await query(`
+    SELECT c.oid, c.relname, c.relkind
+    FROM pg_class c
+    WHERE c.relnamespace = 'public'::regnamespace
+    AND c.relkind IN ('r', 'p', 'v', 'm', 'c')
+    ORDER BY c.relname
+  `);
+
+  const columns = await query(`
+    SELECT a.attrelid, a.attname, a.atttypid, a.attnotnull, a.atthasdef, a.attidentity, a.attgenerated
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    WHERE c.relnamespace = 'public'::regnamespace
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+    ORDER BY a.attname
+  `);
+
+  const foreignKeys = await query(`
+    SELECT
+      con.conname,
+      con.conrelid,
+      rc.relname AS referenced_relation,
+      array_to_json(ARRAY(
+        SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+        ORDER BY k.ord
+      )) AS columns,
+      array_to_json(ARRAY(
+        SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+        ORDER BY k.ord
+      )) AS referenced_columns,
+      EXISTS (
+        SELECT 1 FROM pg_index i
+        WHERE i.indrelid = con.conrelid
+        AND i.indisunique
+        AND i.indpred IS NULL
+        AND i.indkey::INT2[] @> con.conkey
+        AND i.indkey::INT2[] <@ con.conkey
+      ) AS is_one_to_one
+    FROM pg_constraint con
+    JOIN pg_class rc ON rc.oid = con.confrelid
+    WHERE con.contype = 'f'
+    AND con.connamespace = 'public'::regnamespace
+    AND rc.relnamespace = 'public'::regnamespace
+    ORDER BY con.conname
+  `);
+
+  // Trigger functions and functions owned by extensions are not callable through rpc()
+  const functions = await query(`
+    SELECT
+      p.proname,
+      p.proretset,
+      p.prorettype,
+      p.pronargdefaults,
+      array_to_json(p.proargnames) AS arg_names,
+      array_to_json(p.proargmodes::TEXT[]) AS arg_modes,
+      array_to_json(COALESCE(p.proallargtypes, p.proargtypes::OID[])) AS arg_types
+    FROM pg_proc p
+    JOIN pg_type rt ON rt.oid = p.prorettype
+    WHERE p.pronamespace = 'public'::regnamespace
+    AND p.prokind = 'f'
+    AND rt.typname NOT IN ('trigger', 'event_trigger')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_depend d
+      WHERE d.classid = 'pg_proc'::regclass
+      AND d.objid = p.oid
+      AND d.deptype = 'e'
+    )
+    ORDER BY p.proname, pg_get_function_identity_arguments(p.oid)
+  `);
+
+  const enums = await query(`
+    SELECT t.typname, e.enumlabel
+    FROM pg_type t
+    JOIN pg_enum e ON e.enumtypid = t.oid
+    WHERE t.typnamespace = 'public'::regnamespace
+    ORDER BY t.typname, e.enumsortorder
+  `);
+
+  return { types, relations, columns, foreignKeys, functions, enums };
+}
+
+function propertyName(name) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function render(schema) {
+  const typesByOid = new Map(schema.types.map(type => [Number(type.oid), type]));
+  const relationsByOid = new Map(schema.relations.map(relation => [Number(relation.oid), relation]));
+
+  function tsType(oid) {
+    const type = typesByOid.get(Number(oid));
+    if (!type) return 'unknown';
+
+    if (type.typcategory === 'A' && Number(type.typelem) !== 0) {
+      return `${tsType(type.typelem)}[]`;
+    }
+    if (type.typtype === 'e' && type.nspname === 'public') {
+      return `Database["public"]["Enums"][${JSON.stringify(type.typname)}]`;
+    }
+    if (type.typtype === 'c' && type.nspname === 'public') {
+      const relation = relationsByOid.get(Number(type.typrelid));
+      if (relation && relation.relkind === 'c') {
+        return `Database["public"]["CompositeTypes"][${JSON.stringify(type.typname)}]`;
+      }
+      if (relation) {
+        return `Database["public"]["Tables"][${JSON.stringify(type.typname)}]["Row"]`;
+      }
+    }
+    if (type.typname === 'bool') return 'boolean';
+    if (type.typname === 'json' || type.typname === 'jsonb') return 'Json';
+    if (type.typname === 'void') return 'undefined';
+    if (numberTypes.has(type.typname)) return 'number';
+    if (stringTypes.has(type.typname)) return 'string';
+
+    return 'unknown';
+  }
+
+  function block(indent, lines) {
+    if (lines.length === 0) {
+      return `{\n${indent}  [_ in never]: never\n${indent}}`;
+    }
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+
+  function columnsOf(relation) {
+    return schema.columns.filter(column => Number(column.attrelid) === Number(relation.oid));
+  }
+
+  function renderRelationships(relation, indent) {
+    const relationships = schema.foreignKeys.filter(fk => Number(fk.conrelid) === Number(relation.oid));
+    if (relationships.length === 0) return '[]';
+
+    const items = relationships.map(fk => [
+      `${indent}  {`,
+      `${indent}    foreignKeyName: ${JSON.stringify(fk.conname)}`,
+      `${indent}    columns: [${fk.columns.map(c => JSON.stringify(c)).join(', ')}]`,
+      `${indent}    isOneToOne: ${fk.is_one_to_one}`,
+      `${indent}    referencedRelation: ${JSON.stringify(fk.referenced_relation)}`,
+      `${indent}    referencedColumns: [${fk.referenced_columns.map(c => JSON.stringify(c)).join(', ')}]`,
+      `${indent}  },`
+    ].join('\n'));
+
+    return `[\n${items.join('\n')}\n${indent}]`;
+  }
+
+  function renderTable(relation) {
+    const indent = '        ';
+    const columns = columnsOf(relation);
+    const isView = relation.relkind === 'v' || relation.relkind === 'm';
+
+    const row = columns.map(column => {
+      const nullable = isView || !column.attnotnull;
+      return `${indent}  ${propertyName(column.attname)}: ${tsType(column.atttypid)}${nullable ? ' | null' : ''}`;
+    });
+
+    const writable = (optionalAll) => columns.map(column => {
+      const name = propertyName(column.attname);
+      if (column.attgenerated === 's' || column.attidentity === 'a') {
+        return `${indent}  ${name}?: never`;
+      }
+      const type = `${tsType(column.atttypid)}${column.attnotnull ? '' : ' | null'}`;
+      const optional = optionalAll || !column.attnotnull || column.atthasdef || column.attidentity === 'd';
+      return `${indent}  ${name}${optional ? '?' : ''}: ${type}`;
+    });
+
+    const parts = [`${indent}Row: ${block(indent, row)}`];
+    if (!isView) {
+      parts.push(`${indent}Insert: ${block(indent, writable(false))}`);
+      parts.push(`${indent}Update: ${block(indent, writable(true))}`);
+    }
+    parts.push(`${indent}Relationships: ${renderRelationships(relation, indent)}`);
+
+    return `      ${propertyName(relation.relname)}: {\n${parts.join('\n')}\n      }`;
+  }
+
+  function renderFunction(fn) {
+    const indent = '        ';
+    const names = fn.arg_names || [];
+    const argTypes = fn.arg_types || [];
+    const modes = fn.arg_modes || argTypes.map(() => 'i');
+
+    const inputs = [];
+    const outputs = [];
+    argTypes.forEach((oid, index) => {
+      const arg = { name: names[index] || '', oid };
+      if (['i', 'b', 'v'].includes(modes[index])) inputs.push(arg);
+      if (['o', 'b', 't'].includes(modes[index])) outputs.push(arg);
+    });
+
+    const firstDefault = inputs.length - Number(fn.pronargdefaults);
+    const args = inputs.length === 0
+      ? 'Record<PropertyKey, never>'
+      : block(indent, inputs.map((arg, index) =>
+        `${indent}  ${propertyName(arg.name)}${index >= firstDefault ? '?' : ''}: ${tsType(arg.oid)}`
+      ));
+
+    let returns;
+    if (outputs.length > 0) {
+      returns = block(indent, outputs.map(arg => `${indent}  ${propertyName(arg.name)}: ${tsType(arg.oid)}`));
+    } else {
+      returns = tsType(fn.prorettype);
+    }
+    if (fn.proretset) {
+      returns = `${returns}[]`;
+    }
+
+    return { args, returns };
+  }
+
+  const tables = schema.relations.filter(relation => ['r', 'p'].includes(relation.relkind)).map(renderTable);
+  const views = schema.relations.filter(relation => ['v', 'm'].includes(relation.relkind)).map(renderTable);
+
+  const functionGroups = new Map();
+  schema.functions.forEach(fn => {
+    if (!functionGroups.has(fn.proname)) functionGroups.set(fn.proname, []);
+    functionGroups.get(fn.proname).push(renderFunction(fn));
+  });
+
+  const functions = [...functionGroups.entries()].map(([name, overloads]) => {
+    if (overloads.length === 1) {
+      const [{ args, returns }] = overloads;
+      return `      ${propertyName(name)}: {\n        Args: ${args}\n        Returns: ${returns}\n      }`;
+    }
+    const variants = overloads.map(({ args, returns }) =>
+      `        | {\n            Args: ${args.replace(/\n/g, '\n    ')}\n            Returns: ${returns.replace(/\n/g, '\n    ')}\n          }`
+    );
+    return `      ${propertyName(name)}:\n${variants.join('\n')}`;
+  });
+
+  const enumValues = new Map();
+  schema.enums.forEach(({ typname, enumlabel }) => {
+    if (!enumValues.has(typname)) enumValues.set(typname, []);
+    enumValues.get(typname).push(JSON.stringify(enumlabel));
+  });
+  const enums = [...enumValues.entries()].map(([name, labels]) =>
+    `      ${propertyName(name)}: ${labels.join(' | ')}`
+  );
+
+  const compositeTypes = schema.relations.filter(relation => relation.relkind === 'c').map(relation => {
+    const fields = columnsOf(relation).map(column =>
+      `        ${propertyName(column.attname)}: ${tsType(column.atttypid)} | null`
+    );
+    return `      ${propertyName(relation.relname)}: ${block('      ', fields)}`;
+  });
+
+  return `// Generated by scripts/generate-types.js from supabase/migrations - do not edit by hand.
+// Run \`npm run db:types\` after adding a migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: ${block('    ', tables)}
+    Views: ${block('    ', views)}
+    Functions: ${block('    ', functions)}
+    Enums: ${block('    ', enums)}
+    CompositeTypes: ${block('    ', compositeTypes)}
+  }
+}
+`;
+}
+
+async function main() {
+  const checkOnly = process.argv.includes('--check');
+
+  const db = await startDatabase();
+  const output = render(await introspect(db));
+  await db.close();
+
+  if (checkOnly) {
+    const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf8') : '';
+
+    if (current !== output) {
+      log('❌ src/types/supabase.ts is out of date with supabase/migrations.', 'red');
+      log('Run `npm run db:types` and commit the result.', 'yellow');
+      process.exit(1);
+    }
+
+    log('✅ Database types match the migrations.', 'green');
+    return;
+  }
+
+  fs.writeFileSync(outputPath, output);
+  log(`✅ Wrote ${path.relative(process.cwd(), outputPath)}`, 'green');
+}
+
+// Tests reuse the migrated database, e.g. to compare the pricing engine with its SQL twin
+module.exports = { startDatabase };
+
+if (require.main === module) {
+  main().catch(error => {
+    log('❌ Failed to generate database types:', 'red');
+    log(error.message, 'red');
+    process.exit(1);
+  });
+}
@@ -87,7 +87,31 @@ function checkMigrationFiles() {
     '001_initial_schema.sql',
     '002_rls_policies.sql',
     '003_database_functions.sql',
-    '004_sample_data.sql'
+    '004_sample_data.sql',
+    '005_reviews.sql',
+    '006_payments.sql',
+    '007_payment_gateway.sql',
+    '008_reservation_holds.sql',
+    '009_prevent_double_booking.sql',
+    '010_create_reservation.sql',
+    '011_pricing_engine.sql',
+    '012_special_dates.sql',
+    '013_promo_codes.sql',
+    '014_memberships.sql',
+    '015_recurring_reservations.sql',
+    '016_booking_orders.sql',
+    '017_reservation_reschedules.sql',
+    '018_cancellation_policies.sql',
+    '019_waitlist.sql',
+    '020_notifications.sql',
+    '021_reservation_check_in.sql',
+    '022_calendar_feeds.sql',
+    '023_walk_in_bookings.sql',
+    '024_staff_bookings.sql',
+    '025_venue_blackouts.sql',
+    '026_operating_hours.sql',
+    '027_audit_log.sql',
+    '028_venue_local_booking_dates.sql'
   ];
   
   const missingMigrations = [];
@@ -136,6 +160,30 @@ function printSetupInstructions() {
   log('     - 002_rls_policies.sql');
   log('     - 003_database_functions.sql');
   log('     - 004_sample_data.sql');
+  log('     - 005_reviews.sql');
+  log('     - 006_payments.sql');
+  log('     - 007_payment_gateway.sql');
+  log('     - 008_reservation_holds.sql');
+  log('     - 009_prevent_double_booking.sql');
+  log('     - 010_create_reservation.sql');
+  log('     - 011_pricing_engine.sql');
+  log('     - 012_special_dates.sql');
+  log('     - 013_promo_codes.sql');
+  log('     - 014_memberships.sql');
+  log('     - 015_recurring_reservations.sql');
+  log('     - 016_booking_orders.sql');
+  log('     - 017_reservation_reschedules.sql');
+  log('     - 018_cancellation_policies.sql');
+  log('     - 019_waitlist.sql');
+  log('     - 020_notifications.sql');
+  log('     - 021_reservation_check_in.sql');
+  log('     - 022_calendar_feeds.sql');
+  log('     - 023_walk_in_bookings.sql');
+  log('     - 024_staff_bookings.sql');
+  log('     - 025_venue_blackouts.sql');
+  log('     - 026_operating_hours.sql');
+  log('     - 027_audit_log.sql');
+  log('     - 028_venue_local_booking_dates.sql');
   log('');
   
   log('4. 👤 Create admin user:', 'blue');
@@ -76,7 +76,7 @@ export default function LoginPage() {
         setProfile(profile)
         
         // Redirect based on user role
-        if (profile?.user_type === 'admin' || profile?.user_type === 'superadmin') {
+        if (profile?.role === 'admin' || profile?.role === 'superadmin') {
           router.push('/admin/dashboard')
         } else {
           router.push('/dashboard')
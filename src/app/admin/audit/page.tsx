@@ -0,0 +1,207 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { addDays, isValid, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AuditEntryList } from '@/components/features/admin/audit-entry-list'
+import { AuditLogFilters, type AuditLogFilterValues } from '@/components/features/admin/audit-log-filters'
+import { AUDIT_ENTITY_LABELS, AUDIT_PAGE_SIZE, NO_ACTOR } from '@/lib/audit-log'
+import { ArrowLeft, History } from 'lucide-react'
+import Link from 'next/link'
+import type { AuditLogEntry, Profile } from '@/types/database'
+
+interface AuditPageProps {
+  searchParams: Promise<AuditLogFilterValues & {
+    page?: string
+  }>
+}
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+// Staff and admins, the people whose changes the log is mostly about
+async function getActors(): Promise<Pick<Profile, 'id' | 'full_name' | 'role'>[]> {
+  const supabase = await createClient()
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, full_name, role')
+    .in('role', ['staff', 'admin', 'superadmin'])
+    .order('full_name')
+
+  return data || []
+}
+
+function parseDate(value?: string) {
+  const date = value ? parseISO(value) : null
+  return date && isValid(date) ? date : null
+}
+
+// Newest first, one page at a time
+async function getEntries(filters: AuditLogFilterValues, page: number) {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range((page - 1) * AUDIT_PAGE_SIZE, page * AUDIT_PAGE_SIZE - 1)
+
+  if (filters.entity && filters.entity in AUDIT_ENTITY_LABELS) {
+    query = query.eq('entity_type', filters.entity)
+  }
+
+  if (filters.actor === NO_ACTOR) {
+    query = query.is('actor_id', null)
+  } else if (filters.actor) {
+    query = query.eq('actor_id', filters.actor)
+  }
+
+  const from = parseDate(filters.from)
+  if (from) query = query.gte('created_at', from.toISOString())
+
+  const to = parseDate(filters.to)
+  if (to) query = query.lt('created_at', addDays(to, 1).toISOString())
+
+  const { data, count, error } = await query
+
+  if (error) {
+    console.error('Error fetching audit log:', error)
+    return { entries: [] as AuditLogEntry[], total: 0 }
+  }
+
+  return { entries: data || [], total: count ?? 0 }
+}
+
+function getPageHref(filters: AuditLogFilterValues, page: number) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value)
+  }
+  if (page > 1) params.set('page', String(page))
+
+  return `/admin/audit${params.size > 0 ? `?${params}` : ''}`
+}
+
+function AuditSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-24" />
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  )
+}
+
+async function AuditContent({ filters, page }: { filters: AuditLogFilterValues, page: number }) {
+  await checkAdminAccess()
+
+  const [actors, { entries, total }] = await Promise.all([
+    getActors(),
+    getEntries(filters, page),
+  ])
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE))
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change to reservations, venues, price bands, financial transactions and user roles
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <AuditLogFilters actors={actors} filters={filters} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>
+            {total === 0 ? 'Nothing matches these filters' : `${total.toLocaleString()} changes, newest first`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {entries.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No changes recorded.</p>
+            </div>
+          ) : (
+            <AuditEntryList entries={entries} />
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between border-t pt-4 text-sm">
+              {page > 1 ? (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={getPageHref(filters, page - 1)}>Newer</Link>
+                </Button>
+              ) : <span />}
+              <span className="text-muted-foreground">Page {page} of {pageCount}</span>
+              {page < pageCount ? (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={getPageHref(filters, page + 1)}>Older</Link>
+                </Button>
+              ) : <span />}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default async function AdminAuditPage({ searchParams }: AuditPageProps) {
+  const { entity, actor, from, to, page } = await searchParams
+  const filters = { entity, actor, from, to }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<AuditSkeleton />}>
+        <AuditContent filters={filters} page={Math.max(1, Number(page) || 1)} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Audit Log - Orange Sport Center',
+  description: 'See who changed reservations, venues, pricing and roles.',
+}
@@ -0,0 +1,127 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { StaffBookingForm } from '@/components/features/admin/staff-booking-form'
+import { ArrowLeft, CalendarRange } from 'lucide-react'
+import Link from 'next/link'
+import type { StaffBookingPrefill } from '@/lib/staff-bookings'
+import type { Venue } from '@/types/database'
+
+interface NewBookingPageProps {
+  searchParams: Promise<{
+    venue?: string
+    date?: string
+    start?: string
+    end?: string
+  }>
+}
+
+async function checkStaffAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['staff', 'admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getVenues(): Promise<Pick<Venue, 'id' | 'name'>[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('venues')
+    .select('id, name')
+    .eq('is_active', true)
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching venues:', error)
+    return []
+  }
+
+  return data || []
+}
+
+function NewBookingSkeleton() {
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Skeleton className="h-9 w-20" />
+        <div>
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-80" />
+        </div>
+      </div>
+      <Skeleton className="h-48 w-full" />
+      <Skeleton className="h-48 w-full" />
+    </div>
+  )
+}
+
+async function NewBookingContent({ prefill }: { prefill: StaffBookingPrefill }) {
+  await checkStaffAccess()
+
+  const venues = await getVenues()
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">New Booking</h1>
+            <p className="text-muted-foreground">
+              Book for a walk-in guest or a customer on the phone.
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/schedule">
+            <CalendarRange className="h-4 w-4 mr-2" />
+            Schedule Board
+          </Link>
+        </Button>
+      </div>
+
+      <StaffBookingForm venues={venues} prefill={prefill} />
+    </div>
+  )
+}
+
+export default async function NewBookingPage({ searchParams }: NewBookingPageProps) {
+  const { venue, date, start, end } = await searchParams
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<NewBookingSkeleton />}>
+        <NewBookingContent prefill={{ venueId: venue, date, startTime: start, endTime: end }} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'New Booking - Orange Sport Center',
+  description: 'Book on behalf of walk-in and phone customers.',
+}
@@ -0,0 +1,187 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CancellationRuleDialog } from '@/components/features/admin/cancellation-rule-dialog'
+import { CancellationRuleActions } from '@/components/features/admin/cancellation-rule-actions'
+import { describeCancellationPolicy, formatNotice, formatRefund, getEffectiveRules } from '@/lib/cancellation-policies'
+import { ArrowLeft, Plus } from 'lucide-react'
+import Link from 'next/link'
+import type { CancellationPolicyRule, VenueType } from '@/types/database'
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getRules(): Promise<CancellationPolicyRule[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('cancellation_policy_rules')
+    .select('*')
+    .order('min_hours_before_start', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching cancellation rules:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function getVenueTypes(): Promise<Pick<VenueType, 'id' | 'name'>[]> {
+  const supabase = await createClient()
+
+  const { data } = await supabase.from('venue_types').select('id, name').order('name')
+
+  return data || []
+}
+
+function CancellationPoliciesSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  )
+}
+
+function RuleList({ rules, venueTypes }: { rules: CancellationPolicyRule[], venueTypes: Pick<VenueType, 'id' | 'name'>[] }) {
+  return (
+    <div className="space-y-3">
+      {rules.map((rule) => (
+        <div key={rule.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+          <div className="flex items-center gap-3">
+            <span className="font-medium">{formatNotice(rule.min_hours_before_start)}</span>
+            <Badge variant={rule.refund_percentage > 0 ? 'default' : 'outline'}>
+              {formatRefund(rule.refund_percentage)}
+            </Badge>
+          </div>
+
+          <CancellationRuleActions rule={rule} venueTypes={venueTypes} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+async function CancellationPoliciesContent() {
+  await checkAdminAccess()
+
+  const [rules, venueTypes] = await Promise.all([
+    getRules(),
+    getVenueTypes()
+  ])
+
+  const globalRules = getEffectiveRules(rules)
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Cancellation Policies</h1>
+            <p className="text-muted-foreground">
+              How much of a booking is refunded when it is cancelled
+            </p>
+          </div>
+        </div>
+
+        <CancellationRuleDialog
+          venueTypes={venueTypes}
+          trigger={
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          }
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Venue Types</CardTitle>
+          <CardDescription>
+            Used by every venue type without rules of its own. Nothing is refunded once a booking has started.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {globalRules.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No global rules: cancellations are not refunded.
+            </p>
+          ) : (
+            <RuleList rules={globalRules} venueTypes={venueTypes} />
+          )}
+        </CardContent>
+      </Card>
+
+      {venueTypes.map((venueType) => {
+        const ownRules = rules.filter(rule => rule.venue_type_id === venueType.id)
+
+        return (
+          <Card key={venueType.id}>
+            <CardHeader>
+              <CardTitle>{venueType.name}</CardTitle>
+              <CardDescription>
+                {ownRules.length > 0
+                  ? 'Has its own rules, which replace the global ones'
+                  : `Follows the global rules: ${describeCancellationPolicy(globalRules).join('; ') || 'no refunds'}`}
+              </CardDescription>
+            </CardHeader>
+            {ownRules.length > 0 && (
+              <CardContent>
+                <RuleList rules={ownRules} venueTypes={venueTypes} />
+              </CardContent>
+            )}
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
+
+export default function AdminCancellationPoliciesPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<CancellationPoliciesSkeleton />}>
+        <CancellationPoliciesContent />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Cancellation Policies - Orange Sport Center',
+  description: 'Manage refunds for cancelled bookings.',
+}
@@ -0,0 +1,254 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CheckInButton, CheckInDesk } from '@/components/features/admin/check-in-desk'
+import { CHECK_IN_OPENS_MINUTES } from '@/lib/check-in'
+import { ArrowLeft, CalendarCheck } from 'lucide-react'
+import Link from 'next/link'
+import type { Profile, Reservation, Venue } from '@/types/database'
+
+type ArrivalReservation = Pick<
+  Reservation,
+  | 'id'
+  | 'reservation_code'
+  | 'start_time'
+  | 'end_time'
+  | 'status'
+  | 'payment_status'
+  | 'checked_in_at'
+  | 'customer_name'
+  | 'customer_phone'
+> & {
+  venue: Pick<Venue, 'name'> | null
+  user: Pick<Profile, 'full_name' | 'phone'> | null
+}
+
+interface CheckInPageProps {
+  searchParams: Promise<{
+    venue?: string
+  }>
+}
+
+async function checkStaffAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['staff', 'admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getVenues(): Promise<Pick<Venue, 'id' | 'name'>[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('venues')
+    .select('id, name')
+    .eq('is_active', true)
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching venues:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Today's paid bookings, with who has arrived so far
+async function getArrivals(venueId?: string): Promise<ArrivalReservation[]> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('reservations')
+    .select(`
+      id,
+      reservation_code,
+      start_time,
+      end_time,
+      status,
+      payment_status,
+      checked_in_at,
+      customer_name,
+      customer_phone,
+      venue:venues(
+        name
+      ),
+      user:profiles!reservations_user_id_fkey(
+        full_name,
+        phone
+      )
+    `)
+    .eq('reservation_date', format(new Date(), 'yyyy-MM-dd'))
+    .in('status', ['confirmed', 'completed', 'no_show'])
+    .order('start_time')
+
+  if (venueId) {
+    query = query.eq('venue_id', venueId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching arrivals:', error)
+    return []
+  }
+
+  return data || []
+}
+
+function ArrivalStatus({ reservation }: { reservation: ArrivalReservation }) {
+  if (reservation.checked_in_at) {
+    return (
+      <Badge className="bg-blue-100 text-blue-800">
+        Checked in {format(parseISO(reservation.checked_in_at), 'HH:mm')}
+      </Badge>
+    )
+  }
+
+  if (reservation.status === 'no_show') {
+    return <Badge className="bg-orange-100 text-orange-800">No-show</Badge>
+  }
+
+  return <Badge variant="outline">Expected</Badge>
+}
+
+function CheckInSkeleton() {
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div className="flex items-center gap-4">
+        <Skeleton className="h-9 w-20" />
+        <div>
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-80" />
+        </div>
+      </div>
+      <Skeleton className="h-9 w-full" />
+      <div className="space-y-3">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+async function CheckInContent({ venueId }: { venueId?: string }) {
+  await checkStaffAccess()
+
+  const venues = await getVenues()
+  const venue = venues.find(v => v.id === venueId)
+  const arrivals = await getArrivals(venue?.id)
+  const arrived = arrivals.filter(r => r.checked_in_at).length
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Front Desk Check-in</h1>
+          <p className="text-muted-foreground">
+            Scan the QR code on the customer&apos;s confirmation or invoice. Check-in opens {CHECK_IN_OPENS_MINUTES} minutes before the booking starts.
+          </p>
+        </div>
+      </div>
+
+      {/* Venue Picker */}
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={venue ? 'outline' : 'default'} asChild>
+          <Link href="/admin/check-in">All venues</Link>
+        </Button>
+        {venues.map((v) => (
+          <Button key={v.id} size="sm" variant={v.id === venue?.id ? 'default' : 'outline'} asChild>
+            <Link href={`/admin/check-in?venue=${v.id}`}>{v.name}</Link>
+          </Button>
+        ))}
+      </div>
+
+      <CheckInDesk venueId={venue?.id} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Today&apos;s Bookings</CardTitle>
+          <CardDescription>
+            {venue?.name ?? 'All venues'} · {arrived} of {arrivals.length} checked in
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {arrivals.length === 0 ? (
+            <div className="text-center py-12">
+              <CalendarCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No confirmed bookings today.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {arrivals.map((reservation) => (
+                <div key={reservation.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {reservation.start_time.slice(0, 5)} - {reservation.end_time.slice(0, 5)}
+                      </span>
+                      <span>{reservation.user?.full_name || reservation.customer_name || 'Unknown customer'}</span>
+                      <ArrivalStatus reservation={reservation} />
+                    </div>
+                    <p className="text-muted-foreground">
+                      <span className="font-mono">{reservation.reservation_code}</span>
+                      {!venue && reservation.venue && ` · ${reservation.venue.name}`}
+                      {(reservation.user?.phone || reservation.customer_phone) && ` · ${reservation.user?.phone || reservation.customer_phone}`}
+                    </p>
+                  </div>
+
+                  {reservation.status === 'confirmed' && !reservation.checked_in_at && (
+                    <CheckInButton reservationCode={reservation.reservation_code} venueId={venue?.id} />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default async function AdminCheckInPage({ searchParams }: CheckInPageProps) {
+  const { venue } = await searchParams
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<CheckInSkeleton />}>
+        <CheckInContent venueId={venue} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Check-in - Orange Sport Center',
+  description: 'Check customers in at the front desk.',
+}
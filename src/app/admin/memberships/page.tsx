@@ -0,0 +1,285 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { MembershipTierDialog } from '@/components/features/admin/membership-tier-dialog'
+import { GrantMembershipDialog } from '@/components/features/admin/grant-membership-dialog'
+import { MembershipActions } from '@/components/features/admin/membership-actions'
+import { MEMBERSHIP_RENEWAL_NOTICE_DAYS, getMembershipDaysLeft } from '@/lib/memberships'
+import { formatCurrency } from '@/lib/utils'
+import { ArrowLeft, Crown, Pencil, Plus } from 'lucide-react'
+import Link from 'next/link'
+import type { Membership, MembershipTier, Profile } from '@/types/database'
+
+type AdminMembership = Membership & {
+  user: Pick<Profile, 'full_name' | 'phone'> | null
+  tier: Pick<MembershipTier, 'name'> | null
+}
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getTiers(): Promise<MembershipTier[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('membership_tiers')
+    .select('*')
+    .order('sort_order')
+    .order('price')
+
+  if (error) {
+    console.error('Error fetching membership tiers:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Current and upcoming (renewed) memberships
+async function getMemberships(): Promise<AdminMembership[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('memberships')
+    .select(`
+      *,
+      user:profiles!memberships_user_id_fkey(
+        full_name,
+        phone
+      ),
+      tier:membership_tiers(
+        name
+      )
+    `)
+    .eq('status', 'active')
+    .gt('expires_at', new Date().toISOString())
+    .order('expires_at')
+
+  if (error) {
+    console.error('Error fetching memberships:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function getCustomers(): Promise<Pick<Profile, 'id' | 'full_name' | 'phone'>[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, phone')
+    .in('role', ['customer', 'member'])
+    .order('full_name')
+
+  if (error) {
+    console.error('Error fetching customers:', error)
+    return []
+  }
+
+  return data || []
+}
+
+function MembershipsSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  )
+}
+
+async function MembershipsContent() {
+  await checkAdminAccess()
+
+  const [tiers, memberships, customers] = await Promise.all([
+    getTiers(),
+    getMemberships(),
+    getCustomers()
+  ])
+
+  const activeTiers = tiers.filter(tier => tier.is_active)
+  const now = new Date()
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Memberships</h1>
+            <p className="text-muted-foreground">
+              Membership tiers and current members
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <MembershipTierDialog
+            trigger={
+              <Button variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Tier
+              </Button>
+            }
+          />
+          <GrantMembershipDialog
+            customers={customers}
+            tiers={activeTiers}
+            trigger={
+              <Button disabled={activeTiers.length === 0}>
+                <Crown className="h-4 w-4 mr-2" />
+                Sell Membership
+              </Button>
+            }
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tiers</CardTitle>
+          <CardDescription>
+            Members get the tier discount on bookings and can book further ahead
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tiers.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No membership tiers yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {tiers.map((tier) => (
+                <div key={tier.id} className="p-4 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{tier.name}</p>
+                      {!tier.is_active && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    <MembershipTierDialog
+                      tier={tier}
+                      trigger={
+                        <Button size="sm" variant="outline">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      }
+                    />
+                  </div>
+                  <p className="text-lg font-bold">
+                    {formatCurrency(tier.price)}
+                    <span className="text-sm font-normal text-muted-foreground"> / {tier.duration_days} days</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {tier.discount_percentage}% off bookings · book {tier.booking_window_days} days ahead
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {memberships.filter(m => m.tier_id === tier.id && new Date(m.starts_at) <= now).length} current members
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Current memberships and renewals that haven&apos;t started yet
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {memberships.length === 0 ? (
+            <div className="text-center py-12">
+              <Crown className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No active memberships.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {memberships.map((membership) => {
+                const upcoming = new Date(membership.starts_at) > now
+                const daysLeft = getMembershipDaysLeft(membership.expires_at, now)
+                const customerName = membership.user?.full_name || 'Unknown customer'
+
+                return (
+                  <div key={membership.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{customerName}</p>
+                        <Badge variant="outline">{membership.tier?.name}</Badge>
+                        {upcoming && <Badge variant="secondary">Renewal</Badge>}
+                        {!upcoming && daysLeft <= MEMBERSHIP_RENEWAL_NOTICE_DAYS && (
+                          <Badge variant="destructive">Expires in {daysLeft} days</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {format(parseISO(membership.starts_at), 'MMM d, yyyy')} - {format(parseISO(membership.expires_at), 'MMM d, yyyy')}
+                        {' · '}
+                        {formatCurrency(membership.price_paid)} paid
+                        {membership.user?.phone && ` · ${membership.user.phone}`}
+                      </p>
+                    </div>
+
+                    <MembershipActions
+                      membership={membership}
+                      customerName={customerName}
+                      customers={customers}
+                      tiers={activeTiers}
+                    />
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function AdminMembershipsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<MembershipsSkeleton />}>
+        <MembershipsContent />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Memberships - Orange Sport Center',
+  description: 'Manage membership tiers and members.',
+}
@@ -19,6 +19,7 @@ import {
   XCircle
 } from 'lucide-react'
 import Link from 'next/link'
+import { format } from 'date-fns'
 
 interface AdminStats {
   totalRevenue: number
@@ -38,7 +39,7 @@ interface RecentReservation {
   end_time: string
   status: string
   total_price: number
-  created_at: string
+  created_at: string | null
 }
 
 interface VenueStats {
@@ -64,7 +65,7 @@ async function checkAdminAccess() {
     .eq('id', user.id)
     .single()
   
-  if (error || !profile || !['admin', 'superadmin'].includes(profile.role)) {
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
     redirect('/dashboard')
   }
   
@@ -77,22 +78,19 @@ async function getAdminStats(): Promise<AdminStats> {
   const currentDate = new Date()
   const firstDayOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)
   
-  // Get total revenue from completed payments
+  // Get total revenue (collected payments minus refunds)
   const { data: totalRevenueData } = await supabase
-    .from('payments')
-    .select('amount')
-    .eq('payment_status', 'completed')
+    .rpc('get_payment_revenue')
   
-  const totalRevenue = totalRevenueData?.reduce((sum, payment) => sum + payment.amount, 0) || 0
+  const totalRevenue = Number(totalRevenueData?.[0]?.net_revenue) || 0
   
   // Get monthly revenue
   const { data: monthlyRevenueData } = await supabase
-    .from('payments')
-    .select('amount')
-    .eq('payment_status', 'completed')
-    .gte('created_at', firstDayOfMonth.toISOString())
+    .rpc('get_payment_revenue', {
+      p_start_date: format(firstDayOfMonth, 'yyyy-MM-dd')
+    })
   
-  const monthlyRevenue = monthlyRevenueData?.reduce((sum, payment) => sum + payment.amount, 0) || 0
+  const monthlyRevenue = Number(monthlyRevenueData?.[0]?.net_revenue) || 0
   
   // Get total reservations
   const { count: totalReservations } = await supabase
@@ -139,7 +137,7 @@ async function getRecentReservations(): Promise<RecentReservation[]> {
       status,
       total_price,
       created_at,
-      user:profiles(
+      user:profiles!reservations_user_id_fkey(
         full_name
       ),
       venue:venues(
@@ -161,7 +159,7 @@ async function getRecentReservations(): Promise<RecentReservation[]> {
     reservation_date: reservation.reservation_date,
     start_time: reservation.start_time,
     end_time: reservation.end_time,
-    status: reservation.status,
+    status: reservation.status || 'pending',
     total_price: reservation.total_price,
     created_at: reservation.created_at
   })) || []
@@ -256,6 +254,7 @@ function ReservationRow({ reservation }: { reservation: RecentReservation }) {
       case 'pending': return <AlertCircle className="h-4 w-4 text-yellow-500" />
       case 'cancelled': return <XCircle className="h-4 w-4 text-red-500" />
       case 'completed': return <CheckCircle className="h-4 w-4 text-blue-500" />
+      case 'no_show': return <XCircle className="h-4 w-4 text-orange-500" />
       default: return <AlertCircle className="h-4 w-4 text-gray-500" />
     }
   }
@@ -266,6 +265,7 @@ function ReservationRow({ reservation }: { reservation: RecentReservation }) {
       case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'cancelled': return 'bg-red-100 text-red-800'
       case 'completed': return 'bg-blue-100 text-blue-800'
+      case 'no_show': return 'bg-orange-100 text-orange-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -346,6 +346,36 @@ async function AdminContent() {
           <Button variant="outline" asChild>
             <Link href="/admin/reservations">View Reservations</Link>
           </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/reviews">Moderate Reviews</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/special-dates">Special Dates</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/promo-codes">Promo Codes</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/memberships">Memberships</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/cancellation-policies">Cancellation Policies</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/waitlists">Waitlists</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/check-in">Check-in</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/schedule">Schedule Board</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/bookings/new">New Booking</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/audit">Audit Log</Link>
+          </Button>
         </div>
       </div>
       
@@ -0,0 +1,324 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { PromoCodeDialog } from '@/components/features/admin/promo-code-dialog'
+import { PromoCodeActions } from '@/components/features/admin/promo-code-actions'
+import { PROMO_CODE_STATUS_LABELS, formatPromoDiscount, getPromoCodeStatus } from '@/lib/promo-codes'
+import { formatCurrency } from '@/lib/utils'
+import { ArrowLeft, Plus, Tag } from 'lucide-react'
+import Link from 'next/link'
+import type { Profile, PromoCode, Reservation, Venue, VenueType } from '@/types/database'
+
+type AdminPromoCode = PromoCode & {
+  venue: Pick<Venue, 'name'> | null
+  venue_type: Pick<VenueType, 'name'> | null
+}
+
+type Redemption = Pick<
+  Reservation,
+  'id' | 'reservation_code' | 'promo_code_id' | 'reservation_date' | 'base_price' | 'discount_amount' | 'total_price' | 'status' | 'created_at'
+> & {
+  user: Pick<Profile, 'full_name'> | null
+  venue: Pick<Venue, 'name'> | null
+}
+
+interface PromoCodeUsage {
+  redemptions: number
+  discountGiven: number
+}
+
+// Rows shown in the redemption report
+const RECENT_REDEMPTIONS = 50
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getPromoCodes(): Promise<AdminPromoCode[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select(`
+      *,
+      venue:venues(
+        name
+      ),
+      venue_type:venue_types(
+        name
+      )
+    `)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching promo codes:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function getRedemptions(): Promise<Redemption[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('reservations')
+    .select(`
+      id,
+      reservation_code,
+      promo_code_id,
+      reservation_date,
+      base_price,
+      discount_amount,
+      total_price,
+      status,
+      created_at,
+      user:profiles!reservations_user_id_fkey(
+        full_name
+      ),
+      venue:venues(
+        name
+      )
+    `)
+    .not('promo_code_id', 'is', null)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching promo code redemptions:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function getVenueOptions() {
+  const supabase = await createClient()
+
+  const [{ data: venues }, { data: venueTypes }] = await Promise.all([
+    supabase.from('venues').select('id, name').order('name'),
+    supabase.from('venue_types').select('id, name').order('name'),
+  ])
+
+  return { venues: venues || [], venueTypes: venueTypes || [] }
+}
+
+// Cancelled bookings give their use back, as in evaluate_promo_code()
+function getUsage(redemptions: Redemption[]) {
+  const usage = new Map<string, PromoCodeUsage>()
+
+  for (const redemption of redemptions) {
+    if (!redemption.promo_code_id || redemption.status === 'cancelled') continue
+
+    const current = usage.get(redemption.promo_code_id) ?? { redemptions: 0, discountGiven: 0 }
+    usage.set(redemption.promo_code_id, {
+      redemptions: current.redemptions + 1,
+      discountGiven: current.discountGiven + redemption.discount_amount,
+    })
+  }
+
+  return usage
+}
+
+function getRestrictionLabel(promoCode: AdminPromoCode) {
+  const restrictions = [promoCode.venue_type?.name, promoCode.venue?.name].filter(Boolean)
+  return restrictions.length > 0 ? restrictions.join(', ') : 'All venues'
+}
+
+function getValidityLabel(promoCode: PromoCode) {
+  const from = promoCode.valid_from ? format(parseISO(promoCode.valid_from), 'MMM d, yyyy') : null
+  const until = promoCode.valid_until ? format(parseISO(promoCode.valid_until), 'MMM d, yyyy') : null
+
+  if (from && until) return `${from} - ${until}`
+  if (from) return `From ${from}`
+  if (until) return `Until ${until}`
+  return 'No end date'
+}
+
+function PromoCodesSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  )
+}
+
+async function PromoCodesContent() {
+  await checkAdminAccess()
+
+  const [promoCodes, redemptions, { venues, venueTypes }] = await Promise.all([
+    getPromoCodes(),
+    getRedemptions(),
+    getVenueOptions()
+  ])
+
+  const usage = getUsage(redemptions)
+  const codesById = new Map(promoCodes.map(promoCode => [promoCode.id, promoCode.code]))
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Promo Codes</h1>
+            <p className="text-muted-foreground">
+              Discount codes and their redemptions
+            </p>
+          </div>
+        </div>
+
+        <PromoCodeDialog
+          venues={venues}
+          venueTypes={venueTypes}
+          trigger={
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Code
+            </Button>
+          }
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Codes</CardTitle>
+          <CardDescription>
+            Uses count bookings that haven&apos;t been cancelled
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {promoCodes.length === 0 ? (
+            <div className="text-center py-12">
+              <Tag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No promo codes yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {promoCodes.map((promoCode) => {
+                const codeUsage = usage.get(promoCode.id) ?? { redemptions: 0, discountGiven: 0 }
+                const status = getPromoCodeStatus(promoCode, codeUsage.redemptions)
+
+                return (
+                  <div key={promoCode.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-mono font-medium">{promoCode.code}</p>
+                        <Badge variant={status === 'active' ? 'default' : 'outline'}>
+                          {PROMO_CODE_STATUS_LABELS[status]}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {formatPromoDiscount(promoCode)}
+                        {promoCode.min_spend > 0 && ` · Min. spend ${formatCurrency(promoCode.min_spend)}`}
+                        {' · '}
+                        {getRestrictionLabel(promoCode)}
+                        {' · '}
+                        {getValidityLabel(promoCode)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {codeUsage.redemptions}{promoCode.usage_limit !== null && ` / ${promoCode.usage_limit}`} uses
+                        {promoCode.per_user_limit !== null && ` · ${promoCode.per_user_limit} per customer`}
+                        {' · '}
+                        {formatCurrency(codeUsage.discountGiven)} discount given
+                      </p>
+                    </div>
+
+                    <PromoCodeActions promoCode={promoCode} venues={venues} venueTypes={venueTypes} />
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Redemptions</CardTitle>
+          <CardDescription>
+            The latest {RECENT_REDEMPTIONS} bookings made with a promo code
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {redemptions.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No promo codes have been redeemed yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {redemptions.slice(0, RECENT_REDEMPTIONS).map((redemption) => (
+                <div key={redemption.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-medium">
+                        {redemption.promo_code_id ? codesById.get(redemption.promo_code_id) : null}
+                      </span>
+                      <span className="text-muted-foreground">#{redemption.reservation_code}</span>
+                      {redemption.status === 'cancelled' && <Badge variant="outline">Cancelled</Badge>}
+                    </div>
+                    <p className="text-muted-foreground">
+                      {redemption.user?.full_name || 'Unknown customer'}
+                      {' · '}
+                      {redemption.venue?.name}
+                      {' · '}
+                      {format(parseISO(redemption.reservation_date), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium text-green-600">-{formatCurrency(redemption.discount_amount)}</p>
+                    <p className="text-muted-foreground">{formatCurrency(redemption.total_price)} paid</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function AdminPromoCodesPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<PromoCodesSkeleton />}>
+        <PromoCodesContent />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Promo Codes - Orange Sport Center',
+  description: 'Manage promo codes and review redemptions.',
+}
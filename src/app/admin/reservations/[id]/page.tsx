@@ -0,0 +1,215 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { notFound, redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AuditEntryList } from '@/components/features/admin/audit-entry-list'
+import { getInvoiceUrl } from '@/lib/invoices'
+import { ArrowLeft, Download, History } from 'lucide-react'
+import Link from 'next/link'
+import type { AuditLogEntry, Profile, Reservation, Venue } from '@/types/database'
+
+type AdminReservation = Reservation & {
+  user: Pick<Profile, 'full_name' | 'phone'> | null
+  venue: Pick<Venue, 'name'> | null
+}
+
+interface ReservationDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getReservation(id: string): Promise<AdminReservation | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('reservations')
+    .select(`
+      *,
+      user:profiles!reservations_user_id_fkey(
+        full_name,
+        phone
+      ),
+      venue:venues(
+        name
+      )
+    `)
+    .eq('id', id)
+    .single()
+
+  if (error || !data) {
+    return null
+  }
+
+  return data
+}
+
+async function getTimeline(id: string): Promise<AuditLogEntry[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('get_reservation_timeline', { p_reservation_id: id })
+
+  if (error) {
+    console.error('Error fetching reservation timeline:', error)
+    return []
+  }
+
+  return data || []
+}
+
+function ReservationDetailSkeleton() {
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <Skeleton className="h-8 w-48" />
+      <Skeleton className="h-48" />
+      <Skeleton className="h-96" />
+    </div>
+  )
+}
+
+async function ReservationDetailContent({ id }: { id: string }) {
+  await checkAdminAccess()
+
+  const reservation = await getReservation(id)
+
+  if (!reservation) {
+    notFound()
+  }
+
+  const timeline = await getTimeline(id)
+  const customerName = reservation.user?.full_name || reservation.customer_name || 'Unknown'
+  const customerPhone = reservation.user?.phone || reservation.customer_phone
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/reservations">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold">Reservation {reservation.reservation_code}</h1>
+          <p className="text-muted-foreground">
+            {reservation.venue?.name} · {format(parseISO(reservation.reservation_date), 'EEE, MMM d, yyyy')} · {reservation.start_time.slice(0, 5)} - {reservation.end_time.slice(0, 5)}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={getInvoiceUrl(reservation.id)}>
+            <Download className="h-4 w-4 mr-2" />
+            Invoice
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-1 gap-4 text-sm md:grid-cols-3">
+            <div>
+              <dt className="text-muted-foreground">Customer</dt>
+              <dd className="font-medium">
+                {customerName}
+                {!reservation.user_id && <Badge variant="outline" className="ml-2">Walk-in</Badge>}
+              </dd>
+              {customerPhone && <dd>{customerPhone}</dd>}
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Status</dt>
+              <dd><Badge variant="outline">{reservation.status || 'pending'}</Badge></dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Payment</dt>
+              <dd>
+                <Badge variant={reservation.payment_status === 'paid' ? 'default' : 'outline'}>
+                  {(reservation.payment_status || 'pending').replace('_', ' ')}
+                </Badge>
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Total</dt>
+              <dd className="font-medium">Rp {reservation.total_price.toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Paid</dt>
+              <dd>Rp {Number(reservation.amount_paid).toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Booked</dt>
+              <dd>{reservation.created_at ? format(parseISO(reservation.created_at), 'MMM d, yyyy HH:mm') : '-'}</dd>
+            </div>
+          </dl>
+          {reservation.notes && (
+            <p className="mt-4 border-t pt-4 text-sm text-muted-foreground">
+              <strong>Notes:</strong> {reservation.notes}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Timeline
+          </CardTitle>
+          <CardDescription>Every change to this reservation and its financial transactions, oldest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {timeline.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">
+              No changes recorded. Reservations made before the audit log was added have no history.
+            </p>
+          ) : (
+            <AuditEntryList entries={timeline} showEntity={false} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default async function AdminReservationDetailPage({ params }: ReservationDetailPageProps) {
+  const { id } = await params
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<ReservationDetailSkeleton />}>
+        <ReservationDetailContent id={id} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Reservation - Orange Sport Center',
+  description: 'Reservation details and change history.',
+}
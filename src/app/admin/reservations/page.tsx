@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Input } from '@/components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { getInvoiceUrl } from '@/lib/invoices'
+import type { Enums } from '@/types/database'
 import { 
   Calendar, 
   Search, 
@@ -21,10 +23,9 @@ import {
   User,
   //MapPin,
   DollarSign,
-  Phone,
-  Mail
+  Phone
 } from 'lucide-react'
-//import Link from 'next/link'
+import Link from 'next/link'
 
 interface Reservation {
   id: string
@@ -33,27 +34,25 @@ interface Reservation {
   end_time: string
   status: string
   total_price: number
-  discount_percent: number
-  customer_name: string
-  customer_phone: string
-  customer_email: string
-  notes?: string
-  created_at: string
+  discount_percentage: number | null
+  notes: string | null
+  created_at: string | null
+  checked_in_at: string | null
+  user_id: string | null
+  customer_name: string | null
+  customer_phone: string | null
   user: {
     full_name: string
-    email: string
-  }
+    phone: string | null
+  } | null
   venue: {
     name: string
     venue_type: {
       name: string
     }
   }
-  payment?: {
-    payment_status: string
-    payment_method: string
-    amount: number
-  }
+  payment_status: string
+  amount_paid: number
 }
 
 interface ReservationStats {
@@ -80,14 +79,14 @@ async function checkAdminAccess() {
     .eq('id', user.id)
     .single()
   
-  if (error || !profile || !['admin', 'superadmin'].includes(profile.role)) {
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
     redirect('/dashboard')
   }
   
   return profile
 }
 
-async function getReservations(status?: string): Promise<Reservation[]> {
+async function getReservations(status?: Enums<'reservation_status'> | 'all'): Promise<Reservation[]> {
   const supabase = await createClient()
   
   let query = supabase
@@ -99,26 +98,24 @@ async function getReservations(status?: string): Promise<Reservation[]> {
       end_time,
       status,
       total_price,
-      discount_percent,
-      customer_name,
-      customer_phone,
-      customer_email,
+      discount_percentage,
       notes,
+      payment_status,
+      amount_paid,
       created_at,
-      user:profiles(
+      checked_in_at,
+      user_id,
+      customer_name,
+      customer_phone,
+      user:profiles!reservations_user_id_fkey(
         full_name,
-        email
+        phone
       ),
       venue:venues(
         name,
         venue_type:venue_types(
           name
         )
-      ),
-      payment:payments(
-        payment_status,
-        payment_method,
-        amount
       )
     `)
     .order('created_at', { ascending: false })
@@ -136,9 +133,8 @@ async function getReservations(status?: string): Promise<Reservation[]> {
   
   return data?.map(reservation => ({
     ...reservation,
-    user: reservation.user as any,
-    venue: reservation.venue as any,
-    payment: Array.isArray(reservation.payment) ? reservation.payment[0] : reservation.payment
+    status: reservation.status || 'pending',
+    payment_status: reservation.payment_status || 'pending'
   })) || []
 }
 
@@ -171,13 +167,11 @@ async function getReservationStats(): Promise<ReservationStats> {
     .select('*', { count: 'exact', head: true })
     .eq('status', 'cancelled')
   
-  // Get total revenue from completed payments
-  const { data: payments } = await supabase
-    .from('payments')
-    .select('amount')
-    .eq('payment_status', 'completed')
+  // Get total revenue (collected payments minus refunds)
+  const { data: revenue } = await supabase
+    .rpc('get_payment_revenue')
   
-  const totalRevenue = payments?.reduce((sum, payment) => sum + payment.amount, 0) || 0
+  const totalRevenue = Number(revenue?.[0]?.net_revenue) || 0
   
   return {
     total: total || 0,
@@ -248,6 +242,7 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
       case 'pending': return <AlertCircle className="h-4 w-4 text-yellow-500" />
       case 'cancelled': return <XCircle className="h-4 w-4 text-red-500" />
       case 'completed': return <CheckCircle className="h-4 w-4 text-blue-500" />
+      case 'no_show': return <XCircle className="h-4 w-4 text-orange-500" />
       default: return <AlertCircle className="h-4 w-4 text-gray-500" />
     }
   }
@@ -258,6 +253,7 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
       case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'cancelled': return 'bg-red-100 text-red-800'
       case 'completed': return 'bg-blue-100 text-blue-800'
+      case 'no_show': return 'bg-orange-100 text-orange-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -285,6 +281,11 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
                 Upcoming
               </Badge>
             )}
+            {reservation.checked_in_at && (
+              <Badge variant="outline" className="ml-2 text-xs">
+                Checked in {new Date(reservation.checked_in_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Badge>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -294,16 +295,15 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
         <div className="space-y-2">
           <div className="flex items-center gap-2 text-sm">
             <User className="h-4 w-4 text-muted-foreground" />
-            <span className="font-medium">{reservation.customer_name}</span>
-          </div>
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <Phone className="h-4 w-4" />
-            <span>{reservation.customer_phone}</span>
-          </div>
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <Mail className="h-4 w-4" />
-            <span>{reservation.customer_email}</span>
+            <span className="font-medium">{reservation.user?.full_name || reservation.customer_name || 'Unknown'}</span>
+            {!reservation.user_id && <Badge variant="outline">Walk-in</Badge>}
           </div>
+          {(reservation.user?.phone || reservation.customer_phone) && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Phone className="h-4 w-4" />
+              <span>{reservation.user?.phone || reservation.customer_phone}</span>
+            </div>
+          )}
         </div>
         
         {/* Booking Details */}
@@ -319,29 +319,27 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
           <div className="flex items-center gap-2 text-sm">
             <DollarSign className="h-4 w-4 text-muted-foreground" />
             <span className="font-medium">Rp {reservation.total_price.toLocaleString()}</span>
-            {reservation.discount_percent > 0 && (
+            {!!reservation.discount_percentage && reservation.discount_percentage > 0 && (
               <Badge variant="outline" className="text-xs">
-                {reservation.discount_percent}% off
+                {reservation.discount_percentage}% off
               </Badge>
             )}
           </div>
         </div>
         
         {/* Payment Status */}
-        {reservation.payment && (
-          <div className="pt-2 border-t">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-muted-foreground">Payment:</span>
-              <Badge variant={reservation.payment.payment_status === 'completed' ? 'default' : 'outline'}>
-                {reservation.payment.payment_status}
-              </Badge>
-            </div>
-            <div className="flex items-center justify-between text-sm mt-1">
-              <span className="text-muted-foreground">Method:</span>
-              <span>{reservation.payment.payment_method}</span>
-            </div>
+        <div className="pt-2 border-t">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Payment:</span>
+            <Badge variant={reservation.payment_status === 'paid' ? 'default' : 'outline'}>
+              {reservation.payment_status.replace('_', ' ')}
+            </Badge>
           </div>
-        )}
+          <div className="flex items-center justify-between text-sm mt-1">
+            <span className="text-muted-foreground">Paid:</span>
+            <span>Rp {Number(reservation.amount_paid).toLocaleString()}</span>
+          </div>
+        </div>
         
         {/* Notes */}
         {reservation.notes && (
@@ -374,8 +372,13 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
               </Button>
             </>
           )}
-          <Button size="sm" variant="outline" className="px-3">
-            View Details
+          <Button size="sm" variant="outline" className="px-3" asChild>
+            <a href={getInvoiceUrl(reservation.id)} title="Download invoice">
+              <Download className="h-4 w-4" />
+            </a>
+          </Button>
+          <Button size="sm" variant="outline" className="px-3" asChild>
+            <Link href={`/admin/reservations/${reservation.id}`}>View Details</Link>
           </Button>
         </div>
       </CardContent>
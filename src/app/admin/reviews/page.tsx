@@ -0,0 +1,314 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ReviewModerationActions } from '@/components/features/admin/review-moderation-actions'
+import { ArrowLeft, Flag, EyeOff, MessageSquare, Star, ThumbsUp } from 'lucide-react'
+import Link from 'next/link'
+import type { Review } from '@/types/database'
+
+interface AdminReview {
+  id: string
+  rating: number
+  comment: string | null
+  status: Review['status']
+  helpful_count: number
+  moderation_note: string | null
+  moderated_at: string | null
+  created_at: string
+  user: {
+    full_name: string
+  } | null
+  venue: {
+    name: string
+  } | null
+}
+
+interface ReviewStats {
+  total: number
+  published: number
+  flagged: number
+  hidden: number
+}
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getReviews(): Promise<AdminReview[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .select(`
+      id,
+      rating,
+      comment,
+      status,
+      helpful_count,
+      moderation_note,
+      moderated_at,
+      created_at,
+      user:profiles!reviews_user_id_fkey(
+        full_name
+      ),
+      venue:venues(
+        name
+      )
+    `)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching reviews:', error)
+    return []
+  }
+
+  return (data || []) as unknown as AdminReview[]
+}
+
+function getReviewStats(reviews: AdminReview[]): ReviewStats {
+  return {
+    total: reviews.length,
+    published: reviews.filter(r => r.status === 'published').length,
+    flagged: reviews.filter(r => r.status === 'flagged').length,
+    hidden: reviews.filter(r => r.status === 'hidden').length,
+  }
+}
+
+function ReviewsSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <Skeleton className="h-8 w-48" />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-32" />
+          ))}
+        </div>
+
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  )
+}
+
+function ReviewRow({ review }: { review: AdminReview }) {
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'published': return 'bg-green-100 text-green-800'
+      case 'flagged': return 'bg-yellow-100 text-yellow-800'
+      case 'hidden': return 'bg-gray-100 text-gray-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">{review.venue?.name || 'Unknown venue'}</p>
+          <p className="text-sm text-muted-foreground">
+            {review.user?.full_name || 'Unknown'}
+            {review.created_at && ` · ${new Date(review.created_at).toLocaleDateString()}`}
+          </p>
+        </div>
+        <Badge className={getStatusColor(review.status || 'published')}>
+          {review.status}
+        </Badge>
+      </div>
+
+      <div className="flex items-center gap-4 text-sm">
+        <div className="flex items-center gap-1">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Star
+              key={i}
+              className={`h-4 w-4 ${i < review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+            />
+          ))}
+        </div>
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <ThumbsUp className="h-3 w-3" />
+          {review.helpful_count}
+        </span>
+      </div>
+
+      {review.comment && (
+        <p className="text-sm text-gray-700">{review.comment}</p>
+      )}
+
+      {review.moderation_note && (
+        <p className="text-xs text-muted-foreground">
+          <strong>Moderation note:</strong> {review.moderation_note}
+        </p>
+      )}
+
+      <ReviewModerationActions
+        reviewId={review.id}
+        status={review.status}
+        moderationNote={review.moderation_note}
+      />
+    </div>
+  )
+}
+
+function ReviewList({ reviews, emptyMessage }: { reviews: AdminReview[], emptyMessage: string }) {
+  if (reviews.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">{emptyMessage}</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map((review) => (
+        <ReviewRow key={review.id} review={review} />
+      ))}
+    </div>
+  )
+}
+
+async function ReviewsContent() {
+  await checkAdminAccess()
+
+  const reviews = await getReviews()
+  const stats = getReviewStats(reviews)
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Review Moderation</h1>
+          <p className="text-muted-foreground">
+            Hide or flag customer reviews that break the venue guidelines
+          </p>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Reviews</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.total}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-green-600">Published</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.published}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-yellow-600">Flagged</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.flagged}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Hidden</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.hidden}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="all" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="all">All ({stats.total})</TabsTrigger>
+          <TabsTrigger value="flagged">
+            <Flag className="h-4 w-4 mr-1" />
+            Flagged ({stats.flagged})
+          </TabsTrigger>
+          <TabsTrigger value="hidden">
+            <EyeOff className="h-4 w-4 mr-1" />
+            Hidden ({stats.hidden})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="all">
+          <Card>
+            <CardHeader>
+              <CardTitle>All Reviews</CardTitle>
+              <CardDescription>Newest reviews first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReviewList reviews={reviews} emptyMessage="No reviews have been written yet." />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="flagged">
+          <ReviewList
+            reviews={reviews.filter(r => r.status === 'flagged')}
+            emptyMessage="No flagged reviews."
+          />
+        </TabsContent>
+
+        <TabsContent value="hidden">
+          <ReviewList
+            reviews={reviews.filter(r => r.status === 'hidden')}
+            emptyMessage="No hidden reviews."
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+export default function AdminReviewsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<ReviewsSkeleton />}>
+        <ReviewsContent />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Review Moderation - Orange Sport Center',
+  description: 'Moderate customer venue reviews.',
+}
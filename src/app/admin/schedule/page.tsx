@@ -0,0 +1,197 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { format, isValid, parseISO } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ScheduleBoard } from '@/components/features/admin/schedule-board'
+import {
+  BOARD_DEFAULT_HOURS,
+  getBoardDays,
+  parseBoardView,
+  shiftBoardDate,
+  timeToMinutes,
+  type BoardView,
+} from '@/lib/schedule-board'
+import { getStaffBookingUrl } from '@/lib/staff-bookings'
+import { ArrowLeft, CalendarPlus, ChevronLeft, ChevronRight } from 'lucide-react'
+import Link from 'next/link'
+import type { Venue } from '@/types/database'
+
+interface SchedulePageProps {
+  searchParams: Promise<{
+    view?: string
+    date?: string
+  }>
+}
+
+async function checkStaffAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['staff', 'admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getVenues(): Promise<Pick<Venue, 'id' | 'name' | 'venue_type_id'>[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('venues')
+    .select('id, name, venue_type_id')
+    .eq('is_active', true)
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching venues:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// The board spans the earliest opening to the latest closing of the venues on the days shown
+async function getBoardHours(venueIds: string[], days: string[]) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('get_venue_opening_hours', {
+    p_from: days[0],
+    p_to: days[days.length - 1]
+  })
+
+  const periods = (data || []).filter(period => venueIds.includes(period.venue_id))
+
+  if (error || !periods.length) {
+    return BOARD_DEFAULT_HOURS
+  }
+
+  const opens = Math.min(...periods.map(period => timeToMinutes(period.open_time)))
+  const closes = Math.max(...periods.map(period => timeToMinutes(period.close_time)))
+
+  return { start: Math.floor(opens / 60), end: Math.min(Math.ceil(closes / 60), 24) }
+}
+
+function boardHref(view: BoardView, date: string) {
+  return `/admin/schedule?view=${view}&date=${date}`
+}
+
+function ScheduleSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Skeleton className="h-9 w-20" />
+        <div>
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-80" />
+        </div>
+      </div>
+      <Skeleton className="h-9 w-full" />
+      <Skeleton className="h-96 w-full" />
+    </div>
+  )
+}
+
+async function ScheduleContent({ view, date }: { view: BoardView, date: string }) {
+  await checkStaffAccess()
+
+  const venues = await getVenues()
+  const days = getBoardDays(view, date)
+  const hours = await getBoardHours(venues.map(v => v.id), days)
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const title = view === 'day'
+    ? format(parseISO(days[0]), 'EEEE, MMMM d, yyyy')
+    : `${format(parseISO(days[0]), 'MMM d')} - ${format(parseISO(days[days.length - 1]), 'MMM d, yyyy')}`
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Schedule Board</h1>
+          <p className="text-muted-foreground">
+            Drag across an empty slot to book a walk-in. Drag a booking to move it, or its right edge to change its length.
+          </p>
+        </div>
+      </div>
+
+      {/* Navigation */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={boardHref(view, shiftBoardDate(view, date, -1))} aria-label="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={boardHref(view, today)}>Today</Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={boardHref(view, shiftBoardDate(view, date, 1))} aria-label="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Link>
+          </Button>
+          <span className="ml-2 font-medium">{title}</span>
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" asChild>
+            <Link href={getStaffBookingUrl({ date: view === 'day' ? date : undefined })}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              New Booking
+            </Link>
+          </Button>
+          <Button size="sm" variant={view === 'day' ? 'default' : 'outline'} asChild>
+            <Link href={boardHref('day', date)}>Day</Link>
+          </Button>
+          <Button size="sm" variant={view === 'week' ? 'default' : 'outline'} asChild>
+            <Link href={boardHref('week', date)}>Week</Link>
+          </Button>
+        </div>
+      </div>
+
+      {venues.length === 0 ? (
+        <p className="text-center py-12 text-muted-foreground">No active venues.</p>
+      ) : (
+        <ScheduleBoard venues={venues} view={view} days={days} startHour={hours.start} endHour={hours.end} />
+      )}
+    </div>
+  )
+}
+
+export default async function AdminSchedulePage({ searchParams }: SchedulePageProps) {
+  const { view, date } = await searchParams
+  const boardDate = date && isValid(parseISO(date)) ? date : format(new Date(), 'yyyy-MM-dd')
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<ScheduleSkeleton />}>
+        <ScheduleContent view={parseBoardView(view)} date={boardDate} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Schedule Board - Orange Sport Center',
+  description: 'Bookings and events across all venues by day or week.',
+}
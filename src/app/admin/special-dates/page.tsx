@@ -0,0 +1,203 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { SpecialDateDialog } from '@/components/features/admin/special-date-dialog'
+import { SpecialDateActions } from '@/components/features/admin/special-date-actions'
+import { SpecialDateImport } from '@/components/features/admin/special-date-import'
+import { SPECIAL_DATE_TYPE_LABELS } from '@/lib/special-dates'
+import { formatCurrency } from '@/lib/utils'
+import { ArrowLeft, CalendarDays, Plus } from 'lucide-react'
+import Link from 'next/link'
+import type { SpecialDate, Venue } from '@/types/database'
+
+type AdminSpecialDate = SpecialDate & {
+  venue: Pick<Venue, 'name'> | null
+}
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getSpecialDates(): Promise<AdminSpecialDate[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('special_dates')
+    .select(`
+      *,
+      venue:venues(
+        name
+      )
+    `)
+    .gte('special_date', format(new Date(), 'yyyy-MM-dd'))
+    .order('special_date')
+
+  if (error) {
+    console.error('Error fetching special dates:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function getVenues(): Promise<Pick<Venue, 'id' | 'name'>[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('venues')
+    .select('id, name')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching venues:', error)
+    return []
+  }
+
+  return data || []
+}
+
+function getPricingLabel(specialDate: SpecialDate) {
+  if (specialDate.is_closed) return 'Closed'
+  if (specialDate.price_override !== null) return `${formatCurrency(specialDate.price_override)}/hour`
+  if (specialDate.price_multiplier !== null) return `Weekend rate × ${specialDate.price_multiplier}`
+  return 'Weekend rate'
+}
+
+function SpecialDatesSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  )
+}
+
+function SpecialDateRow({ specialDate, venues }: { specialDate: AdminSpecialDate, venues: Pick<Venue, 'id' | 'name'>[] }) {
+  return (
+    <div className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <p className="font-medium">{specialDate.name}</p>
+          <Badge variant="outline">{SPECIAL_DATE_TYPE_LABELS[specialDate.date_type]}</Badge>
+          {specialDate.is_closed && <Badge variant="destructive">Closed</Badge>}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {format(parseISO(specialDate.special_date), 'EEEE, MMMM d, yyyy')}
+          {' · '}
+          {specialDate.venue?.name || 'All venues'}
+          {' · '}
+          {getPricingLabel(specialDate)}
+        </p>
+      </div>
+
+      <SpecialDateActions specialDate={specialDate} venues={venues} />
+    </div>
+  )
+}
+
+async function SpecialDatesContent() {
+  await checkAdminAccess()
+
+  const [specialDates, venues] = await Promise.all([
+    getSpecialDates(),
+    getVenues()
+  ])
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Special Dates</h1>
+            <p className="text-muted-foreground">
+              Public holidays, peak days and closures
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <SpecialDateImport venues={venues} />
+          <SpecialDateDialog
+            venues={venues}
+            trigger={
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Date
+              </Button>
+            }
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming Special Dates</CardTitle>
+          <CardDescription>
+            Special dates are charged at the weekend rate unless they set their own multiplier or price
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {specialDates.length === 0 ? (
+            <div className="text-center py-12">
+              <CalendarDays className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No upcoming special dates. Import a holiday calendar to get started.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {specialDates.map((specialDate) => (
+                <SpecialDateRow key={specialDate.id} specialDate={specialDate} venues={venues} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function AdminSpecialDatesPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<SpecialDatesSkeleton />}>
+        <SpecialDatesContent />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Special Dates - Orange Sport Center',
+  description: 'Manage holiday and peak-day pricing.',
+}
@@ -28,6 +28,9 @@ import { Switch } from '@/components/ui/switch'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { ImageUpload } from '@/components/ui/image-upload'
 import { PricingMatrix } from '@/components/features/venues/pricing-matrix'
+import { VenueBlackouts } from '@/components/features/admin/venue-blackouts'
+import { VenueOperatingHours } from '@/components/features/admin/venue-operating-hours'
+import { VenueHoursOverrides } from '@/components/features/admin/venue-hours-overrides'
 import { Loader2, ArrowLeft, Save } from 'lucide-react'
 import Link from 'next/link'
 import Image from 'next/image'
@@ -96,6 +99,8 @@ export default function EditVenuePage({ params }: EditVenuePageProps) {
   }, [venueId])
 
   async function fetchData() {
+    if (!venueId) return
+
     try {
       setLoading(true)
       setError(null)
@@ -108,7 +113,8 @@ export default function EditVenuePage({ params }: EditVenuePageProps) {
           venue_types (
             id,
             name,
-            description
+            description,
+            slot_duration
           )
         `)
         .eq('id', venueId)
@@ -139,7 +145,7 @@ export default function EditVenuePage({ params }: EditVenuePageProps) {
         venue_type_id: venueData.venue_type_id,
         base_price: venueData.base_price,
         weekend_price: venueData.weekend_price || venueData.base_price,
-        is_active: venueData.is_active,
+        is_active: venueData.is_active ?? true,
         image_url: venueData.image_url || '',
       })
     } catch (err) {
@@ -150,6 +156,8 @@ export default function EditVenuePage({ params }: EditVenuePageProps) {
   }
 
   async function onSubmit(data: VenueFormData) {
+    if (!venueId) return
+
     try {
       setSaving(true)
       setError(null)
@@ -425,6 +433,10 @@ export default function EditVenuePage({ params }: EditVenuePageProps) {
           </CardContent>
         </Card>
 
+        {/* Opening Hours */}
+        {venue && <VenueOperatingHours venueId={venue.id} slotDuration={venue.venue_types.slot_duration} />}
+        {venue && <VenueHoursOverrides venueId={venue.id} />}
+
         {/* Pricing Matrix */}
         {venue && (
           <PricingMatrix
@@ -436,6 +448,9 @@ export default function EditVenuePage({ params }: EditVenuePageProps) {
             }}
           />
         )}
+
+        {/* Blackouts */}
+        {venue && <VenueBlackouts venueId={venue.id} />}
       </div>
     </div>
   )
@@ -24,12 +24,12 @@ import Image from 'next/image'
 interface Venue {
   id: string
   name: string
-  description: string
-  image_url?: string
+  description: string | null
+  image_url: string | null
   base_price: number
-  weekend_price: number
-  is_active: boolean
-  created_at: string
+  weekend_price: number | null
+  is_active: boolean | null
+  created_at: string | null
   venue_type: {
     name: string
   }
@@ -38,24 +38,10 @@ interface Venue {
   }
 }
 
-interface VenueFromDB {
-  id: string
-  name: string
-  description: string
-  image_url?: string
-  base_price: number
-  weekend_price: number
-  is_active: boolean
-  created_at: string
-  venue_type: {
-    name: string
-  }[] | null
-}
-
 interface VenueType {
   id: string
   name: string
-  description: string
+  description: string | null
 }
 
 async function checkAdminAccess() {
@@ -73,7 +59,7 @@ async function checkAdminAccess() {
     .eq('id', user.id)
     .single()
   
-  if (error || !profile || !['admin', 'superadmin'].includes(profile.role)) {
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
     redirect('/dashboard')
   }
   
@@ -107,7 +93,7 @@ async function getVenues(): Promise<Venue[]> {
   
   // Get reservation counts for each venue
   const venuesWithCounts = await Promise.all(
-    (data || []).map(async (venue: VenueFromDB) => {
+    (data || []).map(async (venue) => {
       const { count } = await supabase
         .from('reservations')
         .select('*', { count: 'exact', head: true })
@@ -125,11 +111,9 @@ async function getVenues(): Promise<Venue[]> {
   return venuesWithCounts.map(venue => ({
     ...venue,
     venue_type: {
-      name: venue.venue_type && venue.venue_type.length > 0 
-        ? venue.venue_type[0].name 
-        : 'Unknown'
+      name: venue.venue_type?.name || 'Unknown'
     }
-  })) as Venue[]
+  }))
 }
 
 async function getVenueTypes(): Promise<VenueType[]> {
@@ -0,0 +1,216 @@
+import { Suspense } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { WaitlistEntryActions } from '@/components/features/admin/waitlist-entry-actions'
+import { WAITLIST_STATUS_LABELS, WAITLIST_OFFER_MINUTES, getWaitlistStatus } from '@/lib/waitlist'
+import { ArrowLeft, BellRing } from 'lucide-react'
+import Link from 'next/link'
+import type { Profile, Venue, WaitlistEntry } from '@/types/database'
+
+type AdminWaitlistEntry = WaitlistEntry & {
+  user: Pick<Profile, 'full_name' | 'phone'> | null
+}
+
+interface WaitlistsPageProps {
+  searchParams: Promise<{
+    venue?: string
+  }>
+}
+
+async function checkAdminAccess() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile?.role || !['admin', 'superadmin'].includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return profile
+}
+
+async function getVenues(): Promise<Pick<Venue, 'id' | 'name'>[]> {
+  const supabase = await createClient()
+
+  const { data } = await supabase.from('venues').select('id, name').order('name')
+
+  return data || []
+}
+
+// Today's and later entries, plus the outcome of recent offers
+async function getEntries(venueId: string): Promise<AdminWaitlistEntry[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select(`
+      *,
+      user:profiles(
+        full_name,
+        phone
+      )
+    `)
+    .eq('venue_id', venueId)
+    .gte('requested_date', format(new Date(), 'yyyy-MM-dd'))
+    .order('requested_date')
+    .order('start_time')
+    .order('created_at')
+
+  if (error) {
+    console.error('Error fetching waitlist:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// One queue per requested time, in the order customers joined
+function groupByTime(entries: AdminWaitlistEntry[]) {
+  const groups = new Map<string, AdminWaitlistEntry[]>()
+
+  for (const entry of entries) {
+    const key = `${entry.requested_date} ${entry.start_time}-${entry.end_time}`
+    groups.set(key, [...(groups.get(key) ?? []), entry])
+  }
+
+  return [...groups.values()]
+}
+
+function WaitlistsSkeleton() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  )
+}
+
+async function WaitlistsContent({ venueId }: { venueId?: string }) {
+  await checkAdminAccess()
+
+  const venues = await getVenues()
+  const venue = venues.find(v => v.id === venueId) ?? venues[0]
+  const entries = venue ? await getEntries(venue.id) : []
+  const queues = groupByTime(entries)
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Waitlists</h1>
+          <p className="text-muted-foreground">
+            Customers waiting for booked times. A freed slot is held for the first in line for {WAITLIST_OFFER_MINUTES} minutes.
+          </p>
+        </div>
+      </div>
+
+      {/* Venue Picker */}
+      <div className="flex flex-wrap gap-2">
+        {venues.map((v) => (
+          <Button key={v.id} size="sm" variant={v.id === venue?.id ? 'default' : 'outline'} asChild>
+            <Link href={`/admin/waitlists?venue=${v.id}`}>{v.name}</Link>
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{venue?.name ?? 'No venues'}</CardTitle>
+          <CardDescription>Upcoming waitlists, earliest time first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {queues.length === 0 ? (
+            <div className="text-center py-12">
+              <BellRing className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">Nobody is waiting for this venue.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {queues.map((queue) => {
+                const first = queue[0]
+                let position = 0
+
+                return (
+                  <div key={`${first.requested_date}-${first.start_time}-${first.end_time}`} className="space-y-2">
+                    <h3 className="font-medium">
+                      {format(parseISO(first.requested_date), 'EEE, MMM d, yyyy')} · {first.start_time.slice(0, 5)} - {first.end_time.slice(0, 5)}
+                    </h3>
+
+                    {queue.map((entry) => {
+                      const status = getWaitlistStatus(entry)
+                      if (status === 'waiting') position += 1
+
+                      return (
+                        <div key={entry.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              {status === 'waiting' && <span className="text-muted-foreground">#{position}</span>}
+                              <span className="font-medium">{entry.user?.full_name || 'Unknown customer'}</span>
+                              <Badge variant={status === 'waiting' || status === 'offered' ? 'default' : 'outline'}>
+                                {WAITLIST_STATUS_LABELS[status]}
+                              </Badge>
+                            </div>
+                            <p className="text-muted-foreground">
+                              {entry.user?.phone && `${entry.user.phone} · `}
+                              Joined {entry.created_at ? format(parseISO(entry.created_at), 'MMM d, HH:mm') : '-'}
+                              {status === 'offered' && entry.offer_expires_at && (
+                                ` · Offer held until ${format(parseISO(entry.offer_expires_at), 'HH:mm')}`
+                              )}
+                            </p>
+                          </div>
+
+                          <WaitlistEntryActions entry={{ id: entry.id, status }} />
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default async function AdminWaitlistsPage({ searchParams }: WaitlistsPageProps) {
+  const { venue } = await searchParams
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<WaitlistsSkeleton />}>
+        <WaitlistsContent venueId={venue} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Waitlists - Orange Sport Center',
+  description: 'See and manage venue waitlists.',
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { format, subDays } from 'date-fns'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { COMPANY } from '@/lib/invoices'
+import { renderIcsCalendar } from '@/lib/ics'
+import { eventToIcsEvent, reservationToIcsEvent } from '@/lib/calendar-feeds'
+import type { Reservation } from '@/types/database'
+
+interface RouteContext {
+  params: Promise<{ token: string }>
+}
+
+// Feeds keep the last month of bookings so today's entries don't vanish once they start
+const PAST_DAYS = 30
+
+// Cancelled bookings are left out so calendars remove them
+const FEED_STATUSES: NonNullable<Reservation['status']>[] = ['pending', 'confirmed', 'completed', 'no_show']
+
+const RESERVATION_COLUMNS = `
+  id,
+  reservation_code,
+  reservation_date,
+  start_time,
+  end_time,
+  status,
+  notes,
+  reschedule_count,
+  updated_at,
+  customer_name,
+  customer_phone,
+  venue:venues(
+    name
+  ),
+  user:profiles!reservations_user_id_fkey(
+    full_name,
+    phone
+  )
+`
+
+// The feed behind a token, or null when the token is unknown or its owner may no
+// longer see it. Uses the service role because calendar apps poll without a session.
+async function renderCalendarFeed(token: string, origin: string): Promise<string | null> {
+  const supabase = createAdminClient()
+
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select(`
+      user_id,
+      venue_id,
+      owner:profiles(
+        role
+      ),
+      venue:venues(
+        name
+      )
+    `)
+    .eq('token', token)
+    .maybeSingle()
+
+  if (feedError) throw feedError
+  if (!feed) return null
+
+  const from = format(subDays(new Date(), PAST_DAYS), 'yyyy-MM-dd')
+
+  if (!feed.venue_id) {
+    const { data: reservations, error } = await supabase
+      .from('reservations')
+      .select(RESERVATION_COLUMNS)
+      .eq('user_id', feed.user_id)
+      .gte('reservation_date', from)
+      .in('status', FEED_STATUSES)
+      .order('reservation_date')
+      .order('start_time')
+
+    if (error) throw error
+
+    return renderIcsCalendar({
+      name: `My bookings - ${COMPANY.name}`,
+      events: (reservations || []).map(r => reservationToIcsEvent(r, { origin })),
+    })
+  }
+
+  // Venue schedules are for staff; a feed stops working when its owner loses the role
+  if (!feed.owner?.role || !['staff', 'admin', 'superadmin'].includes(feed.owner.role)) {
+    return null
+  }
+
+  const venueName = feed.venue?.name ?? 'Venue'
+
+  const [{ data: reservations, error }, { data: events, error: eventsError }] = await Promise.all([
+    supabase
+      .from('reservations')
+      .select(RESERVATION_COLUMNS)
+      .eq('venue_id', feed.venue_id)
+      .gte('reservation_date', from)
+      .in('status', FEED_STATUSES)
+      .order('reservation_date')
+      .order('start_time'),
+    supabase
+      .from('events')
+      .select('*')
+      .eq('venue_id', feed.venue_id)
+      .eq('is_active', true)
+      .gte('event_date', from)
+      .order('event_date'),
+  ])
+
+  if (error) throw error
+  if (eventsError) throw eventsError
+
+  return renderIcsCalendar({
+    name: `${venueName} schedule - ${COMPANY.name}`,
+    events: [
+      ...(reservations || []).map(r => reservationToIcsEvent(r, { origin, forStaff: true })),
+      ...(events || []).map(e => eventToIcsEvent(e, venueName)),
+    ],
+  })
+}
+
+// Calendar subscription feed. No login: calendar apps poll this URL and the token in
+// it is the credential, so unknown tokens get a plain 404.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params
+
+  try {
+    const calendar = await renderCalendarFeed(token.replace(/\.ics$/, ''), request.nextUrl.origin)
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error generating calendar feed:', error)
+    return NextResponse.json({ error: 'Failed to generate calendar feed' }, { status: 500 })
+  }
+}
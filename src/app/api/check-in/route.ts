@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CheckInCodeError, parseCheckInCode } from '@/lib/check-in'
+import { checkInSchema } from '@/lib/validations/booking'
+
+// Checks a customer in at the front desk from a scanned pass or a typed reservation
+// code (staff only). The booking must be confirmed, for today and for the desk's venue.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile?.role || !['staff', 'admin', 'superadmin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsed = checkInSchema.safeParse(await request.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { reservationCode, scanned } = parseCheckInCode(parsed.data.code)
+
+    const { data: reservation, error: checkInError } = await supabase.rpc('check_in_reservation', {
+      p_reservation_code: reservationCode,
+      p_venue_id: parsed.data.venueId ?? undefined,
+    })
+
+    if (checkInError || !reservation) {
+      return NextResponse.json(
+        { error: checkInError?.message || 'Failed to check in', reservationCode },
+        { status: 422 }
+      )
+    }
+
+    const { data: details } = await supabase
+      .from('reservations')
+      .select(`
+        customer_name,
+        customer_phone,
+        venue:venues(
+          name
+        ),
+        user:profiles!reservations_user_id_fkey(
+          full_name,
+          phone
+        )
+      `)
+      .eq('id', reservation.id)
+      .single()
+
+    return NextResponse.json({
+      reservationId: reservation.id,
+      reservationCode: reservation.reservation_code,
+      customerName: details?.user?.full_name ?? details?.customer_name ?? null,
+      customerPhone: details?.user?.phone ?? details?.customer_phone ?? null,
+      venueName: details?.venue?.name ?? null,
+      date: reservation.reservation_date,
+      startTime: reservation.start_time,
+      endTime: reservation.end_time,
+      notes: reservation.notes,
+      checkedInAt: reservation.checked_in_at,
+      scanned,
+    })
+  } catch (error) {
+    if (error instanceof CheckInCodeError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+
+    console.error('Error checking in reservation:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to check in' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+// Cancels unpaid pending reservations whose hold has expired. Call this every
+// minute from a scheduler when pg_cron is not available on the database.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+
+    const { data, error } = await supabase.rpc('expire_pending_reservations')
+
+    if (error) throw error
+
+    return NextResponse.json({ expired: data ?? 0 })
+  } catch (error) {
+    console.error('Error expiring reservations:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to expire reservations' },
+      { status: 500 }
+    )
+  }
+}
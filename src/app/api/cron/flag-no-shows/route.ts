@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+// Marks confirmed bookings nobody checked in for as no-shows once their slot has
+// ended. Call this every 15 minutes when pg_cron is not available on the database.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+
+    const { data, error } = await supabase.rpc('flag_no_show_reservations')
+
+    if (error) throw error
+
+    return NextResponse.json({ flagged: data ?? 0 })
+  } catch (error) {
+    console.error('Error flagging no-shows:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to flag no-shows' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendDueNotifications } from '@/lib/notifications/service'
+
+// Sends queued notifications and reminders that are due. Call this every minute
+// from a scheduler; the database only queues them.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await sendDueNotifications({ origin: request.nextUrl.origin })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error sending notifications:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send notifications' },
+      { status: 500 }
+    )
+  }
+}
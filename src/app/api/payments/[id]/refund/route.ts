@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { PaymentGatewayError } from '@/lib/payments'
+import { refundPayment } from '@/lib/payments/service'
+import { refundSchema } from '@/lib/validations/payment'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Refunds all or part of a completed payment (staff only)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile?.role || !['staff', 'admin', 'superadmin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsed = refundSchema.safeParse(await request.json().catch(() => ({})))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const refund = await refundPayment({
+      paymentId: id,
+      ...parsed.data,
+      createdBy: user.id,
+    })
+
+    return NextResponse.json({
+      refundId: refund.id,
+      status: refund.payment_status,
+      amount: refund.amount,
+    })
+  } catch (error) {
+    console.error('Error refunding payment:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to refund payment' },
+      { status: error instanceof PaymentGatewayError ? error.status : 500 }
+    )
+  }
+}
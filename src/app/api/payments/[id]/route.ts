@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { PaymentGatewayError } from '@/lib/payments'
+import { syncPaymentStatus } from '@/lib/payments/service'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Returns the payment, refreshing pending charges from the provider first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits this to the user's own payments (or everything for staff)
+    const { data: visible } = await supabase
+      .from('payments')
+      .select('id')
+      .eq('id', id)
+      .single()
+
+    if (!visible) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
+
+    const payment = await syncPaymentStatus(id)
+
+    return NextResponse.json({
+      paymentId: payment.id,
+      provider: payment.provider,
+      status: payment.payment_status,
+      amount: payment.amount,
+      paidAt: payment.paid_at,
+      redirectUrl: payment.checkout_url,
+    })
+  } catch (error) {
+    console.error('Error fetching payment status:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch payment' },
+      { status: error instanceof PaymentGatewayError ? error.status : 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { PaymentGatewayError } from '@/lib/payments'
+import { createOrderCharge, createReservationCharge } from '@/lib/payments/service'
+import { chargeSchema } from '@/lib/validations/payment'
+
+// Starts a payment for a reservation or booking order and returns where to send the customer
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = chargeSchema.safeParse(await request.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { reservationId, orderId, paymentMethod, amount } = parsed.data
+    let payment
+
+    // RLS limits these to the user's own reservations and orders (or everything for staff)
+    if (orderId) {
+      const { data: order } = await supabase
+        .from('booking_orders')
+        .select('id')
+        .eq('id', orderId)
+        .single()
+
+      if (!order) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+      }
+
+      payment = await createOrderCharge({
+        orderId,
+        paymentMethod,
+        amount,
+        createdBy: user.id,
+        origin: request.nextUrl.origin,
+      })
+    } else {
+      const { data: reservation } = await supabase
+        .from('reservations')
+        .select('id')
+        .eq('id', reservationId!)
+        .single()
+
+      if (!reservation) {
+        return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+      }
+
+      payment = await createReservationCharge({
+        reservationId: reservation.id,
+        paymentMethod,
+        amount,
+        createdBy: user.id,
+        origin: request.nextUrl.origin,
+      })
+    }
+
+    return NextResponse.json({
+      paymentId: payment.id,
+      provider: payment.provider,
+      status: payment.payment_status,
+      amount: payment.amount,
+      redirectUrl: payment.checkout_url,
+    })
+  } catch (error) {
+    console.error('Error creating charge:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create payment' },
+      { status: error instanceof PaymentGatewayError ? error.status : 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getDefaultProviderName, PaymentGatewayError } from '@/lib/payments'
+import { buildMockWebhook } from '@/lib/payments/mock'
+import { processPaymentWebhook } from '@/lib/payments/service'
+import { mockPaymentSimulationSchema } from '@/lib/validations/payment'
+
+// Stands in for the gateway's checkout page when PAYMENT_PROVIDER=mock: sends a
+// signed callback through the same webhook handling as a real provider.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production' || getDefaultProviderName() !== 'mock') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = mockPaymentSimulationSchema.safeParse(await request.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('provider_reference')
+      .eq('id', parsed.data.paymentId)
+      .eq('provider', 'mock')
+      .single()
+
+    if (!payment?.provider_reference) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
+
+    const result = await processPaymentWebhook(
+      'mock',
+      buildMockWebhook(payment.provider_reference, parsed.data.status)
+    )
+
+    return NextResponse.json({
+      processed: result.processed,
+      status: result.payment?.payment_status,
+    })
+  } catch (error) {
+    console.error('Error simulating payment:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to simulate payment' },
+      { status: error instanceof PaymentGatewayError ? error.status : 500 }
+    )
+  }
+}
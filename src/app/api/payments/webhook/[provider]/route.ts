@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PaymentGatewayError } from '@/lib/payments'
+import { processPaymentWebhook } from '@/lib/payments/service'
+
+interface RouteContext {
+  params: Promise<{ provider: string }>
+}
+
+// Payment notifications from the gateway. Signatures are verified against the raw
+// body, and repeated deliveries of the same event are acknowledged without reprocessing.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { provider } = await params
+
+  // The mock provider's callbacks are only trusted in development
+  if (provider === 'mock' && process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const result = await processPaymentWebhook(provider, {
+      rawBody: await request.text(),
+      headers: request.headers,
+    })
+
+    return NextResponse.json({
+      received: true,
+      duplicate: result.duplicate,
+      processed: result.processed,
+    })
+  } catch (error) {
+    console.error(`Error handling ${provider} webhook:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process webhook' },
+      { status: error instanceof PaymentGatewayError ? error.status : 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { renderReservationCalendar } from '@/lib/calendar-feeds'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// .ics file of one reservation for "Add to calendar". Downloading it again after a
+// reschedule or cancellation updates or removes the entry it created.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits this to the user's own reservations (or everything for staff)
+    const { data: reservation } = await supabase
+      .from('reservations')
+      .select(`
+        id,
+        reservation_code,
+        reservation_date,
+        start_time,
+        end_time,
+        status,
+        notes,
+        reschedule_count,
+        updated_at,
+        venue:venues(
+          name
+        )
+      `)
+      .eq('id', id)
+      .single()
+
+    if (!reservation) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+    }
+
+    return new NextResponse(renderReservationCalendar(reservation, request.nextUrl.origin), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="booking-${reservation.reservation_code}.ics"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error generating calendar file:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate calendar file' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { submitPendingRefunds } from '@/lib/payments/service'
+
+const REFUND_PENDING_MESSAGE = 'Your booking was cancelled, but the refund could not be sent yet. Our staff will follow up.'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Cancels a reservation under the cancellation policy and sends its refund to the
+// payment provider
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Runs as the user so the ownership check applies; the refund is recorded in the same transaction
+    const { data: refundAmount, error: cancelError } = await supabase.rpc('cancel_reservation', {
+      p_reservation_id: id,
+      p_user_id: user.id,
+    })
+
+    if (cancelError) {
+      return NextResponse.json({ error: cancelError.message }, { status: 400 })
+    }
+
+    let refundError: string | null = null
+
+    try {
+      const failed = await submitPendingRefunds({ reservationId: id })
+
+      if (failed.length > 0) {
+        refundError = REFUND_PENDING_MESSAGE
+      }
+    } catch (error) {
+      console.error('Error submitting cancellation refund:', error)
+      refundError = REFUND_PENDING_MESSAGE
+    }
+
+    const { data: reservation } = await supabase
+      .from('reservations')
+      .select('payment_status')
+      .eq('id', id)
+      .single()
+
+    return NextResponse.json({
+      refundAmount: refundAmount ?? 0,
+      paymentStatus: reservation?.payment_status,
+      refundError,
+    })
+  } catch (error) {
+    console.error('Error cancelling reservation:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel reservation' },
+      { status: 500 }
+    )
+  }
+}
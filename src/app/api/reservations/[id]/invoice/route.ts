@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getCheckInQr, hasCheckInPass } from '@/lib/check-in'
+import { getInvoiceFilename, renderInvoicePdf, type InvoiceReservation } from '@/lib/invoices'
+import type { Payment } from '@/types/database'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// PDF invoice, or receipt once paid in full, for a reservation. Customers get their
+// own bookings, staff any booking; ?inline=1 opens it in the browser instead of downloading.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits this to the user's own reservations (or everything for staff)
+    const { data: reservation } = await supabase
+      .from('reservations')
+      .select(`
+        *,
+        venue:venues(
+          name,
+          venue_types(
+            name
+          )
+        ),
+        user:profiles!reservations_user_id_fkey(
+          full_name,
+          phone
+        )
+      `)
+      .eq('id', id)
+      .single()
+
+    if (!reservation) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+    }
+
+    const invoiceReservation = reservation as InvoiceReservation
+    const paidWith = invoiceReservation.order_id
+      ? `reservation_id.eq.${id},order_id.eq.${invoiceReservation.order_id}`
+      : `reservation_id.eq.${id}`
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payments')
+      .select('*')
+      .or(paidWith)
+      .in('payment_status', ['completed', 'refunded'])
+      .order('transaction_date')
+
+    if (paymentsError) throw paymentsError
+
+    const pdf = renderInvoicePdf({
+      reservation: invoiceReservation,
+      payments: (payments || []) as Payment[],
+      customerEmail: invoiceReservation.user_id === user.id ? user.email : null,
+      checkInQr: hasCheckInPass(invoiceReservation) ? getCheckInQr(invoiceReservation.reservation_code) : null,
+    })
+
+    const disposition = request.nextUrl.searchParams.get('inline') === '1' ? 'inline' : 'attachment'
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${getInvoiceFilename(invoiceReservation)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error generating invoice:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate invoice' },
+      { status: 500 }
+    )
+  }
+}
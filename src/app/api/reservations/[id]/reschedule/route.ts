@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { refundReservationOverpayment } from '@/lib/payments/service'
+import { isSlotTakenError } from '@/lib/reservation-errors'
+import { rescheduleSchema } from '@/lib/validations/booking'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Moves a reservation to a new slot and settles the price difference: a higher price
+// leaves a balance to pay, anything paid above a lower price is refunded
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = rescheduleSchema.safeParse(await request.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    // Runs as the user so the reschedule policy and ownership checks apply
+    const { error: rescheduleError } = await supabase.rpc('reschedule_reservation', {
+      p_reservation_id: id,
+      p_new_date: parsed.data.date,
+      p_new_start_time: parsed.data.startTime,
+      p_new_end_time: parsed.data.endTime,
+      p_new_venue_id: parsed.data.venueId,
+    })
+
+    if (rescheduleError) {
+      return NextResponse.json(
+        { error: rescheduleError.message },
+        { status: isSlotTakenError(rescheduleError) ? 409 : 400 }
+      )
+    }
+
+    let refundedAmount = 0
+    let refundError: string | null = null
+
+    try {
+      refundedAmount = await refundReservationOverpayment({
+        reservationId: id,
+        reason: 'Rescheduled to a cheaper slot',
+        createdBy: user.id,
+      })
+    } catch (error) {
+      // The booking has moved either way; staff can refund the difference by hand
+      console.error('Error refunding reschedule difference:', error)
+      refundError = 'Your booking was moved, but the refund of the difference failed. Our staff will contact you.'
+    }
+
+    const { data: reservation } = await supabase
+      .from('reservations')
+      .select('total_price, amount_paid, payment_status')
+      .eq('id', id)
+      .single()
+
+    return NextResponse.json({
+      totalPrice: reservation?.total_price,
+      amountPaid: reservation?.amount_paid,
+      paymentStatus: reservation?.payment_status,
+      refundedAmount,
+      refundError,
+    })
+  } catch (error) {
+    console.error('Error rescheduling reservation:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to reschedule reservation' },
+      { status: 500 }
+    )
+  }
+}
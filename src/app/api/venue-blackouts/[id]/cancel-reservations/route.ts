@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { submitPendingRefunds } from '@/lib/payments/service'
+import { blackoutCancellationSchema } from '@/lib/validations/venue-blackout'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Cancels the bookings that collide with a blackout (admins only), refunds them in full
+// and sends the refunds to the payment provider. Customers are notified of the cancellation.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = blackoutCancellationSchema.safeParse(await request.json().catch(() => ({})))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    // Runs as the user so the admin check applies
+    const { data: cancelled, error: cancelError } = await supabase.rpc('cancel_blackout_reservations', {
+      p_blackout_id: id,
+      p_reservation_ids: parsed.data.reservationIds,
+    })
+
+    if (cancelError) {
+      return NextResponse.json({ error: cancelError.message }, { status: 400 })
+    }
+
+    const refundErrors: string[] = []
+
+    for (const { reservation_id } of cancelled || []) {
+      try {
+        const failed = await submitPendingRefunds({ reservationId: reservation_id })
+
+        if (failed.length > 0) {
+          refundErrors.push(reservation_id)
+        }
+      } catch (error) {
+        console.error('Error submitting blackout refund:', error)
+        refundErrors.push(reservation_id)
+      }
+    }
+
+    return NextResponse.json({
+      cancelledCount: cancelled?.length ?? 0,
+      refundTotal: (cancelled || []).reduce((sum, item) => sum + Number(item.refund_amount), 0),
+      // Reservations whose refund is still waiting to be sent
+      refundErrors,
+    })
+  } catch (error) {
+    console.error('Error cancelling blackout reservations:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel reservations' },
+      { status: 500 }
+    )
+  }
+}
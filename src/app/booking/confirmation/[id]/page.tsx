@@ -15,10 +15,21 @@ import {
   CreditCard, 
   FileText,
   Download,
-  Share2
+  CalendarPlus,
+  Share2,
+  Repeat,
+  ShoppingCart
 } from 'lucide-react'
 import { format } from 'date-fns'
 import { formatCurrency } from '@/lib/utils'
+import { parsePriceLineItems } from '@/lib/pricing/engine'
+import { getDocumentType, getInvoiceUrl } from '@/lib/invoices'
+import { getCheckInQr, hasCheckInPass } from '@/lib/check-in'
+import { getReservationCalendarUrl } from '@/lib/calendar-feeds'
+import PaymentPanel from '@/components/features/booking/payment-panel'
+import HoldCountdown from '@/components/features/booking/hold-countdown'
+import PriceLineItems from '@/components/features/booking/price-line-items'
+import CheckInPass from '@/components/features/booking/check-in-pass'
 import Link from 'next/link'
 import type { Database } from '@/types/database'
 
@@ -26,7 +37,7 @@ type Reservation = Database['public']['Tables']['reservations']['Row'] & {
   venue: Database['public']['Tables']['venues']['Row'] & {
     venue_types: Database['public']['Tables']['venue_types']['Row']
   }
-  user: Database['public']['Tables']['profiles']['Row']
+  user: Pick<Database['public']['Tables']['profiles']['Row'], 'full_name' | 'phone'> | null
 }
 
 interface BookingConfirmationPageProps {
@@ -46,7 +57,7 @@ async function getReservation(id: string): Promise<Reservation | null> {
           name
         )
       ),
-      user:profiles(
+      user:profiles!reservations_user_id_fkey(
         full_name,
         phone
       )
@@ -63,7 +74,11 @@ async function getReservation(id: string): Promise<Reservation | null> {
 
 function ReservationDetails({ reservation }: { reservation: Reservation }) {
   const reservationDate = new Date(reservation.reservation_date)
-  const createdAt = new Date(reservation.created_at)
+  const createdAt = reservation.created_at ? new Date(reservation.created_at) : null
+  const status = reservation.status || 'pending'
+  const discountAmount = reservation.discount_amount
+  const lineItems = parsePriceLineItems(reservation.price_breakdown)
+  const isHeld = status === 'pending' && Boolean(reservation.expires_at)
   
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -73,6 +88,10 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
         return 'bg-yellow-100 text-yellow-800'
       case 'cancelled':
         return 'bg-red-100 text-red-800'
+      case 'completed':
+        return 'bg-blue-100 text-blue-800'
+      case 'no_show':
+        return 'bg-orange-100 text-orange-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -86,13 +105,20 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
           <CheckCircle className="h-16 w-16 text-green-500" />
         </div>
         <div>
-          <h1 className="text-3xl font-bold text-gray-900">Booking Confirmed!</h1>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {isHeld ? 'Booking Reserved!' : 'Booking Confirmed!'}
+          </h1>
           <p className="text-gray-600 mt-2">
             Your reservation has been successfully created. Here are your booking details:
           </p>
         </div>
       </div>
       
+      {/* Payment hold */}
+      {isHeld && reservation.expires_at && (
+        <HoldCountdown expiresAt={reservation.expires_at} />
+      )}
+      
       {/* Reservation Details Card */}
       <Card>
         <CardHeader>
@@ -103,8 +129,8 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
                 Booking ID: {reservation.reservation_code}
               </p>
             </div>
-            <Badge className={getStatusColor(reservation.status)}>
-              {reservation.status.charAt(0).toUpperCase() + reservation.status.slice(1)}
+            <Badge className={getStatusColor(status)}>
+              {status.charAt(0).toUpperCase() + status.slice(1)}
             </Badge>
           </div>
         </CardHeader>
@@ -141,7 +167,7 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
                     {reservation.start_time} - {reservation.end_time}
                   </p>
                   <p className="text-xs text-gray-500">
-                    Duration: {reservation.duration} hour{reservation.duration !== 1 ? 's' : ''}
+                    Duration: {reservation.duration_hours} hour{reservation.duration_hours !== 1 ? 's' : ''}
                   </p>
                 </div>
               </div>
@@ -154,16 +180,11 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
                 <div>
                   <h4 className="font-medium">Customer</h4>
                   <p className="text-sm text-gray-600">
-                    {reservation.customer_name || reservation.user?.full_name}
+                    {reservation.user?.full_name || reservation.customer_name}
                   </p>
-                  {reservation.customer_email && (
-                    <p className="text-sm text-gray-500">
-                      {reservation.customer_email}
-                    </p>
-                  )}
-                  {(reservation.customer_phone || reservation.user?.phone) && (
+                  {(reservation.user?.phone || reservation.customer_phone) && (
                     <p className="text-sm text-gray-500">
-                      {reservation.customer_phone || reservation.user?.phone}
+                      {reservation.user?.phone || reservation.customer_phone}
                     </p>
                   )}
                 </div>
@@ -174,14 +195,15 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
                 <div>
                   <h4 className="font-medium">Pricing</h4>
                   <div className="text-sm space-y-1">
+                    {lineItems.length > 0 && <PriceLineItems items={lineItems} />}
                     <div className="flex justify-between">
                       <span className="text-gray-600">Base Price:</span>
                       <span>{formatCurrency(reservation.base_price || 0)}</span>
                     </div>
-                    {reservation.discount_amount > 0 && (
+                    {discountAmount > 0 && (
                       <div className="flex justify-between text-green-600">
                         <span>Discount:</span>
-                        <span>-{formatCurrency(reservation.discount_amount || 0)}</span>
+                        <span>-{formatCurrency(discountAmount)}</span>
                       </div>
                     )}
                     <Separator />
@@ -189,6 +211,10 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
                       <span>Total:</span>
                       <span>{formatCurrency(reservation.total_price || 0)}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Paid:</span>
+                      <span>{formatCurrency(reservation.amount_paid || 0)}</span>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -214,31 +240,79 @@ function ReservationDetails({ reservation }: { reservation: Reservation }) {
             <div className="grid md:grid-cols-2 gap-4 text-sm">
               <div>
                 <span className="text-gray-600">Booked on:</span>
-                <p>{format(createdAt, 'MMM d, yyyy \\at h:mm a')}</p>
+                <p>{createdAt ? format(createdAt, 'MMM d, yyyy \\at h:mm a') : '-'}</p>
               </div>
               <div>
                 <span className="text-gray-600">Reservation Code:</span>
                 <p className="font-mono">{reservation.reservation_code}</p>
               </div>
+              {reservation.checked_in_at && (
+                <div>
+                  <span className="text-gray-600">Checked in:</span>
+                  <p>{format(new Date(reservation.checked_in_at), 'MMM d, yyyy \\at h:mm a')}</p>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
       </Card>
       
+      {/* Check-in */}
+      {hasCheckInPass(reservation) && (
+        <CheckInPass
+          qr={getCheckInQr(reservation.reservation_code)}
+          reservationCode={reservation.reservation_code}
+          isPaid={status === 'confirmed'}
+        />
+      )}
+      
+      {/* Payment */}
+      {!['cancelled', 'completed', 'no_show'].includes(status) && (
+        <PaymentPanel
+          reservationId={reservation.id}
+          totalPrice={Number(reservation.total_price) || 0}
+          amountPaid={Number(reservation.amount_paid) || 0}
+        />
+      )}
+      
       {/* Important Information */}
       <Alert>
         <AlertDescription>
           <strong>Important:</strong> Please arrive 15 minutes before your scheduled time. 
           Bring a valid ID and this confirmation for check-in. 
-          For any changes or cancellations, contact us at least 24 hours in advance.
+          You can reschedule or cancel from your profile; cancellations are refunded under our cancellation policy.
         </AlertDescription>
       </Alert>
       
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row gap-4 justify-center">
-        <Button variant="outline" className="flex items-center gap-2">
-          <Download className="h-4 w-4" />
-          Download Receipt
+        {reservation.series_id && (
+          <Button variant="outline" className="flex items-center gap-2" asChild>
+            <Link href={`/bookings/series/${reservation.series_id}`}>
+              <Repeat className="h-4 w-4" />
+              View Series
+            </Link>
+          </Button>
+        )}
+        {reservation.order_id && (
+          <Button variant="outline" className="flex items-center gap-2" asChild>
+            <Link href={`/booking/orders/${reservation.order_id}`}>
+              <ShoppingCart className="h-4 w-4" />
+              View Order
+            </Link>
+          </Button>
+        )}
+        <Button variant="outline" className="flex items-center gap-2" asChild>
+          <a href={getInvoiceUrl(reservation.id)}>
+            <Download className="h-4 w-4" />
+            {getDocumentType(reservation) === 'receipt' ? 'Download Receipt' : 'Download Invoice'}
+          </a>
+        </Button>
+        <Button variant="outline" className="flex items-center gap-2" asChild>
+          <a href={getReservationCalendarUrl(reservation.id)}>
+            <CalendarPlus className="h-4 w-4" />
+            {status === 'cancelled' ? 'Remove from Calendar' : 'Add to Calendar'}
+          </a>
         </Button>
         <Button variant="outline" className="flex items-center gap-2">
           <Share2 className="h-4 w-4" />
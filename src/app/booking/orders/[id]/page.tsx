@@ -0,0 +1,217 @@
+import { Suspense } from 'react'
+import { notFound, redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import PaymentPanel from '@/components/features/booking/payment-panel'
+import HoldCountdown from '@/components/features/booking/hold-countdown'
+import { formatCurrency } from '@/lib/utils'
+import { ArrowLeft, ShoppingCart } from 'lucide-react'
+import Link from 'next/link'
+import type { BookingOrder, Reservation, Venue } from '@/types/database'
+
+type OrderItem = Reservation & {
+  venue: Pick<Venue, 'name'>
+}
+
+interface OrderPageProps {
+  params: Promise<{ id: string }>
+}
+
+async function getOrder(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  const { data: order, error } = await supabase
+    .from('booking_orders')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (error || !order) {
+    return null
+  }
+
+  const { data: items } = await supabase
+    .from('reservations')
+    .select(`
+      *,
+      venue:venues(
+        name
+      )
+    `)
+    .eq('order_id', id)
+    .order('reservation_date')
+    .order('start_time')
+
+  return {
+    order: order as BookingOrder,
+    items: (items || []) as OrderItem[]
+  }
+}
+
+function getStatusColor(status: string) {
+  switch (status) {
+    case 'confirmed':
+      return 'bg-green-100 text-green-800'
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'cancelled':
+      return 'bg-red-100 text-red-800'
+    case 'completed':
+      return 'bg-blue-100 text-blue-800'
+    case 'no_show':
+      return 'bg-orange-100 text-orange-800'
+    default:
+      return 'bg-gray-100 text-gray-800'
+  }
+}
+
+function OrderSkeleton() {
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <Skeleton className="h-8 w-64" />
+      <Skeleton className="h-32" />
+      <Skeleton className="h-96" />
+    </div>
+  )
+}
+
+async function OrderContent({ id }: { id: string }) {
+  const result = await getOrder(id)
+
+  if (!result) {
+    notFound()
+  }
+
+  const { order, items } = result
+  const total = items.reduce((sum, item) => sum + Number(item.total_price), 0)
+  const paid = items.reduce((sum, item) => sum + Number(item.amount_paid), 0)
+  // Every booking is held until the first hold runs out, since they're paid together
+  const holds = items
+    .filter(item => item.status === 'pending' && item.expires_at)
+    .map(item => item.expires_at as string)
+    .sort()
+  const isOpen = items.length > 0 && items.every(item => item.status === 'pending' || item.status === 'confirmed')
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/bookings">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ShoppingCart className="h-6 w-6" />
+            Order <span className="font-mono">{order.order_code}</span>
+          </h1>
+          {order.created_at && (
+            <p className="text-muted-foreground">
+              Placed {format(parseISO(order.created_at), 'MMM d, yyyy HH:mm')}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {holds.length > 0 && (
+        <HoldCountdown expiresAt={holds[0]} />
+      )}
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Bookings</p>
+            <p className="text-xl font-semibold">{items.length}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Total</p>
+            <p className="text-xl font-semibold">{formatCurrency(total)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Paid</p>
+            <p className="text-xl font-semibold">{formatCurrency(paid)}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bookings</CardTitle>
+          <CardDescription>
+            A payment for the order is applied to the earliest bookings first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y">
+            {items.map((item) => {
+              const status = item.status || 'pending'
+
+              return (
+                <div key={item.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{item.venue.name}</p>
+                      <Badge className={getStatusColor(status)}>
+                        {status.charAt(0).toUpperCase() + status.slice(1)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(item.reservation_date), 'EEE, MMM d, yyyy')}
+                      {' · '}
+                      {item.start_time.slice(0, 5)} - {item.end_time.slice(0, 5)}
+                      {' · '}
+                      {formatCurrency(item.total_price)}
+                      {item.amount_paid > 0 && ` · ${formatCurrency(item.amount_paid)} paid`}
+                      {' · '}
+                      <span className="font-mono">{item.reservation_code}</span>
+                    </p>
+                  </div>
+
+                  <Button size="sm" variant="outline" asChild>
+                    <Link href={`/booking/confirmation/${item.id}`}>View</Link>
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isOpen && (
+        <PaymentPanel
+          orderId={order.id}
+          totalPrice={total}
+          amountPaid={paid}
+        />
+      )}
+    </div>
+  )
+}
+
+export default async function OrderPage({ params }: OrderPageProps) {
+  const { id } = await params
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<OrderSkeleton />}>
+        <OrderContent id={id} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Booking Order - Orange Sport Center',
+  description: 'Your cart checkout.',
+}
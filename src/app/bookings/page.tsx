@@ -14,7 +14,8 @@ import {
   FileText,
   Eye,
   Download,
-  Filter
+  Filter,
+  Repeat
 } from 'lucide-react'
 import { format } from 'date-fns'
 import { formatCurrency } from '@/lib/utils'
@@ -25,6 +26,7 @@ type Reservation = Database['public']['Tables']['reservations']['Row'] & {
   venue: Database['public']['Tables']['venues']['Row'] & {
     venue_type: Database['public']['Tables']['venue_types']['Row']
   }
+  user: Pick<Database['public']['Tables']['profiles']['Row'], 'full_name' | 'phone'> | null
 }
 
 async function getUserReservations(): Promise<Reservation[]> {
@@ -45,6 +47,10 @@ async function getUserReservations(): Promise<Reservation[]> {
         venue_type:venue_types(
           name
         )
+      ),
+      user:profiles!reservations_user_id_fkey(
+        full_name,
+        phone
       )
     `)
     .eq('user_id', user.id)
@@ -60,7 +66,10 @@ async function getUserReservations(): Promise<Reservation[]> {
 
 function ReservationCard({ reservation }: { reservation: Reservation }) {
   const reservationDate = new Date(reservation.reservation_date)
-  const createdAt = new Date(reservation.created_at)
+  const createdAt = reservation.created_at ? new Date(reservation.created_at) : null
+  const status = reservation.status || 'pending'
+  const paymentStatus = reservation.payment_status || 'pending'
+  const discountAmount = reservation.discount_amount
   
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -72,6 +81,8 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
         return 'bg-red-100 text-red-800'
       case 'completed':
         return 'bg-blue-100 text-blue-800'
+      case 'no_show':
+        return 'bg-orange-100 text-orange-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -103,11 +114,11 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
             </p>
           </div>
           <div className="flex gap-2">
-            <Badge className={getStatusColor(reservation.status)}>
-              {reservation.status.charAt(0).toUpperCase() + reservation.status.slice(1)}
+            <Badge className={getStatusColor(status)}>
+              {status.charAt(0).toUpperCase() + status.slice(1)}
             </Badge>
-            <Badge className={getPaymentStatusColor(reservation.payment_status)}>
-              {reservation.payment_status.charAt(0).toUpperCase() + reservation.payment_status.slice(1)}
+            <Badge className={getPaymentStatusColor(paymentStatus)}>
+              {paymentStatus.charAt(0).toUpperCase() + paymentStatus.slice(1)}
             </Badge>
           </div>
         </div>
@@ -131,7 +142,7 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
                   {reservation.start_time} - {reservation.end_time}
                 </p>
                 <p className="text-xs text-gray-500">
-                  Duration: {reservation.duration} hour{reservation.duration !== 1 ? 's' : ''}
+                  Duration: {reservation.duration_hours} hour{reservation.duration_hours !== 1 ? 's' : ''}
                 </p>
               </div>
             </div>
@@ -142,9 +153,9 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
                 <p className="text-sm font-medium">
                   {formatCurrency(reservation.total_price || 0)}
                 </p>
-                {reservation.discount_amount > 0 && (
+                {discountAmount > 0 && (
                   <p className="text-xs text-green-600">
-                    Discount: -{formatCurrency(reservation.discount_amount)}
+                    Discount: -{formatCurrency(discountAmount)}
                   </p>
                 )}
               </div>
@@ -152,17 +163,17 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
           </div>
           
           <div className="space-y-3">
-            {reservation.customer_name && (
+            {reservation.user?.full_name && (
               <div>
                 <p className="text-xs text-gray-500">Customer Name</p>
-                <p className="text-sm">{reservation.customer_name}</p>
+                <p className="text-sm">{reservation.user.full_name}</p>
               </div>
             )}
             
-            {reservation.customer_phone && (
+            {reservation.user?.phone && (
               <div>
                 <p className="text-xs text-gray-500">Phone</p>
-                <p className="text-sm">{reservation.customer_phone}</p>
+                <p className="text-sm">{reservation.user.phone}</p>
               </div>
             )}
             
@@ -182,10 +193,18 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
         
         <div className="flex justify-between items-center">
           <p className="text-xs text-gray-500">
-            Booked on {format(createdAt, 'MMM d, yyyy \\at h:mm a')}
+            {createdAt && `Booked on ${format(createdAt, 'MMM d, yyyy \\at h:mm a')}`}
           </p>
           
           <div className="flex gap-2">
+            {reservation.series_id && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/bookings/series/${reservation.series_id}`}>
+                  <Repeat className="h-4 w-4 mr-1" />
+                  Series
+                </Link>
+              </Button>
+            )}
             <Button variant="outline" size="sm" asChild>
               <Link href={`/booking/confirmation/${reservation.id}`}>
                 <Eye className="h-4 w-4 mr-1" />
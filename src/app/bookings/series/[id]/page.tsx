@@ -0,0 +1,251 @@
+import { Suspense } from 'react'
+import { notFound, redirect } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { SeriesActions, SeriesOccurrenceActions } from '@/components/features/booking/series-actions'
+import { SERIES_FREQUENCY_LABELS } from '@/lib/reservation-series'
+import { formatCurrency } from '@/lib/utils'
+import { ArrowLeft, Repeat } from 'lucide-react'
+import Link from 'next/link'
+import type { Reservation, ReservationSeries, Venue, VenueTimeSlot, VenueType } from '@/types/database'
+
+type Series = ReservationSeries & {
+  venue: Pick<Venue, 'name'> & {
+    venue_types: Pick<VenueType, 'name'> | null
+  }
+}
+
+interface SeriesPageProps {
+  params: Promise<{ id: string }>
+}
+
+async function getSeries(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  const { data: series, error } = await supabase
+    .from('reservation_series')
+    .select(`
+      *,
+      venue:venues(
+        name,
+        venue_types(
+          name
+        )
+      )
+    `)
+    .eq('id', id)
+    .single()
+
+  if (error || !series) {
+    return null
+  }
+
+  const { data: occurrences } = await supabase
+    .from('reservations')
+    .select('*')
+    .eq('series_id', id)
+    .order('reservation_date')
+
+  // Every occurrence falls on the same weekday, so the next one's slots stand for all of them
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const nextDate = (occurrences || []).find(occurrence => occurrence.reservation_date >= today)?.reservation_date
+    ?? series.start_date
+
+  const { data: slots } = await supabase
+    .rpc('get_venue_day_slots', {
+      p_venue_id: series.venue_id,
+      p_date: nextDate
+    })
+
+  return {
+    series: series as Series,
+    occurrences: (occurrences || []) as Reservation[],
+    slots: (slots || []) as Pick<VenueTimeSlot, 'start_time' | 'end_time'>[]
+  }
+}
+
+function getStatusColor(status: string) {
+  switch (status) {
+    case 'confirmed':
+      return 'bg-green-100 text-green-800'
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'cancelled':
+      return 'bg-red-100 text-red-800'
+    case 'completed':
+      return 'bg-blue-100 text-blue-800'
+    case 'no_show':
+      return 'bg-orange-100 text-orange-800'
+    default:
+      return 'bg-gray-100 text-gray-800'
+  }
+}
+
+function SeriesSkeleton() {
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <Skeleton className="h-8 w-64" />
+      <Skeleton className="h-32" />
+      <Skeleton className="h-96" />
+    </div>
+  )
+}
+
+async function SeriesContent({ id }: { id: string }) {
+  const result = await getSeries(id)
+
+  if (!result) {
+    notFound()
+  }
+
+  const { series, occurrences, slots } = result
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const active = occurrences.filter(r => r.status !== 'cancelled')
+  const upcoming = active.filter(r => r.reservation_date >= today && r.status !== 'completed')
+  const total = active.reduce((sum, r) => sum + r.total_price, 0)
+  const paid = active.reduce((sum, r) => sum + r.amount_paid, 0)
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/bookings">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Repeat className="h-6 w-6" />
+              {series.venue.name}
+            </h1>
+            <p className="text-muted-foreground">
+              {SERIES_FREQUENCY_LABELS[series.frequency]} on {format(parseISO(series.start_date), 'EEEE')}
+              {' · '}
+              {series.start_time.slice(0, 5)} - {series.end_time.slice(0, 5)}
+            </p>
+          </div>
+        </div>
+
+        {series.status === 'active' && upcoming.length > 0 && (
+          <SeriesActions
+            seriesId={series.id}
+            startTime={series.start_time}
+            endTime={series.end_time}
+            slots={slots}
+          />
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Bookings</p>
+            <p className="text-xl font-semibold">{active.length}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Package discount</p>
+            <p className="text-xl font-semibold">{series.package_discount_percentage}%</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Total</p>
+            <p className="text-xl font-semibold">{formatCurrency(total)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Paid</p>
+            <p className="text-xl font-semibold">{formatCurrency(paid)}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Bookings</CardTitle>
+            {series.status === 'cancelled' && <Badge variant="destructive">Cancelled</Badge>}
+          </div>
+          <CardDescription>
+            {format(parseISO(series.start_date), 'MMM d, yyyy')} - {format(parseISO(series.end_date), 'MMM d, yyyy')}.
+            Each booking is paid on its own, at the latest 24 hours before it starts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y">
+            {occurrences.map((reservation) => {
+              const status = reservation.status || 'pending'
+              const isOpen = ['pending', 'confirmed'].includes(status) && reservation.reservation_date >= today
+
+              return (
+                <div key={reservation.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">
+                        {format(parseISO(reservation.reservation_date), 'EEE, MMM d, yyyy')}
+                      </p>
+                      <Badge className={getStatusColor(status)}>
+                        {status.charAt(0).toUpperCase() + status.slice(1)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {reservation.start_time.slice(0, 5)} - {reservation.end_time.slice(0, 5)}
+                      {' · '}
+                      {formatCurrency(reservation.total_price)}
+                      {reservation.amount_paid > 0 && ` · ${formatCurrency(reservation.amount_paid)} paid`}
+                      {' · '}
+                      <span className="font-mono">{reservation.reservation_code}</span>
+                    </p>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button size="sm" variant={isOpen && reservation.payment_status !== 'paid' ? 'default' : 'outline'} asChild>
+                      <Link href={`/booking/confirmation/${reservation.id}`}>
+                        {isOpen && reservation.payment_status !== 'paid' ? 'Pay' : 'View'}
+                      </Link>
+                    </Button>
+                    {isOpen && (
+                      <SeriesOccurrenceActions
+                        reservationId={reservation.id}
+                        date={reservation.reservation_date}
+                        startTime={reservation.start_time}
+                        endTime={reservation.end_time}
+                        slots={slots}
+                      />
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const { id } = await params
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Suspense fallback={<SeriesSkeleton />}>
+        <SeriesContent id={id} />
+      </Suspense>
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Booking Series - Orange Sport Center',
+  description: 'Your recurring bookings.',
+}
@@ -7,17 +7,23 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Skeleton } from '@/components/ui/skeleton'
-import { Calendar, Clock, MapPin, DollarSign, TrendingUp, Users, Star } from 'lucide-react'
+import { Calendar, Clock, MapPin, DollarSign, TrendingUp, Users, Star, Crown } from 'lucide-react'
 import Link from 'next/link'
+import {
+  DEFAULT_BOOKING_WINDOW_DAYS,
+  MEMBERSHIP_RENEWAL_NOTICE_DAYS,
+  getMembershipDaysLeft,
+  type ActiveMembership,
+} from '@/lib/memberships'
+import { formatCurrency } from '@/lib/utils'
+import type { MembershipTier } from '@/types/database'
 
 interface UserProfile {
   id: string
   email: string
   full_name: string
-  avatar_url?: string
-  role: string
-  membership_type?: string
-  membership_expires_at?: string
+  avatar_url: string | null
+  role: string | null
 }
 
 interface DashboardStats {
@@ -27,6 +33,13 @@ interface DashboardStats {
   favoriteVenue?: string
 }
 
+interface MembershipOverview {
+  membership: ActiveMembership | null
+  // End of a renewal that starts when the current membership ends
+  renewedUntil: string | null
+  tiers: MembershipTier[]
+}
+
 interface RecentReservation {
   id: string
   venue_name: string
@@ -58,7 +71,7 @@ async function getUserProfile(): Promise<UserProfile | null> {
     return null
   }
   
-  return profile
+  return { ...profile, email: user.email || '' }
 }
 
 async function getDashboardStats(userId: string): Promise<DashboardStats> {
@@ -78,14 +91,14 @@ async function getDashboardStats(userId: string): Promise<DashboardStats> {
     .gte('reservation_date', new Date().toISOString().split('T')[0])
     .in('status', ['pending', 'confirmed'])
   
-  // Get total spent from completed payments
-  const { data: payments } = await supabase
-    .from('payments')
-    .select('amount, reservation:reservations!inner(user_id)')
-    .eq('payment_status', 'completed')
-    .eq('reservation.user_id', userId)
+  // Get total spent (collected payments minus refunds)
+  const { data: paidReservations } = await supabase
+    .from('reservations')
+    .select('amount_paid')
+    .eq('user_id', userId)
+    .gt('amount_paid', 0)
   
-  const totalSpent = payments?.reduce((sum, payment) => sum + payment.amount, 0) || 0
+  const totalSpent = paidReservations?.reduce((sum, reservation) => sum + Number(reservation.amount_paid), 0) || 0
   
   // Get favorite venue (most booked)
   const { data: venueStats } = await supabase
@@ -151,11 +164,43 @@ async function getRecentReservations(userId: string): Promise<RecentReservation[
     reservation_date: reservation.reservation_date,
     start_time: reservation.start_time,
     end_time: reservation.end_time,
-    status: reservation.status,
+    status: reservation.status || 'pending',
     total_price: reservation.total_price
   })) || []
 }
 
+async function getMembershipOverview(userId: string): Promise<MembershipOverview> {
+  const supabase = await createClient()
+  
+  const [{ data: active, error }, { data: renewals }, { data: tiers }] = await Promise.all([
+    supabase.rpc('get_active_membership', { p_user_id: userId }),
+    supabase
+      .from('memberships')
+      .select('expires_at')
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .gt('starts_at', new Date().toISOString())
+      .order('expires_at', { ascending: false })
+      .limit(1),
+    supabase
+      .from('membership_tiers')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order')
+      .order('price')
+  ])
+  
+  if (error) {
+    console.error('Error fetching membership:', error)
+  }
+  
+  return {
+    membership: active?.[0] ?? null,
+    renewedUntil: renewals?.[0]?.expires_at ?? null,
+    tiers: tiers || []
+  }
+}
+
 function DashboardSkeleton() {
   return (
     <div className="container mx-auto px-4 py-8">
@@ -219,6 +264,7 @@ function RecentReservationCard({ reservation }: { reservation: RecentReservation
       case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'cancelled': return 'bg-red-100 text-red-800'
       case 'completed': return 'bg-blue-100 text-blue-800'
+      case 'no_show': return 'bg-orange-100 text-orange-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -258,6 +304,92 @@ function RecentReservationCard({ reservation }: { reservation: RecentReservation
   )
 }
 
+function MembershipCard({ overview }: { overview: MembershipOverview }) {
+  const { membership, renewedUntil, tiers } = overview
+  
+  if (!membership) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crown className="h-5 w-5" />
+            Membership
+          </CardTitle>
+          <CardDescription>
+            You can book up to {DEFAULT_BOOKING_WINDOW_DAYS} days ahead. Members save on every booking and can book further in advance.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tiers.length > 0 ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {tiers.map((tier) => (
+                  <div key={tier.id} className="p-4 border rounded-lg space-y-1">
+                    <h4 className="font-semibold">{tier.name}</h4>
+                    <p className="text-lg font-bold">
+                      {formatCurrency(tier.price)}
+                      <span className="text-sm font-normal text-muted-foreground"> / {tier.duration_days} days</span>
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {tier.discount_percentage}% off bookings · book {tier.booking_window_days} days ahead
+                    </p>
+                    {tier.description && (
+                      <p className="text-xs text-muted-foreground">{tier.description}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Memberships are sold at the front desk.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Memberships are not available yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+  
+  const daysLeft = getMembershipDaysLeft(membership.expires_at)
+  const renewalDue = !renewedUntil && daysLeft <= MEMBERSHIP_RENEWAL_NOTICE_DAYS
+  
+  return (
+    <Card className="border-green-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crown className="h-5 w-5 text-green-700" />
+          {membership.tier_name} Membership
+        </CardTitle>
+        <CardDescription>
+          {membership.discount_percentage}% off every booking · book up to {membership.booking_window_days} days ahead
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>Valid until {new Date(membership.expires_at).toLocaleDateString()}</span>
+          <Badge variant="outline">{daysLeft} days left</Badge>
+        </div>
+        
+        {renewedUntil && (
+          <p className="text-sm text-green-700">
+            Renewed until {new Date(renewedUntil).toLocaleDateString()}
+          </p>
+        )}
+        
+        {renewalDue && (
+          <div className="p-4 bg-orange-50 rounded-lg border border-orange-200">
+            <h4 className="font-medium text-orange-800 mb-1">Time to renew</h4>
+            <p className="text-sm text-orange-700">
+              Your membership ends in {daysLeft} days. Renew at the front desk to keep your discount and priority booking.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 async function DashboardContent() {
   const profile = await getUserProfile()
   
@@ -265,20 +397,20 @@ async function DashboardContent() {
     redirect('/login')
   }
   
-  const [stats, recentReservations] = await Promise.all([
+  const [stats, recentReservations, membershipOverview] = await Promise.all([
     getDashboardStats(profile.id),
-    getRecentReservations(profile.id)
+    getRecentReservations(profile.id),
+    getMembershipOverview(profile.id)
   ])
   
-  const membershipActive = profile.membership_expires_at && 
-    new Date(profile.membership_expires_at) > new Date()
+  const { membership } = membershipOverview
   
   return (
     <div className="max-w-6xl mx-auto space-y-8">
       {/* Welcome Header */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center gap-6">
         <Avatar className="h-16 w-16">
-          <AvatarImage src={profile.avatar_url} alt={profile.full_name} />
+          <AvatarImage src={profile.avatar_url || undefined} alt={profile.full_name} />
           <AvatarFallback className="text-lg">
             {profile.full_name?.split(' ').map(n => n[0]).join('') || 'U'}
           </AvatarFallback>
@@ -290,9 +422,9 @@ async function DashboardContent() {
           </h1>
           <div className="flex flex-wrap gap-2">
             <Badge variant="outline">{profile.role}</Badge>
-            {membershipActive && (
+            {membership && (
               <Badge variant="outline" className="border-green-500 text-green-700">
-                {profile.membership_type} Member
+                {membership.tier_name} Member
               </Badge>
             )}
           </div>
@@ -413,22 +545,11 @@ async function DashboardContent() {
               </Button>
             </div>
             
-            {membershipActive && (
-              <div className="mt-6 p-4 bg-green-50 rounded-lg border border-green-200">
-                <h4 className="font-medium text-green-800 mb-1">
-                  {profile.membership_type} Member Benefits
-                </h4>
-                <p className="text-sm text-green-600">
-                  Enjoy exclusive discounts and priority booking!
-                </p>
-                <p className="text-xs text-green-500 mt-1">
-                  Expires: {new Date(profile.membership_expires_at!).toLocaleDateString()}
-                </p>
-              </div>
-            )}
           </CardContent>
         </Card>
       </div>
+      
+      <MembershipCard overview={membershipOverview} />
     </div>
   )
 }
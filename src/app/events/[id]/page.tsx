@@ -6,28 +6,18 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
-import { CalendarDays, MapPin, Users, Clock, DollarSign, Info } from 'lucide-react'
+import { CalendarDays, MapPin, Clock, Info } from 'lucide-react'
 import Link from 'next/link'
 import { Skeleton } from '@/components/ui/skeleton'
 import Image from 'next/image'
-
-interface Event {
-  id: string
-  title: string
-  description: string
-  event_date: string
-  start_time: string
-  end_time: string
-  location: string
-  max_participants: number
-  current_participants: number
-  registration_fee: number
-  status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled'
-  image_url?: string
-  rules?: string
-  requirements?: string
-  contact_info?: string
-  created_at: string
+import { format } from 'date-fns'
+import type { Event as EventRow } from '@/types/database'
+
+type Event = EventRow & {
+  venue: {
+    id: string
+    name: string
+  } | null
 }
 
 async function getEvent(id: string): Promise<Event | null> {
@@ -35,7 +25,13 @@ async function getEvent(id: string): Promise<Event | null> {
 
   const { data: event, error } = await supabase
     .from('events')
-    .select('*')
+    .select(`
+      *,
+      venue:venues(
+        id,
+        name
+      )
+    `)
     .eq('id', id)
     .single()
 
@@ -74,8 +70,7 @@ async function EventDetail({ id }: { id: string }) {
   }
 
   const eventDate = new Date(event.event_date)
-  const isRegistrationOpen = event.current_participants < event.max_participants && event.status === 'upcoming'
-  const spotsLeft = event.max_participants - event.current_participants
+  const isUpcoming = event.event_date >= format(new Date(), 'yyyy-MM-dd')
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -92,10 +87,10 @@ async function EventDetail({ id }: { id: string }) {
             />
             <div className="absolute top-4 right-4">
               <Badge
-                variant={event.status === 'upcoming' ? 'default' : 'secondary'}
+                variant={isUpcoming ? 'default' : 'secondary'}
                 className="text-sm"
               >
-                {event.status}
+                {isUpcoming ? 'upcoming' : 'completed'}
               </Badge>
             </div>
           </div>
@@ -142,139 +137,54 @@ async function EventDetail({ id }: { id: string }) {
                     <div>
                       <p className="font-medium">Time</p>
                       <p className="text-sm text-muted-foreground">
-                        {event.start_time} - {event.end_time}
+                        {event.start_time ? `${event.start_time} - ${event.end_time}` : 'All day'}
                       </p>
                     </div>
                   </div>
 
-                  <div className="flex items-center gap-3">
-                    <MapPin className="h-5 w-5 text-muted-foreground" />
-                    <div>
-                      <p className="font-medium">Location</p>
-                      <p className="text-sm text-muted-foreground">{event.location}</p>
-                    </div>
-                  </div>
-
-                  <div className="flex items-center gap-3">
-                    <DollarSign className="h-5 w-5 text-muted-foreground" />
-                    <div>
-                      <p className="font-medium">Registration Fee</p>
-                      <p className="text-sm text-muted-foreground">
-                        {event.registration_fee > 0
-                          ? `Rp ${event.registration_fee.toLocaleString()}`
-                          : 'Free'
-                        }
-                      </p>
+                  {event.venue && (
+                    <div className="flex items-center gap-3">
+                      <MapPin className="h-5 w-5 text-muted-foreground" />
+                      <div>
+                        <p className="font-medium">Location</p>
+                        <p className="text-sm text-muted-foreground">{event.venue.name}</p>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
-
-            {/* Rules & Requirements */}
-            {(event.rules || event.requirements) && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Rules & Requirements</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  {event.rules && (
-                    <div>
-                      <h4 className="font-medium mb-2">Event Rules</h4>
-                      <div className="text-sm text-muted-foreground whitespace-pre-line">
-                        {event.rules}
-                      </div>
-                    </div>
-                  )}
-
-                  {event.requirements && (
-                    <div>
-                      <h4 className="font-medium mb-2">Requirements</h4>
-                      <div className="text-sm text-muted-foreground whitespace-pre-line">
-                        {event.requirements}
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Contact Information */}
-            {event.contact_info && (
-              <Card>
-                <CardHeader>
-                  <CardTitle>Contact Information</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-sm text-muted-foreground whitespace-pre-line">
-                    {event.contact_info}
-                  </div>
-                </CardContent>
-              </Card>
-            )}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
-            {/* Registration Card */}
             <Card className="sticky top-4">
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Users className="h-5 w-5" />
-                  Registration
-                </CardTitle>
+                <CardTitle>{isUpcoming ? 'Join This Event' : 'Event Completed'}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="text-center">
-                  <div className="text-2xl font-bold">
-                    {event.current_participants}/{event.max_participants}
-                  </div>
-                  <p className="text-sm text-muted-foreground">Participants</p>
-                </div>
-
-                <div className="w-full bg-secondary rounded-full h-2">
-                  <div
-                    className="bg-primary h-2 rounded-full transition-all"
-                    style={{
-                      width: `${(event.current_participants / event.max_participants) * 100}%`
-                    }}
-                  />
-                </div>
-
-                {spotsLeft > 0 && spotsLeft <= 5 && (
-                  <p className="text-sm text-orange-600 font-medium text-center">
-                    Only {spotsLeft} spots left!
-                  </p>
-                )}
+                <p className="text-sm text-muted-foreground">
+                  {isUpcoming
+                    ? 'Visit the front desk or contact us to take part in this event.'
+                    : 'This event has already taken place. Check our events page for upcoming ones.'
+                  }
+                </p>
 
                 <Separator />
 
-                <div className="text-center">
-                  <div className="text-lg font-semibold mb-2">
-                    {event.registration_fee > 0
-                      ? `Rp ${event.registration_fee.toLocaleString()}`
-                      : 'Free Registration'
-                    }
-                  </div>
-
-                  <Button
-                    className="w-full"
-                    disabled={!isRegistrationOpen}
-                    asChild={isRegistrationOpen}
-                  >
-                    {isRegistrationOpen ? (
-                      <Link href={`/events/${event.id}/register`}>
-                        Register Now
-                      </Link>
-                    ) : (
-                      <span>
-                        {event.status === 'completed' ? 'Event Completed' :
-                          event.status === 'cancelled' ? 'Event Cancelled' :
-                            spotsLeft === 0 ? 'Registration Full' : 'Registration Closed'}
-                      </span>
-                    )}
+                {event.venue ? (
+                  <Button className="w-full" asChild>
+                    <Link href={`/venues/${event.venue.id}`}>
+                      View Venue
+                    </Link>
                   </Button>
-                </div>
+                ) : (
+                  <Button className="w-full" variant="outline" asChild>
+                    <Link href="/events">
+                      Browse Events
+                    </Link>
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -306,6 +216,6 @@ export async function generateMetadata({ params }: { params: Promise<{ id: strin
 
   return {
     title: `${event.title} - Orange Sport Center`,
-    description: event.description,
+    description: event.description || undefined,
   }
 }
\ No newline at end of file
@@ -4,24 +4,16 @@ import { cookies } from 'next/headers'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { CalendarDays, MapPin, Users, Clock } from 'lucide-react'
+import { CalendarDays, MapPin, Clock } from 'lucide-react'
 import Link from 'next/link'
 import { Skeleton } from '@/components/ui/skeleton'
+import { format } from 'date-fns'
+import type { Event as EventRow } from '@/types/database'
 
-interface Event {
-  id: string
-  title: string
-  description: string
-  event_date: string
-  start_time: string
-  end_time: string
-  location: string
-  max_participants: number
-  current_participants: number
-  registration_fee: number
-  status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled'
-  image_url?: string
-  created_at: string
+type Event = EventRow & {
+  venue: {
+    name: string
+  } | null
 }
 
 async function getEvents(): Promise<Event[]> {
@@ -29,8 +21,14 @@ async function getEvents(): Promise<Event[]> {
   
   const { data: events, error } = await supabase
     .from('events')
-    .select('*')
-    .eq('status', 'upcoming')
+    .select(`
+      *,
+      venue:venues(
+        name
+      )
+    `)
+    .eq('is_active', true)
+    .gte('event_date', format(new Date(), 'yyyy-MM-dd'))
     .order('event_date', { ascending: true })
   
   if (error) {
@@ -43,7 +41,6 @@ async function getEvents(): Promise<Event[]> {
 
 function EventCard({ event }: { event: Event }) {
   const eventDate = new Date(event.event_date)
-  const isRegistrationOpen = event.current_participants < event.max_participants
   
   return (
     <Card className="overflow-hidden hover:shadow-lg transition-shadow">
@@ -64,11 +61,8 @@ function EventCard({ event }: { event: Event }) {
               {event.description}
             </CardDescription>
           </div>
-          <Badge 
-            variant={event.status === 'upcoming' ? 'default' : 'secondary'}
-            className="ml-2"
-          >
-            {event.status}
+          <Badge className="ml-2">
+            upcoming
           </Badge>
         </div>
       </CardHeader>
@@ -80,32 +74,20 @@ function EventCard({ event }: { event: Event }) {
           </div>
           <div className="flex items-center gap-2">
             <Clock className="h-4 w-4 text-muted-foreground" />
-            <span>{event.start_time} - {event.end_time}</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <MapPin className="h-4 w-4 text-muted-foreground" />
-            <span className="truncate">{event.location}</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Users className="h-4 w-4 text-muted-foreground" />
-            <span>{event.current_participants}/{event.max_participants}</span>
+            <span>{event.start_time ? `${event.start_time} - ${event.end_time}` : 'All day'}</span>
           </div>
+          {event.venue && (
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              <span className="truncate">{event.venue.name}</span>
+            </div>
+          )}
         </div>
         
-        <div className="flex items-center justify-between pt-2">
-          <div className="text-lg font-semibold">
-            {event.registration_fee > 0 
-              ? `Rp ${event.registration_fee.toLocaleString()}` 
-              : 'Free'
-            }
-          </div>
-          <Button 
-            asChild
-            disabled={!isRegistrationOpen}
-            className={!isRegistrationOpen ? 'opacity-50 cursor-not-allowed' : ''}
-          >
+        <div className="flex items-center justify-end pt-2">
+          <Button asChild>
             <Link href={`/events/${event.id}`}>
-              {isRegistrationOpen ? 'Register' : 'Full'}
+              View Details
             </Link>
           </Button>
         </div>
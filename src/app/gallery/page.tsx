@@ -4,29 +4,15 @@ import { cookies } from 'next/headers'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ImageIcon, Calendar, MapPin } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import Image from 'next/image'
+import type { Album as AlbumRow, Photo } from '@/types/database'
 
-interface Album {
-  id: string
-  title: string
-  description?: string
-  cover_image_url?: string
-  album_type: 'venue' | 'event' | 'facility' | 'general'
-  is_featured: boolean
-  created_at: string
-  photos: AlbumPhoto[]
-}
+type AlbumPhoto = Pick<Photo, 'id' | 'album_id' | 'image_url' | 'title' | 'sort_order' | 'created_at'>
 
-interface AlbumPhoto {
-  id: string
-  album_id: string
-  image_url: string
-  caption?: string
-  sort_order: number
-  created_at: string
+type Album = AlbumRow & {
+  photos: AlbumPhoto[]
 }
 
 async function getAlbums(): Promise<Album[]> {
@@ -36,17 +22,18 @@ async function getAlbums(): Promise<Album[]> {
     .from('albums')
     .select(`
       *,
-      photos:album_photos(
+      photos(
         id,
         album_id,
         image_url,
-        caption,
+        title,
         sort_order,
         created_at
       )
     `)
+    .eq('is_active', true)
     .order('created_at', { ascending: false })
-    .order('sort_order', { foreignTable: 'album_photos', ascending: true })
+    .order('sort_order', { referencedTable: 'photos', ascending: true })
   
   if (error) {
     console.error('Error fetching albums:', error)
@@ -77,14 +64,6 @@ function AlbumCard({ album }: { album: Album }) {
           </div>
         )}
         
-        {album.is_featured && (
-          <div className="absolute top-2 left-2">
-            <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
-              Featured
-            </Badge>
-          </div>
-        )}
-        
         <div className="absolute bottom-2 right-2">
           <Badge variant="secondary" className="bg-black/50 text-white">
             {photoCount} photos
@@ -94,12 +73,7 @@ function AlbumCard({ album }: { album: Album }) {
       
       <CardContent className="p-4">
         <div className="space-y-2">
-          <div className="flex items-start justify-between">
-            <h3 className="font-semibold text-lg line-clamp-1">{album.title}</h3>
-            <Badge variant="outline" className="ml-2 text-xs">
-              {album.album_type}
-            </Badge>
-          </div>
+          <h3 className="font-semibold text-lg line-clamp-1">{album.title}</h3>
           
           {album.description && (
             <p className="text-sm text-muted-foreground line-clamp-2">
@@ -110,7 +84,7 @@ function AlbumCard({ album }: { album: Album }) {
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <Calendar className="h-3 w-3" />
             <span>
-              {new Date(album.created_at).toLocaleDateString()}
+              {album.created_at && new Date(album.created_at).toLocaleDateString()}
             </span>
           </div>
         </div>
@@ -136,106 +110,30 @@ function GallerySkeleton() {
   )
 }
 
-function FilteredAlbums({ albums, filter }: { albums: Album[], filter: string }) {
-  const filteredAlbums = filter === 'all' 
-    ? albums 
-    : albums.filter(album => album.album_type === filter)
+async function GalleryContent() {
+  const albums = await getAlbums()
   
-  if (filteredAlbums.length === 0) {
+  if (albums.length === 0) {
     return (
       <div className="text-center py-12">
         <ImageIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
         <h3 className="text-lg font-semibold mb-2">No albums found</h3>
         <p className="text-muted-foreground">
-          {filter === 'all' 
-            ? 'No albums have been created yet.' 
-            : `No ${filter} albums found.`
-          }
+          No albums have been created yet.
         </p>
       </div>
     )
   }
   
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-      {filteredAlbums.map((album) => (
-        <AlbumCard key={album.id} album={album} />
-      ))}
-    </div>
-  )
-}
-
-async function GalleryContent() {
-  const albums = await getAlbums()
-  
-  const featuredAlbums = albums.filter(album => album.is_featured)
-  const albumCounts = {
-    all: albums.length,
-    venue: albums.filter(a => a.album_type === 'venue').length,
-    event: albums.filter(a => a.album_type === 'event').length,
-    facility: albums.filter(a => a.album_type === 'facility').length,
-    general: albums.filter(a => a.album_type === 'general').length,
-  }
-  
-  return (
-    <div className="space-y-8">
-      {/* Featured Albums */}
-      {featuredAlbums.length > 0 && (
-        <section>
-          <h2 className="text-2xl font-bold mb-6">Featured Albums</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {featuredAlbums.slice(0, 3).map((album) => (
-              <AlbumCard key={album.id} album={album} />
-            ))}
-          </div>
-        </section>
-      )}
-      
-      {/* All Albums with Filters */}
-      <section>
-        <h2 className="text-2xl font-bold mb-6">All Albums</h2>
-        
-        <Tabs defaultValue="all" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:grid-cols-5">
-            <TabsTrigger value="all" className="text-xs sm:text-sm">
-              All ({albumCounts.all})
-            </TabsTrigger>
-            <TabsTrigger value="venue" className="text-xs sm:text-sm">
-              Venues ({albumCounts.venue})
-            </TabsTrigger>
-            <TabsTrigger value="event" className="text-xs sm:text-sm">
-              Events ({albumCounts.event})
-            </TabsTrigger>
-            <TabsTrigger value="facility" className="text-xs sm:text-sm">
-              Facilities ({albumCounts.facility})
-            </TabsTrigger>
-            <TabsTrigger value="general" className="text-xs sm:text-sm">
-              General ({albumCounts.general})
-            </TabsTrigger>
-          </TabsList>
-          
-          <TabsContent value="all">
-            <FilteredAlbums albums={albums} filter="all" />
-          </TabsContent>
-          
-          <TabsContent value="venue">
-            <FilteredAlbums albums={albums} filter="venue" />
-          </TabsContent>
-          
-          <TabsContent value="event">
-            <FilteredAlbums albums={albums} filter="event" />
-          </TabsContent>
-          
-          <TabsContent value="facility">
-            <FilteredAlbums albums={albums} filter="facility" />
-          </TabsContent>
-          
-          <TabsContent value="general">
-            <FilteredAlbums albums={albums} filter="general" />
-          </TabsContent>
-        </Tabs>
-      </section>
-    </div>
+    <section>
+      <h2 className="text-2xl font-bold mb-6">All Albums ({albums.length})</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+        {albums.map((album) => (
+          <AlbumCard key={album.id} album={album} />
+        ))}
+      </div>
+    </section>
   )
 }
 
@@ -8,25 +8,19 @@ import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Separator } from '@/components/ui/separator'
-import { User, Mail, Phone, MapPin, Calendar, CreditCard, History } from 'lucide-react'
+import { User, Mail, Phone, MapPin, Calendar, CalendarPlus, CreditCard, History, BellRing } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import ProfileForm from '@/components/features/profile/profile-form'
 import ReservationHistory from '@/components/features/profile/reservation-history'
 import PaymentHistory from '@/components/features/profile/payment-history'
+import WaitlistEntries from '@/components/features/profile/waitlist-entries'
+import CalendarFeeds from '@/components/features/profile/calendar-feeds'
+import type { ActiveMembership } from '@/lib/memberships'
+import type { Profile, Venue } from '@/types/database'
 
-interface UserProfile {
-  id: string
+type UserProfile = Profile & {
   email: string
-  full_name: string
-  phone?: string
-  address?: string
-  date_of_birth?: string
-  avatar_url?: string
-  role: 'customer' | 'member' | 'staff' | 'admin' | 'superadmin'
-  membership_type?: string
-  membership_expires_at?: string
-  created_at: string
-  updated_at: string
+  membership: ActiveMembership | null
 }
 
 async function getUserProfile(): Promise<UserProfile | null> {
@@ -49,7 +43,32 @@ async function getUserProfile(): Promise<UserProfile | null> {
     return null
   }
   
-  return profile
+  const { data: membership } = await supabase
+    .rpc('get_active_membership', { p_user_id: user.id })
+  
+  return { ...profile, email: user.email || '', membership: membership?.[0] ?? null }
+}
+
+// Staff can also subscribe to the schedule of each venue
+async function getFeedVenues(profile: Profile): Promise<Pick<Venue, 'id' | 'name'>[]> {
+  if (!profile.role || !['staff', 'admin', 'superadmin'].includes(profile.role)) {
+    return []
+  }
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('venues')
+    .select('id, name')
+    .eq('is_active', true)
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching venues:', error)
+    return []
+  }
+
+  return data || []
 }
 
 function ProfileSkeleton() {
@@ -77,13 +96,10 @@ function ProfileSkeleton() {
 }
 
 function ProfileHeader({ profile }: { profile: UserProfile }) {
-  const membershipActive = profile.membership_expires_at && 
-    new Date(profile.membership_expires_at) > new Date()
-  
   return (
     <div className="flex flex-col sm:flex-row items-start sm:items-center gap-6 mb-8">
       <Avatar className="h-20 w-20">
-        <AvatarImage src={profile.avatar_url} alt={profile.full_name} />
+        <AvatarImage src={profile.avatar_url || undefined} alt={profile.full_name} />
         <AvatarFallback className="text-lg">
           {profile.full_name?.split(' ').map(n => n[0]).join('') || 'U'}
         </AvatarFallback>
@@ -96,9 +112,9 @@ function ProfileHeader({ profile }: { profile: UserProfile }) {
             <Badge variant={profile.role === 'admin' || profile.role === 'superadmin' ? 'default' : 'secondary'}>
               {profile.role}
             </Badge>
-            {membershipActive && (
+            {profile.membership && (
               <Badge variant="outline" className="border-green-500 text-green-700">
-                {profile.membership_type} Member
+                {profile.membership.tier_name} Member
               </Badge>
             )}
           </div>
@@ -121,13 +137,15 @@ function ProfileHeader({ profile }: { profile: UserProfile }) {
 }
 
 function ProfileStats({ profile }: { profile: UserProfile }) {
-  const memberSince = new Date(profile.created_at).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long'
-  })
+  const memberSince = profile.created_at
+    ? new Date(profile.created_at).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long'
+    })
+    : '-'
   
-  const membershipExpiry = profile.membership_expires_at 
-    ? new Date(profile.membership_expires_at).toLocaleDateString()
+  const membershipExpiry = profile.membership
+    ? new Date(profile.membership.expires_at).toLocaleDateString()
     : null
   
   return (
@@ -149,9 +167,9 @@ function ProfileStats({ profile }: { profile: UserProfile }) {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold capitalize">{profile.role}</div>
-          {profile.membership_type && (
+          {profile.membership && (
             <p className="text-xs text-muted-foreground">
-              {profile.membership_type} membership
+              {profile.membership.tier_name} membership
             </p>
           )}
         </CardContent>
@@ -169,12 +187,7 @@ function ProfileStats({ profile }: { profile: UserProfile }) {
             {membershipExpiry || 'Active'}
           </div>
           {membershipExpiry && (
-            <p className="text-xs text-muted-foreground">
-              {new Date(profile.membership_expires_at!) > new Date() 
-                ? 'Active membership' 
-                : 'Expired membership'
-              }
-            </p>
+            <p className="text-xs text-muted-foreground">Active membership</p>
           )}
         </CardContent>
       </Card>
@@ -196,6 +209,8 @@ async function ProfileContent() {
       </div>
     )
   }
+
+  const feedVenues = await getFeedVenues(profile)
   
   return (
     <div className="max-w-4xl mx-auto">
@@ -203,9 +218,10 @@ async function ProfileContent() {
       <ProfileStats profile={profile} />
       
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="profile">Profile Settings</TabsTrigger>
           <TabsTrigger value="reservations">Reservations</TabsTrigger>
+          <TabsTrigger value="waitlist">Waitlist</TabsTrigger>
           <TabsTrigger value="payments">Payment History</TabsTrigger>
         </TabsList>
         
@@ -238,6 +254,38 @@ async function ProfileContent() {
               <ReservationHistory userId={profile.id} />
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarPlus className="h-5 w-5" />
+                Calendar Sync
+              </CardTitle>
+              <CardDescription>
+                Keep your bookings in the calendar app you already use.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CalendarFeeds venues={feedVenues} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        <TabsContent value="waitlist" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BellRing className="h-5 w-5" />
+                Waitlist
+              </CardTitle>
+              <CardDescription>
+                Booked times you&apos;re waiting for. A freed slot is held for the first person in line.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WaitlistEntries userId={profile.id} />
+            </CardContent>
+          </Card>
         </TabsContent>
         
         <TabsContent value="payments" className="space-y-6">
@@ -25,14 +25,11 @@ import {
 import { formatCurrency } from '@/lib/utils'
 import type { Database } from '@/types/database'
 
-// Raw venue data from Supabase with facilities as string | null
-type VenueFromDB = Database['public']['Tables']['venues']['Row'] & {
-  venue_types: Database['public']['Tables']['venue_types']['Row']
-}
+type VenueType = Database['public']['Tables']['venue_types']['Row']
 
-// Processed venue data with facilities as string array
+// Venue data with facilities defaulted to an empty list
 type Venue = Omit<Database['public']['Tables']['venues']['Row'], 'facilities'> & {
-  venue_types: Database['public']['Tables']['venue_types']['Row']
+  venue_types: Pick<VenueType, 'id' | 'name' | 'description'>
   facilities: string[]
 }
 
@@ -66,17 +63,10 @@ async function getVenue(id: string): Promise<Venue | null> {
 
   if (!venue) return null
 
-  // Transform the venue data to handle facilities properly
-  const transformedVenue: Venue = {
+  return {
     ...venue,
-    facilities: venue.facilities ? 
-      (typeof venue.facilities === 'string' ? 
-        JSON.parse(venue.facilities) : 
-        venue.facilities) : 
-      []
+    facilities: venue.facilities || []
   }
-
-  return transformedVenue
 }
 
 export default async function VenuePage({ params }: VenuePageProps) {
@@ -0,0 +1,93 @@
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  formatAuditField,
+  formatAuditValue,
+  getAuditActorLabel,
+  getAuditChanges,
+} from '@/lib/audit-log'
+import type { AuditLogEntry } from '@/types/database'
+
+interface AuditEntryListProps {
+  entries: AuditLogEntry[]
+  // Off on a reservation's own timeline, where every entry is about the same reservation
+  showEntity?: boolean
+}
+
+function getEntityHref(entry: AuditLogEntry) {
+  switch (entry.entity_type) {
+    case 'reservations': return `/admin/reservations/${entry.entity_id}`
+    case 'venues': return `/admin/venues/${entry.entity_id}/edit`
+    default: return null
+  }
+}
+
+function getActionVariant(action: AuditLogEntry['action']) {
+  switch (action) {
+    case 'insert': return 'default'
+    case 'delete': return 'destructive'
+    default: return 'outline'
+  }
+}
+
+export function AuditEntryList({ entries, showEntity = true }: AuditEntryListProps) {
+  return (
+    <div className="divide-y">
+      {entries.map((entry) => {
+        const changes = getAuditChanges(entry)
+        const entityLabel = AUDIT_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type
+        const href = getEntityHref(entry)
+
+        return (
+          <div key={entry.id} className="py-3 space-y-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={getActionVariant(entry.action)}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+              {showEntity ? (
+                href ? (
+                  <Link href={href} className="font-medium hover:underline">{entityLabel}</Link>
+                ) : (
+                  <span className="font-medium">{entityLabel}</span>
+                )
+              ) : (
+                entry.entity_type !== 'reservations' && <span className="font-medium">{entityLabel}</span>
+              )}
+              <span className="text-muted-foreground">
+                by {getAuditActorLabel(entry)} · {format(parseISO(entry.created_at), 'MMM d, yyyy HH:mm:ss')}
+              </span>
+            </div>
+
+            {entry.action === 'update' ? (
+              <ul className="space-y-1">
+                {changes.map((change) => (
+                  <li key={change.field} className="break-words">
+                    <span className="text-muted-foreground">{formatAuditField(change.field)}:</span>{' '}
+                    <span className="line-through text-muted-foreground">{formatAuditValue(change.before)}</span>
+                    {' → '}
+                    <span>{formatAuditValue(change.after)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <details>
+                <summary className="cursor-pointer text-muted-foreground">
+                  {entry.action === 'insert' ? 'Values' : 'Values before deletion'}
+                </summary>
+                <dl className="mt-2 grid grid-cols-1 gap-x-4 gap-y-1 md:grid-cols-[12rem_1fr]">
+                  {changes.map((change) => (
+                    <div key={change.field} className="contents">
+                      <dt className="text-muted-foreground">{formatAuditField(change.field)}</dt>
+                      <dd className="break-words">{formatAuditValue(change.after ?? change.before)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </details>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
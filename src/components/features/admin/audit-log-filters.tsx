@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { AUDIT_ENTITY_LABELS, NO_ACTOR } from '@/lib/audit-log'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Profile } from '@/types/database'
+
+export interface AuditLogFilterValues {
+  entity?: string
+  actor?: string
+  from?: string
+  to?: string
+}
+
+interface AuditLogFiltersProps {
+  actors: Pick<Profile, 'id' | 'full_name' | 'role'>[]
+  filters: AuditLogFilterValues
+}
+
+const ALL = 'all'
+
+export function AuditLogFilters({ actors, filters }: AuditLogFiltersProps) {
+  const router = useRouter()
+  const [entity, setEntity] = useState(filters.entity || ALL)
+  const [actor, setActor] = useState(filters.actor || ALL)
+  const [from, setFrom] = useState(filters.from || '')
+  const [to, setTo] = useState(filters.to || '')
+
+  function applyFilters() {
+    const params = new URLSearchParams()
+    if (entity !== ALL) params.set('entity', entity)
+    if (actor !== ALL) params.set('actor', actor)
+    if (from) params.set('from', from)
+    if (to) params.set('to', to)
+
+    router.push(`/admin/audit${params.size > 0 ? `?${params}` : ''}`)
+  }
+
+  function clearFilters() {
+    setEntity(ALL)
+    setActor(ALL)
+    setFrom('')
+    setTo('')
+    router.push('/admin/audit')
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-5 md:items-end">
+      <div className="space-y-2">
+        <Label>Entity</Label>
+        <Select value={entity} onValueChange={setEntity}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Everything</SelectItem>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Changed by</Label>
+        <Select value={actor} onValueChange={setActor}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Anyone</SelectItem>
+            <SelectItem value={NO_ACTOR}>Webhooks and jobs</SelectItem>
+            {actors.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.full_name} ({profile.role})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="audit-from">From</Label>
+        <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="audit-to">To</Label>
+        <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={applyFilters} className="flex-1">Filter</Button>
+        <Button variant="outline" onClick={clearFilters}>Clear</Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { formatCurrency } from '@/lib/utils'
+import { describeBlackout, getBlackoutCancellationUrl, type BlackoutConflict } from '@/lib/venue-blackouts'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2 } from 'lucide-react'
+import type { VenueBlackout } from '@/types/database'
+
+interface BlackoutConflictsDialogProps {
+  // The dialog is open while a blackout is set
+  blackout: VenueBlackout | null
+  onClose: () => void
+  // Called after bookings were cancelled
+  onCancelled: () => void
+}
+
+interface CancellationResult {
+  cancelledCount: number
+  refundTotal: number
+  refundErrors: string[]
+}
+
+// Bookings that run into a blackout, to cancel with a full refund. Bookings that should
+// be moved instead can be dragged elsewhere on the schedule board.
+export function BlackoutConflictsDialog({ blackout, onClose, onCancelled }: BlackoutConflictsDialogProps) {
+  const [conflicts, setConflicts] = useState<BlackoutConflict[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<CancellationResult | null>(null)
+
+  useEffect(() => {
+    if (!blackout) return
+
+    const fetchConflicts = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setResult(null)
+
+        const { data, error } = await createClient().rpc('get_blackout_conflicts', {
+          p_venue_id: blackout.venue_id,
+          p_start_date: blackout.start_date,
+          p_recurrence: blackout.recurrence,
+          p_end_date: blackout.end_date ?? undefined,
+          p_start_time: blackout.start_time ?? undefined,
+          p_end_time: blackout.end_time ?? undefined,
+        })
+
+        if (error) throw error
+
+        setConflicts(data || [])
+        setSelected(new Set((data || []).map(conflict => conflict.reservation_id)))
+      } catch (err) {
+        console.error('Error fetching blackout conflicts:', err)
+        setError('Failed to load the colliding bookings')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchConflicts()
+  }, [blackout])
+
+  function toggle(reservationId: string) {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(reservationId)) {
+        next.delete(reservationId)
+      } else {
+        next.add(reservationId)
+      }
+      return next
+    })
+  }
+
+  async function cancelSelected() {
+    if (!blackout || selected.size === 0) return
+
+    try {
+      setCancelling(true)
+      setError(null)
+
+      const response = await fetch(getBlackoutCancellationUrl(blackout.id), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reservationIds: Array.from(selected) }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to cancel the bookings')
+        return
+      }
+
+      setResult(data)
+      setConflicts(current => current.filter(conflict => !selected.has(conflict.reservation_id)))
+      setSelected(new Set())
+      onCancelled()
+    } catch (err) {
+      console.error('Error cancelling blackout bookings:', err)
+      setError('Failed to cancel the bookings. Please try again.')
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  return (
+    <Dialog open={blackout !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Colliding bookings</DialogTitle>
+          <DialogDescription>
+            {blackout && <>{blackout.reason} · {describeBlackout(blackout)}. </>}
+            Cancelled bookings are refunded in full and the customers are notified.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <Alert>
+            <AlertDescription>
+              {result.cancelledCount} {result.cancelledCount === 1 ? 'booking' : 'bookings'} cancelled,
+              {' '}{formatCurrency(result.refundTotal)} refunded.
+              {result.refundErrors.length > 0 && ' Some refunds could not be sent to the payment provider yet and need following up.'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : conflicts.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No upcoming bookings collide with this blackout.</p>
+        ) : (
+          <div className="rounded-lg border divide-y">
+            <label className="flex items-center gap-3 p-3 text-sm font-medium">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={selected.size === conflicts.length}
+                onChange={(e) => setSelected(new Set(e.target.checked ? conflicts.map(conflict => conflict.reservation_id) : []))}
+              />
+              Select all ({conflicts.length})
+            </label>
+            {conflicts.map((conflict) => (
+              <label key={conflict.reservation_id} className="flex items-center gap-3 p-3 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={selected.has(conflict.reservation_id)}
+                  onChange={() => toggle(conflict.reservation_id)}
+                />
+                <div className="flex-1">
+                  <p className="font-medium">
+                    {format(parseISO(conflict.reservation_date), 'EEE, MMM d')} · {conflict.start_time.slice(0, 5)} - {conflict.end_time.slice(0, 5)}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {conflict.customer_name || 'Guest'} · {conflict.reservation_code}
+                    {Number(conflict.amount_paid) > 0 && <> · {formatCurrency(Number(conflict.amount_paid))} paid</>}
+                  </p>
+                </div>
+                <Badge variant="outline">{conflict.status}</Badge>
+                <Link
+                  href={`/admin/schedule?view=day&date=${conflict.reservation_date}`}
+                  className="text-xs underline text-muted-foreground"
+                >
+                  Move
+                </Link>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Keep bookings
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={cancelSelected}
+            disabled={cancelling || selected.size === 0}
+          >
+            {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cancel {selected.size} and refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { CancellationRuleDialog } from './cancellation-rule-dialog'
+import { Loader2, Pencil, Trash2 } from 'lucide-react'
+import type { CancellationPolicyRule, VenueType } from '@/types/database'
+
+interface CancellationRuleActionsProps {
+  rule: CancellationPolicyRule
+  venueTypes: Pick<VenueType, 'id' | 'name'>[]
+}
+
+// Removing a venue type's last rule puts it back on the global rules
+export function CancellationRuleActions({ rule, venueTypes }: CancellationRuleActionsProps) {
+  const [deleting, setDeleting] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  async function deleteRule() {
+    if (!confirm('Delete this cancellation rule?')) return
+
+    try {
+      setDeleting(true)
+
+      const { error } = await supabase
+        .from('cancellation_policy_rules')
+        .delete()
+        .eq('id', rule.id)
+
+      if (error) throw error
+
+      router.refresh()
+    } catch (err) {
+      console.error('Error deleting cancellation rule:', err)
+      alert('Failed to delete cancellation rule. Please try again.')
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <CancellationRuleDialog
+        venueTypes={venueTypes}
+        rule={rule}
+        trigger={
+          <Button size="sm" variant="outline">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        }
+      />
+
+      <Button size="sm" variant="outline" onClick={deleteRule} disabled={deleting}>
+        {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+      </Button>
+    </div>
+  )
+}
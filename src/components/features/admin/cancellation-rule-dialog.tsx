@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import {
+  ALL_VENUE_TYPES,
+  cancellationRuleSchema,
+  type CancellationRuleFormData,
+} from '@/lib/validations/cancellation-policy'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import type { CancellationPolicyRule, VenueType } from '@/types/database'
+
+interface CancellationRuleDialogProps {
+  venueTypes: Pick<VenueType, 'id' | 'name'>[]
+  // Edits this rule when given, creates a new one otherwise
+  rule?: CancellationPolicyRule
+  trigger: React.ReactNode
+}
+
+function toFormValues(rule?: CancellationPolicyRule): CancellationRuleFormData {
+  return {
+    venueTypeId: rule?.venue_type_id || ALL_VENUE_TYPES,
+    minHoursBeforeStart: rule?.min_hours_before_start ?? 24,
+    refundPercentage: rule?.refund_percentage ?? 100,
+  }
+}
+
+export function CancellationRuleDialog({ venueTypes, rule, trigger }: CancellationRuleDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuthStore()
+  const router = useRouter()
+  const supabase = createClient()
+
+  const form = useForm<CancellationRuleFormData>({
+    resolver: zodResolver(cancellationRuleSchema),
+    defaultValues: toFormValues(rule),
+  })
+
+  async function onSubmit(data: CancellationRuleFormData) {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const values = {
+        venue_type_id: data.venueTypeId === ALL_VENUE_TYPES ? null : data.venueTypeId,
+        min_hours_before_start: data.minHoursBeforeStart,
+        refund_percentage: data.refundPercentage,
+      }
+
+      const { error } = rule
+        ? await supabase.from('cancellation_policy_rules').update(values).eq('id', rule.id)
+        : await supabase.from('cancellation_policy_rules').insert({ ...values, created_by: user?.id || null })
+
+      if (error) {
+        setError(error.code === '23505' ? 'There is already a rule for this notice period' : error.message)
+        return
+      }
+
+      setOpen(false)
+      if (!rule) form.reset(toFormValues())
+      router.refresh()
+    } catch (err) {
+      console.error('Error saving cancellation rule:', err)
+      setError('Failed to save cancellation rule. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        setError(null)
+        if (nextOpen) form.reset(toFormValues(rule))
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit cancellation rule' : 'Add cancellation rule'}</DialogTitle>
+          <DialogDescription>
+            Cancelling with at least this much notice refunds this share of what was paid.
+            The rule with the longest notice that is met applies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="venueTypeId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies to</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL_VENUE_TYPES}>All venue types</SelectItem>
+                      {venueTypes.map((venueType) => (
+                        <SelectItem key={venueType.id} value={venueType.id}>{venueType.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    A venue type with rules of its own ignores the global rules
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="minHoursBeforeStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notice (hours)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="refundPercentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Refund (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
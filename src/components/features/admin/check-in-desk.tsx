@@ -0,0 +1,160 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle, Loader2, ScanLine, XCircle } from 'lucide-react'
+
+interface CheckInResult {
+  reservationCode: string
+  customerName: string | null
+  customerPhone: string | null
+  venueName: string | null
+  date: string
+  startTime: string
+  endTime: string
+  notes: string | null
+  checkedInAt: string | null
+  scanned: boolean
+}
+
+type CheckInOutcome =
+  | { ok: true, result: CheckInResult }
+  | { ok: false, error: string, reservationCode?: string }
+
+async function checkIn(code: string, venueId?: string | null): Promise<CheckInOutcome> {
+  try {
+    const response = await fetch('/api/check-in', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, venueId }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      return { ok: false, error: data.error || 'Failed to check in', reservationCode: data.reservationCode }
+    }
+
+    return { ok: true, result: data }
+  } catch (err) {
+    console.error('Error checking in:', err)
+    return { ok: false, error: 'Failed to check in. Please try again.' }
+  }
+}
+
+interface CheckInDeskProps {
+  venueId?: string | null
+}
+
+// Scanners type the pass into the focused field and press Enter, so the field is
+// cleared and focused again after every attempt
+export function CheckInDesk({ venueId }: CheckInDeskProps) {
+  const [code, setCode] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [outcome, setOutcome] = useState<CheckInOutcome | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const router = useRouter()
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault()
+    if (!code.trim() || submitting) return
+
+    setSubmitting(true)
+    const result = await checkIn(code, venueId)
+    setOutcome(result)
+    setCode('')
+    setSubmitting(false)
+    inputRef.current?.focus()
+
+    if (result.ok) router.refresh()
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Scan a pass or type a reservation code"
+            className="pl-9 font-mono"
+            autoComplete="off"
+            autoFocus
+          />
+        </div>
+        <Button type="submit" disabled={submitting || !code.trim()}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Check In
+        </Button>
+      </form>
+
+      {outcome?.ok && (
+        <Alert className="border-green-200 bg-green-50">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-900">
+            <p className="font-medium">
+              {outcome.result.customerName || 'Customer'} checked in
+              {outcome.result.checkedInAt && ` at ${format(parseISO(outcome.result.checkedInAt), 'HH:mm')}`}
+            </p>
+            <p>
+              {outcome.result.venueName} · {format(parseISO(outcome.result.date), 'EEE, MMM d')} ·{' '}
+              {outcome.result.startTime.slice(0, 5)} - {outcome.result.endTime.slice(0, 5)}
+            </p>
+            <p className="text-sm">
+              {outcome.result.reservationCode}
+              {outcome.result.customerPhone && ` · ${outcome.result.customerPhone}`}
+              {outcome.result.scanned ? ' · Pass verified' : ' · Code entered by hand'}
+            </p>
+            {outcome.result.notes && <p className="text-sm">Notes: {outcome.result.notes}</p>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {outcome && !outcome.ok && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>
+            {outcome.reservationCode && <span className="font-mono">{outcome.reservationCode}: </span>}
+            {outcome.error}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
+
+interface CheckInButtonProps {
+  reservationCode: string
+  venueId?: string | null
+}
+
+// Checks in a booking from today's list, for customers without their pass
+export function CheckInButton({ reservationCode, venueId }: CheckInButtonProps) {
+  const [submitting, setSubmitting] = useState(false)
+  const router = useRouter()
+
+  async function handleClick() {
+    setSubmitting(true)
+    const result = await checkIn(reservationCode, venueId)
+    setSubmitting(false)
+
+    if (!result.ok) {
+      alert(result.error)
+      return
+    }
+
+    router.refresh()
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleClick} disabled={submitting}>
+      {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+      Check In
+    </Button>
+  )
+}
@@ -0,0 +1,205 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { grantMembershipSchema, type GrantMembershipFormData } from '@/lib/validations/membership'
+import { formatCurrency } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import type { MembershipTier, Profile } from '@/types/database'
+
+interface GrantMembershipDialogProps {
+  customers: Pick<Profile, 'id' | 'full_name' | 'phone'>[]
+  tiers: Pick<MembershipTier, 'id' | 'name' | 'price' | 'duration_days'>[]
+  // Preselected when renewing an existing membership
+  userId?: string
+  tierId?: string
+  trigger: React.ReactNode
+}
+
+export function GrantMembershipDialog({ customers, tiers, userId, tierId, trigger }: GrantMembershipDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const defaultValues: GrantMembershipFormData = {
+    userId: userId || '',
+    tierId: tierId && tiers.some(tier => tier.id === tierId) ? tierId : '',
+    pricePaid: undefined,
+  }
+
+  const form = useForm<GrantMembershipFormData>({
+    resolver: zodResolver(grantMembershipSchema),
+    defaultValues,
+  })
+
+  const selectedTier = tiers.find(tier => tier.id === form.watch('tierId'))
+
+  async function onSubmit(data: GrantMembershipFormData) {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { error } = await supabase.rpc('grant_membership', {
+        p_user_id: data.userId,
+        p_tier_id: data.tierId,
+        p_price_paid: data.pricePaid,
+      })
+
+      if (error) {
+        setError(error.message)
+        return
+      }
+
+      setOpen(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Error granting membership:', err)
+      setError('Failed to save membership. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        setError(null)
+        if (nextOpen) form.reset(defaultValues)
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{userId ? 'Renew membership' : 'Sell membership'}</DialogTitle>
+          <DialogDescription>
+            Record a membership paid at the front desk. If the customer is already a member,
+            the new period starts when the current one ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="userId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Customer</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={Boolean(userId)}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a customer" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {customers.map((customer) => (
+                        <SelectItem key={customer.id} value={customer.id}>
+                          {customer.full_name}{customer.phone && ` · ${customer.phone}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tierId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tier</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a tier" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {tiers.map((tier) => (
+                        <SelectItem key={tier.id} value={tier.id}>
+                          {tier.name} · {formatCurrency(tier.price)} / {tier.duration_days} days
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pricePaid"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount paid</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder={selectedTier ? String(selectedTier.price) : undefined}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>Leave empty to charge the tier price</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { GrantMembershipDialog } from './grant-membership-dialog'
+import { Loader2, RefreshCw, XCircle } from 'lucide-react'
+import type { Membership, MembershipTier, Profile } from '@/types/database'
+
+interface MembershipActionsProps {
+  membership: Pick<Membership, 'id' | 'user_id' | 'tier_id'>
+  customerName: string
+  customers: Pick<Profile, 'id' | 'full_name' | 'phone'>[]
+  tiers: Pick<MembershipTier, 'id' | 'name' | 'price' | 'duration_days'>[]
+}
+
+export function MembershipActions({ membership, customerName, customers, tiers }: MembershipActionsProps) {
+  const [cancelling, setCancelling] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  // The member role is taken away by the trigger on memberships
+  async function cancelMembership() {
+    try {
+      setCancelling(true)
+
+      const { error } = await supabase
+        .from('memberships')
+        .update({ status: 'cancelled' })
+        .eq('id', membership.id)
+
+      if (error) throw error
+
+      setConfirmOpen(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Error cancelling membership:', err)
+      alert('Failed to cancel membership. Please try again.')
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <GrantMembershipDialog
+        customers={customers}
+        tiers={tiers}
+        userId={membership.user_id}
+        tierId={membership.tier_id}
+        trigger={
+          <Button size="sm" variant="outline">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Renew
+          </Button>
+        }
+      />
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogTrigger asChild>
+          <Button size="sm" variant="outline" disabled={cancelling}>
+            <XCircle className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel membership</DialogTitle>
+            <DialogDescription>
+              {customerName} loses member benefits straight away. Payments are not refunded automatically.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="destructive" onClick={cancelMembership} disabled={cancelling}>
+              {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancel membership
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { membershipTierSchema, type MembershipTierFormData } from '@/lib/validations/membership'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Loader2 } from 'lucide-react'
+import type { MembershipTier } from '@/types/database'
+
+interface MembershipTierDialogProps {
+  // Edits this tier when given, creates a new one otherwise
+  tier?: MembershipTier
+  trigger: React.ReactNode
+}
+
+function toFormValues(tier?: MembershipTier): MembershipTierFormData {
+  return {
+    name: tier?.name || '',
+    description: tier?.description || '',
+    price: tier?.price ?? 0,
+    durationDays: tier?.duration_days ?? 30,
+    discountPercentage: tier?.discount_percentage ?? 0,
+    bookingWindowDays: tier?.booking_window_days ?? 30,
+    isActive: tier?.is_active ?? true,
+  }
+}
+
+const NUMBER_FIELDS = [
+  { name: 'price', label: 'Price (Rp)' },
+  { name: 'durationDays', label: 'Duration (days)' },
+  { name: 'discountPercentage', label: 'Booking discount (%)' },
+  { name: 'bookingWindowDays', label: 'Booking window (days)' },
+] as const
+
+export function MembershipTierDialog({ tier, trigger }: MembershipTierDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const form = useForm<MembershipTierFormData>({
+    resolver: zodResolver(membershipTierSchema),
+    defaultValues: toFormValues(tier),
+  })
+
+  async function onSubmit(data: MembershipTierFormData) {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const values = {
+        name: data.name,
+        description: data.description || null,
+        price: data.price,
+        duration_days: data.durationDays,
+        discount_percentage: data.discountPercentage,
+        booking_window_days: data.bookingWindowDays,
+        is_active: data.isActive,
+      }
+
+      const { error } = tier
+        ? await supabase.from('membership_tiers').update(values).eq('id', tier.id)
+        : await supabase.from('membership_tiers').insert(values)
+
+      if (error) {
+        setError(error.code === '23505' ? 'There is already a tier with this name' : error.message)
+        return
+      }
+
+      setOpen(false)
+      if (!tier) form.reset(toFormValues())
+      router.refresh()
+    } catch (err) {
+      console.error('Error saving membership tier:', err)
+      setError('Failed to save membership tier. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        if (nextOpen) form.reset(toFormValues(tier))
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{tier ? 'Edit membership tier' : 'Add membership tier'}</DialogTitle>
+          <DialogDescription>
+            Changes apply to bookings made from now on, including those of current members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Gold" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Shown to customers on their dashboard" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {NUMBER_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive tiers can no longer be sold or renewed</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { PromoCodeDialog } from './promo-code-dialog'
+import { Loader2, Pencil, Power } from 'lucide-react'
+import type { PromoCode, Venue, VenueType } from '@/types/database'
+
+interface PromoCodeActionsProps {
+  promoCode: PromoCode
+  venues: Pick<Venue, 'id' | 'name'>[]
+  venueTypes: Pick<VenueType, 'id' | 'name'>[]
+}
+
+// Codes are deactivated rather than deleted so the redemption report keeps them
+export function PromoCodeActions({ promoCode, venues, venueTypes }: PromoCodeActionsProps) {
+  const [updating, setUpdating] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  async function toggleActive() {
+    try {
+      setUpdating(true)
+
+      const { error } = await supabase
+        .from('promo_codes')
+        .update({ is_active: !promoCode.is_active })
+        .eq('id', promoCode.id)
+
+      if (error) throw error
+
+      router.refresh()
+    } catch (err) {
+      console.error('Error updating promo code:', err)
+      alert('Failed to update promo code. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <PromoCodeDialog
+        venues={venues}
+        venueTypes={venueTypes}
+        promoCode={promoCode}
+        trigger={
+          <Button size="sm" variant="outline">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        }
+      />
+
+      <Button size="sm" variant="outline" onClick={toggleActive} disabled={updating}>
+        {updating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Power className="h-4 w-4 mr-2" />}
+        {promoCode.is_active ? 'Deactivate' : 'Activate'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,400 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import { ANY_VENUE, promoCodeSchema, type PromoCodeFormData } from '@/lib/validations/promo-code'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import type { PromoCode, Venue, VenueType } from '@/types/database'
+
+interface PromoCodeDialogProps {
+  venues: Pick<Venue, 'id' | 'name'>[]
+  venueTypes: Pick<VenueType, 'id' | 'name'>[]
+  // Edits this code when given, creates a new one otherwise
+  promoCode?: PromoCode
+  trigger: React.ReactNode
+}
+
+function toInputDateTime(value: string | null) {
+  return value ? format(parseISO(value), "yyyy-MM-dd'T'HH:mm") : ''
+}
+
+function toFormValues(promoCode?: PromoCode): PromoCodeFormData {
+  return {
+    code: promoCode?.code || '',
+    description: promoCode?.description || '',
+    discountType: promoCode?.discount_type || 'percentage',
+    discountValue: promoCode?.discount_value ?? 10,
+    minSpend: promoCode?.min_spend ?? 0,
+    validFrom: toInputDateTime(promoCode?.valid_from ?? null),
+    validUntil: toInputDateTime(promoCode?.valid_until ?? null),
+    usageLimit: promoCode?.usage_limit ?? undefined,
+    // New codes default to one use per customer, as in the table
+    perUserLimit: promoCode ? promoCode.per_user_limit ?? undefined : 1,
+    venueId: promoCode?.venue_id || ANY_VENUE,
+    venueTypeId: promoCode?.venue_type_id || ANY_VENUE,
+    isActive: promoCode?.is_active ?? true,
+  }
+}
+
+function optionalNumber(value: string) {
+  return value === '' ? undefined : Number(value)
+}
+
+export function PromoCodeDialog({ venues, venueTypes, promoCode, trigger }: PromoCodeDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuthStore()
+  const router = useRouter()
+  const supabase = createClient()
+
+  const form = useForm<PromoCodeFormData>({
+    resolver: zodResolver(promoCodeSchema),
+    defaultValues: toFormValues(promoCode),
+  })
+
+  const discountType = form.watch('discountType')
+
+  async function onSubmit(data: PromoCodeFormData) {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const values = {
+        code: data.code,
+        description: data.description || null,
+        discount_type: data.discountType,
+        discount_value: data.discountValue,
+        min_spend: data.minSpend,
+        valid_from: data.validFrom ? new Date(data.validFrom).toISOString() : null,
+        valid_until: data.validUntil ? new Date(data.validUntil).toISOString() : null,
+        usage_limit: data.usageLimit ?? null,
+        per_user_limit: data.perUserLimit ?? null,
+        venue_id: data.venueId === ANY_VENUE ? null : data.venueId,
+        venue_type_id: data.venueTypeId === ANY_VENUE ? null : data.venueTypeId,
+        is_active: data.isActive,
+      }
+
+      const { error } = promoCode
+        ? await supabase.from('promo_codes').update(values).eq('id', promoCode.id)
+        : await supabase.from('promo_codes').insert({ ...values, created_by: user?.id || null })
+
+      if (error) {
+        setError(error.code === '23505' ? 'This code already exists' : error.message)
+        return
+      }
+
+      setOpen(false)
+      if (!promoCode) form.reset(toFormValues())
+      router.refresh()
+    } catch (err) {
+      console.error('Error saving promo code:', err)
+      setError('Failed to save promo code. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        if (nextOpen) form.reset(toFormValues(promoCode))
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{promoCode ? 'Edit promo code' : 'Add promo code'}</DialogTitle>
+          <DialogDescription>
+            Customers enter the code in the booking summary. It is checked again when the booking is made.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. WELCOME10"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Internal note, e.g. opening week campaign" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percentage">Percentage</SelectItem>
+                        <SelectItem value="fixed_amount">Fixed amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discountValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{discountType === 'percentage' ? 'Discount (%)' : 'Discount (Rp)'}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid from</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="validUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid until</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="usageLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total uses</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        placeholder="Unlimited"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="perUserLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Uses per customer</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        placeholder="Unlimited"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="minSpend"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum spend</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="venueTypeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Venue type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY_VENUE}>Any type</SelectItem>
+                        {venueTypes.map((venueType) => (
+                          <SelectItem key={venueType.id} value={venueType.id}>{venueType.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="venueId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Venue</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY_VENUE}>Any venue</SelectItem>
+                        {venues.map((venue) => (
+                          <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive codes are rejected at checkout</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Eye, EyeOff, Flag, Loader2 } from 'lucide-react'
+import type { Review } from '@/types/database'
+
+interface ReviewModerationActionsProps {
+  reviewId: string
+  status: Review['status']
+  moderationNote?: string | null
+}
+
+export function ReviewModerationActions({ reviewId, status, moderationNote }: ReviewModerationActionsProps) {
+  const [saving, setSaving] = useState(false)
+  const [note, setNote] = useState(moderationNote || '')
+  const [pendingStatus, setPendingStatus] = useState<Review['status'] | null>(null)
+  const { user } = useAuthStore()
+  const router = useRouter()
+  const supabase = createClient()
+
+  async function moderate(nextStatus: Review['status']) {
+    try {
+      setSaving(true)
+
+      const { error } = await supabase
+        .from('reviews')
+        .update({
+          status: nextStatus,
+          moderation_note: note || null,
+          moderated_by: user?.id || null,
+          moderated_at: new Date().toISOString(),
+        })
+        .eq('id', reviewId)
+
+      if (error) throw error
+
+      setPendingStatus(null)
+      router.refresh()
+    } catch (err) {
+      console.error('Error moderating review:', err)
+      alert('Failed to update review. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      {status !== 'published' && (
+        <Button size="sm" variant="outline" onClick={() => moderate('published')} disabled={saving}>
+          <Eye className="h-4 w-4 mr-1" />
+          Publish
+        </Button>
+      )}
+
+      {(['hidden', 'flagged'] as const)
+        .filter(action => action !== status)
+        .map(action => (
+          <Dialog
+            key={action}
+            open={pendingStatus === action}
+            onOpenChange={(open) => setPendingStatus(open ? action : null)}
+          >
+            <DialogTrigger asChild>
+              <Button size="sm" variant="outline" disabled={saving}>
+                {action === 'hidden' ? <EyeOff className="h-4 w-4 mr-1" /> : <Flag className="h-4 w-4 mr-1" />}
+                {action === 'hidden' ? 'Hide' : 'Flag'}
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>{action === 'hidden' ? 'Hide review' : 'Flag review'}</DialogTitle>
+                <DialogDescription>
+                  {action === 'hidden'
+                    ? 'Hidden reviews are removed from the venue page and its rating.'
+                    : 'Flagged reviews are held back from the venue page until a staff member publishes them again.'}
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                placeholder="Moderation note (visible to staff only)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <DialogFooter>
+                <Button onClick={() => moderate(action)} disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Confirm
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        ))}
+    </div>
+  )
+}
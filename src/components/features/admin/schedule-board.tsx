@@ -0,0 +1,570 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { useScheduleBoard } from '@/hooks/use-schedule-board'
+import { formatCurrency } from '@/lib/utils'
+import { getBlackoutLabel } from '@/lib/venue-blackouts'
+import {
+  AFTER_HOURS_BLOCK_COLOR,
+  BLACKOUT_BLOCK_COLOR,
+  BOARD_DEFAULT_MINUTES,
+  BOARD_SNAP_MINUTES,
+  CLOSURE_BLOCK_COLOR,
+  EVENT_BLOCK_COLOR,
+  RESERVATION_BLOCK_COLORS,
+  buildAfterHoursItems,
+  buildBoardItems,
+  findBoardConflict,
+  getReservationLabel,
+  isMovableReservation,
+  minutesToTime,
+  snapMinutes,
+  type BoardItem,
+  type BoardRange,
+  type BoardView,
+} from '@/lib/schedule-board'
+import { WalkInDialog } from '@/components/features/admin/walk-in-dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Loader2 } from 'lucide-react'
+import type { Venue } from '@/types/database'
+
+type BoardVenue = Pick<Venue, 'id' | 'name' | 'venue_type_id'>
+
+type ReservationItem = Extract<BoardItem, { kind: 'reservation' }>
+
+type Drag =
+  | { type: 'create', range: BoardRange, anchor: number, dayIndex: number }
+  | { type: 'move', item: ReservationItem, range: BoardRange, grabOffset: number, originX: number, originY: number, moved: boolean }
+  | { type: 'resize', item: ReservationItem, range: BoardRange, dayIndex: number }
+
+type Notice = { type: 'success' | 'error', message: string }
+
+interface ScheduleBoardProps {
+  venues: BoardVenue[]
+  view: BoardView
+  days: string[]
+  startHour: number
+  endHour: number
+}
+
+const ROW_HEIGHT = 56
+
+const HOUR_WIDTH: Record<BoardView, number> = {
+  day: 96,
+  week: 24,
+}
+
+// Pointer travel before pressing a booking turns into moving it rather than a click
+const DRAG_THRESHOLD_PX = 4
+
+function startsAt(range: Pick<BoardRange, 'date' | 'start'>) {
+  return new Date(`${range.date}T${minutesToTime(range.start)}`)
+}
+
+export function ScheduleBoard({ venues, view, days, startHour, endHour }: ScheduleBoardProps) {
+  const router = useRouter()
+  const { reservations, events, closures, blackouts, openingHours, loading, error, refetch } = useScheduleBoard(days[0], days[days.length - 1])
+  const [drag, setDrag] = useState<Drag | null>(null)
+  const [walkIn, setWalkIn] = useState<BoardRange | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [notice, setNotice] = useState<Notice | null>(null)
+  const [now, setNow] = useState(() => new Date())
+  const dragRef = useRef<Drag | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+
+  const hourWidth = HOUR_WIDTH[view]
+  const dayStart = startHour * 60
+  const dayEnd = endHour * 60
+  const dayWidth = (endHour - startHour) * hourWidth
+  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i)
+
+  const items = useMemo(
+    () => [
+      // Until the hours are in, the whole day would count as closed
+      ...(loading ? [] : buildAfterHoursItems(openingHours, venues.map(v => v.id), days)),
+      ...buildBoardItems(reservations, events, closures, blackouts, venues.map(v => v.id), now),
+    ],
+    [reservations, events, closures, blackouts, openingHours, loading, venues, days, now]
+  )
+
+  // Keeps the current-time line and what counts as "in the past" moving
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  function updateDrag(next: Drag | null) {
+    dragRef.current = next
+    setDrag(next)
+  }
+
+  function toLeft(dayIndex: number, minutes: number) {
+    const clamped = Math.min(Math.max(minutes, dayStart), dayEnd)
+    return dayIndex * dayWidth + ((clamped - dayStart) * hourWidth) / 60
+  }
+
+  // Day, minute and venue row under the pointer
+  function pointAt(clientX: number, clientY: number) {
+    const rect = gridRef.current!.getBoundingClientRect()
+    const x = clientX - rect.left
+    const dayIndex = Math.min(Math.max(Math.floor(x / dayWidth), 0), days.length - 1)
+    const rowIndex = Math.min(Math.max(Math.floor((clientY - rect.top) / ROW_HEIGHT), 0), venues.length - 1)
+
+    return {
+      dayIndex,
+      rowIndex,
+      minutes: dayStart + ((x - dayIndex * dayWidth) * 60) / hourWidth,
+    }
+  }
+
+  function rangeProblem(range: BoardRange, ignoreId?: string, venueTypeId?: string | null) {
+    if (startsAt(range) <= now) {
+      return 'That time has already started'
+    }
+
+    const venue = venues.find(v => v.id === range.venueId)
+    if (venueTypeId !== undefined && venue?.venue_type_id !== venueTypeId) {
+      return 'A booking can only be moved to a venue of the same type'
+    }
+
+    const conflict = findBoardConflict(items, range, ignoreId, now)
+    if (conflict?.kind === 'closure') {
+      return `${venue?.name ?? 'The venue'} is closed that day (${conflict.closure.name})`
+    }
+    if (conflict?.kind === 'after_hours') {
+      return `${venue?.name ?? 'The venue'} isn't open then`
+    }
+    if (conflict?.kind === 'blackout') {
+      return `${venue?.name ?? 'The venue'} is blacked out then (${getBlackoutLabel(conflict.blackout)})`
+    }
+    if (conflict?.kind === 'reservation') {
+      return `That time overlaps booking ${conflict.reservation.reservation_code}`
+    }
+
+    return null
+  }
+
+  function itemVenueType(item: ReservationItem) {
+    return venues.find(v => v.id === item.venueId)?.venue_type_id ?? null
+  }
+
+  const dragProblem = drag && (drag.type !== 'move' || drag.moved)
+    ? rangeProblem(
+        drag.range,
+        drag.type === 'create' ? undefined : drag.item.id,
+        drag.type === 'move' ? itemVenueType(drag.item) : undefined
+      )
+    : null
+
+  function handleRowPointerDown(event: React.PointerEvent, venueId: string) {
+    if (event.button !== 0 || saving) return
+
+    const { dayIndex, minutes } = pointAt(event.clientX, event.clientY)
+    const anchor = Math.floor(minutes / BOARD_SNAP_MINUTES) * BOARD_SNAP_MINUTES
+
+    updateDrag({
+      type: 'create',
+      anchor,
+      dayIndex,
+      range: { venueId, date: days[dayIndex], start: anchor, end: Math.min(anchor + BOARD_DEFAULT_MINUTES, dayEnd) },
+    })
+  }
+
+  function handleItemPointerDown(event: React.PointerEvent, item: ReservationItem) {
+    event.stopPropagation()
+    if (event.button !== 0 || saving) return
+
+    const { minutes } = pointAt(event.clientX, event.clientY)
+
+    updateDrag({
+      type: 'move',
+      item,
+      range: { venueId: item.venueId, date: item.date, start: item.start, end: item.end },
+      grabOffset: minutes - item.start,
+      originX: event.clientX,
+      originY: event.clientY,
+      moved: false,
+    })
+  }
+
+  function handleResizePointerDown(event: React.PointerEvent, item: ReservationItem) {
+    event.stopPropagation()
+    if (event.button !== 0 || saving) return
+
+    updateDrag({
+      type: 'resize',
+      item,
+      dayIndex: days.indexOf(item.date),
+      range: { venueId: item.venueId, date: item.date, start: item.start, end: item.end },
+    })
+  }
+
+  function openItem(item: BoardItem) {
+    if (item.kind === 'reservation') {
+      router.push(`/booking/confirmation/${item.id}`)
+    } else if (item.kind === 'event') {
+      router.push(`/events/${item.id}`)
+    }
+  }
+
+  async function reschedule(item: ReservationItem, range: BoardRange) {
+    const venue = venues.find(v => v.id === range.venueId)
+    const summary = `${venue?.name}, ${format(parseISO(range.date), 'EEE, MMM d')} ${minutesToTime(range.start)} - ${minutesToTime(range.end)}`
+
+    if (!confirm(`Move booking ${item.reservation.reservation_code} to ${summary}? The price is recalculated.`)) return
+
+    try {
+      setSaving(true)
+
+      const response = await fetch(`/api/reservations/${item.id}/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          venueId: range.venueId,
+          date: range.date,
+          startTime: minutesToTime(range.start),
+          endTime: minutesToTime(range.end),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setNotice({ type: 'error', message: data.error || 'Failed to move the booking' })
+        return
+      }
+
+      const balance = (data.totalPrice ?? 0) - (data.amountPaid ?? 0)
+      const details = [
+        data.refundedAmount > 0 ? `${formatCurrency(data.refundedAmount)} refunded.` : null,
+        data.refundError,
+        balance > 0 && data.amountPaid > 0 ? `${formatCurrency(balance)} left to pay.` : null,
+      ]
+
+      setNotice({
+        type: data.refundError ? 'error' : 'success',
+        message: [`Moved ${item.reservation.reservation_code} to ${summary}.`, ...details].filter(Boolean).join(' '),
+      })
+    } catch (err) {
+      console.error('Error moving booking:', err)
+      setNotice({ type: 'error', message: 'Failed to move the booking. Please try again.' })
+    } finally {
+      setSaving(false)
+      refetch()
+    }
+  }
+
+  // Pointer tracking runs on the window so drags keep going outside the grid. The
+  // listeners are renewed every render to see the latest bookings.
+  useEffect(() => {
+    if (!drag) return
+
+    function handleMove(event: PointerEvent) {
+      const current = dragRef.current
+      if (!current) return
+
+      const point = pointAt(event.clientX, event.clientY)
+
+      if (current.type === 'create') {
+        const minutes = point.dayIndex === current.dayIndex
+          ? snapMinutes(point.minutes)
+          : point.dayIndex > current.dayIndex ? dayEnd : dayStart
+        const start = Math.min(current.anchor, minutes)
+        const end = Math.max(current.anchor, minutes)
+
+        updateDrag({
+          ...current,
+          range: {
+            ...current.range,
+            start,
+            end: end > start ? end : Math.min(start + BOARD_DEFAULT_MINUTES, dayEnd),
+          },
+        })
+      } else if (current.type === 'move') {
+        const moved = current.moved
+          || Math.abs(event.clientX - current.originX) > DRAG_THRESHOLD_PX
+          || Math.abs(event.clientY - current.originY) > DRAG_THRESHOLD_PX
+        if (!moved) return
+
+        const duration = current.item.end - current.item.start
+        const start = Math.min(Math.max(snapMinutes(point.minutes - current.grabOffset), dayStart), dayEnd - duration)
+
+        updateDrag({
+          ...current,
+          moved,
+          range: {
+            venueId: venues[point.rowIndex].id,
+            date: days[point.dayIndex],
+            start,
+            end: start + duration,
+          },
+        })
+      } else {
+        const rect = gridRef.current!.getBoundingClientRect()
+        const minutes = dayStart + ((event.clientX - rect.left - current.dayIndex * dayWidth) * 60) / hourWidth
+        const end = Math.min(Math.max(snapMinutes(minutes), current.item.start + BOARD_SNAP_MINUTES), dayEnd)
+
+        updateDrag({ ...current, range: { ...current.range, end } })
+      }
+    }
+
+    function handleUp() {
+      const current = dragRef.current
+      updateDrag(null)
+      if (!current) return
+
+      if (current.type === 'move' && !current.moved) {
+        openItem(current.item)
+        return
+      }
+
+      const { item: original, range } = current.type === 'create'
+        ? { item: null, range: current.range }
+        : { item: current.item, range: current.range }
+
+      if (original
+        && range.venueId === original.venueId
+        && range.date === original.date
+        && range.start === original.start
+        && range.end === original.end) {
+        return
+      }
+
+      const problem = rangeProblem(
+        range,
+        original?.id,
+        current.type === 'move' ? itemVenueType(current.item) : undefined
+      )
+
+      if (problem) {
+        setNotice({ type: 'error', message: problem })
+      } else if (original) {
+        reschedule(original, range)
+      } else {
+        setNotice(null)
+        setWalkIn(range)
+      }
+    }
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+
+    return () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+    }
+  })
+
+  if (loading) {
+    return <Skeleton className="h-96 w-full" />
+  }
+
+  const draggedId = drag && drag.type !== 'create' && (drag.type === 'resize' || drag.moved) ? drag.item.id : null
+  const todayIndex = days.indexOf(format(now, 'yyyy-MM-dd'))
+  const nowMinutes = now.getHours() * 60 + now.getMinutes()
+
+  function renderItem(item: BoardItem) {
+    const left = toLeft(days.indexOf(item.date), item.start)
+    const width = Math.max(toLeft(days.indexOf(item.date), item.end) - left, 4)
+    const style = { left, width, top: 4, height: ROW_HEIGHT - 8 }
+    const timeLabel = `${minutesToTime(item.start)} - ${minutesToTime(item.end)}`
+
+    if (item.kind === 'closure') {
+      return (
+        <div
+          key={item.id}
+          className={`absolute rounded border px-2 py-1 text-xs overflow-hidden pointer-events-none opacity-80 ${CLOSURE_BLOCK_COLOR}`}
+          style={style}
+          title={`Closed: ${item.closure.name}`}
+        >
+          <p className="font-medium truncate">Closed · {item.closure.name}</p>
+        </div>
+      )
+    }
+
+    if (item.kind === 'after_hours') {
+      return (
+        <div
+          key={item.id}
+          className={`absolute border-y px-2 py-1 text-xs overflow-hidden pointer-events-none ${AFTER_HOURS_BLOCK_COLOR}`}
+          style={{ ...style, top: 0, height: ROW_HEIGHT }}
+          title="Closed"
+        >
+          {view === 'day' && <p className="truncate">Closed</p>}
+        </div>
+      )
+    }
+
+    if (item.kind === 'blackout') {
+      const label = getBlackoutLabel(item.blackout)
+
+      return (
+        <div
+          key={item.id}
+          className={`absolute rounded border border-dashed px-2 py-1 text-xs overflow-hidden pointer-events-none opacity-80 ${BLACKOUT_BLOCK_COLOR}`}
+          style={style}
+          title={`Blacked out: ${label} · ${timeLabel}`}
+        >
+          <p className="font-medium truncate">{label}</p>
+          {view === 'day' && <p className="truncate">{timeLabel}</p>}
+        </div>
+      )
+    }
+
+    if (item.kind === 'event') {
+      return (
+        <div
+          key={item.id}
+          className={`absolute rounded border px-2 py-1 text-xs overflow-hidden cursor-pointer ${EVENT_BLOCK_COLOR}`}
+          style={style}
+          title={`${item.event.title} · ${timeLabel}`}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => openItem(item)}
+        >
+          <p className="font-medium truncate">{item.event.title}</p>
+          {view === 'day' && <p className="truncate">{timeLabel}</p>}
+        </div>
+      )
+    }
+
+    const { reservation } = item
+    const movable = isMovableReservation(reservation, now)
+    const label = getReservationLabel(reservation)
+
+    return (
+      <div
+        key={item.id}
+        className={`absolute rounded border px-2 py-1 text-xs overflow-hidden select-none touch-none ${RESERVATION_BLOCK_COLORS[reservation.status ?? 'pending']} ${reservation.status === 'pending' ? 'border-dashed' : ''} ${movable ? 'cursor-grab' : 'cursor-pointer'} ${draggedId === item.id ? 'opacity-40' : ''}`}
+        style={style}
+        title={`${label} · ${reservation.reservation_code} · ${timeLabel} · ${reservation.status?.replace('_', '-')}`}
+        onPointerDown={(e) => movable ? handleItemPointerDown(e, item) : e.stopPropagation()}
+        onClick={() => !movable && openItem(item)}
+      >
+        <p className="font-medium truncate">{label}</p>
+        {view === 'day' && <p className="truncate">{timeLabel}</p>}
+        {movable && (
+          <div
+            className="absolute right-0 top-0 h-full w-2 cursor-ew-resize"
+            onPointerDown={(e) => handleResizePointerDown(e, item)}
+          />
+        )}
+      </div>
+    )
+  }
+
+  const preview = drag && (drag.type !== 'move' || drag.moved) ? drag.range : null
+  const previewRow = preview ? venues.findIndex(v => v.id === preview.venueId) : -1
+
+  return (
+    <div className="space-y-4">
+      {(notice || error) && (
+        <Alert variant={notice?.type === 'success' ? 'default' : 'destructive'}>
+          <AlertDescription>{notice?.message ?? error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="relative flex border rounded-lg bg-white">
+        {/* Venue names */}
+        <div className="w-40 shrink-0 border-r">
+          <div className="h-12 border-b" />
+          {venues.map((venue) => (
+            <div key={venue.id} className="flex items-center px-3 border-b text-sm font-medium truncate" style={{ height: ROW_HEIGHT }}>
+              {venue.name}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-x-auto">
+          <div style={{ width: dayWidth * days.length }}>
+            {/* Time axis */}
+            <div className="relative h-12 border-b text-xs text-muted-foreground">
+              {days.map((day, dayIndex) => (
+                <div key={day} className="absolute top-0 h-full border-l" style={{ left: dayIndex * dayWidth, width: dayWidth }}>
+                  {view === 'week' && (
+                    <p className="px-2 pt-1 font-medium text-foreground">{format(parseISO(day), 'EEE d MMM')}</p>
+                  )}
+                  {hours.map((hour, i) => (view === 'day' || i % 3 === 0) && (
+                    <span key={hour} className="absolute bottom-1" style={{ left: i * hourWidth + 4 }}>
+                      {String(hour).padStart(2, '0')}{view === 'day' && ':00'}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            {/* Venue rows */}
+            <div ref={gridRef} className="relative">
+              {venues.map((venue) => (
+                <div
+                  key={venue.id}
+                  className="relative border-b touch-none"
+                  style={{
+                    height: ROW_HEIGHT,
+                    backgroundImage: `repeating-linear-gradient(to right, #f3f4f6 0 1px, transparent 1px ${hourWidth}px)`,
+                  }}
+                  onPointerDown={(e) => handleRowPointerDown(e, venue.id)}
+                >
+                  {days.map((day, dayIndex) => dayIndex > 0 && (
+                    <div key={day} className="absolute top-0 h-full border-l border-gray-300" style={{ left: dayIndex * dayWidth }} />
+                  ))}
+                  {items.filter(item => item.venueId === venue.id && days.includes(item.date)).map(renderItem)}
+                </div>
+              ))}
+
+              {preview && previewRow >= 0 && (
+                <div
+                  className={`absolute rounded border-2 pointer-events-none ${dragProblem ? 'border-red-500 bg-red-100/60' : 'border-orange-500 bg-orange-100/60'}`}
+                  style={{
+                    left: toLeft(days.indexOf(preview.date), preview.start),
+                    width: toLeft(days.indexOf(preview.date), preview.end) - toLeft(days.indexOf(preview.date), preview.start),
+                    top: previewRow * ROW_HEIGHT + 2,
+                    height: ROW_HEIGHT - 4,
+                  }}
+                >
+                  <span className="px-1 text-xs font-medium">
+                    {minutesToTime(preview.start)} - {minutesToTime(preview.end)}
+                  </span>
+                </div>
+              )}
+
+              {todayIndex >= 0 && nowMinutes >= dayStart && nowMinutes <= dayEnd && (
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+                  style={{ left: toLeft(todayIndex, nowMinutes) }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        {saving && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/60">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(['pending', 'confirmed', 'completed', 'no_show'] as const).map((status) => (
+          <span key={status} className={`rounded border px-2 py-0.5 capitalize ${RESERVATION_BLOCK_COLORS[status]}`}>
+            {status.replace('_', '-')}
+          </span>
+        ))}
+        <span className={`rounded border px-2 py-0.5 ${EVENT_BLOCK_COLOR}`}>Event</span>
+        <span className={`rounded border px-2 py-0.5 ${CLOSURE_BLOCK_COLOR}`}>Closed</span>
+        <span className={`rounded border border-dashed px-2 py-0.5 ${BLACKOUT_BLOCK_COLOR}`}>Blackout</span>
+        <span className={`rounded border px-2 py-0.5 ${AFTER_HOURS_BLOCK_COLOR}`}>Outside opening hours</span>
+      </div>
+
+      <WalkInDialog
+        range={walkIn}
+        venueName={venues.find(v => v.id === walkIn?.venueId)?.name ?? ''}
+        onClose={() => setWalkIn(null)}
+        onBooked={() => refetch()}
+      />
+    </div>
+  )
+}
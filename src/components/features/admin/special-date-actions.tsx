@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { SpecialDateDialog } from './special-date-dialog'
+import { Loader2, Pencil, Trash2 } from 'lucide-react'
+import type { SpecialDate, Venue } from '@/types/database'
+
+interface SpecialDateActionsProps {
+  specialDate: SpecialDate
+  venues: Pick<Venue, 'id' | 'name'>[]
+}
+
+export function SpecialDateActions({ specialDate, venues }: SpecialDateActionsProps) {
+  const [deleting, setDeleting] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  async function deleteSpecialDate() {
+    try {
+      setDeleting(true)
+
+      const { error } = await supabase
+        .from('special_dates')
+        .delete()
+        .eq('id', specialDate.id)
+
+      if (error) throw error
+
+      setConfirmOpen(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Error deleting special date:', err)
+      alert('Failed to delete special date. Please try again.')
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <SpecialDateDialog
+        venues={venues}
+        specialDate={specialDate}
+        trigger={
+          <Button size="sm" variant="outline">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        }
+      />
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogTrigger asChild>
+          <Button size="sm" variant="outline" disabled={deleting}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete special date</DialogTitle>
+            <DialogDescription>
+              {specialDate.name} will be priced as a regular day again. Existing bookings keep their price.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="destructive" onClick={deleteSpecialDate} disabled={deleting}>
+              {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
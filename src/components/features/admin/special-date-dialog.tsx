@@ -0,0 +1,285 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import { SPECIAL_DATE_TYPE_LABELS } from '@/lib/special-dates'
+import { ALL_VENUES, specialDateSchema, type SpecialDateFormData } from '@/lib/validations/special-date'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import type { SpecialDate, Venue } from '@/types/database'
+
+interface SpecialDateDialogProps {
+  venues: Pick<Venue, 'id' | 'name'>[]
+  // Edits this entry when given, creates a new one otherwise
+  specialDate?: SpecialDate
+  trigger: React.ReactNode
+}
+
+function toFormValues(specialDate?: SpecialDate): SpecialDateFormData {
+  return {
+    specialDate: specialDate?.special_date || '',
+    name: specialDate?.name || '',
+    dateType: specialDate?.date_type || 'public_holiday',
+    venueId: specialDate?.venue_id || ALL_VENUES,
+    priceMultiplier: specialDate?.price_multiplier ?? undefined,
+    priceOverride: specialDate?.price_override ?? undefined,
+    isClosed: specialDate?.is_closed ?? false,
+  }
+}
+
+export function SpecialDateDialog({ venues, specialDate, trigger }: SpecialDateDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuthStore()
+  const router = useRouter()
+  const supabase = createClient()
+
+  const form = useForm<SpecialDateFormData>({
+    resolver: zodResolver(specialDateSchema),
+    defaultValues: toFormValues(specialDate),
+  })
+
+  async function onSubmit(data: SpecialDateFormData) {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const values = {
+        special_date: data.specialDate,
+        name: data.name,
+        date_type: data.dateType,
+        venue_id: data.venueId === ALL_VENUES ? null : data.venueId,
+        price_multiplier: data.priceMultiplier ?? null,
+        price_override: data.priceOverride ?? null,
+        is_closed: data.isClosed,
+      }
+
+      const { error } = specialDate
+        ? await supabase.from('special_dates').update(values).eq('id', specialDate.id)
+        : await supabase.from('special_dates').insert({ ...values, created_by: user?.id || null })
+
+      if (error) {
+        setError(error.code === '23505'
+          ? 'There is already a special date for this venue on that day'
+          : error.message)
+        return
+      }
+
+      setOpen(false)
+      if (!specialDate) form.reset(toFormValues())
+      router.refresh()
+    } catch (err) {
+      console.error('Error saving special date:', err)
+      setError('Failed to save special date. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        if (nextOpen) form.reset(toFormValues(specialDate))
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{specialDate ? 'Edit special date' : 'Add special date'}</DialogTitle>
+          <DialogDescription>
+            Special dates are charged at the weekend rate unless you set a multiplier or a price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="specialDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dateType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(SPECIAL_DATE_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Hari Raya Idul Fitri" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="venueId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Venue</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL_VENUES}>All venues</SelectItem>
+                      {venues.map((venue) => (
+                        <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>A venue&apos;s own entry wins over an all-venue entry on the same day</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="priceMultiplier"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price multiplier</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.05"
+                        min="0"
+                        placeholder="e.g. 1.5"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="priceOverride"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hourly price override</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="e.g. 250000"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isClosed"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Closed</FormLabel>
+                    <FormDescription>No bookings can be made on this day</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import { parseIcsDates, type IcsDateEntry } from '@/lib/ics'
+import { SPECIAL_DATE_TYPE_LABELS } from '@/lib/special-dates'
+import { ALL_VENUES } from '@/lib/validations/special-date'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, Upload } from 'lucide-react'
+import type { SpecialDate, Venue } from '@/types/database'
+
+interface SpecialDateImportProps {
+  venues: Pick<Venue, 'id' | 'name'>[]
+}
+
+// How many parsed dates to list before importing
+const PREVIEW_LIMIT = 8
+
+export function SpecialDateImport({ venues }: SpecialDateImportProps) {
+  const [open, setOpen] = useState(false)
+  const [entries, setEntries] = useState<IcsDateEntry[]>([])
+  const [venueId, setVenueId] = useState(ALL_VENUES)
+  const [dateType, setDateType] = useState<SpecialDate['date_type']>('public_holiday')
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuthStore()
+  const router = useRouter()
+  const supabase = createClient()
+
+  async function readFile(file: File | undefined) {
+    setError(null)
+    setEntries([])
+    if (!file) return
+
+    const today = format(new Date(), 'yyyy-MM-dd')
+    const upcoming = parseIcsDates(await file.text()).filter(entry => entry.date >= today)
+
+    if (upcoming.length === 0) {
+      setError('No upcoming dates found in this calendar file')
+      return
+    }
+
+    setEntries(upcoming)
+  }
+
+  async function importDates() {
+    try {
+      setImporting(true)
+      setError(null)
+
+      // Dates that already have an entry for the chosen venue are left as they are
+      const { error } = await supabase
+        .from('special_dates')
+        .upsert(
+          entries.map(entry => ({
+            special_date: entry.date,
+            name: entry.name.slice(0, 200),
+            date_type: dateType,
+            venue_id: venueId === ALL_VENUES ? null : venueId,
+            created_by: user?.id || null,
+          })),
+          { onConflict: 'venue_id,special_date', ignoreDuplicates: true }
+        )
+
+      if (error) throw error
+
+      setOpen(false)
+      setEntries([])
+      router.refresh()
+    } catch (err) {
+      console.error('Error importing special dates:', err)
+      setError('Failed to import special dates. Please try again.')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        setEntries([])
+        setError(null)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import ICS
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import holidays</DialogTitle>
+          <DialogDescription>
+            Upload an .ics calendar, e.g. the &quot;Holidays in Indonesia&quot; calendar exported from Google Calendar.
+            Upcoming dates are added; days that already have an entry are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="special-date-ics">Calendar file</Label>
+            <Input
+              id="special-date-ics"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => readFile(e.target.files?.[0])}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={dateType} onValueChange={(value) => setDateType(value as SpecialDate['date_type'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SPECIAL_DATE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Venue</Label>
+              <Select value={venueId} onValueChange={setVenueId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VENUES}>All venues</SelectItem>
+                  {venues.map((venue) => (
+                    <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {entries.length > 0 && (
+            <div className="rounded-lg border p-3 space-y-1 text-sm">
+              <p className="font-medium">{entries.length} upcoming dates</p>
+              {entries.slice(0, PREVIEW_LIMIT).map((entry) => (
+                <div key={entry.date} className="flex justify-between text-muted-foreground">
+                  <span>{entry.name}</span>
+                  <span>{entry.date}</span>
+                </div>
+              ))}
+              {entries.length > PREVIEW_LIMIT && (
+                <p className="text-muted-foreground">and {entries.length - PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={importDates} disabled={importing || entries.length === 0}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,659 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { useMembership } from '@/hooks/use-membership'
+import { getInvoiceUrl } from '@/lib/invoices'
+import { isSlotTakenError } from '@/lib/reservation-errors'
+import {
+  calculateStaffBookingPrice,
+  type CustomerMatch,
+  type StaffBookingPrefill,
+} from '@/lib/staff-bookings'
+import { formatCurrency } from '@/lib/utils'
+import { staffBookingSchema, type StaffBookingFormData } from '@/lib/validations/booking'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CheckCircle, Loader2, Printer, Search, X } from 'lucide-react'
+import type { Venue } from '@/types/database'
+
+interface StaffBookingFormProps {
+  venues: Pick<Venue, 'id' | 'name'>[]
+  prefill?: StaffBookingPrefill
+}
+
+interface BookedReservation {
+  id: string
+  total: number
+  cashAmount: number | null
+}
+
+function toFormValues(prefill: StaffBookingPrefill = {}): StaffBookingFormData {
+  return {
+    venueId: prefill.venueId || '',
+    date: prefill.date || '',
+    startTime: prefill.startTime || '',
+    endTime: prefill.endTime || '',
+    customerType: 'guest',
+    userId: undefined,
+    customerName: '',
+    customerPhone: '',
+    customerEmail: '',
+    priceOverride: undefined,
+    discountPercentage: undefined,
+    adjustmentReason: '',
+    collectCash: false,
+    cashAmount: undefined,
+    notes: '',
+  }
+}
+
+function optionalNumber(value: string) {
+  return value === '' ? undefined : Number(value)
+}
+
+// Profiles matching what staff type, looked up with search_customers()
+function useCustomerSearch(query: string) {
+  const [matches, setMatches] = useState<CustomerMatch[]>([])
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setMatches([])
+      return
+    }
+
+    // Waits for a pause in typing
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true)
+        const { data, error } = await createClient().rpc('search_customers', { p_query: query })
+        if (error) throw error
+        setMatches(data || [])
+      } catch (err) {
+        console.error('Error searching customers:', err)
+        setMatches([])
+      } finally {
+        setSearching(false)
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [query])
+
+  return { matches, searching }
+}
+
+// Calculated price of the booking before any staff adjustment; closed days and
+// times outside the venue's hours come back as an error
+function useBookingSubtotal(venueId: string, date: string, startTime: string, endTime: string) {
+  const [subtotal, setSubtotal] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setSubtotal(null)
+    setError(null)
+
+    if (!venueId || !date || !startTime || !endTime || endTime <= startTime) {
+      return
+    }
+
+    let cancelled = false
+
+    const fetchPrice = async () => {
+      const { data, error } = await createClient().rpc('calculate_price_breakdown', {
+        p_venue_id: venueId,
+        p_date: date,
+        p_start_time: startTime,
+        p_end_time: endTime,
+      })
+
+      if (cancelled) return
+
+      if (error) {
+        setError(error.message)
+        return
+      }
+
+      setSubtotal((data || []).reduce((sum, item) => sum + Number(item.amount), 0))
+    }
+
+    fetchPrice()
+
+    return () => {
+      cancelled = true
+    }
+  }, [venueId, date, startTime, endTime])
+
+  return { subtotal, error }
+}
+
+export function StaffBookingForm({ venues, prefill }: StaffBookingFormProps) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [booked, setBooked] = useState<BookedReservation | null>(null)
+  const [customerQuery, setCustomerQuery] = useState('')
+  const [customer, setCustomer] = useState<CustomerMatch | null>(null)
+
+  const form = useForm<StaffBookingFormData>({
+    resolver: zodResolver(staffBookingSchema),
+    defaultValues: toFormValues(prefill),
+  })
+
+  const [venueId, date, startTime, endTime, customerType, priceOverride, discountPercentage, collectCash] = form.watch([
+    'venueId',
+    'date',
+    'startTime',
+    'endTime',
+    'customerType',
+    'priceOverride',
+    'discountPercentage',
+    'collectCash',
+  ])
+
+  const { matches, searching } = useCustomerSearch(customer ? '' : customerQuery)
+  const { membership } = useMembership(customerType === 'account' ? customer?.id : null)
+  const { subtotal, error: priceError } = useBookingSubtotal(venueId, date, startTime, endTime)
+
+  const price = subtotal === null ? null : calculateStaffBookingPrice({
+    subtotal,
+    priceOverride,
+    discountPercentage,
+    membershipDiscount: membership ? Number(membership.discount_percentage) : 0,
+  })
+  const priceAdjusted = priceOverride !== undefined || !!discountPercentage
+
+  function selectCustomer(match: CustomerMatch | null) {
+    setCustomer(match)
+    setCustomerQuery('')
+    form.setValue('userId', match?.id, { shouldValidate: !!match })
+  }
+
+  function startOver() {
+    form.reset(toFormValues())
+    selectCustomer(null)
+    setBooked(null)
+    setError(null)
+  }
+
+  async function onSubmit(data: StaffBookingFormData) {
+    const isGuest = data.customerType === 'guest'
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { data: reservationId, error } = await createClient().rpc('create_staff_reservation', {
+        p_venue_id: data.venueId,
+        p_reservation_date: data.date,
+        p_start_time: data.startTime,
+        p_end_time: data.endTime,
+        p_user_id: isGuest ? undefined : data.userId,
+        p_customer_name: isGuest ? data.customerName : undefined,
+        p_customer_phone: isGuest ? data.customerPhone || undefined : undefined,
+        p_customer_email: isGuest ? data.customerEmail || undefined : undefined,
+        p_price_override: data.priceOverride,
+        p_discount_percentage: data.discountPercentage ?? 0,
+        p_adjustment_reason: data.adjustmentReason || undefined,
+        p_cash_amount: data.collectCash ? data.cashAmount : undefined,
+        p_notes: data.notes || undefined,
+      })
+
+      if (error) {
+        setError(isSlotTakenError(error) ? 'This time is already booked.' : error.message)
+        return
+      }
+
+      setBooked({
+        id: reservationId,
+        total: price?.total ?? 0,
+        cashAmount: data.collectCash ? data.cashAmount ?? null : null,
+      })
+    } catch (err) {
+      console.error('Error creating staff booking:', err)
+      setError('Failed to create the booking. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (booked) {
+    return (
+      <Card>
+        <CardContent className="py-8 space-y-6 text-center">
+          <CheckCircle className="h-12 w-12 mx-auto text-green-600" />
+          <div>
+            <p className="text-xl font-semibold">Booking confirmed</p>
+            <p className="text-muted-foreground">
+              Total {formatCurrency(booked.total)}
+              {booked.cashAmount !== null && <> · {formatCurrency(booked.cashAmount)} received in cash</>}
+            </p>
+          </div>
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button asChild>
+              <a href={`${getInvoiceUrl(booked.id)}?inline=1`} target="_blank" rel="noopener noreferrer">
+                <Printer className="h-4 w-4 mr-2" />
+                {booked.cashAmount !== null ? 'Print Receipt' : 'Print Invoice'}
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href={`/booking/confirmation/${booked.id}`}>View Booking</Link>
+            </Button>
+            <Button variant="outline" onClick={startOver}>
+              New Booking
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>When</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="venueId"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Venue</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a venue" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {venues.map((venue) => (
+                        <SelectItem key={venue.id} value={venue.id}>
+                          {venue.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start time</FormLabel>
+                  <FormControl>
+                    <Input type="time" step={1800} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="endTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>End time</FormLabel>
+                  <FormControl>
+                    <Input type="time" step={1800} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Customer</CardTitle>
+            <CardDescription>
+              Book a walk-in guest by name, or attach the booking to a customer&apos;s account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Tabs
+              value={customerType}
+              onValueChange={(value) => form.setValue('customerType', value as StaffBookingFormData['customerType'])}
+            >
+              <TabsList>
+                <TabsTrigger value="guest">Walk-in guest</TabsTrigger>
+                <TabsTrigger value="account">Existing customer</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {customerType === 'guest' ? (
+              <>
+                <FormField
+                  control={form.control}
+                  name="customerName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Customer name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="customerPhone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input type="tel" placeholder="Optional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="customerEmail"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="Optional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </>
+            ) : (
+              <FormField
+                control={form.control}
+                name="userId"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Customer</FormLabel>
+                    {customer ? (
+                      <div className="flex items-center justify-between rounded-lg border p-3">
+                        <div>
+                          <p className="font-medium">{customer.full_name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {[customer.phone, customer.email].filter(Boolean).join(' · ')}
+                          </p>
+                          {membership && (
+                            <p className="text-sm text-green-700">
+                              {membership.tier_name} member · {Number(membership.discount_percentage)}% off
+                            </p>
+                          )}
+                        </div>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => selectCustomer(null)} aria-label="Change customer">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <div className="relative">
+                          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            className="pl-9"
+                            placeholder="Search by name, phone or email"
+                            value={customerQuery}
+                            onChange={(e) => setCustomerQuery(e.target.value)}
+                          />
+                        </div>
+                        {searching && <p className="text-sm text-muted-foreground">Searching...</p>}
+                        {!searching && customerQuery.trim().length >= 2 && matches.length === 0 && (
+                          <p className="text-sm text-muted-foreground">No customers found.</p>
+                        )}
+                        {matches.length > 0 && (
+                          <div className="rounded-lg border divide-y">
+                            {matches.map((match) => (
+                              <button
+                                key={match.id}
+                                type="button"
+                                className="w-full text-left p-3 hover:bg-muted"
+                                onClick={() => selectCustomer(match)}
+                              >
+                                <p className="font-medium">{match.full_name}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {[match.phone, match.email].filter(Boolean).join(' · ')}
+                                </p>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Price</CardTitle>
+            <CardDescription>
+              Set a price or give a discount when needed. Any change needs a reason, which is kept with the booking.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {priceError && (
+              <Alert variant="destructive">
+                <AlertDescription>{priceError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="priceOverride"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder={subtotal !== null ? String(subtotal) : 'Calculated price'}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Leave empty to charge the calculated price</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discountPercentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        placeholder="0"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {priceAdjusted && (
+              <FormField
+                control={form.control}
+                name="adjustmentReason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Regular customer, court lights not working" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {price && (
+              <div className="rounded-lg bg-muted p-4 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>{priceOverride !== undefined ? 'Set price' : 'Calculated price'}</span>
+                  <span>{formatCurrency(price.basePrice)}</span>
+                </div>
+                {price.discountAmount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>
+                      {price.membershipApplied ? `${membership?.tier_name} member discount` : 'Discount'} ({price.discountPercentage}%)
+                    </span>
+                    <span>-{formatCurrency(price.discountAmount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold text-base pt-1">
+                  <span>Total</span>
+                  <span>{formatCurrency(price.total)}</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payment</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="collectCash"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Paid in cash now</FormLabel>
+                    <FormDescription>Otherwise the customer pays later, online or at the desk</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked)
+                        if (checked && price) form.setValue('cashAmount', price.total)
+                      }}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {collectCash && (
+              <FormField
+                control={form.control}
+                name="cashAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount received</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Less than the total records a partial payment</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving || !!priceError}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Book
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,358 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import {
+  BLACKOUT_RECURRENCE_LABELS,
+  BLACKOUT_VISIBILITY_LABELS,
+  type BlackoutConflict,
+} from '@/lib/venue-blackouts'
+import { venueBlackoutSchema, type VenueBlackoutFormData } from '@/lib/validations/venue-blackout'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import type { VenueBlackout } from '@/types/database'
+
+interface VenueBlackoutDialogProps {
+  venueId: string
+  // Edits this blackout when given, creates a new one otherwise
+  blackout?: VenueBlackout
+  trigger: React.ReactNode
+  // Called with the saved blackout and the bookings it collides with
+  onSaved: (blackout: VenueBlackout, conflicts: BlackoutConflict[]) => void
+}
+
+function toFormValues(blackout?: VenueBlackout): VenueBlackoutFormData {
+  return {
+    startDate: blackout?.start_date || '',
+    endDate: blackout?.end_date || '',
+    recurrence: blackout?.recurrence || 'none',
+    allDay: !blackout?.start_time,
+    startTime: blackout?.start_time?.slice(0, 5) || '',
+    endTime: blackout?.end_time?.slice(0, 5) || '',
+    reason: blackout?.reason || '',
+    visibility: blackout?.visibility || 'public',
+  }
+}
+
+function toBlackoutPeriod(data: VenueBlackoutFormData) {
+  return {
+    start_date: data.startDate,
+    end_date: data.endDate || null,
+    recurrence: data.recurrence,
+    start_time: data.allDay ? null : data.startTime,
+    end_time: data.allDay ? null : data.endTime,
+  }
+}
+
+async function fetchConflicts(venueId: string, period: ReturnType<typeof toBlackoutPeriod>) {
+  const { data, error } = await createClient().rpc('get_blackout_conflicts', {
+    p_venue_id: venueId,
+    p_start_date: period.start_date,
+    p_recurrence: period.recurrence,
+    p_end_date: period.end_date ?? undefined,
+    p_start_time: period.start_time ?? undefined,
+    p_end_time: period.end_time ?? undefined,
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+export function VenueBlackoutDialog({ venueId, blackout, trigger, onSaved }: VenueBlackoutDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<BlackoutConflict[]>([])
+  const { user } = useAuthStore()
+
+  const form = useForm<VenueBlackoutFormData>({
+    resolver: zodResolver(venueBlackoutSchema),
+    defaultValues: toFormValues(blackout),
+  })
+
+  const values = form.watch()
+  const allDay = values.allDay
+  const recurrence = values.recurrence
+  const periodKey = JSON.stringify(toBlackoutPeriod(values))
+
+  // Warn about colliding bookings while the period is being filled in
+  useEffect(() => {
+    if (!open) return
+
+    const parsed = venueBlackoutSchema.safeParse({ ...form.getValues(), reason: 'preview' })
+    if (!parsed.success) {
+      setConflicts([])
+      return
+    }
+
+    let cancelled = false
+
+    fetchConflicts(venueId, toBlackoutPeriod(parsed.data))
+      .then((data) => {
+        if (!cancelled) setConflicts(data)
+      })
+      .catch((err) => console.error('Error checking blackout conflicts:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, periodKey, venueId, form])
+
+  async function onSubmit(data: VenueBlackoutFormData) {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const row = {
+        ...toBlackoutPeriod(data),
+        reason: data.reason,
+        visibility: data.visibility,
+      }
+
+      const { data: saved, error } = blackout
+        ? await createClient().from('venue_blackouts').update(row).eq('id', blackout.id).select().single()
+        : await createClient().from('venue_blackouts').insert({ ...row, venue_id: venueId, created_by: user?.id || null }).select().single()
+
+      if (error) {
+        setError(error.message)
+        return
+      }
+
+      setOpen(false)
+      if (!blackout) form.reset(toFormValues())
+      onSaved(saved, await fetchConflicts(venueId, toBlackoutPeriod(data)))
+    } catch (err) {
+      console.error('Error saving blackout:', err)
+      setError('Failed to save blackout. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen)
+        if (isOpen) {
+          form.reset(toFormValues(blackout))
+          setError(null)
+        }
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{blackout ? 'Edit blackout' : 'Add blackout'}</DialogTitle>
+          <DialogDescription>
+            No bookings can be made while the venue is blacked out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Court resurfacing" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="recurrence"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeats</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(BLACKOUT_RECURRENCE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End date</FormLabel>
+                    <FormControl>
+                      <Input type="date" min={values.startDate} {...field} />
+                    </FormControl>
+                    {recurrence === 'weekly' && <FormDescription>Leave empty to repeat until removed</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="allDay"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>All day</FormLabel>
+                    <FormDescription>Turn off to block only part of the day</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {!allDay && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>From</FormLabel>
+                      <FormControl>
+                        <Input type="time" step={1800} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Until</FormLabel>
+                      <FormControl>
+                        <Input type="time" step={1800} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="visibility"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Visibility</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(BLACKOUT_VISIBILITY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Otherwise customers only see that the venue is unavailable</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {conflicts.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {conflicts.length} upcoming {conflicts.length === 1 ? 'booking collides' : 'bookings collide'} with this blackout,
+                  starting {format(parseISO(conflicts[0].reservation_date), 'MMM d')} at {conflicts[0].start_time.slice(0, 5)}.
+                  They stay booked until you cancel them after saving.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { describeBlackout, type BlackoutConflict } from '@/lib/venue-blackouts'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { VenueBlackoutDialog } from './venue-blackout-dialog'
+import { BlackoutConflictsDialog } from './blackout-conflicts-dialog'
+import { AlertTriangle, Ban, Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+import type { VenueBlackout } from '@/types/database'
+
+interface VenueBlackoutsProps {
+  venueId: string
+}
+
+// Current and upcoming blackouts of a venue, for the venue edit page
+export function VenueBlackouts({ venueId }: VenueBlackoutsProps) {
+  const [blackouts, setBlackouts] = useState<VenueBlackout[]>([])
+  const [loading, setLoading] = useState(true)
+  const [reviewing, setReviewing] = useState<VenueBlackout | null>(null)
+  const [deleting, setDeleting] = useState<VenueBlackout | null>(null)
+  const [deletingBusy, setDeletingBusy] = useState(false)
+
+  const fetchBlackouts = useCallback(async () => {
+    try {
+      const { data, error } = await createClient()
+        .from('venue_blackouts')
+        .select('*')
+        .eq('venue_id', venueId)
+        .or(`end_date.is.null,end_date.gte.${format(new Date(), 'yyyy-MM-dd')}`)
+        .order('start_date')
+
+      if (error) throw error
+
+      setBlackouts(data || [])
+    } catch (err) {
+      console.error('Error fetching blackouts:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [venueId])
+
+  useEffect(() => {
+    fetchBlackouts()
+  }, [fetchBlackouts])
+
+  function handleSaved(blackout: VenueBlackout, conflicts: BlackoutConflict[]) {
+    fetchBlackouts()
+    if (conflicts.length > 0) setReviewing(blackout)
+  }
+
+  async function deleteBlackout() {
+    if (!deleting) return
+
+    try {
+      setDeletingBusy(true)
+
+      const { error } = await createClient()
+        .from('venue_blackouts')
+        .delete()
+        .eq('id', deleting.id)
+
+      if (error) throw error
+
+      setDeleting(null)
+      fetchBlackouts()
+    } catch (err) {
+      console.error('Error deleting blackout:', err)
+      alert('Failed to delete blackout. Please try again.')
+    } finally {
+      setDeletingBusy(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            Blackouts
+          </CardTitle>
+          <CardDescription>
+            Close the venue for maintenance or a private event without deactivating it.
+          </CardDescription>
+        </div>
+        <VenueBlackoutDialog
+          venueId={venueId}
+          onSaved={handleSaved}
+          trigger={
+            <Button size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          }
+        />
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : blackouts.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No upcoming blackouts.</p>
+        ) : (
+          <div className="divide-y">
+            {blackouts.map((blackout) => (
+              <div key={blackout.id} className="flex items-center justify-between gap-4 py-3">
+                <div>
+                  <p className="font-medium">
+                    {blackout.reason}
+                    {blackout.visibility === 'internal' && (
+                      <Badge variant="outline" className="ml-2 text-xs">Staff only</Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{describeBlackout(blackout)}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setReviewing(blackout)} aria-label="Colliding bookings">
+                    <AlertTriangle className="h-4 w-4" />
+                  </Button>
+                  <VenueBlackoutDialog
+                    venueId={venueId}
+                    blackout={blackout}
+                    onSaved={handleSaved}
+                    trigger={
+                      <Button size="sm" variant="outline" aria-label="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    }
+                  />
+                  <Button size="sm" variant="outline" onClick={() => setDeleting(blackout)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <BlackoutConflictsDialog
+        blackout={reviewing}
+        onClose={() => setReviewing(null)}
+        onCancelled={fetchBlackouts}
+      />
+
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete blackout</DialogTitle>
+            <DialogDescription>
+              {deleting?.reason} will be lifted and the venue can be booked at these times again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="destructive" onClick={deleteBlackout} disabled={deletingBusy}>
+              {deletingBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
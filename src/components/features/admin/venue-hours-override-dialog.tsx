@@ -0,0 +1,186 @@
+'use client'
+
+import { useState } from 'react'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import { toClosingTime } from '@/lib/operating-hours'
+import { hoursOverrideSchema, type HoursOverrideFormData } from '@/lib/validations/operating-hours'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Loader2 } from 'lucide-react'
+
+interface VenueHoursOverrideDialogProps {
+  venueId: string
+  trigger: React.ReactNode
+  onSaved: () => void
+}
+
+const EMPTY_OVERRIDE: HoursOverrideFormData = {
+  date: '',
+  openTime: '',
+  closeTime: '',
+  reason: '',
+}
+
+export function VenueHoursOverrideDialog({ venueId, trigger, onSaved }: VenueHoursOverrideDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuthStore()
+
+  const form = useForm<HoursOverrideFormData>({
+    resolver: zodResolver(hoursOverrideSchema),
+    defaultValues: EMPTY_OVERRIDE,
+  })
+
+  async function onSubmit(data: HoursOverrideFormData) {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { error } = await createClient()
+        .from('venue_hours_overrides')
+        .insert({
+          venue_id: venueId,
+          override_date: data.date,
+          open_time: data.openTime,
+          close_time: toClosingTime(data.closeTime),
+          reason: data.reason || null,
+          created_by: user?.id || null,
+        })
+
+      if (error) {
+        setError(error.message.includes('no_overlapping_hours_overrides')
+          ? 'These hours overlap other hours set for the date'
+          : error.message)
+        return
+      }
+
+      setOpen(false)
+      form.reset(EMPTY_OVERRIDE)
+      onSaved()
+    } catch (err) {
+      console.error('Error saving hours override:', err)
+      setError('Failed to save the hours. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen)
+        setError(null)
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Hours for a date</DialogTitle>
+          <DialogDescription>
+            Replaces the weekly hours on that date. Add several periods for a day with a break.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="openTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Opens</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="closeTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Closes</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Eid al-Fitr, open late" {...field} />
+                  </FormControl>
+                  <FormDescription>Optional, for staff</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
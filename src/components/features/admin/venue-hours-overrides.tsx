@@ -0,0 +1,130 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { VenueHoursOverrideDialog } from './venue-hours-override-dialog'
+import { CalendarClock, Loader2, Plus, Trash2 } from 'lucide-react'
+import type { VenueHoursOverride } from '@/types/database'
+
+interface VenueHoursOverridesProps {
+  venueId: string
+}
+
+// Upcoming dates with their own opening hours, for the venue edit page
+export function VenueHoursOverrides({ venueId }: VenueHoursOverridesProps) {
+  const [overrides, setOverrides] = useState<VenueHoursOverride[]>([])
+  const [loading, setLoading] = useState(true)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const fetchOverrides = useCallback(async () => {
+    try {
+      const { data, error } = await createClient()
+        .from('venue_hours_overrides')
+        .select('*')
+        .eq('venue_id', venueId)
+        .gte('override_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('override_date')
+        .order('open_time')
+
+      if (error) throw error
+
+      setOverrides(data || [])
+    } catch (err) {
+      console.error('Error fetching hours overrides:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [venueId])
+
+  useEffect(() => {
+    fetchOverrides()
+  }, [fetchOverrides])
+
+  async function deleteOverride(id: string) {
+    try {
+      setDeletingId(id)
+
+      const { error } = await createClient()
+        .from('venue_hours_overrides')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+
+      fetchOverrides()
+    } catch (err) {
+      console.error('Error deleting hours override:', err)
+      alert('Failed to delete the hours. Please try again.')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Hours for Specific Dates
+          </CardTitle>
+          <CardDescription>
+            Open earlier, later or shorter on a date. To close for the whole day, add a special date instead.
+          </CardDescription>
+        </div>
+        <VenueHoursOverrideDialog
+          venueId={venueId}
+          onSaved={fetchOverrides}
+          trigger={
+            <Button size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          }
+        />
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : overrides.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">Every upcoming date follows the weekly hours.</p>
+        ) : (
+          <div className="divide-y">
+            {overrides.map((override) => (
+              <div key={override.id} className="flex items-center justify-between gap-4 py-3">
+                <div>
+                  <p className="font-medium">
+                    {format(parseISO(override.override_date), 'EEE, MMM d, yyyy')}
+                    {' · '}
+                    {override.open_time.slice(0, 5)} - {override.close_time.slice(0, 5)}
+                  </p>
+                  {override.reason && (
+                    <p className="text-sm text-muted-foreground">{override.reason}</p>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => deleteOverride(override.id)}
+                  disabled={deletingId === override.id}
+                  aria-label="Delete"
+                >
+                  {deletingId === override.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
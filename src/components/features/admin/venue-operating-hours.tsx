@@ -0,0 +1,228 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  DEFAULT_OPENING_PERIOD,
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+  fromClosingTime,
+  toClosingTime,
+} from '@/lib/operating-hours'
+import { weeklyHoursSchema, type OpeningPeriodFormData } from '@/lib/validations/operating-hours'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Clock, Loader2, Plus, Save, Trash2 } from 'lucide-react'
+
+interface VenueOperatingHoursProps {
+  venueId: string
+  // Minutes per bookable slot, from the venue type
+  slotDuration: number
+}
+
+type WeekForm = Record<number, OpeningPeriodFormData[]>
+
+function emptyWeek(): WeekForm {
+  return Object.fromEntries(WEEKDAY_ORDER.map(day => [day, []]))
+}
+
+// Weekly opening hours of a venue, for the venue edit page
+export function VenueOperatingHours({ venueId, slotDuration }: VenueOperatingHoursProps) {
+  const [week, setWeek] = useState<WeekForm>(emptyWeek)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const fetchHours = useCallback(async () => {
+    try {
+      const { data, error } = await createClient()
+        .from('venue_operating_hours')
+        .select('*')
+        .eq('venue_id', venueId)
+        .order('open_time')
+
+      if (error) throw error
+
+      const next = emptyWeek()
+      for (const period of data || []) {
+        next[period.day_of_week].push({
+          openTime: period.open_time.slice(0, 5),
+          closeTime: fromClosingTime(period.close_time),
+        })
+      }
+      setWeek(next)
+    } catch (err) {
+      console.error('Error fetching opening hours:', err)
+      setError('Failed to load opening hours')
+    } finally {
+      setLoading(false)
+    }
+  }, [venueId])
+
+  useEffect(() => {
+    fetchHours()
+  }, [fetchHours])
+
+  function updatePeriod(day: number, index: number, field: keyof OpeningPeriodFormData, value: string) {
+    setWeek(current => ({
+      ...current,
+      [day]: current[day].map((period, i) => i === index ? { ...period, [field]: value } : period),
+    }))
+  }
+
+  function addPeriod(day: number) {
+    setWeek(current => {
+      const last = current[day][current[day].length - 1]
+      const period = last
+        ? { openTime: last.closeTime, closeTime: '00:00' }
+        : { openTime: DEFAULT_OPENING_PERIOD.open_time, closeTime: DEFAULT_OPENING_PERIOD.close_time }
+
+      return { ...current, [day]: [...current[day], period] }
+    })
+  }
+
+  function removePeriod(day: number, index: number) {
+    setWeek(current => ({ ...current, [day]: current[day].filter((_, i) => i !== index) }))
+  }
+
+  // Monday's hours on every other day
+  function copyMonday() {
+    setWeek(current => Object.fromEntries(WEEKDAY_ORDER.map(day => [day, current[1].map(period => ({ ...period }))])))
+  }
+
+  async function saveHours() {
+    const parsed = weeklyHoursSchema.safeParse({
+      days: WEEKDAY_ORDER.map(day => ({ dayOfWeek: day, periods: week[day] })),
+    })
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      setError(`${WEEKDAY_LABELS[WEEKDAY_ORDER[Number(issue.path[1])]]}: ${issue.message}`)
+      setSuccess(null)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { error } = await createClient().rpc('set_venue_operating_hours', {
+        p_venue_id: venueId,
+        p_hours: parsed.data.days.flatMap(day => day.periods.map(period => ({
+          day_of_week: day.dayOfWeek,
+          open_time: period.openTime,
+          close_time: toClosingTime(period.closeTime),
+        }))),
+      })
+
+      if (error) throw error
+
+      setSuccess('Opening hours saved')
+      await fetchHours()
+    } catch (err) {
+      console.error('Error saving opening hours:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save opening hours')
+      setSuccess(null)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Opening Hours
+        </CardTitle>
+        <CardDescription>
+          Each opening period is split into {slotDuration}-minute slots, the slot length of the venue type.
+          A day without periods is closed. Close at 00:00 to stay open until midnight.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert>
+            <AlertDescription>{success}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {WEEKDAY_ORDER.map((day) => (
+              <div key={day} className="flex flex-col gap-2 py-3 md:flex-row md:items-start">
+                <div className="w-28 pt-2 font-medium">{WEEKDAY_LABELS[day]}</div>
+                <div className="flex-1 space-y-2">
+                  {week[day].length === 0 && (
+                    <p className="pt-2 text-sm text-muted-foreground">Closed</p>
+                  )}
+                  {week[day].map((period, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={period.openTime}
+                        onChange={(e) => updatePeriod(day, index, 'openTime', e.target.value)}
+                        disabled={saving}
+                        aria-label="Opens"
+                      />
+                      <span className="text-muted-foreground">-</span>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={period.closeTime}
+                        onChange={(e) => updatePeriod(day, index, 'closeTime', e.target.value)}
+                        disabled={saving}
+                        aria-label="Closes"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removePeriod(day, index)}
+                        disabled={saving}
+                        aria-label="Remove period"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => addPeriod(day)} disabled={saving}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Period
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={copyMonday} disabled={saving || loading}>
+            Copy Monday to all days
+          </Button>
+          <Button onClick={saveHours} disabled={saving || loading}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Hours
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { BellRing, Loader2, X } from 'lucide-react'
+import type { WaitlistEntry } from '@/types/database'
+
+interface WaitlistEntryActionsProps {
+  entry: Pick<WaitlistEntry, 'id' | 'status'>
+}
+
+export function WaitlistEntryActions({ entry }: WaitlistEntryActionsProps) {
+  const [updating, setUpdating] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  // Skips the queue: staff use this after freeing the time themselves
+  async function offerNow() {
+    try {
+      setUpdating(true)
+
+      const { error } = await supabase.rpc('offer_waitlist_entry', { p_entry_id: entry.id })
+
+      if (error) {
+        alert(error.message)
+        return
+      }
+
+      router.refresh()
+    } catch (err) {
+      console.error('Error offering waitlist slot:', err)
+      alert('Failed to offer the slot. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  async function removeEntry() {
+    const message = entry.status === 'offered'
+      ? 'Withdraw this offer? The slot goes to the next person waiting.'
+      : 'Remove this customer from the waitlist?'
+    if (!confirm(message)) return
+
+    try {
+      setUpdating(true)
+
+      const { error } = await supabase.rpc('leave_waitlist', { p_entry_id: entry.id })
+
+      if (error) throw error
+
+      router.refresh()
+    } catch (err) {
+      console.error('Error removing waitlist entry:', err)
+      alert('Failed to remove the waitlist entry. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  if (entry.status !== 'waiting' && entry.status !== 'offered') {
+    return null
+  }
+
+  return (
+    <div className="flex gap-2">
+      {entry.status === 'waiting' && (
+        <Button size="sm" variant="outline" onClick={offerNow} disabled={updating}>
+          {updating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BellRing className="h-4 w-4 mr-2" />}
+          Offer Now
+        </Button>
+      )}
+
+      <Button size="sm" variant="outline" onClick={removeEntry} disabled={updating}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
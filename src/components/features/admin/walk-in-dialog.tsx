@@ -0,0 +1,220 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { isSlotTakenError } from '@/lib/reservation-errors'
+import { minutesToTime, type BoardRange } from '@/lib/schedule-board'
+import { getStaffBookingUrl } from '@/lib/staff-bookings'
+import { walkInSchema, type WalkInFormData } from '@/lib/validations/booking'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Loader2 } from 'lucide-react'
+
+interface WalkInDialogProps {
+  // The range dragged out on the board; the dialog is open while it is set
+  range: BoardRange | null
+  venueName: string
+  onClose: () => void
+  onBooked: (reservationId: string) => void
+}
+
+const EMPTY_FORM: WalkInFormData = {
+  customerName: '',
+  customerPhone: '',
+  customerEmail: '',
+  notes: '',
+}
+
+function getBookingConsoleUrl(range: BoardRange) {
+  return getStaffBookingUrl({
+    venueId: range.venueId,
+    date: range.date,
+    startTime: minutesToTime(range.start),
+    endTime: minutesToTime(range.end),
+  })
+}
+
+export function WalkInDialog({ range, venueName, onClose, onBooked }: WalkInDialogProps) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [bookedId, setBookedId] = useState<string | null>(null)
+
+  const form = useForm<WalkInFormData>({
+    resolver: zodResolver(walkInSchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  useEffect(() => {
+    if (range) {
+      form.reset(EMPTY_FORM)
+      setError(null)
+      setBookedId(null)
+    }
+  }, [range, form])
+
+  async function onSubmit(data: WalkInFormData) {
+    if (!range) return
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { data: reservationId, error } = await createClient().rpc('create_staff_reservation', {
+        p_venue_id: range.venueId,
+        p_reservation_date: range.date,
+        p_start_time: minutesToTime(range.start),
+        p_end_time: minutesToTime(range.end),
+        p_customer_name: data.customerName,
+        p_customer_phone: data.customerPhone || undefined,
+        p_customer_email: data.customerEmail || undefined,
+        p_notes: data.notes || undefined,
+      })
+
+      if (error) {
+        setError(isSlotTakenError(error) ? 'Someone else has just booked this time.' : error.message)
+        return
+      }
+
+      setBookedId(reservationId)
+      onBooked(reservationId)
+    } catch (err) {
+      console.error('Error creating walk-in booking:', err)
+      setError('Failed to create the booking. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={range !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Walk-in booking</DialogTitle>
+          <DialogDescription>
+            {range && (
+              <>
+                {venueName} · {format(parseISO(range.date), 'EEE, MMM d')} · {minutesToTime(range.start)} - {minutesToTime(range.end)}.
+                The booking is confirmed now and paid at the desk. For a customer with an account,
+                a price change or a cash payment, use <Link href={getBookingConsoleUrl(range)} className="underline">the booking console</Link>.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {bookedId ? (
+          <div className="space-y-4">
+            <Alert>
+              <AlertDescription>The booking has been made.</AlertDescription>
+            </Alert>
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button asChild>
+                <Link href={`/booking/confirmation/${bookedId}`}>View Booking</Link>
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <FormField
+                control={form.control}
+                name="customerName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Customer name</FormLabel>
+                    <FormControl>
+                      <Input autoFocus {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="customerPhone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input type="tel" placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="customerEmail"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Book
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,13 +5,23 @@ import { useRouter } from 'next/navigation'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useForm } from 'react-hook-form'
 import { createClient } from '@/lib/supabase/client'
-import { useBookingStore } from '@/stores/booking-store'
-import { bookingSchema, type BookingFormData } from '@/lib/validations/booking'
+import { blockingReservationsFilter } from '@/lib/reservation-holds'
+import { getCartItemErrors, isPromoInvalidError, isSeriesConflictError, isSlotTakenError } from '@/lib/reservation-errors'
+import { calculateBookingPrice, getDayRate, getVenueRate } from '@/lib/pricing/engine'
+import { findSpecialDate, SPECIAL_DATE_TYPE_LABELS } from '@/lib/special-dates'
+import { getBookingWindowDays } from '@/lib/memberships'
+import type { VenueDaySlot } from '@/lib/operating-hours'
+import { toSeriesArgs } from '@/lib/reservation-series'
+import { useSpecialDates } from '@/hooks/use-special-dates'
+import { useMembership } from '@/hooks/use-membership'
+import { MAX_CART_ITEMS, useBookingStore } from '@/stores/booking-store'
+import { bookingSchema, type BookingFormData, type RecurrenceFormData } from '@/lib/validations/booking'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -29,17 +39,26 @@ import { Textarea } from '@/components/ui/textarea'
 import { Calendar } from '@/components/ui/calendar'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Loader2, Calendar as CalendarIcon, Clock, MapPin, Users } from 'lucide-react'
+import RecurrenceOptions from './recurrence-options'
+import { Loader2, Calendar as CalendarIcon, Clock, MapPin, ShoppingCart, Users } from 'lucide-react'
 import { format, addDays, isBefore, startOfDay, isToday } from 'date-fns'
 import { formatCurrency } from '@/lib/utils'
-import type { Database } from '@/types/database'
+import type { Database, FunctionArgs } from '@/types/database'
 import type { User } from '@supabase/supabase-js'
 
 type Venue = Database['public']['Tables']['venues']['Row'] & {
   venue_types: Database['public']['Tables']['venue_types']['Row']
 }
 
-type TimeSlot = Database['public']['Tables']['venue_time_slots']['Row']
+type PriceBand = Database['public']['Tables']['venue_time_slots']['Row']
+
+interface AlternativeSlot {
+  start_time: string
+  end_time: string
+}
+
+// How many other free slots to suggest when the chosen one was just taken
+const MAX_ALTERNATIVE_SLOTS = 3
 
 interface BookingFormProps {
   venues: Venue[]
@@ -56,15 +75,34 @@ export default function BookingForm({
   initialTime,
   user 
 }: BookingFormProps) {
-  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([])
+  // Slots of the chosen day, from the opening hours; the price bands set their prices
+  const [timeSlots, setTimeSlots] = useState<VenueDaySlot[]>([])
+  const [priceBands, setPriceBands] = useState<PriceBand[]>([])
   const [availableSlots, setAvailableSlots] = useState<string[]>([])
   const [reservations, setReservations] = useState<{start_time: string, end_time: string}[]>([])
   const [loading, setLoading] = useState(false)
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [alternativeSlots, setAlternativeSlots] = useState<AlternativeSlot[]>([])
+  const [recurrence, setRecurrence] = useState<RecurrenceFormData | null>(null)
   const router = useRouter()
   const supabase = createClient()
-  const { setSelectedVenue, setSelectedDate, setNotes, clearBooking } = useBookingStore()
+  const {
+    promoCode,
+    cart,
+    setSelectedVenue,
+    setSelectedDate,
+    setSelectedTimeRange,
+    setTimeSlots: setStoreTimeSlots,
+    setSpecialDates,
+    setNotes,
+    setPromoCode,
+    setMembership,
+    addToCart: addCartItem,
+    setCartErrors,
+    clearCart,
+    clearBooking
+  } = useBookingStore()
 
   const form = useForm<BookingFormData>({
     resolver: zodResolver(bookingSchema),
@@ -80,22 +118,48 @@ export default function BookingForm({
   const watchedVenueId = form.watch('venueId')
   const watchedDate = form.watch('date')
   const watchedStartTime = form.watch('startTime')
+  const { specialDates } = useSpecialDates(watchedVenueId)
+  const selectedSpecialDate = watchedVenueId && watchedDate
+    ? findSpecialDate(specialDates, watchedVenueId, watchedDate)
+    : null
+  const isClosedDate = Boolean(selectedSpecialDate?.is_closed)
+  const { membership } = useMembership(user.id)
+  const bookingWindowDays = getBookingWindowDays(membership)
+  const lastBookableDate = addDays(startOfDay(new Date()), bookingWindowDays)
+  // Times already in the cart count as taken for the venue and date on screen
+  const cartPeriods = cart
+    .filter(item => item.venue.id === watchedVenueId && item.date === watchedDate)
+    .map(item => ({ start_time: item.startTime, end_time: item.endTime }))
+  const takenPeriods = [...reservations, ...cartPeriods]
 
   const fetchTimeSlots = useCallback(async () => {
     setLoading(true)
     try {
       const { data: slots, error: slotsError } = await supabase
+        .rpc('get_venue_day_slots', {
+          p_venue_id: watchedVenueId,
+          p_date: watchedDate
+        })
+
+      if (slotsError) {
+        console.error('Error fetching time slots:', slotsError)
+        return
+      }
+
+      const { data: bands, error: bandsError } = await supabase
         .from('venue_time_slots')
         .select('*')
         .eq('venue_id', watchedVenueId)
         .order('start_time')
 
-      if (slotsError) {
-        console.error('Error fetching time slots:', slotsError)
+      if (bandsError) {
+        console.error('Error fetching price bands:', bandsError)
         return
       }
 
       setTimeSlots(slots || [])
+      setPriceBands(bands || [])
+      setStoreTimeSlots(bands || [])
 
       // Fetch existing reservations for the date
       const { data: reservations, error: reservationsError } = await supabase
@@ -103,15 +167,36 @@ export default function BookingForm({
         .select('start_time, end_time')
         .eq('venue_id', watchedVenueId)
         .eq('reservation_date', watchedDate)
-        .in('status', ['confirmed', 'pending'])
+        .or(blockingReservationsFilter())
 
       if (reservationsError) {
         console.error('Error fetching reservations:', reservationsError)
         return
       }
 
-      // Store reservations in state for use in getEndTimeOptions
-      setReservations(reservations || [])
+      // Blackouts take their time like a booking does; all-day ones take the whole day
+      const { data: blackouts, error: blackoutsError } = await supabase
+        .rpc('get_venue_blackouts', {
+          p_from: watchedDate,
+          p_to: watchedDate,
+          p_venue_id: watchedVenueId
+        })
+
+      if (blackoutsError) {
+        console.error('Error fetching blackouts:', blackoutsError)
+        return
+      }
+
+      const taken = [
+        ...(reservations || []),
+        ...(blackouts || []).map(blackout => ({
+          start_time: blackout.start_time || '00:00',
+          end_time: blackout.end_time || '24:00',
+        })),
+      ]
+
+      // Store taken periods in state for use in getEndTimeOptions
+      setReservations(taken)
 
       // Calculate available slots by checking for time conflicts
       const available = (slots || []).filter(slot => {
@@ -119,7 +204,7 @@ export default function BookingForm({
         const slotEnd = slot.end_time
         
         // Check if this slot conflicts with any existing reservation
-        const hasConflict = (reservations || []).some(reservation => {
+        const hasConflict = taken.some(reservation => {
           const resStart = reservation.start_time
           const resEnd = reservation.end_time
           
@@ -136,7 +221,15 @@ export default function BookingForm({
     } finally {
       setLoading(false)
     }
-  }, [watchedVenueId, watchedDate, supabase])
+  }, [watchedVenueId, watchedDate, supabase, setStoreTimeSlots])
+
+  useEffect(() => {
+    setSpecialDates(specialDates)
+  }, [specialDates, setSpecialDates])
+
+  useEffect(() => {
+    setMembership(membership)
+  }, [membership, setMembership])
 
   // Fetch time slots when venue or date changes
   useEffect(() => {
@@ -153,12 +246,13 @@ export default function BookingForm({
         if (venue) {
           setSelectedVenue(venue)
           setSelectedDate(values.date)
+          setSelectedTimeRange(values.startTime || null, values.endTime || null)
           setNotes(values.notes || '')
         }
       }
     })
     return () => subscription.unsubscribe()
-  }, [form, venues, setSelectedVenue, setSelectedDate, setNotes])
+  }, [form, venues, setSelectedVenue, setSelectedDate, setSelectedTimeRange, setNotes])
 
   const getEndTimeOptions = (startTime: string) => {
     if (!startTime) return []
@@ -173,6 +267,11 @@ export default function BookingForm({
     for (let i = startIndex; i < timeSlots.length; i++) {
       const slot = timeSlots[i]
       const potentialEndTime = slot.end_time
+
+      // A booking can't run across a break in the opening hours
+      if (i > startIndex && slot.start_time !== timeSlots[i - 1].end_time) {
+        break
+      }
       
       // Calculate duration from start time to this slot's end time
       const start = new Date(`2000-01-01T${startTime}`)
@@ -186,7 +285,7 @@ export default function BookingForm({
       
       // Check if any slot in this time range conflicts with existing reservations
       const wouldConflict = timeSlots.slice(startIndex, i + 1).some(checkSlot => {
-        return reservations.some(reservation => {
+        return takenPeriods.some(reservation => {
           const resStart = reservation.start_time
           const resEnd = reservation.end_time
           const slotStart = checkSlot.start_time
@@ -215,31 +314,178 @@ export default function BookingForm({
     const venue = venues.find(v => v.id === venueId)
     if (!venue) return 0
     
-    const startSlot = timeSlots.find(slot => slot.start_time === startTime)
-    if (!startSlot) return 0
+    try {
+      return calculateBookingPrice({
+        venue,
+        slots: priceBands,
+        date,
+        startTime,
+        endTime,
+        specialDate: findSpecialDate(specialDates, venueId, date),
+        promoCode,
+        membership,
+      }).total
+    } catch {
+      return 0
+    }
+  }
+
+  // Nearest free slots on the same day, from the server so other customers' bookings count
+  const suggestAlternativeSlots = async (venueId: string, date: string, startTime: string) => {
+    const { data: slots, error: slotsError } = await supabase
+      .rpc('get_available_time_slots', {
+        p_venue_id: venueId,
+        p_date: date
+      })
+    
+    if (slotsError) {
+      console.error('Error fetching alternative slots:', slotsError)
+      return
+    }
+    
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number)
+      return hours * 60 + minutes
+    }
+    
+    const alternatives = (slots || [])
+      .filter((slot: { is_available: boolean }) => slot.is_available)
+      .map((slot: AlternativeSlot) => ({ start_time: slot.start_time, end_time: slot.end_time }))
+      .sort((a: AlternativeSlot, b: AlternativeSlot) =>
+        Math.abs(toMinutes(a.start_time) - toMinutes(startTime)) -
+        Math.abs(toMinutes(b.start_time) - toMinutes(startTime))
+      )
+      .slice(0, MAX_ALTERNATIVE_SLOTS)
+    
+    setAlternativeSlots(alternatives)
+  }
+  
+  const selectAlternativeSlot = (slot: AlternativeSlot) => {
+    form.setValue('startTime', slot.start_time)
+    form.setValue('endTime', slot.end_time)
+    setAlternativeSlots([])
+    setError(null)
+  }
+
+  // Every occurrence is checked and priced again on the server
+  const createSeries = async (data: BookingFormData, recurrence: RecurrenceFormData) => {
+    if (promoCode) {
+      setError('Promo codes apply to single bookings only. Remove the code to book a series.')
+      return
+    }
+    
+    const { data: seriesId, error: seriesError } = await supabase
+      .rpc('create_reservation_series', {
+        p_user_id: user.id,
+        p_venue_id: data.venueId,
+        p_start_date: data.date,
+        p_start_time: data.startTime,
+        p_end_time: data.endTime,
+        ...toSeriesArgs(recurrence),
+        p_skip_conflicts: recurrence.skipConflicts,
+        p_notes: data.notes || undefined
+      })
+    
+    if (seriesError) {
+      setError(isSeriesConflictError(seriesError)
+        ? `${seriesError.message}. Turn on "Book the rest" to skip them, or pick another time.`
+        : seriesError.message)
+      return
+    }
+    
+    clearBooking()
+    router.push(`/bookings/series/${seriesId}`)
+  }
+
+  const addToCart = async () => {
+    const valid = await form.trigger(['venueId', 'date', 'startTime', 'endTime'])
+    if (!valid) return
+    
+    const { venueId, date, startTime, endTime } = form.getValues()
+    const venue = venues.find(v => v.id === venueId)
+    if (!venue) return
     
-    // Calculate duration in hours
-    const start = new Date(`2000-01-01T${startTime}`)
-    const end = new Date(`2000-01-01T${endTime}`)
-    const duration = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
+    if (cart.length >= MAX_CART_ITEMS) {
+      setError(`A cart can hold up to ${MAX_CART_ITEMS} bookings`)
+      return
+    }
     
-    // Check if it's weekend (Saturday = 6, Sunday = 0)
-    const selectedDate = new Date(date)
-    const isWeekend = selectedDate.getDay() === 0 || selectedDate.getDay() === 6
+    if (cartPeriods.some(period => startTime < period.end_time && endTime > period.start_time)) {
+      setError('That time is already in your cart')
+      return
+    }
     
-    // Get base price from venue (weekend or weekday)
-    const basePrice = isWeekend && venue.weekend_price 
-      ? venue.weekend_price 
-      : venue.base_price
+    try {
+      // Promo codes are for single bookings, so cart prices only carry the member discount
+      const priceBreakdown = calculateBookingPrice({
+        venue,
+        slots: priceBands,
+        date,
+        startTime,
+        endTime,
+        specialDate: findSpecialDate(specialDates, venueId, date),
+        membership,
+      })
+      
+      addCartItem({ venue, date, startTime, endTime, priceBreakdown })
+      form.setValue('startTime', '')
+      form.setValue('endTime', '')
+      setError(null)
+      setAlternativeSlots([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This time can\'t be added to the cart')
+    }
+  }
+
+  // Books the whole cart in one transaction; if any item is gone nothing is booked
+  const checkout = async () => {
+    if (promoCode) {
+      setError('Promo codes apply to single bookings only. Remove the code to check out your cart.')
+      return
+    }
     
-    // Apply time slot multiplier
-    const pricePerHour = basePrice * (isWeekend ? (startSlot.price_weekend || 1) : (startSlot.price_weekday || 1))
-    return Math.round(pricePerHour * duration)
+    setSubmitting(true)
+    setError(null)
+    setAlternativeSlots([])
+    
+    try {
+      const { data: orderId, error: orderError } = await supabase
+        .rpc('create_booking_order', {
+          p_user_id: user.id,
+          p_items: cart.map(item => ({
+            venue_id: item.venue.id,
+            reservation_date: item.date,
+            start_time: item.startTime,
+            end_time: item.endTime
+          })),
+          p_notes: form.getValues('notes') || undefined
+        })
+      
+      if (orderError) {
+        const itemErrors = getCartItemErrors(orderError)
+        setCartErrors(itemErrors)
+        setError(itemErrors.length > 0
+          ? `${orderError.message}. Remove or change the marked bookings and try again.`
+          : orderError.message)
+        fetchTimeSlots()
+        return
+      }
+      
+      clearCart()
+      clearBooking()
+      router.push(`/booking/orders/${orderId}`)
+    } catch (err) {
+      setError('An unexpected error occurred. Please try again.')
+      console.error('Checkout error:', err)
+    } finally {
+      setSubmitting(false)
+    }
   }
 
   const onSubmit = async (data: BookingFormData) => {
     setSubmitting(true)
     setError(null)
+    setAlternativeSlots([])
     
     try {
       const venue = venues.find(v => v.id === data.venueId)
@@ -248,6 +494,11 @@ export default function BookingForm({
         return
       }
       
+      if (recurrence) {
+        await createSeries(data, recurrence)
+        return
+      }
+      
       // Find the venue time slot for the selected start time
       const selectedTimeSlot = timeSlots.find(slot => slot.start_time === data.startTime)
       if (!selectedTimeSlot) {
@@ -260,20 +511,34 @@ export default function BookingForm({
       const end = new Date(`2000-01-01T${data.endTime}`)
       const duration = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
       
+      const reservationArgs: FunctionArgs<'create_reservation'> = {
+        p_user_id: user.id,
+        p_venue_id: data.venueId,
+        p_venue_time_slot_id: selectedTimeSlot.slot_id,
+        p_reservation_date: data.date,
+        p_start_time: data.startTime,
+        p_end_time: data.endTime,
+        p_duration_hours: duration,
+        p_discount_percentage: 0,
+        p_notes: data.notes || undefined,
+        p_promo_code: promoCode?.code
+      }
+      
       const { data: reservation, error: reservationError } = await supabase
-        .rpc('create_reservation', {
-          p_user_id: user.id,
-          p_venue_id: data.venueId,
-          p_venue_time_slot_id: selectedTimeSlot.id,
-          p_reservation_date: data.date,
-          p_start_time: data.startTime,
-          p_end_time: data.endTime,
-          p_duration_hours: duration,
-          p_discount_percentage: 0,
-          p_notes: data.notes || null
-        })
+        .rpc('create_reservation', reservationArgs)
       
       if (reservationError) {
+        if (isSlotTakenError(reservationError)) {
+          setError('Sorry, that time was just booked by someone else. Please pick another slot.')
+          await suggestAlternativeSlots(data.venueId, data.date, data.startTime)
+          fetchTimeSlots()
+          return
+        }
+        
+        if (isPromoInvalidError(reservationError)) {
+          setPromoCode(null)
+        }
+        
         setError(reservationError.message)
         return
       }
@@ -305,7 +570,25 @@ export default function BookingForm({
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             {error && (
               <Alert variant="destructive">
-                <AlertDescription>{error}</AlertDescription>
+                <AlertDescription>
+                  {error}
+                  {alternativeSlots.length > 0 && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <span className="text-sm">Still available:</span>
+                      {alternativeSlots.map((slot) => (
+                        <Button
+                          key={slot.start_time}
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => selectAlternativeSlot(slot)}
+                        >
+                          {slot.start_time.slice(0, 5)} - {slot.end_time.slice(0, 5)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </AlertDescription>
               </Alert>
             )}
 
@@ -374,17 +657,30 @@ export default function BookingForm({
                           field.onChange(format(date, 'yyyy-MM-dd'))
                         }
                       }}
-                      disabled={(date) => isBefore(date, startOfDay(new Date()))}
+                      disabled={(date) => isBefore(date, startOfDay(new Date())) || isBefore(lastBookableDate, date)}
+                      specialDates={specialDates}
                       className="rounded-md border"
                     />
                   </FormControl>
+                  <FormDescription>
+                    {membership
+                      ? `As a ${membership.tier_name} member you can book up to ${bookingWindowDays} days ahead`
+                      : `Bookings open ${bookingWindowDays} days ahead. Members can book further in advance.`}
+                  </FormDescription>
+                  {selectedSpecialDate && (
+                    <p className="text-sm text-orange-600">
+                      {selectedSpecialDate.name} · {selectedSpecialDate.is_closed
+                        ? 'The venue is closed on this date'
+                        : `${SPECIAL_DATE_TYPE_LABELS[selectedSpecialDate.date_type]} rates apply`}
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
             {/* Time Selection */}
-            {watchedVenueId && watchedDate && (
+            {watchedVenueId && watchedDate && !isClosedDate && (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -411,7 +707,12 @@ export default function BookingForm({
                               <Loader2 className="h-4 w-4 animate-spin mx-auto" />
                             </div>
                           ) : (
-                            availableSlots.map((time) => {
+                            availableSlots.filter((time) => {
+                              const slot = timeSlots.find(s => s.start_time === time)
+                              return !slot || !cartPeriods.some(period =>
+                                slot.start_time < period.end_time && slot.end_time > period.start_time
+                              )
+                            }).map((time) => {
                               const slot = timeSlots.find(s => s.start_time === time)
                               return (
                                 <SelectItem key={time} value={time}>
@@ -420,10 +721,11 @@ export default function BookingForm({
                                     {slot && (() => {
                                       const venue = venues.find(v => v.id === watchedVenueId)
                                       if (!venue) return null
-                                      const selectedDate = new Date(watchedDate)
-                                      const isWeekend = selectedDate.getDay() === 0 || selectedDate.getDay() === 6
-                                      const basePrice = isWeekend && venue.weekend_price ? venue.weekend_price : venue.base_price
-                                      const hourlyRate = basePrice * (isWeekend ? (slot.price_weekend || 1) : (slot.price_weekday || 1))
+                                      const hourlyRate = getVenueRate(
+                                        venue,
+                                        getDayRate(watchedDate, selectedSpecialDate),
+                                        selectedSpecialDate
+                                      ) * (slot.price_multiplier ?? 1)
                                       return (
                                         <span className="text-xs text-gray-500 ml-2">
                                           {formatCurrency(hourlyRate)}/hr
@@ -473,6 +775,19 @@ export default function BookingForm({
               </div>
             )}
 
+            {/* Recurrence */}
+            {watchedVenueId && watchedDate && !isClosedDate && (
+              <RecurrenceOptions
+                userId={user.id}
+                venueId={watchedVenueId}
+                date={watchedDate}
+                startTime={watchedStartTime}
+                endTime={form.watch('endTime')}
+                value={recurrence}
+                onChange={setRecurrence}
+              />
+            )}
+
             {/* Notes */}
             <FormField
               control={form.control}
@@ -495,7 +810,9 @@ export default function BookingForm({
             {totalPrice > 0 && (
               <div className="p-4 bg-orange-50 rounded-lg border border-orange-200">
                 <div className="flex items-center justify-between">
-                  <span className="font-medium text-gray-900">Total Price:</span>
+                  <span className="font-medium text-gray-900">
+                    {recurrence ? 'Price per Booking:' : 'Total Price:'}
+                  </span>
                   <span className="text-2xl font-bold text-orange-600">
                     {formatCurrency(totalPrice)}
                   </span>
@@ -506,14 +823,39 @@ export default function BookingForm({
               </div>
             )}
 
-            <Button 
-              type="submit" 
-              className="w-full bg-orange-500 hover:bg-orange-600"
-              disabled={submitting || totalPrice === 0}
-            >
-              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {submitting ? 'Processing...' : 'Book Now'}
-            </Button>
+            {!recurrence && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={addToCart}
+                disabled={submitting || totalPrice === 0}
+              >
+                <ShoppingCart className="mr-2 h-4 w-4" />
+                Add to Cart
+              </Button>
+            )}
+
+            {cart.length > 0 && !recurrence ? (
+              <Button
+                type="button"
+                className="w-full bg-orange-500 hover:bg-orange-600"
+                onClick={checkout}
+                disabled={submitting}
+              >
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {submitting ? 'Processing...' : `Check Out ${cart.length} Booking${cart.length !== 1 ? 's' : ''}`}
+              </Button>
+            ) : (
+              <Button 
+                type="submit" 
+                className="w-full bg-orange-500 hover:bg-orange-600"
+                disabled={submitting || totalPrice === 0}
+              >
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {submitting ? 'Processing...' : recurrence ? 'Book Series' : 'Book Now'}
+              </Button>
+            )}
           </form>
         </Form>
       </CardContent>
@@ -2,6 +2,7 @@
 
 import { useBookingStore } from '@/stores/booking-store'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
 //import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { 
@@ -11,192 +12,287 @@ import {
   Users, 
   FileText,
   CreditCard,
-  CheckCircle
+  CheckCircle,
+  ShoppingCart,
+  X
 } from 'lucide-react'
 import { format } from 'date-fns'
 import { formatCurrency } from '@/lib/utils'
+import PriceLineItems from './price-line-items'
+import PromoCodeInput from './promo-code-input'
+import { useCancellationPolicy } from '@/hooks/use-cancellation-policy'
+import { describeCancellationPolicy } from '@/lib/cancellation-policies'
+
+function CartSummary() {
+  const { cart, removeFromCart } = useBookingStore()
+  const total = cart.reduce((sum, item) => sum + item.priceBreakdown.total, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShoppingCart className="h-5 w-5" />
+          Cart ({cart.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y">
+          {cart.map((item) => (
+            <li key={item.id} className="flex items-start justify-between gap-3 py-3 first:pt-0">
+              <div className="space-y-1">
+                <p className="font-medium text-gray-900">{item.venue.name}</p>
+                <p className="text-sm text-gray-600">
+                  {format(new Date(item.date), 'EEE, MMM d, yyyy')} · {item.startTime.slice(0, 5)} - {item.endTime.slice(0, 5)}
+                </p>
+                {item.error && (
+                  <p className="text-sm text-red-600">{item.error}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="text-sm font-medium">{formatCurrency(item.priceBreakdown.total)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeFromCart(item.id)}
+                  aria-label={`Remove ${item.venue.name} from cart`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <Separator />
+
+        <div className="flex justify-between font-semibold text-lg">
+          <span>Cart Total</span>
+          <span className="text-orange-600">{formatCurrency(total)}</span>
+        </div>
+        <p className="text-xs text-gray-500">
+          Everything in the cart is booked together and paid in one payment.
+          Member discounts apply; promo codes are for single bookings only.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
 
 export default function BookingSummary() {
   const { 
     selectedVenue, 
     selectedDate, 
-    selectedTimeSlot, 
+    selectedStartTime, 
+    selectedEndTime, 
     notes, 
-    totalPrice,
-    duration 
+    priceBreakdown,
+    duration,
+    cart
   } = useBookingStore()
+  const { rules: cancellationRules } = useCancellationPolicy(selectedVenue?.venue_type_id)
 
-  if (!selectedVenue || !selectedDate || !selectedTimeSlot) {
+  if (!selectedVenue || !selectedDate || !selectedStartTime || !selectedEndTime) {
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <FileText className="h-5 w-5" />
-            Booking Summary
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8 text-gray-500">
-            <FileText className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-            <p>Select venue and time to see booking summary</p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="sticky top-6 space-y-6">
+        {cart.length > 0 && <CartSummary />}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Booking Summary
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center py-8 text-gray-500">
+              <FileText className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p>
+                {cart.length > 0
+                  ? 'Select another venue and time to add it to your cart'
+                  : 'Select venue and time to see booking summary'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     )
   }
 
   const venue = selectedVenue
   const date = selectedDate
-  const startTime = selectedTimeSlot.start_time
-  const endTime = selectedTimeSlot.end_time
-  
-  // Use duration from store (already calculated)
-  // Use totalPrice from store (already calculated)
-  const tax = totalPrice * 0.1 // 10% tax
-  const finalPrice = totalPrice + tax
-  const hourlyRate = duration > 0 ? totalPrice / duration : 0
+  const startTime = selectedStartTime
+  const endTime = selectedEndTime
 
   return (
-    <Card className="sticky top-6">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <FileText className="h-5 w-5" />
-          Booking Summary
-        </CardTitle>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        {/* Venue Info */}
-        <div className="space-y-3">
-          <div className="flex items-start gap-3">
-            <div className="w-12 h-12 bg-orange-100 rounded-lg flex items-center justify-center">
-              <MapPin className="h-6 w-6 text-orange-600" />
-            </div>
-            <div className="flex-1">
-              <h3 className="font-semibold text-gray-900">{venue.name}</h3>
-              <p className="text-sm text-gray-600">Orange Sport Center</p>
-              {venue.description && (
-                <p className="text-xs text-gray-500 mt-1">{venue.description}</p>
-              )}
+    <div className="sticky top-6 space-y-6">
+      {cart.length > 0 && <CartSummary />}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Booking Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Venue Info */}
+          <div className="space-y-3">
+            <div className="flex items-start gap-3">
+              <div className="w-12 h-12 bg-orange-100 rounded-lg flex items-center justify-center">
+                <MapPin className="h-6 w-6 text-orange-600" />
+              </div>
+              <div className="flex-1">
+                <h3 className="font-semibold text-gray-900">{venue.name}</h3>
+                <p className="text-sm text-gray-600">Orange Sport Center</p>
+                {venue.description && (
+                  <p className="text-xs text-gray-500 mt-1">{venue.description}</p>
+                )}
+              </div>
             </div>
-          </div>
           
-          {venue.facilities && (
-            <div className="flex items-center gap-2 text-sm text-gray-600">
-              <Users className="h-4 w-4" />
-              <span>Facilities: {venue.facilities}</span>
-            </div>
-          )}
-        </div>
+            {venue.facilities && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Users className="h-4 w-4" />
+                <span>Facilities: {venue.facilities}</span>
+              </div>
+            )}
+          </div>
 
-        <Separator />
+          <Separator />
 
-        {/* Booking Details */}
-        <div className="space-y-4">
-          <h4 className="font-medium text-gray-900">Booking Details</h4>
+          {/* Booking Details */}
+          <div className="space-y-4">
+            <h4 className="font-medium text-gray-900">Booking Details</h4>
           
-          <div className="space-y-3">
-            <div className="flex items-center gap-3">
-              <Calendar className="h-4 w-4 text-gray-500" />
-              <div>
-                <div className="font-medium">
-                  {format(new Date(date), 'EEEE, MMMM d, yyyy')}
-                </div>
-                <div className="text-sm text-gray-600">
-                  {format(new Date(date), 'MMM d, yyyy')}
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <Calendar className="h-4 w-4 text-gray-500" />
+                <div>
+                  <div className="font-medium">
+                    {format(new Date(date), 'EEEE, MMMM d, yyyy')}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {format(new Date(date), 'MMM d, yyyy')}
+                  </div>
                 </div>
               </div>
-            </div>
             
-            <div className="flex items-center gap-3">
-              <Clock className="h-4 w-4 text-gray-500" />
-              <div>
-                <div className="font-medium">
-                  {startTime} - {endTime}
-                </div>
-                <div className="text-sm text-gray-600">
-                  Duration: {duration} hour{duration !== 1 ? 's' : ''}
+              <div className="flex items-center gap-3">
+                <Clock className="h-4 w-4 text-gray-500" />
+                <div>
+                  <div className="font-medium">
+                    {startTime} - {endTime}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    Duration: {duration} hour{duration !== 1 ? 's' : ''}
+                  </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Notes */}
-        {notes && (
-          <>
-            <Separator />
-            <div className="space-y-2">
-              <h4 className="font-medium text-gray-900">Additional Notes</h4>
-              <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
-                {notes}
-              </p>
-            </div>
-          </>
-        )}
+          {/* Notes */}
+          {notes && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <h4 className="font-medium text-gray-900">Additional Notes</h4>
+                <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
+                  {notes}
+                </p>
+              </div>
+            </>
+          )}
 
-        <Separator />
+          <Separator />
 
-        {/* Price Breakdown */}
-        <div className="space-y-4">
-          <h4 className="font-medium text-gray-900 flex items-center gap-2">
-            <CreditCard className="h-4 w-4" />
-            Price Breakdown
-          </h4>
+          {/* Price Breakdown */}
+          <div className="space-y-4">
+            <h4 className="font-medium text-gray-900 flex items-center gap-2">
+              <CreditCard className="h-4 w-4" />
+              Price Breakdown
+            </h4>
           
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm">
-              <span>Base price ({duration}h × {formatCurrency(hourlyRate)})</span>
-              <span>{formatCurrency(totalPrice)}</span>
-            </div>
-            
-            <div className="flex justify-between text-sm">
-              <span>Tax (10%)</span>
-              <span>{formatCurrency(tax)}</span>
-            </div>
-            
-            <Separator />
-            
-            <div className="flex justify-between font-semibold text-lg">
-              <span>Total</span>
-              <span className="text-orange-600">{formatCurrency(finalPrice)}</span>
-            </div>
+            {priceBreakdown ? (
+              <div className="space-y-2">
+                <PriceLineItems items={priceBreakdown.lineItems} />
+              
+                {priceBreakdown.dayRate !== 'weekday' && (
+                  <p className="text-xs text-gray-500">
+                    {priceBreakdown.specialDateName ?? 'Weekend'} rates apply
+                  </p>
+                )}
+              
+                {priceBreakdown.discountAmount > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>
+                      {priceBreakdown.promoCode
+                        ? `Promo ${priceBreakdown.promoCode}`
+                        : priceBreakdown.membershipName
+                          ? `${priceBreakdown.membershipName} member discount (${priceBreakdown.discountPercentage}%)`
+                          : `Discount (${priceBreakdown.discountPercentage}%)`}
+                    </span>
+                    <span>-{formatCurrency(priceBreakdown.discountAmount)}</span>
+                  </div>
+                )}
+              
+                <PromoCodeInput venueId={venue.id} subtotal={priceBreakdown.subtotal} />
+              
+                <Separator />
+              
+                <div className="flex justify-between font-semibold text-lg">
+                  <span>Total</span>
+                  <span className="text-orange-600">{formatCurrency(priceBreakdown.total)}</span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No pricing available for the selected time</p>
+            )}
           </div>
-        </div>
 
-        <Separator />
+          <Separator />
 
-        {/* Booking Policies */}
-        <div className="space-y-3">
-          <h4 className="font-medium text-gray-900">Booking Policies</h4>
+          {/* Booking Policies */}
+          <div className="space-y-3">
+            <h4 className="font-medium text-gray-900">Booking Policies</h4>
           
-          <div className="space-y-2 text-sm text-gray-600">
-            <div className="flex items-start gap-2">
-              <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
-              <span>Free cancellation up to 24 hours before booking</span>
-            </div>
+            <div className="space-y-2 text-sm text-gray-600">
+              {cancellationRules.length > 0 && (
+                <div className="flex items-start gap-2">
+                  <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <span>Cancellation refunds:</span>
+                    <ul className="mt-1 space-y-0.5">
+                      {describeCancellationPolicy(cancellationRules).map(line => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
             
-            <div className="flex items-start gap-2">
-              <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
-              <span>Instant confirmation upon payment</span>
-            </div>
+              <div className="flex items-start gap-2">
+                <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
+                <span>Instant confirmation upon payment</span>
+              </div>
             
-            <div className="flex items-start gap-2">
-              <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
-              <span>Equipment rental available on-site</span>
+              <div className="flex items-start gap-2">
+                <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
+                <span>Equipment rental available on-site</span>
+              </div>
             </div>
           </div>
-        </div>
 
-        {/* Contact Info */}
-        <div className="bg-orange-50 p-4 rounded-lg">
-          <h4 className="font-medium text-gray-900 mb-2">Need Help?</h4>
-          <div className="text-sm text-gray-600 space-y-1">
-            <p>📞 +62 123 456 7890</p>
-            <p>📧 info@orangesportcenter.com</p>
-            <p className="text-xs mt-2">Available 24/7 for support</p>
+          {/* Contact Info */}
+          <div className="bg-orange-50 p-4 rounded-lg">
+            <h4 className="font-medium text-gray-900 mb-2">Need Help?</h4>
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>📞 +62 123 456 7890</p>
+              <p>📧 info@orangesportcenter.com</p>
+              <p className="text-xs mt-2">Available 24/7 for support</p>
+            </div>
           </div>
-        </div>
-      </CardContent>
-    </Card>
+        </CardContent>
+      </Card>
+    </div>
   )
-}
\ No newline at end of file
+}
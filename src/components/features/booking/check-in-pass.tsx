@@ -0,0 +1,38 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { qrToSvgPath, type QrMatrix } from '@/lib/qr'
+
+interface CheckInPassProps {
+  // Encoded on the server, where the pass is signed
+  qr: QrMatrix
+  reservationCode: string
+  isPaid: boolean
+}
+
+export default function CheckInPass({ qr, reservationCode, isPaid }: CheckInPassProps) {
+  const size = qr.length + 8
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Check-in Pass</CardTitle>
+        <CardDescription>
+          {isPaid
+            ? 'Show this code at the front desk when you arrive.'
+            : 'Show this code at the front desk once your booking is paid.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col items-center gap-2">
+        <svg
+          viewBox={`0 0 ${size} ${size}`}
+          className="h-48 w-48 bg-white"
+          shapeRendering="crispEdges"
+          role="img"
+          aria-label={`Check-in QR code for ${reservationCode}`}
+        >
+          <path d={qrToSvgPath(qr)} fill="#000" />
+        </svg>
+        <p className="font-mono text-sm text-gray-600">{reservationCode}</p>
+      </CardContent>
+    </Card>
+  )
+}
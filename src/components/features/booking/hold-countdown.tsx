@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Clock } from 'lucide-react'
+import { format } from 'date-fns'
+import { getHoldSecondsRemaining } from '@/lib/reservation-holds'
+
+interface HoldCountdownProps {
+  expiresAt: string
+}
+
+export default function HoldCountdown({ expiresAt }: HoldCountdownProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => getHoldSecondsRemaining(expiresAt) ?? 0)
+  const router = useRouter()
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const remaining = getHoldSecondsRemaining(expiresAt) ?? 0
+      setSecondsLeft(remaining)
+
+      if (remaining === 0) {
+        clearInterval(timer)
+        router.refresh()
+      }
+    }, 1000)
+
+    return () => clearInterval(timer)
+  }, [expiresAt, router])
+
+  if (secondsLeft === 0) {
+    return (
+      <Alert variant="destructive">
+        <Clock className="h-4 w-4" />
+        <AlertDescription>
+          Your booking hold has expired and the slot has been released. Please make a new booking.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  // Series occurrences are held until shortly before they start
+  if (secondsLeft > 60 * 60) {
+    return (
+      <Alert className="border-orange-200 bg-orange-50">
+        <Clock className="h-4 w-4 text-orange-600" />
+        <AlertDescription>
+          This slot is held for you until{' '}
+          <span className="font-semibold text-orange-700">
+            {format(new Date(expiresAt), "EEE, MMM d 'at' HH:mm")}
+          </span>
+          . Complete your payment by then or the booking will be cancelled.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  const minutes = Math.floor(secondsLeft / 60)
+  const seconds = secondsLeft % 60
+
+  return (
+    <Alert className="border-orange-200 bg-orange-50">
+      <Clock className="h-4 w-4 text-orange-600" />
+      <AlertDescription>
+        This slot is held for you for{' '}
+        <span className="font-mono font-semibold text-orange-700">
+          {minutes}:{seconds.toString().padStart(2, '0')}
+        </span>
+        . Complete your payment before the timer runs out or the booking will be cancelled.
+      </AlertDescription>
+    </Alert>
+  )
+}
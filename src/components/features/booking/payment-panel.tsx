@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CreditCard, Loader2, RefreshCw } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+import { getMinimumDeposit, MINIMUM_DEPOSIT_PERCENTAGE } from '@/lib/payments/deposits'
+import type { Payment } from '@/types/database'
+
+// Pays for a single reservation, or for every reservation of a cart checkout at once
+interface PaymentPanelProps {
+  reservationId?: string
+  orderId?: string
+  totalPrice: number
+  amountPaid: number
+}
+
+interface PendingCharge {
+  paymentId: string
+  provider: string | null
+  redirectUrl: string | null
+}
+
+export default function PaymentPanel({ reservationId, orderId, totalPrice, amountPaid }: PaymentPanelProps) {
+  const [paymentMethod, setPaymentMethod] = useState<Payment['payment_method']>('bank_transfer')
+  const [payDeposit, setPayDeposit] = useState(false)
+  const [pendingCharge, setPendingCharge] = useState<PendingCharge | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+
+  const outstanding = totalPrice - amountPaid
+  const depositAmount = getMinimumDeposit(totalPrice)
+  const canPayDeposit = amountPaid === 0 && depositAmount < outstanding
+  const amount = payDeposit && canPayDeposit ? depositAmount : outstanding
+
+  async function request(url: string, init?: RequestInit) {
+    const response = await fetch(url, init)
+    const body = await response.json()
+
+    if (!response.ok) {
+      throw new Error(body.error || 'Payment request failed')
+    }
+
+    return body
+  }
+
+  const handlePay = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const charge = await request('/api/payments/charge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reservationId, orderId, paymentMethod, amount }),
+      })
+
+      if (charge.redirectUrl) {
+        window.location.href = charge.redirectUrl
+        return
+      }
+
+      setPendingCharge(charge)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start payment')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSimulate = async (status: 'completed' | 'failed') => {
+    if (!pendingCharge) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await request('/api/payments/mock/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paymentId: pendingCharge.paymentId, status }),
+      })
+
+      setPendingCharge(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to simulate payment')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCheckStatus = async () => {
+    if (!pendingCharge) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const payment = await request(`/api/payments/${pendingCharge.paymentId}`)
+
+      if (payment.status !== 'pending') {
+        setPendingCharge(null)
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check payment status')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (outstanding <= 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          Payment
+        </CardTitle>
+        <CardDescription>
+          {amountPaid > 0
+            ? `${formatCurrency(amountPaid)} received. Remaining balance: ${formatCurrency(outstanding)}`
+            : `Amount due: ${formatCurrency(outstanding)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {pendingCharge ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Payment of {formatCurrency(amount)} has been started.
+            </p>
+            {pendingCharge.provider === 'mock' ? (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={() => handleSimulate('completed')} disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Simulate Successful Payment
+                </Button>
+                <Button variant="outline" onClick={() => handleSimulate('failed')} disabled={isLoading}>
+                  Simulate Failed Payment
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={handleCheckStatus} disabled={isLoading}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Check Payment Status
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Payment Method</label>
+                <Select
+                  value={paymentMethod}
+                  onValueChange={(value) => setPaymentMethod(value as Payment['payment_method'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                    <SelectItem value="e_wallet">E-Wallet</SelectItem>
+                    <SelectItem value="credit_card">Credit Card</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {canPayDeposit && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Amount</label>
+                  <Select
+                    value={payDeposit ? 'deposit' : 'full'}
+                    onValueChange={(value) => setPayDeposit(value === 'deposit')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="full">Full amount ({formatCurrency(outstanding)})</SelectItem>
+                      <SelectItem value="deposit">
+                        {MINIMUM_DEPOSIT_PERCENTAGE}% deposit ({formatCurrency(depositAmount)})
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <Button
+              className="w-full bg-orange-500 hover:bg-orange-600"
+              onClick={handlePay}
+              disabled={isLoading}
+            >
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Pay {formatCurrency(amount)}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,21 @@
+import { formatCurrency } from '@/lib/utils'
+import type { PriceLineItem } from '@/lib/pricing/engine'
+
+interface PriceLineItemsProps {
+  items: PriceLineItem[]
+}
+
+export default function PriceLineItems({ items }: PriceLineItemsProps) {
+  return (
+    <div className="space-y-1">
+      {items.map((item) => (
+        <div key={item.startTime} className="flex justify-between text-sm">
+          <span className="text-gray-600">
+            {item.startTime} - {item.endTime} ({Number(item.hours.toFixed(2))}h × {formatCurrency(item.hourlyRate)})
+          </span>
+          <span>{formatCurrency(item.amount)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useBookingStore } from '@/stores/booking-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Tag, X } from 'lucide-react'
+
+interface PromoCodeInputProps {
+  venueId: string
+  subtotal: number
+}
+
+export default function PromoCodeInput({ venueId, subtotal }: PromoCodeInputProps) {
+  const [code, setCode] = useState('')
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { promoCode, setPromoCode } = useBookingStore()
+  const appliedCode = promoCode?.code
+
+  async function applyCode(value: string) {
+    try {
+      setChecking(true)
+      setError(null)
+
+      const { data, error } = await createClient().rpc('check_promo_code', {
+        p_code: value,
+        p_venue_id: venueId,
+        p_subtotal: subtotal,
+      })
+
+      if (error || !data?.[0]) {
+        setPromoCode(null)
+        setError(error?.message || 'Promo code not found')
+        return
+      }
+
+      setPromoCode(data[0])
+      setCode('')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  // Venue, minimum spend and limits depend on the booking, so check again when it changes
+  useEffect(() => {
+    if (appliedCode) applyCode(appliedCode)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [venueId, subtotal])
+
+  if (promoCode) {
+    return (
+      <div className="flex items-center justify-between rounded-lg bg-green-50 px-3 py-2 text-sm text-green-700">
+        <span className="flex items-center gap-2">
+          <Tag className="h-4 w-4" />
+          {promoCode.code} applied
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => setPromoCode(null)} disabled={checking}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (code.trim()) applyCode(code.trim())
+        }}
+      >
+        <Input
+          placeholder="Promo code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+        />
+        <Button type="submit" variant="outline" disabled={checking || !code.trim()}>
+          {checking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Apply
+        </Button>
+      </form>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
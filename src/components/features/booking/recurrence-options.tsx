@@ -0,0 +1,264 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { recurrenceSchema, type RecurrenceFormData } from '@/lib/validations/booking'
+import {
+  MAX_SERIES_OCCURRENCES,
+  SERIES_FREQUENCY_LABELS,
+  SERIES_PACKAGE_DISCOUNTS,
+  summarizeSeriesAvailability,
+  toSeriesArgs,
+  type SeriesOccurrence,
+} from '@/lib/reservation-series'
+import { formatCurrency } from '@/lib/utils'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CheckCircle, Loader2, Repeat, XCircle } from 'lucide-react'
+
+interface RecurrenceOptionsProps {
+  userId: string
+  venueId: string
+  date: string
+  startTime: string
+  endTime: string
+  // null while the booking is a one-off
+  value: RecurrenceFormData | null
+  onChange: (value: RecurrenceFormData | null) => void
+}
+
+const DEFAULT_RECURRENCE: RecurrenceFormData = {
+  frequency: 'weekly',
+  ends: 'after_count',
+  occurrences: 4,
+  endDate: '',
+  skipConflicts: false,
+}
+
+export default function RecurrenceOptions({
+  userId,
+  venueId,
+  date,
+  startTime,
+  endTime,
+  value,
+  onChange,
+}: RecurrenceOptionsProps) {
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[]>([])
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const parsed = value ? recurrenceSchema.safeParse(value) : null
+  const validationError = parsed && !parsed.success ? parsed.error.issues[0]?.message : null
+  const ready = Boolean(parsed?.success && venueId && date && startTime && endTime)
+
+  // Check every date again whenever the booking or the pattern changes
+  useEffect(() => {
+    if (!ready || !value) {
+      setOccurrences([])
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+
+    async function checkDates(recurrence: RecurrenceFormData) {
+      setChecking(true)
+      setError(null)
+
+      const { data, error } = await createClient().rpc('check_series_availability', {
+        p_user_id: userId,
+        p_venue_id: venueId,
+        p_start_date: date,
+        p_start_time: startTime,
+        p_end_time: endTime,
+        ...toSeriesArgs(recurrence),
+      })
+
+      if (cancelled) return
+
+      setOccurrences(data || [])
+      setError(error?.message || null)
+      setChecking(false)
+    }
+
+    checkDates(value)
+
+    return () => {
+      cancelled = true
+    }
+    // skipConflicts doesn't change the dates
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready, userId, venueId, date, startTime, endTime, value?.frequency, value?.ends, value?.occurrences, value?.endDate])
+
+  const update = (changes: Partial<RecurrenceFormData>) => {
+    if (value) onChange({ ...value, ...changes })
+  }
+
+  const summary = summarizeSeriesAvailability(occurrences)
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label className="flex items-center gap-2">
+            <Repeat className="h-4 w-4" />
+            Repeat this booking
+          </Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            For teams and leagues. Save{' '}
+            {SERIES_PACKAGE_DISCOUNTS.map(tier => `${tier.percentage}% from ${tier.minOccurrences}`).reverse().join(', ')}{' '}
+            bookings.
+          </p>
+        </div>
+        <Switch
+          checked={value !== null}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_RECURRENCE : null)}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select
+                value={value.frequency}
+                onValueChange={(frequency) => update({ frequency: frequency as RecurrenceFormData['frequency'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SERIES_FREQUENCY_LABELS).map(([frequency, label]) => (
+                    <SelectItem key={frequency} value={frequency}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <Select
+                value={value.ends}
+                onValueChange={(ends) => update({ ends: ends as RecurrenceFormData['ends'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="after_count">After a number of bookings</SelectItem>
+                  <SelectItem value="on_date">On a date</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              {value.ends === 'after_count' ? (
+                <>
+                  <Label>Bookings</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={MAX_SERIES_OCCURRENCES}
+                    value={value.occurrences}
+                    onChange={(e) => update({ occurrences: Number(e.target.value) })}
+                  />
+                </>
+              ) : (
+                <>
+                  <Label>Last date</Label>
+                  <Input
+                    type="date"
+                    min={date}
+                    value={value.endDate}
+                    onChange={(e) => update({ endDate: e.target.value })}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          {(validationError || error) && (
+            <p className="text-sm text-red-600">{validationError || error}</p>
+          )}
+
+          {checking ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking dates...
+            </div>
+          ) : occurrences.length > 0 && (
+            <div className="space-y-3">
+              <ul className="max-h-60 overflow-y-auto divide-y rounded-md border text-sm">
+                {occurrences.map((occurrence) => (
+                  <li key={occurrence.occurrence_date} className="flex items-center justify-between px-3 py-2">
+                    <span className="flex items-center gap-2">
+                      {occurrence.is_available ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-red-600" />
+                      )}
+                      {format(parseISO(occurrence.occurrence_date), 'EEE, MMM d, yyyy')}
+                    </span>
+                    {occurrence.is_available ? (
+                      <span>{formatCurrency(occurrence.total_price)}</span>
+                    ) : (
+                      <span className="text-red-600">{occurrence.conflict_reason}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {summary.conflicts.length > 0 && (
+                <div className="flex items-center justify-between gap-4 rounded-lg bg-red-50 px-3 py-2">
+                  <p className="text-sm text-red-700">
+                    {summary.conflicts.length} of {occurrences.length} dates can&apos;t be booked.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="skip-conflicts" className="text-sm">Book the rest</Label>
+                    <Switch
+                      id="skip-conflicts"
+                      checked={value.skipConflicts}
+                      onCheckedChange={(skipConflicts) => update({ skipConflicts })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {summary.available.length > 0 && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {summary.available.length} bookings
+                    {summary.total < summary.baseTotal && ` · ${summary.available[0].discount_percentage}% off`}
+                  </span>
+                  <span className="font-semibold">
+                    {summary.total < summary.baseTotal && (
+                      <span className="mr-2 font-normal text-muted-foreground line-through">
+                        {formatCurrency(summary.baseTotal)}
+                      </span>
+                    )}
+                    {formatCurrency(summary.total)}
+                  </span>
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                Each booking is paid separately, up to 24 hours before it starts.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
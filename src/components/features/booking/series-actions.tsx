@@ -0,0 +1,320 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { isSeriesConflictError, isSlotTakenError } from '@/lib/reservation-errors'
+import CancelReservationDialog from '@/components/features/profile/cancel-reservation-dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CalendarClock, Loader2, XCircle } from 'lucide-react'
+import type { VenueTimeSlot } from '@/types/database'
+
+export type SlotTimes = Pick<VenueTimeSlot, 'start_time' | 'end_time'>
+
+export interface TimeRange {
+  startTime: string
+  endTime: string
+}
+
+export function TimeRangeSelect({ slots, value, onChange }: {
+  slots: SlotTimes[]
+  value: TimeRange
+  onChange: (value: TimeRange) => void
+}) {
+  const endTimes = slots.map(slot => slot.end_time).filter(time => time > value.startTime)
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Start time</Label>
+        <Select value={value.startTime} onValueChange={(startTime) => onChange({ startTime, endTime: '' })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Start" />
+          </SelectTrigger>
+          <SelectContent>
+            {slots.map(slot => (
+              <SelectItem key={slot.start_time} value={slot.start_time}>{slot.start_time.slice(0, 5)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>End time</Label>
+        <Select
+          value={value.endTime}
+          onValueChange={(endTime) => onChange({ ...value, endTime })}
+          disabled={!value.startTime}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="End" />
+          </SelectTrigger>
+          <SelectContent>
+            {endTimes.map(time => (
+              <SelectItem key={time} value={time}>{time.slice(0, 5)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
+
+interface SeriesActionsProps {
+  seriesId: string
+  startTime: string
+  endTime: string
+  slots: SlotTimes[]
+}
+
+// Changes the time of, or cancels, every remaining occurrence of a series
+export function SeriesActions({ seriesId, startTime, endTime, slots }: SeriesActionsProps) {
+  const [rescheduleOpen, setRescheduleOpen] = useState(false)
+  const [cancelOpen, setCancelOpen] = useState(false)
+  const [timeRange, setTimeRange] = useState<TimeRange>({ startTime, endTime })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  async function reschedule() {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { error } = await supabase.rpc('reschedule_reservation_series', {
+        p_series_id: seriesId,
+        p_new_start_time: timeRange.startTime,
+        p_new_end_time: timeRange.endTime,
+      })
+
+      if (error) {
+        setError(isSeriesConflictError(error)
+          ? `${error.message}. Move those bookings on their own first, or pick another time.`
+          : error.message)
+        return
+      }
+
+      setRescheduleOpen(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Error rescheduling series:', err)
+      setError('Failed to change the series time. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function cancelSeries() {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { error } = await supabase.rpc('cancel_reservation_series', { p_series_id: seriesId })
+
+      if (error) {
+        setError(error.message)
+        return
+      }
+
+      setCancelOpen(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Error cancelling series:', err)
+      setError('Failed to cancel the series. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Dialog
+        open={rescheduleOpen}
+        onOpenChange={(open) => {
+          setRescheduleOpen(open)
+          setError(null)
+          if (open) setTimeRange({ startTime, endTime })
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Change Time
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Change series time</DialogTitle>
+            <DialogDescription>
+              Moves every upcoming booking in the series to the new time on the same days.
+              Prices are recalculated for the new time.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <TimeRangeSelect slots={slots} value={timeRange} onChange={setTimeRange} />
+          <DialogFooter>
+            <Button onClick={reschedule} disabled={saving || !timeRange.startTime || !timeRange.endTime}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={cancelOpen}
+        onOpenChange={(open) => {
+          setCancelOpen(open)
+          setError(null)
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline">
+            <XCircle className="h-4 w-4 mr-2" />
+            Cancel Series
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel series</DialogTitle>
+            <DialogDescription>
+              All upcoming bookings in this series will be cancelled and their slots released.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <DialogFooter>
+            <Button variant="destructive" onClick={cancelSeries} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancel series
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+interface SeriesOccurrenceActionsProps {
+  reservationId: string
+  date: string
+  startTime: string
+  endTime: string
+  slots: SlotTimes[]
+}
+
+// Moves or cancels a single occurrence; the rest of the series stays as it is
+export function SeriesOccurrenceActions({ reservationId, date, startTime, endTime, slots }: SeriesOccurrenceActionsProps) {
+  const [open, setOpen] = useState(false)
+  const [newDate, setNewDate] = useState(date)
+  const [timeRange, setTimeRange] = useState<TimeRange>({ startTime, endTime })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  async function reschedule() {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const { error } = await supabase.rpc('reschedule_series_occurrence', {
+        p_reservation_id: reservationId,
+        p_new_date: newDate,
+        p_new_start_time: timeRange.startTime,
+        p_new_end_time: timeRange.endTime,
+      })
+
+      if (error) {
+        setError(isSlotTakenError(error) ? 'That time is already booked. Please pick another.' : error.message)
+        return
+      }
+
+      setOpen(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Error rescheduling booking:', err)
+      setError('Failed to move the booking. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Dialog
+        open={open}
+        onOpenChange={(nextOpen) => {
+          setOpen(nextOpen)
+          setError(null)
+          if (nextOpen) {
+            setNewDate(date)
+            setTimeRange({ startTime, endTime })
+          }
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button size="sm" variant="outline" disabled={saving}>
+            <CalendarClock className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Move this booking</DialogTitle>
+            <DialogDescription>
+              Only this booking moves. The price is recalculated for the new date and time.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+          </div>
+          <TimeRangeSelect slots={slots} value={timeRange} onChange={setTimeRange} />
+          <DialogFooter>
+            <Button onClick={reschedule} disabled={saving || !newDate || !timeRange.startTime || !timeRange.endTime}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CancelReservationDialog reservationId={reservationId} onCancelled={() => router.refresh()}>
+        <Button size="sm" variant="outline">
+          <XCircle className="h-4 w-4" />
+        </Button>
+      </CancelReservationDialog>
+    </div>
+  )
+}
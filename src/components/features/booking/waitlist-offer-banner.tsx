@@ -0,0 +1,42 @@
+'use client'
+
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { useWaitlistOffers } from '@/hooks/use-waitlist-offers'
+import { Button } from '@/components/ui/button'
+import { BellRing } from 'lucide-react'
+
+interface WaitlistOfferBannerProps {
+  userId: string
+}
+
+// Tells a customer, on whatever page they are, that a slot they waited for is held for them
+export default function WaitlistOfferBanner({ userId }: WaitlistOfferBannerProps) {
+  const { offers } = useWaitlistOffers(userId)
+
+  if (offers.length === 0) return null
+
+  return (
+    <div className="border-b border-orange-200 bg-orange-50">
+      <div className="container mx-auto px-4 py-3 space-y-2">
+        {offers.map((offer) => (
+          <div key={offer.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+            <p className="flex items-center gap-2 text-orange-800">
+              <BellRing className="h-4 w-4 flex-shrink-0" />
+              <span>
+                A slot you were waiting for is free: <strong>{offer.venue?.name}</strong>,{' '}
+                {format(new Date(offer.requested_date), 'EEE, MMM d')} {offer.start_time.slice(0, 5)} - {offer.end_time.slice(0, 5)}.
+                {offer.offer_expires_at && ` It's held for you until ${format(new Date(offer.offer_expires_at), 'HH:mm')}.`}
+              </span>
+            </p>
+            {offer.reservation_id && (
+              <Button size="sm" className="bg-orange-500 hover:bg-orange-600" asChild>
+                <Link href={`/booking/confirmation/${offer.reservation_id}`}>Pay &amp; Book</Link>
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { useNotifications } from '@/hooks/use-notifications'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Bell } from 'lucide-react'
+import type { InAppNotification } from '@/types/database'
+
+interface NotificationInboxProps {
+  userId: string
+}
+
+function NotificationItem({ notification }: { notification: InAppNotification }) {
+  return (
+    <div className="flex gap-2 w-full">
+      <span
+        className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.read_at ? 'bg-transparent' : 'bg-orange-500'}`}
+      />
+      <div className="space-y-1 min-w-0">
+        <p className={`text-sm leading-snug ${notification.read_at ? '' : 'font-medium'}`}>{notification.title}</p>
+        <p className="text-xs text-muted-foreground line-clamp-3">{notification.body}</p>
+        {notification.created_at && (
+          <p className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Bell in the header with the customer's in-app notifications
+export default function NotificationInbox({ userId }: NotificationInboxProps) {
+  const { notifications, unreadCount, markRead } = useNotifications(userId)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-orange-500 text-[10px] font-medium leading-4 text-white">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-orange-600 hover:underline"
+              onClick={() => markRead()}
+            >
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="items-start"
+                asChild={!!notification.link}
+                onSelect={() => {
+                  if (!notification.read_at) markRead([notification.id])
+                }}
+              >
+                {notification.link ? (
+                  <Link href={notification.link}>
+                    <NotificationItem notification={notification} />
+                  </Link>
+                ) : (
+                  <NotificationItem notification={notification} />
+                )}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
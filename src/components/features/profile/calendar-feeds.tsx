@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { getCalendarFeedUrl, toWebcalUrl } from '@/lib/calendar-feeds'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Check, Copy, Link2, Loader2, RefreshCw } from 'lucide-react'
+import type { Venue } from '@/types/database'
+
+interface CalendarFeedsProps {
+  // Venues whose schedule feed the user may subscribe to; empty for customers
+  venues: Pick<Venue, 'id' | 'name'>[]
+}
+
+function FeedRow({ label, venueId }: { label: string, venueId?: string }) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const supabase = createClient()
+
+  // Tokens are created on first use, so nothing exists until the link is asked for
+  async function loadToken(reset = false) {
+    if (reset && !confirm('Reset this link? Calendars subscribed to the old link will stop updating.')) return
+
+    try {
+      setLoading(true)
+
+      const { data, error } = await supabase.rpc(
+        reset ? 'reset_calendar_feed_token' : 'get_calendar_feed_token',
+        { p_venue_id: venueId }
+      )
+
+      if (error) throw error
+
+      setUrl(getCalendarFeedUrl(window.location.origin, data))
+      setCopied(false)
+    } catch (err) {
+      console.error('Error loading calendar feed:', err)
+      alert('Failed to load the calendar link. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function copyUrl() {
+    if (!url) return
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+  }
+
+  return (
+    <div className="space-y-2 p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{label}</span>
+        {url ? (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" asChild>
+              <a href={toWebcalUrl(url)}>Subscribe</a>
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => loadToken(true)} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              <span className="sr-only">Reset link</span>
+            </Button>
+          </div>
+        ) : (
+          <Button size="sm" variant="outline" onClick={() => loadToken()} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Link2 className="h-4 w-4 mr-1" />}
+            Get Link
+          </Button>
+        )}
+      </div>
+
+      {url && (
+        <div className="flex gap-2">
+          <Input value={url} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+          <Button size="sm" variant="outline" onClick={copyUrl}>
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            <span className="sr-only">Copy link</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function CalendarFeeds({ venues }: CalendarFeedsProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Subscribe from Google Calendar, Apple Calendar or Outlook to see your bookings there.
+        New bookings, reschedules and cancellations show up on their own. Keep the link private:
+        anyone who has it can see the calendar.
+      </p>
+
+      <FeedRow label="My bookings" />
+      {venues.map((venue) => (
+        <FeedRow key={venue.id} label={`${venue.name} schedule`} venueId={venue.id} />
+      ))}
+    </div>
+  )
+}
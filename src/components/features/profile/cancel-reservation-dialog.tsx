@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { formatCurrency } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Loader2, X } from 'lucide-react'
+
+interface CancellationRefund {
+  hours_before_start: number
+  refund_percentage: number
+  amount_paid: number
+  refund_amount: number
+}
+
+interface CancelReservationDialogProps {
+  reservationId: string
+  // Defaults to a "Cancel" button
+  children?: ReactNode
+  onCancelled?: () => void
+}
+
+// Shows what the cancellation policy refunds before the customer confirms
+export default function CancelReservationDialog({ reservationId, children, onCancelled }: CancelReservationDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [refund, setRefund] = useState<CancellationRefund | null>(null)
+  const [cancelling, setCancelling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setRefund(null)
+
+    createClient()
+      .rpc('get_cancellation_refund', { p_reservation_id: reservationId })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          setError(error.message)
+        } else {
+          setRefund(data?.[0] ?? null)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, reservationId])
+
+  async function cancelReservation() {
+    try {
+      setCancelling(true)
+      setError(null)
+
+      const response = await fetch(`/api/reservations/${reservationId}/cancel`, { method: 'POST' })
+      const body = await response.json()
+
+      if (!response.ok) {
+        setError(body.error || 'Failed to cancel the booking')
+        return
+      }
+
+      if (body.refundError) {
+        alert(body.refundError)
+      }
+
+      setOpen(false)
+
+      if (onCancelled) {
+        onCancelled()
+      } else {
+        window.location.reload()
+      }
+    } catch (err) {
+      console.error('Error cancelling reservation:', err)
+      setError('Failed to cancel the booking. Please try again.')
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        setError(null)
+      }}
+    >
+      <DialogTrigger asChild>
+        {children || (
+          <Button variant="destructive" size="sm">
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel booking</DialogTitle>
+          <DialogDescription>
+            How much is refunded depends on how long before the booking you cancel.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!refund && !error && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {refund && (
+          <div className="rounded-lg bg-gray-50 p-3 text-sm space-y-1">
+            <div className="flex justify-between">
+              <span>Paid so far</span>
+              <span>{formatCurrency(refund.amount_paid)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Refund under the cancellation policy</span>
+              <span>{refund.refund_percentage}%</span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>You&apos;ll get back</span>
+              <span>{formatCurrency(refund.refund_amount)}</span>
+            </div>
+            {refund.amount_paid > 0 && refund.refund_amount < refund.amount_paid && (
+              <p className="text-muted-foreground pt-1">
+                {formatCurrency(refund.amount_paid - refund.refund_amount)} is kept as a cancellation fee.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={cancelling}>
+            Keep Booking
+          </Button>
+          <Button variant="destructive" onClick={cancelReservation} disabled={cancelling || !refund}>
+            {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cancel Booking
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -17,18 +17,12 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { Separator } from '@/components/ui/separator'
+import { getInvoiceUrl } from '@/lib/invoices'
 //import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import type { Tables } from '@/types/database'
 
-interface Payment {
-  id: string
-  reservation_id?: string
-  amount: number
-  payment_method: 'cash' | 'bank_transfer' | 'e_wallet' | 'credit_card'
-  payment_status: 'pending' | 'completed' | 'failed' | 'refunded'
-  transaction_date: string
-  notes?: string
-  created_at: string
-  reservation?: {
+type Payment = Tables<'payments'> & {
+  reservation: {
     id: string
     reservation_date: string
     start_time: string
@@ -36,7 +30,7 @@ interface Payment {
     venue: {
       name: string
     }
-  }
+  } | null
 }
 /*
 interface FinancialTransaction {
@@ -61,6 +55,7 @@ function PaymentCard({ payment }: { payment: Payment }) {
       case 'completed': return 'bg-green-100 text-green-800'
       case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'failed': return 'bg-red-100 text-red-800'
+      case 'cancelled': return 'bg-gray-100 text-gray-800'
       case 'refunded': return 'bg-blue-100 text-blue-800'
       default: return 'bg-gray-100 text-gray-800'
     }
@@ -75,6 +70,15 @@ function PaymentCard({ payment }: { payment: Payment }) {
     }
   }
   
+  const formatPaymentKind = (kind: string) => {
+    switch (kind) {
+      case 'deposit': return 'Deposit'
+      case 'partial': return 'Partial Payment'
+      case 'refund': return 'Refund'
+      default: return 'Full Payment'
+    }
+  }
+  
   const formatPaymentMethod = (method: string) => {
     switch (method) {
       case 'credit_card': return 'Credit Card'
@@ -92,7 +96,7 @@ function PaymentCard({ payment }: { payment: Payment }) {
           <div>
             <CardTitle className="text-lg flex items-center gap-2">
               {getMethodIcon(payment.payment_method)}
-              Rp {payment.amount.toLocaleString()}
+              {payment.payment_kind === 'refund' && '-'}Rp {payment.amount.toLocaleString()}
             </CardTitle>
             <CardDescription>
               {payment.reservation ? (
@@ -100,6 +104,7 @@ function PaymentCard({ payment }: { payment: Payment }) {
               ) : (
                 'General Payment'
               )}
+              {' · '}{formatPaymentKind(payment.payment_kind)}
             </CardDescription>
           </div>
           <Badge className={getStatusColor(payment.payment_status)}>
@@ -144,6 +149,10 @@ function PaymentCard({ payment }: { payment: Payment }) {
                       <span>Amount:</span>
                       <span className="font-medium">Rp {payment.amount.toLocaleString()}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span>Type:</span>
+                      <span>{formatPaymentKind(payment.payment_kind)}</span>
+                    </div>
                     <div className="flex justify-between">
                       <span>Method:</span>
                       <span>{formatPaymentMethod(payment.payment_method)}</span>
@@ -199,10 +208,12 @@ function PaymentCard({ payment }: { payment: Payment }) {
             </DialogContent>
           </Dialog>
           
-          {payment.payment_status === 'completed' && (
-            <Button variant="outline" size="sm">
-              <Download className="h-4 w-4 mr-1" />
-              Receipt
+          {payment.payment_status === 'completed' && payment.payment_kind !== 'refund' && payment.reservation && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={getInvoiceUrl(payment.reservation.id)}>
+                <Download className="h-4 w-4 mr-1" />
+                Receipt
+              </a>
             </Button>
           )}
         </div>
@@ -242,16 +253,19 @@ function PaymentSkeleton() {
 }
 
 function PaymentSummary({ payments }: { payments: Payment[] }) {
-  const totalPaid = payments
-    .filter(p => p.payment_status === 'completed')
+  const charges = payments.filter(p => p.payment_kind !== 'refund')
+  
+  // Refunded charges were still collected; the refund itself is a separate record
+  const totalPaid = charges
+    .filter(p => p.payment_status === 'completed' || p.payment_status === 'refunded')
     .reduce((sum, p) => sum + p.amount, 0)
   
-  const totalPending = payments
+  const totalPending = charges
     .filter(p => p.payment_status === 'pending')
     .reduce((sum, p) => sum + p.amount, 0)
   
   const totalRefunded = payments
-    .filter(p => p.payment_status === 'refunded')
+    .filter(p => p.payment_kind === 'refund' && p.payment_status === 'completed')
     .reduce((sum, p) => sum + p.amount, 0)
   
   return (
@@ -6,10 +6,18 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase/client'
+import type { Profile } from '@/types/database'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Loader2, Save, Upload, X } from 'lucide-react'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
@@ -19,21 +27,13 @@ const profileSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   date_of_birth: z.string().optional(),
+  preferred_language: z.enum(['id', 'en']),
 })
 
 type ProfileFormData = z.infer<typeof profileSchema>
 
-interface UserProfile {
-  id: string
+type UserProfile = Profile & {
   email: string
-  full_name: string
-  phone?: string
-  address?: string
-  date_of_birth?: string
-  avatar_url?: string
-  role: string
-  created_at: string
-  updated_at: string
 }
 
 interface ProfileFormProps {
@@ -52,6 +52,8 @@ export default function ProfileForm({ profile }: ProfileFormProps) {
   const {
     register,
     handleSubmit,
+    setValue,
+    watch,
     formState: { errors, isDirty },
   } = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
@@ -60,6 +62,7 @@ export default function ProfileForm({ profile }: ProfileFormProps) {
       phone: profile.phone || '',
       address: profile.address || '',
       date_of_birth: profile.date_of_birth || '',
+      preferred_language: profile.preferred_language === 'en' ? 'en' : 'id',
     },
   })
   
@@ -134,7 +137,7 @@ export default function ProfileForm({ profile }: ProfileFormProps) {
       
       if (error) throw error
       
-      setAvatarUrl(undefined)
+      setAvatarUrl(null)
       setSuccess('Avatar removed successfully!')
       router.refresh()
     } catch (err) {
@@ -158,6 +161,7 @@ export default function ProfileForm({ profile }: ProfileFormProps) {
           phone: data.phone || null,
           address: data.address || null,
           date_of_birth: data.date_of_birth || null,
+          preferred_language: data.preferred_language,
           updated_at: new Date().toISOString(),
         })
         .eq('id', profile.id)
@@ -193,7 +197,7 @@ export default function ProfileForm({ profile }: ProfileFormProps) {
         <Label>Profile Picture</Label>
         <div className="flex items-center gap-4">
           <Avatar className="h-20 w-20">
-            <AvatarImage src={avatarUrl} alt={profile.full_name} />
+            <AvatarImage src={avatarUrl || undefined} alt={profile.full_name} />
             <AvatarFallback className="text-lg">
               {profile.full_name?.split(' ').map(n => n[0]).join('') || 'U'}
             </AvatarFallback>
@@ -293,6 +297,25 @@ export default function ProfileForm({ profile }: ProfileFormProps) {
             <p className="text-sm text-red-500">{errors.date_of_birth.message}</p>
           )}
         </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="preferred_language">Notification Language</Label>
+          <Select
+            value={watch('preferred_language')}
+            onValueChange={(value) => setValue('preferred_language', value as ProfileFormData['preferred_language'], { shouldDirty: true })}
+          >
+            <SelectTrigger id="preferred_language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="id">Bahasa Indonesia</SelectItem>
+              <SelectItem value="en">English</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Used for booking emails, WhatsApp messages and notifications.
+          </p>
+        </div>
       </div>
       
       <div className="space-y-2">
@@ -0,0 +1,304 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { findSpecialDate } from '@/lib/special-dates'
+import { useSpecialDates } from '@/hooks/use-special-dates'
+import type { VenueDaySlot } from '@/lib/operating-hours'
+import {
+  MAX_RESCHEDULES,
+  RESCHEDULE_CUTOFF_HOURS,
+  getRescheduleBlocker,
+  getRescheduledTotal,
+} from '@/lib/reservation-reschedules'
+import { TimeRangeSelect, type TimeRange } from '@/components/features/booking/series-actions'
+import { formatCurrency } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CalendarClock, CheckCircle, Loader2, XCircle } from 'lucide-react'
+import type { Reservation, Venue, VenueTimeSlot } from '@/types/database'
+
+interface RescheduleDialogProps {
+  reservation: Reservation
+  venueTypeId: string
+}
+
+export default function RescheduleDialog({ reservation, venueTypeId }: RescheduleDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [venues, setVenues] = useState<Venue[]>([])
+  const [venueId, setVenueId] = useState(reservation.venue_id)
+  const [date, setDate] = useState(reservation.reservation_date)
+  const [timeRange, setTimeRange] = useState<TimeRange>({
+    startTime: reservation.start_time,
+    endTime: reservation.end_time,
+  })
+  // Price bands of the venue, and the slots its opening hours give on the date
+  const [slots, setSlots] = useState<VenueTimeSlot[]>([])
+  const [daySlots, setDaySlots] = useState<VenueDaySlot[]>([])
+  const [isAvailable, setIsAvailable] = useState<boolean | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+  const { specialDates } = useSpecialDates(open ? venueId : null)
+
+  const blocker = getRescheduleBlocker(reservation)
+  const venue = venues.find(v => v.id === venueId)
+  const isComplete = Boolean(venueId && date && timeRange.startTime && timeRange.endTime)
+  const isUnchanged = venueId === reservation.venue_id
+    && date === reservation.reservation_date
+    && timeRange.startTime === reservation.start_time
+    && timeRange.endTime === reservation.end_time
+
+  // Venues of the same type the booking can move to
+  useEffect(() => {
+    if (!open) return
+
+    createClient()
+      .from('venues')
+      .select('*')
+      .eq('venue_type_id', venueTypeId)
+      .eq('is_active', true)
+      .order('name')
+      .then(({ data }) => setVenues(data || []))
+  }, [open, venueTypeId])
+
+  useEffect(() => {
+    if (!open) return
+
+    createClient()
+      .from('venue_time_slots')
+      .select('*')
+      .eq('venue_id', venueId)
+      .eq('is_available', true)
+      .order('start_time')
+      .then(({ data }) => setSlots(data || []))
+  }, [open, venueId])
+
+  useEffect(() => {
+    if (!open || !date) return
+
+    createClient()
+      .rpc('get_venue_day_slots', { p_venue_id: venueId, p_date: date })
+      .then(({ data }) => setDaySlots(data || []))
+  }, [open, venueId, date])
+
+  // The booking's own slot doesn't count as taken
+  useEffect(() => {
+    if (!open || !isComplete || isUnchanged) {
+      setIsAvailable(null)
+      return
+    }
+
+    let cancelled = false
+
+    createClient()
+      .rpc('check_venue_availability', {
+        p_venue_id: venueId,
+        p_date: date,
+        p_start_time: timeRange.startTime,
+        p_end_time: timeRange.endTime,
+        p_exclude_reservation_id: reservation.id,
+      })
+      .then(({ data }) => {
+        if (!cancelled) setIsAvailable(data ?? null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, isComplete, isUnchanged, venueId, date, timeRange.startTime, timeRange.endTime, reservation.id])
+
+  let newTotal: number | null = null
+  let priceError: string | null = null
+
+  if (venue && isComplete && slots.length > 0) {
+    try {
+      newTotal = getRescheduledTotal(reservation, {
+        venue,
+        slots,
+        date,
+        startTime: timeRange.startTime,
+        endTime: timeRange.endTime,
+        specialDate: findSpecialDate(specialDates, venueId, date),
+      })
+    } catch (err) {
+      priceError = err instanceof Error ? err.message : 'No pricing available for this time'
+    }
+  }
+
+  const difference = newTotal === null ? 0 : newTotal - reservation.amount_paid
+
+  async function reschedule() {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/reservations/${reservation.id}/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          venueId,
+          date,
+          startTime: timeRange.startTime,
+          endTime: timeRange.endTime,
+        }),
+      })
+      const body = await response.json()
+
+      if (!response.ok) {
+        setError(body.error || 'Failed to reschedule the booking')
+        return
+      }
+
+      if (body.refundError) {
+        alert(body.refundError)
+      }
+
+      setOpen(false)
+
+      // A higher price leaves a balance, which is paid on the booking page
+      if (body.totalPrice > body.amountPaid) {
+        router.push(`/booking/confirmation/${reservation.id}`)
+      } else {
+        window.location.reload()
+      }
+    } catch (err) {
+      console.error('Error rescheduling reservation:', err)
+      setError('Failed to reschedule the booking. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        setError(null)
+        if (nextOpen) {
+          setVenueId(reservation.venue_id)
+          setDate(reservation.reservation_date)
+          setTimeRange({ startTime: reservation.start_time, endTime: reservation.end_time })
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarClock className="h-4 w-4 mr-1" />
+          Reschedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reschedule booking</DialogTitle>
+          <DialogDescription>
+            A booking can be rescheduled {MAX_RESCHEDULES} times, up to {RESCHEDULE_CUTOFF_HOURS} hours
+            before it starts. Used so far: {reservation.reschedule_count} of {MAX_RESCHEDULES}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {(blocker || error) && (
+          <Alert variant="destructive">
+            <AlertDescription>{blocker || error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!blocker && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Venue</Label>
+              <Select
+                value={venueId}
+                onValueChange={(value) => {
+                  setVenueId(value)
+                  setTimeRange({ startTime: '', endTime: '' })
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a venue" />
+                </SelectTrigger>
+                <SelectContent>
+                  {venues.map(v => (
+                    <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input
+                type="date"
+                min={format(new Date(), 'yyyy-MM-dd')}
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+
+            <TimeRangeSelect slots={daySlots} value={timeRange} onChange={setTimeRange} />
+
+            {isAvailable !== null && (
+              <p className={`flex items-center gap-2 text-sm ${isAvailable ? 'text-green-600' : 'text-red-600'}`}>
+                {isAvailable ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                {isAvailable ? 'This time is available' : 'This time is already booked'}
+              </p>
+            )}
+
+            {priceError && <p className="text-sm text-red-600">{priceError}</p>}
+
+            {newTotal !== null && !isUnchanged && (
+              <div className="rounded-lg bg-gray-50 p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span>Current price</span>
+                  <span>{formatCurrency(reservation.total_price)}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>New price</span>
+                  <span>{formatCurrency(newTotal)}</span>
+                </div>
+                {reservation.amount_paid > 0 && difference !== 0 && (
+                  <p className="text-muted-foreground pt-1">
+                    {difference > 0
+                      ? `You'll have ${formatCurrency(difference)} left to pay.`
+                      : `${formatCurrency(-difference)} will be refunded to you.`}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={reschedule}
+            disabled={Boolean(blocker) || saving || !isComplete || isUnchanged || isAvailable === false || newTotal === null}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reschedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
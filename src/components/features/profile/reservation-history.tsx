@@ -7,7 +7,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Calendar, Clock, MapPin, DollarSign, Eye, X } from 'lucide-react'
+import { Calendar, Clock, MapPin, DollarSign, Download, Eye } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -17,35 +17,24 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { Separator } from '@/components/ui/separator'
+import RescheduleDialog from './reschedule-dialog'
+import CancelReservationDialog from './cancel-reservation-dialog'
+import { getDocumentType, getInvoiceUrl } from '@/lib/invoices'
+import type { Tables } from '@/types/database'
 
-interface Reservation {
-  id: string
-  reservation_code: string
-  user_id: string | null
-  venue_id: string | null
-  reservation_date: string
-  start_time: string
-  end_time: string
-  duration: number
-  base_price: number | null
-  discount_amount: number
-  total_price: number | null
-  customer_name: string | null
-  customer_phone: string | null
-  customer_email: string | null
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed'
-  payment_status: string
-  payment_method: string | null
-  notes: string | null
-  created_at: string
-  updated_at: string
+type Reservation = Tables<'reservations'> & {
   venue: {
     id: string
     name: string
+    venue_type_id: string
     venue_type: {
       name: string
     }
   }
+  reschedules: Pick<
+    Tables<'reservation_reschedules'>,
+    'id' | 'previous_date' | 'previous_start_time' | 'previous_end_time' | 'created_at'
+  >[]
 }
 
 interface ReservationHistoryProps {
@@ -53,49 +42,21 @@ interface ReservationHistoryProps {
 }
 
 function ReservationCard({ reservation }: { reservation: Reservation }) {
-  const [isCancelling, setIsCancelling] = useState(false)
-  const supabase = createClient()
-  
   const reservationDate = new Date(reservation.reservation_date)
   const canCancel = reservation.status === 'pending' || reservation.status === 'confirmed'
   const isPast = reservationDate < new Date()
   
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800'
       case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'cancelled': return 'bg-red-100 text-red-800'
       case 'completed': return 'bg-blue-100 text-blue-800'
+      case 'no_show': return 'bg-orange-100 text-orange-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
   
-  const handleCancel = async () => {
-    if (!canCancel || isPast) return
-    
-    setIsCancelling(true)
-    
-    try {
-      const { error } = await supabase
-        .from('reservations')
-        .update({ 
-          status: 'cancelled',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', reservation.id)
-      
-      if (error) throw error
-      
-      // Refresh the page to show updated status
-      window.location.reload()
-    } catch (err) {
-      console.error('Error cancelling reservation:', err)
-      alert('Failed to cancel reservation. Please try again.')
-    } finally {
-      setIsCancelling(false)
-    }
-  }
-  
   return (
     <Card className="hover:shadow-md transition-shadow">
       <CardHeader className="pb-3">
@@ -125,10 +86,10 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
           </div>
           <div className="flex items-center gap-2">
             <DollarSign className="h-4 w-4 text-muted-foreground" />
-            <span>Rp {((reservation.total_price || 0) - reservation.discount_amount).toLocaleString()}</span>
+            <span>Rp {reservation.total_price.toLocaleString()}</span>
           </div>
           <div className="text-xs text-muted-foreground">
-            Booked: {new Date(reservation.created_at).toLocaleDateString()}
+            Booked: {reservation.created_at ? new Date(reservation.created_at).toLocaleDateString() : '-'}
           </div>
         </div>
         
@@ -186,21 +147,43 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
                   <div className="space-y-1 text-sm">
                     <div className="flex justify-between">
                       <span>Base Price:</span>
-                      <span>Rp {(reservation.total_price || 0).toLocaleString()}</span>
+                      <span>Rp {reservation.base_price.toLocaleString()}</span>
                     </div>
-                    {reservation.discount_amount && reservation.discount_amount > 0 && (
+                    {reservation.base_price > reservation.total_price && (
                       <div className="flex justify-between text-green-600">
                         <span>Discount:</span>
-                        <span>-Rp {reservation.discount_amount.toLocaleString()}</span>
+                        <span>-Rp {(reservation.base_price - reservation.total_price).toLocaleString()}</span>
                       </div>
                     )}
                     <div className="flex justify-between font-medium border-t pt-1">
                       <span>Final Price:</span>
-                      <span>Rp {((reservation.total_price || 0) - reservation.discount_amount).toLocaleString()}</span>
+                      <span>Rp {reservation.total_price.toLocaleString()}</span>
                     </div>
                   </div>
                 </div>
                 
+                {reservation.reschedules.length > 0 && (
+                  <>
+                    <Separator />
+                    <div>
+                      <h4 className="font-medium mb-2">Previous Slots</h4>
+                      <div className="space-y-1 text-sm text-muted-foreground">
+                        {[...reservation.reschedules].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || '')).map((reschedule) => (
+                          <div key={reschedule.id} className="flex justify-between">
+                            <span>
+                              {new Date(reschedule.previous_date).toLocaleDateString()}{' '}
+                              {reschedule.previous_start_time} - {reschedule.previous_end_time}
+                            </span>
+                            <span className="text-xs">
+                              moved {reschedule.created_at ? new Date(reschedule.created_at).toLocaleDateString() : ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+                
                 {reservation.notes && (
                   <>
                     <Separator />
@@ -216,16 +199,19 @@ function ReservationCard({ reservation }: { reservation: Reservation }) {
             </DialogContent>
           </Dialog>
           
+          <Button variant="outline" size="sm" asChild>
+            <a href={getInvoiceUrl(reservation.id)}>
+              <Download className="h-4 w-4 mr-1" />
+              {getDocumentType(reservation) === 'receipt' ? 'Receipt' : 'Invoice'}
+            </a>
+          </Button>
+          
           {canCancel && !isPast && (
-            <Button
-              variant="destructive"
-              size="sm"
-              onClick={handleCancel}
-              disabled={isCancelling}
-            >
-              <X className="h-4 w-4 mr-1" />
-              {isCancelling ? 'Cancelling...' : 'Cancel'}
-            </Button>
+            <RescheduleDialog reservation={reservation} venueTypeId={reservation.venue.venue_type_id} />
+          )}
+          
+          {canCancel && !isPast && (
+            <CancelReservationDialog reservationId={reservation.id} />
           )}
         </div>
       </CardContent>
@@ -281,9 +267,17 @@ export default function ReservationHistory({ userId }: ReservationHistoryProps)
             venue:venues(
               id,
               name,
+              venue_type_id,
               venue_type:venue_types(
                 name
               )
+            ),
+            reschedules:reservation_reschedules(
+              id,
+              previous_date,
+              previous_start_time,
+              previous_end_time,
+              created_at
             )
           `)
           .eq('user_id', userId)
@@ -0,0 +1,160 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { WAITLIST_STATUS_LABELS, getWaitlistStatus, isOpenOffer } from '@/lib/waitlist'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { BellRing, Clock, Loader2 } from 'lucide-react'
+import type { Venue, WaitlistEntry } from '@/types/database'
+
+type Entry = WaitlistEntry & {
+  venue: Pick<Venue, 'name'> | null
+}
+
+interface WaitlistEntriesProps {
+  userId: string
+}
+
+function EntryRow({ entry, onChange }: { entry: Entry, onChange: () => void }) {
+  const [leaving, setLeaving] = useState(false)
+  const supabase = createClient()
+  const status = getWaitlistStatus(entry)
+  const openOffer = isOpenOffer(entry)
+
+  async function leaveWaitlist() {
+    const message = openOffer
+      ? 'Decline this slot? It will be offered to the next person waiting.'
+      : 'Leave the waitlist for this time?'
+    if (!confirm(message)) return
+
+    try {
+      setLeaving(true)
+
+      const { error } = await supabase.rpc('leave_waitlist', { p_entry_id: entry.id })
+
+      if (error) throw error
+
+      onChange()
+    } catch (err) {
+      console.error('Error leaving waitlist:', err)
+      alert('Failed to update the waitlist. Please try again.')
+    } finally {
+      setLeaving(false)
+    }
+  }
+
+  return (
+    <div className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border rounded-lg ${openOffer ? 'border-orange-300 bg-orange-50' : ''}`}>
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{entry.venue?.name}</span>
+          <Badge variant={status === 'offered' || status === 'booked' ? 'default' : 'outline'}>
+            {WAITLIST_STATUS_LABELS[status]}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {format(new Date(entry.requested_date), 'EEE, MMM d, yyyy')} · {entry.start_time.slice(0, 5)} - {entry.end_time.slice(0, 5)}
+        </p>
+        {openOffer && entry.offer_expires_at && (
+          <p className="flex items-center gap-1 text-sm text-orange-700">
+            <Clock className="h-3 w-3" />
+            Held for you until {format(new Date(entry.offer_expires_at), 'HH:mm')}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {openOffer && entry.reservation_id && (
+          <Button size="sm" className="bg-orange-500 hover:bg-orange-600" asChild>
+            <Link href={`/booking/confirmation/${entry.reservation_id}`}>Pay &amp; Book</Link>
+          </Button>
+        )}
+        {(status === 'waiting' || openOffer) && (
+          <Button size="sm" variant="outline" onClick={leaveWaitlist} disabled={leaving}>
+            {leaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {openOffer ? 'Decline' : 'Leave'}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function WaitlistEntries({ userId }: WaitlistEntriesProps) {
+  const [entries, setEntries] = useState<Entry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const { data, error } = await createClient()
+        .from('waitlist_entries')
+        .select(`
+          *,
+          venue:venues(
+            name
+          )
+        `)
+        .eq('user_id', userId)
+        .order('requested_date', { ascending: false })
+        .order('start_time')
+
+      if (error) throw error
+
+      setEntries(data || [])
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching waitlist:', err)
+      setError('Failed to load your waitlist')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-20" />
+        ))}
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <BellRing className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">You&apos;re not waiting for any slots</h3>
+        <p className="text-muted-foreground">
+          When a time is booked, join its waitlist from the venue page and we&apos;ll hold it for you if it frees up.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => (
+        <EntryRow key={entry.id} entry={entry} onChange={fetchEntries} />
+      ))}
+    </div>
+  )
+}
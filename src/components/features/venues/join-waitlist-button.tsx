@@ -0,0 +1,76 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
+import { WAITLIST_OFFER_MINUTES } from '@/lib/waitlist'
+import { Button } from '@/components/ui/button'
+import { BellPlus, Check, Loader2 } from 'lucide-react'
+
+interface JoinWaitlistButtonProps {
+  venueId: string
+  date: string
+  startTime: string
+  endTime: string
+}
+
+// Queues the customer for a booked slot; they get an offer when it frees up
+export default function JoinWaitlistButton({ venueId, date, startTime, endTime }: JoinWaitlistButtonProps) {
+  const [joining, setJoining] = useState(false)
+  const [joined, setJoined] = useState(false)
+  const { user } = useAuthStore()
+  const supabase = createClient()
+
+  async function joinWaitlist() {
+    try {
+      setJoining(true)
+
+      const { error } = await supabase.rpc('join_waitlist', {
+        p_venue_id: venueId,
+        p_date: date,
+        p_start_time: startTime,
+        p_end_time: endTime,
+      })
+
+      if (error) {
+        alert(error.message)
+        return
+      }
+
+      setJoined(true)
+    } catch (err) {
+      console.error('Error joining waitlist:', err)
+      alert('Failed to join the waitlist. Please try again.')
+    } finally {
+      setJoining(false)
+    }
+  }
+
+  if (!user) {
+    return (
+      <Button size="sm" variant="outline" asChild>
+        <Link href="/login">Sign in to join waitlist</Link>
+      </Button>
+    )
+  }
+
+  if (joined) {
+    return (
+      <span
+        className="flex items-center gap-1 text-xs"
+        title={`If this slot frees up it is held for you for ${WAITLIST_OFFER_MINUTES} minutes`}
+      >
+        <Check className="h-3 w-3" />
+        On the waitlist
+      </span>
+    )
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={joinWaitlist} disabled={joining}>
+      {joining ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <BellPlus className="h-3 w-3 mr-1" />}
+      Join Waitlist
+    </Button>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -11,6 +11,7 @@ import { Badge } from '@/components/ui/badge'
 import { Switch } from '@/components/ui/switch'
 import { Loader2, Save, Plus, Trash2, Clock, DollarSign } from 'lucide-react'
 import { formatCurrency } from '@/lib/utils'
+import { getVenueRate, minutesToTime, timeToMinutes } from '@/lib/pricing/engine'
 import type { Database } from '@/types/database'
 
 type VenueTimeSlot = Database['public']['Tables']['venue_time_slots']['Row']
@@ -32,25 +33,17 @@ interface TimeSlotForm {
   is_available: boolean
 }
 
-const DEFAULT_TIME_SLOTS = [
-  { start: '06:00', end: '07:00', multiplier: 0.8 },
-  { start: '07:00', end: '08:00', multiplier: 0.8 },
-  { start: '08:00', end: '09:00', multiplier: 0.9 },
-  { start: '09:00', end: '10:00', multiplier: 1.0 },
-  { start: '10:00', end: '11:00', multiplier: 1.0 },
-  { start: '11:00', end: '12:00', multiplier: 1.0 },
-  { start: '12:00', end: '13:00', multiplier: 1.0 },
-  { start: '13:00', end: '14:00', multiplier: 1.0 },
-  { start: '14:00', end: '15:00', multiplier: 1.0 },
-  { start: '15:00', end: '16:00', multiplier: 1.0 },
-  { start: '16:00', end: '17:00', multiplier: 1.1 },
-  { start: '17:00', end: '18:00', multiplier: 1.3 },
-  { start: '18:00', end: '19:00', multiplier: 1.3 },
-  { start: '19:00', end: '20:00', multiplier: 1.3 },
-  { start: '20:00', end: '21:00', multiplier: 1.2 },
-  { start: '21:00', end: '22:00', multiplier: 1.1 },
-  { start: '22:00', end: '23:00', multiplier: 1.0 },
-]
+// Default multiplier of the hour starting at `hour`: cheaper early mornings, peak evenings
+function getDefaultMultiplier(hour: number) {
+  if (hour < 8) return 0.8
+  if (hour < 9) return 0.9
+  if (hour < 16) return 1.0
+  if (hour < 17) return 1.1
+  if (hour < 20) return 1.3
+  if (hour < 21) return 1.2
+  if (hour < 22) return 1.1
+  return 1.0
+}
 
 export function PricingMatrix({ venueId, basePrice, weekendPrice, onPricingUpdate }: PricingMatrixProps) {
   const [timeSlots, setTimeSlots] = useState<VenueTimeSlot[]>([])
@@ -84,7 +77,7 @@ export function PricingMatrix({ venueId, basePrice, weekendPrice, onPricingUpdat
         start_time: slot.start_time,
         end_time: slot.end_time,
         price_multiplier: slot.price_multiplier || 1,
-        is_available: slot.is_available
+        is_available: slot.is_available ?? true
       })) || [])
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load time slots')
@@ -98,6 +91,21 @@ export function PricingMatrix({ venueId, basePrice, weekendPrice, onPricingUpdat
       setSaving(true)
       setError(null)
 
+      // Hourly bands from the earliest opening to the latest closing of the week
+      const { data: hours, error: hoursError } = await supabase
+        .from('venue_operating_hours')
+        .select('open_time, close_time')
+        .eq('venue_id', venueId)
+
+      if (hoursError) throw hoursError
+
+      if (!hours || hours.length === 0) {
+        throw new Error('Set the opening hours before generating time slots')
+      }
+
+      const opens = Math.floor(Math.min(...hours.map(period => timeToMinutes(period.open_time))) / 60)
+      const closes = Math.ceil(Math.max(...hours.map(period => timeToMinutes(period.close_time))) / 60)
+
       // Delete existing slots
       const { error: deleteError } = await supabase
         .from('venue_time_slots')
@@ -107,11 +115,11 @@ export function PricingMatrix({ venueId, basePrice, weekendPrice, onPricingUpdat
       if (deleteError) throw deleteError
 
       // Insert default slots
-      const slotsToInsert: VenueTimeSlotInsert[] = DEFAULT_TIME_SLOTS.map(slot => ({
+      const slotsToInsert: VenueTimeSlotInsert[] = Array.from({ length: closes - opens }, (_, i) => ({
         venue_id: venueId,
-        start_time: slot.start,
-        end_time: slot.end,
-        price_multiplier: slot.multiplier,
+        start_time: minutesToTime((opens + i) * 60),
+        end_time: minutesToTime((opens + i + 1) * 60),
+        price_multiplier: getDefaultMultiplier(opens + i),
         is_available: true
       }))
 
@@ -238,8 +246,8 @@ export function PricingMatrix({ venueId, basePrice, weekendPrice, onPricingUpdat
   }
 
   function calculatePrice(multiplier: number, isWeekend: boolean = false) {
-    const price = isWeekend && weekendPrice ? weekendPrice : basePrice
-    return price * multiplier
+    const venue = { base_price: basePrice, weekend_price: weekendPrice ?? null }
+    return getVenueRate(venue, isWeekend ? 'weekend' : 'weekday') * multiplier
   }
 
   if (loading) {
@@ -260,6 +268,10 @@ export function PricingMatrix({ venueId, basePrice, weekendPrice, onPricingUpdat
             <Clock className="h-5 w-5" />
             Pricing Matrix
           </CardTitle>
+          <CardDescription>
+            Price multiplier for each time of day. When the venue is open is set under Opening Hours;
+            the default slots cover them hour by hour.
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           {error && (
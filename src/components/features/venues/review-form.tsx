@@ -0,0 +1,191 @@
+'use client'
+
+import { useState } from 'react'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { createClient } from '@/lib/supabase/client'
+import { reviewSchema, type ReviewFormData } from '@/lib/validations/review'
+import { Button } from '@/components/ui/button'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, Star } from 'lucide-react'
+import { format } from 'date-fns'
+
+interface ReviewableReservation {
+  id: string
+  reservation_date: string
+  start_time: string
+  end_time: string
+}
+
+interface ReviewFormProps {
+  venueId: string
+  userId: string
+  reservations: ReviewableReservation[]
+  onSubmitted?: () => void
+}
+
+export default function ReviewForm({ venueId, userId, reservations, onSubmitted }: ReviewFormProps) {
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [hoverRating, setHoverRating] = useState(0)
+  const supabase = createClient()
+
+  const form = useForm<ReviewFormData>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: {
+      reservationId: reservations[0]?.id || '',
+      rating: 0,
+      comment: '',
+    },
+  })
+
+  const onSubmit = async (data: ReviewFormData) => {
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const { error: insertError } = await supabase
+        .from('reviews')
+        .insert({
+          venue_id: venueId,
+          reservation_id: data.reservationId,
+          user_id: userId,
+          rating: data.rating,
+          comment: data.comment || null,
+        })
+
+      if (insertError) {
+        // Unique violation on reservation_id: this booking was already reviewed
+        setError(insertError.code === '23505'
+          ? 'You have already reviewed this booking'
+          : insertError.message)
+        return
+      }
+
+      form.reset({ reservationId: '', rating: 0, comment: '' })
+      onSubmitted?.()
+    } catch (err) {
+      setError('An unexpected error occurred. Please try again.')
+      console.error('Review error:', err)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const watchedRating = form.watch('rating')
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <h4 className="font-medium text-gray-900">Write a Review</h4>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {reservations.length > 1 && (
+          <FormField
+            control={form.control}
+            name="reservationId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Booking</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a booking" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {reservations.map((reservation) => (
+                      <SelectItem key={reservation.id} value={reservation.id}>
+                        {format(new Date(reservation.reservation_date), 'MMM d, yyyy')} ({reservation.start_time} - {reservation.end_time})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="rating"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rating</FormLabel>
+              <FormControl>
+                <div className="flex items-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <button
+                      key={i}
+                      type="button"
+                      onClick={() => field.onChange(i + 1)}
+                      onMouseEnter={() => setHoverRating(i + 1)}
+                      aria-label={`${i + 1} star${i > 0 ? 's' : ''}`}
+                    >
+                      <Star
+                        className={`h-6 w-6 ${
+                          i < (hoverRating || watchedRating)
+                            ? 'fill-yellow-400 text-yellow-400'
+                            : 'text-gray-300'
+                        }`}
+                      />
+                    </button>
+                  ))}
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="comment"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Your Review (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Tell other players about the court, facilities and staff..."
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="bg-orange-500 hover:bg-orange-600"
+          disabled={submitting}
+        >
+          {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitting ? 'Submitting...' : 'Submit Review'}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { blockingReservationsFilter } from '@/lib/reservation-holds'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -9,39 +10,35 @@ import { Calendar } from '@/components/ui/calendar'
 import { format, addDays, isSameDay, isToday, isBefore, startOfDay } from 'date-fns'
 import { CalendarDays, Clock, CheckCircle, XCircle } from 'lucide-react'
 import { formatCurrency } from '@/lib/utils'
+import { getDayRate, getVenueRate } from '@/lib/pricing/engine'
+import { findSpecialDate, SPECIAL_DATE_TYPE_LABELS } from '@/lib/special-dates'
+import { findBlackout, getBlackoutLabel, type BlackoutOccurrence } from '@/lib/venue-blackouts'
+import type { VenueDaySlot } from '@/lib/operating-hours'
+import { useSpecialDates } from '@/hooks/use-special-dates'
+import JoinWaitlistButton from './join-waitlist-button'
 import type { Database } from '@/types/database'
 
-type TimeSlot = Database['public']['Tables']['venue_time_slots']['Row']
 type Reservation = Database['public']['Tables']['reservations']['Row']
 
-// Accept venue with facilities as string array (transformed venue)
+type Venue = Database['public']['Tables']['venues']['Row']
+
 interface VenueAvailabilityProps {
   venueId: string
-  venue?: {
-    id: string
-    name: string
-    venue_type_id: string | null
-    image_url: string | null
-    description: string | null
-    base_price: number
-    weekend_price: number | null
-    facilities: string[]
-    rules: string | null
-    is_active: boolean
-    created_at: string
-    updated_at: string
-  }
+  venue?: Pick<Venue, 'base_price' | 'weekend_price'>
 }
 
-interface AvailabilitySlot extends TimeSlot {
+interface AvailabilitySlot extends VenueDaySlot {
   isAvailable: boolean
   reservationId?: string
+  blackout?: BlackoutOccurrence
 }
 
 export default function VenueAvailability({ venueId, venue }: VenueAvailabilityProps) {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
   const [timeSlots, setTimeSlots] = useState<AvailabilitySlot[]>([])
   const [loading, setLoading] = useState(true)
+  const { specialDates } = useSpecialDates(venueId)
+  const specialDate = findSpecialDate(specialDates, venueId, format(selectedDate, 'yyyy-MM-dd'))
   const supabase = createClient()
 
   useEffect(() => {
@@ -51,12 +48,10 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
   const fetchAvailability = async () => {
     setLoading(true)
     try {
-      // Fetch time slots for the venue
+      // Fetch the day's time slots, cut from the venue's opening hours
+      const dateStr = format(selectedDate, 'yyyy-MM-dd')
       const { data: slots, error: slotsError } = await supabase
-        .from('venue_time_slots')
-        .select('*')
-        .eq('venue_id', venueId)
-        .order('start_time')
+        .rpc('get_venue_day_slots', { p_venue_id: venueId, p_date: dateStr })
 
       if (slotsError) {
         console.error('Error fetching time slots:', slotsError)
@@ -64,29 +59,40 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
       }
 
       // Fetch reservations for the selected date
-      const dateStr = format(selectedDate, 'yyyy-MM-dd')
       const { data: reservations, error: reservationsError } = await supabase
         .from('reservations')
         .select('*')
         .eq('venue_id', venueId)
         .eq('reservation_date', dateStr)
-        .in('status', ['confirmed', 'pending'])
+        .or(blockingReservationsFilter())
 
       if (reservationsError) {
         console.error('Error fetching reservations:', reservationsError)
         return
       }
 
+      // Fetch maintenance and private-use closures for the selected date
+      const { data: blackouts, error: blackoutsError } = await supabase
+        .rpc('get_venue_blackouts', { p_from: dateStr, p_to: dateStr, p_venue_id: venueId })
+
+      if (blackoutsError) {
+        console.error('Error fetching blackouts:', blackoutsError)
+        return
+      }
+
       // Combine slots with availability info
       const availabilitySlots: AvailabilitySlot[] = (slots || []).map(slot => {
         const reservation = (reservations || []).find(r => 
           r.start_time === slot.start_time && r.end_time === slot.end_time
         )
         
+        const blackout = findBlackout<BlackoutOccurrence>(blackouts || [], dateStr, slot.start_time, slot.end_time)
+
         return {
           ...slot,
-          isAvailable: !reservation,
-          reservationId: reservation?.id
+          isAvailable: !reservation && !blackout,
+          reservationId: reservation?.id,
+          blackout: blackout ?? undefined
         }
       })
 
@@ -102,6 +108,12 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
     if (isBefore(selectedDate, startOfDay(new Date())) && !isToday(selectedDate)) {
       return 'past'
     }
+    if (specialDate?.is_closed) {
+      return 'closed'
+    }
+    if (slot.blackout) {
+      return 'blackout'
+    }
     return slot.isAvailable ? 'available' : 'booked'
   }
 
@@ -113,6 +125,9 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
         return 'bg-red-100 text-red-800 border-red-200'
       case 'past':
         return 'bg-gray-100 text-gray-500 border-gray-200'
+      case 'closed':
+      case 'blackout':
+        return 'bg-gray-100 text-gray-500 border-gray-200'
       default:
         return 'bg-gray-100 text-gray-500 border-gray-200'
     }
@@ -123,13 +138,15 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
       case 'available':
         return <CheckCircle className="h-4 w-4" />
       case 'booked':
+      case 'closed':
+      case 'blackout':
         return <XCircle className="h-4 w-4" />
       default:
         return <Clock className="h-4 w-4" />
     }
   }
 
-  const availableCount = timeSlots.filter(slot => slot.isAvailable).length
+  const availableCount = specialDate?.is_closed ? 0 : timeSlots.filter(slot => slot.isAvailable).length
   const totalCount = timeSlots.length
 
   return (
@@ -149,6 +166,7 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
             selected={selectedDate}
             onSelect={(date) => date && setSelectedDate(date)}
             disabled={(date) => isBefore(date, startOfDay(new Date()))}
+            specialDates={specialDates}
             className="rounded-md border"
           />
         </div>
@@ -165,6 +183,11 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
               </Badge>
             )}
           </div>
+          {specialDate && (
+            <div className="text-sm text-orange-600 mb-1">
+              {specialDate.name} · {specialDate.is_closed ? 'Closed' : `${SPECIAL_DATE_TYPE_LABELS[specialDate.date_type]} rates apply`}
+            </div>
+          )}
           <div className="text-sm text-gray-600">
             {availableCount} of {totalCount} slots available
           </div>
@@ -183,26 +206,23 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
           ) : timeSlots.length === 0 ? (
             <div className="text-center py-8 text-gray-500">
               <Clock className="h-8 w-8 mx-auto mb-2" />
-              <p>No time slots available for this venue</p>
+              <p>The venue is closed on this day</p>
             </div>
           ) : (
             <div className="space-y-2 max-h-64 overflow-y-auto">
               {timeSlots.map((slot) => {
                 const status = getSlotStatus(slot)
-                // Calculate price with proper venue base price and weekend logic
-                const currentDate = new Date(selectedDate)
-                const isWeekend = currentDate.getDay() === 0 || currentDate.getDay() === 6
-                
-                // Get base price from venue (weekend or weekday)
-                const basePrice = venue && isWeekend && venue.weekend_price 
-                  ? venue.weekend_price 
-                  : venue?.base_price || 0
+                // Venue rate for the day, as charged by the pricing engine
+                const basePrice = venue
+                  ? getVenueRate(venue, getDayRate(selectedDate, specialDate), specialDate)
+                  : 0
                 
-                const price = Math.round(basePrice * (isWeekend ? (slot.price_weekend || 1) : (slot.price_weekday || 1)))
+                const multiplier = slot.price_multiplier ?? 1
+                const price = Math.round(basePrice * multiplier)
                 
                 return (
                   <div
-                    key={slot.id}
+                    key={slot.start_time}
                     className={`p-3 rounded-lg border transition-colors ${
                       getStatusColor(status)
                     }`}
@@ -216,24 +236,16 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
                           </div>
                           <div className="text-sm opacity-75">
                             {formatCurrency(price)}
-                            {isWeekend ? (
-                              slot.price_weekend !== 1 && (
-                                <span className="ml-1">
-                                  ({slot.price_weekend}x rate)
-                                </span>
-                              )
-                            ) : (
-                              slot.price_weekday !== 1 && (
-                                <span className="ml-1">
-                                  ({slot.price_weekday}x rate)
-                                </span>
-                              )
+                            {multiplier !== 1 && (
+                              <span className="ml-1">
+                                ({multiplier}x rate)
+                              </span>
                             )}
                           </div>
                         </div>
                       </div>
                       
-                      <div className="text-right">
+                      <div className="flex flex-col items-end gap-1 text-right">
                         <Badge 
                           variant="outline" 
                           className={`text-xs ${getStatusColor(status)}`}
@@ -241,7 +253,17 @@ export default function VenueAvailability({ venueId, venue }: VenueAvailabilityP
                           {status === 'available' && 'Available'}
                           {status === 'booked' && 'Booked'}
                           {status === 'past' && 'Past'}
+                          {status === 'closed' && 'Closed'}
+                          {status === 'blackout' && slot.blackout && getBlackoutLabel(slot.blackout)}
                         </Badge>
+                        {status === 'booked' && (
+                          <JoinWaitlistButton
+                            venueId={venueId}
+                            date={format(selectedDate, 'yyyy-MM-dd')}
+                            startTime={slot.start_time}
+                            endTime={slot.end_time}
+                          />
+                        )}
                       </div>
                     </div>
                   </div>
@@ -147,7 +147,7 @@ export default function VenueGallery({ venueId }: VenueGalleryProps) {
               >
                 <Image
                   src={photo.image_url || '/placeholder-image.jpg'}
-                  alt={photo.caption || `Venue photo ${index + 1}`}
+                  alt={photo.title || `Venue photo ${index + 1}`}
                   fill
                   className="object-cover group-hover:scale-105 transition-transform duration-200"
                   sizes="(max-width: 768px) 50vw, 25vw"
@@ -177,7 +177,7 @@ export default function VenueGallery({ venueId }: VenueGalleryProps) {
         <DialogContent className="max-w-4xl w-full h-[80vh] p-0">
           <DialogHeader className="absolute top-4 left-4 z-10">
             <DialogTitle className="text-white bg-black/50 px-3 py-1 rounded">
-              {selectedPhoto !== null && photos[selectedPhoto]?.caption}
+              {selectedPhoto !== null && photos[selectedPhoto]?.title}
             </DialogTitle>
           </DialogHeader>
           
@@ -195,7 +195,7 @@ export default function VenueGallery({ venueId }: VenueGalleryProps) {
               <div className="relative w-full h-full">
                 <Image
                   src={photos[selectedPhoto].image_url || '/placeholder-image.jpg'}
-                  alt={photos[selectedPhoto].caption || `Photo ${selectedPhoto + 1}`}
+                  alt={photos[selectedPhoto].title || `Photo ${selectedPhoto + 1}`}
                   fill
                   className="object-contain"
                   sizes="100vw"
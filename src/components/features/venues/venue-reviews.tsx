@@ -1,112 +1,175 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { useAuthStore } from '@/stores/auth-store'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
-import { Badge } from '@/components/ui/badge'
-import { Star, MessageSquare, ThumbsUp } from 'lucide-react'
+import ReviewForm from '@/components/features/venues/review-form'
+import { Star, MessageSquare, ThumbsUp, Loader2 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
-import type { Database } from '@/types/database'
 
-type Review = {
+// Shape returned by the get_venue_reviews RPC
+type VenueReview = {
   id: string
   rating: number
-  comment: string
+  comment: string | null
+  helpful_count: number
   created_at: string
-  profiles: {
-    full_name: string
-    avatar_url?: string
-  }
+  reviewer_name: string
+  reviewer_avatar_url: string | null
+  has_voted: boolean
+}
+
+type ReviewableReservation = {
+  id: string
+  reservation_date: string
+  start_time: string
+  end_time: string
 }
 
 interface VenueReviewsProps {
   venueId: string
 }
 
+const PAGE_SIZE = 10
+
 export default function VenueReviews({ venueId }: VenueReviewsProps) {
-  const [reviews, setReviews] = useState<Review[]>([])
+  const [reviews, setReviews] = useState<VenueReview[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [reviewableReservations, setReviewableReservations] = useState<ReviewableReservation[]>([])
   const [stats, setStats] = useState({
     averageRating: 0,
     totalReviews: 0,
     ratingDistribution: [0, 0, 0, 0, 0] // 1-5 stars
   })
+  const { user } = useAuthStore()
+  const router = useRouter()
   const supabase = createClient()
 
-  useEffect(() => {
-    fetchReviews()
-  }, [venueId])
+  const fetchStats = useCallback(async () => {
+    const { data, error } = await supabase
+      .rpc('get_venue_review_stats', { p_venue_id: venueId })
 
-  const fetchReviews = async () => {
-    try {
-      // For now, we'll simulate reviews since we don't have a reviews table
-      // In a real implementation, you would fetch from a reviews table
-      const mockReviews: Review[] = [
-        {
-          id: '1',
-          rating: 5,
-          comment: 'Excellent venue! Clean facilities and great staff. The court was in perfect condition.',
-          created_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          profiles: {
-            full_name: 'John Doe',
-            avatar_url: undefined
-          }
-        },
-        {
-          id: '2',
-          rating: 4,
-          comment: 'Good venue with nice facilities. Parking could be better but overall a great experience.',
-          created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-          profiles: {
-            full_name: 'Sarah Wilson',
-            avatar_url: undefined
-          }
-        },
-        {
-          id: '3',
-          rating: 5,
-          comment: 'Amazing place for futsal! The court surface is excellent and the lighting is perfect.',
-          created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-          profiles: {
-            full_name: 'Mike Johnson',
-            avatar_url: undefined
-          }
-        },
-        {
-          id: '4',
-          rating: 4,
-          comment: 'Great venue, friendly staff. The only downside is that it can get quite busy during peak hours.',
-          created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-          profiles: {
-            full_name: 'Lisa Chen',
-            avatar_url: undefined
-          }
-        }
-      ]
+    if (error) throw error
 
-      setReviews(mockReviews)
-      
-      // Calculate stats
-      const totalReviews = mockReviews.length
-      const averageRating = mockReviews.reduce((sum, review) => sum + review.rating, 0) / totalReviews
-      const ratingDistribution = [0, 0, 0, 0, 0]
-      
-      mockReviews.forEach(review => {
-        ratingDistribution[review.rating - 1]++
-      })
-      
-      setStats({
-        averageRating,
-        totalReviews,
-        ratingDistribution
+    const summary = data?.[0]
+    setStats({
+      averageRating: Number(summary?.average_rating || 0),
+      totalReviews: Number(summary?.total_reviews || 0),
+      ratingDistribution: summary?.rating_distribution || [0, 0, 0, 0, 0]
+    })
+  }, [venueId, supabase])
+
+  const fetchReviewPage = useCallback(async (offset: number) => {
+    const { data, error } = await supabase
+      .rpc('get_venue_reviews', {
+        p_venue_id: venueId,
+        p_limit: PAGE_SIZE,
+        p_offset: offset
       })
+
+    if (error) throw error
+
+    const page = (data || []) as VenueReview[]
+    setHasMore(page.length === PAGE_SIZE)
+    return page
+  }, [venueId, supabase])
+
+  // Completed bookings at this venue that the current user has not reviewed yet
+  const fetchReviewableReservations = useCallback(async () => {
+    if (!user) {
+      setReviewableReservations([])
+      return
+    }
+
+    const [{ data: completed, error: reservationsError }, { data: ownReviews, error: reviewsError }] = await Promise.all([
+      supabase
+        .from('reservations')
+        .select('id, reservation_date, start_time, end_time')
+        .eq('user_id', user.id)
+        .eq('venue_id', venueId)
+        .eq('status', 'completed')
+        .order('reservation_date', { ascending: false }),
+      supabase
+        .from('reviews')
+        .select('reservation_id')
+        .eq('user_id', user.id)
+        .eq('venue_id', venueId)
+    ])
+
+    if (reservationsError) throw reservationsError
+    if (reviewsError) throw reviewsError
+
+    const reviewedIds = new Set((ownReviews || []).map(review => review.reservation_id))
+    setReviewableReservations((completed || []).filter(reservation => !reviewedIds.has(reservation.id)))
+  }, [user, venueId, supabase])
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      const [page] = await Promise.all([
+        fetchReviewPage(0),
+        fetchStats(),
+        fetchReviewableReservations()
+      ])
+      setReviews(page)
     } catch (error) {
       console.error('Error fetching reviews:', error)
     } finally {
       setLoading(false)
     }
+  }, [fetchReviewPage, fetchStats, fetchReviewableReservations])
+
+  useEffect(() => {
+    fetchReviews()
+  }, [fetchReviews])
+
+  const loadMore = async () => {
+    setLoadingMore(true)
+    try {
+      const page = await fetchReviewPage(reviews.length)
+      setReviews(prev => [...prev, ...page])
+    } catch (error) {
+      console.error('Error fetching reviews:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const toggleHelpful = async (review: VenueReview) => {
+    if (!user) {
+      router.push(`/login?redirect=/venues/${venueId}`)
+      return
+    }
+
+    const { error } = review.has_voted
+      ? await supabase
+          .from('review_votes')
+          .delete()
+          .eq('review_id', review.id)
+          .eq('user_id', user.id)
+      : await supabase
+          .from('review_votes')
+          .insert({ review_id: review.id, user_id: user.id })
+
+    if (error) {
+      console.error('Error updating helpful vote:', error)
+      return
+    }
+
+    setReviews(prev => prev.map(r =>
+      r.id === review.id
+        ? {
+            ...r,
+            has_voted: !r.has_voted,
+            helpful_count: r.helpful_count + (r.has_voted ? -1 : 1)
+          }
+        : r
+    ))
   }
 
   const renderStars = (rating: number, size: 'sm' | 'md' = 'sm') => {
@@ -205,15 +268,25 @@ export default function VenueReviews({ venueId }: VenueReviewsProps) {
           </div>
         </div>
 
+        {/* Review Form */}
+        {user && reviewableReservations.length > 0 && (
+          <ReviewForm
+            venueId={venueId}
+            userId={user.id}
+            reservations={reviewableReservations}
+            onSubmitted={fetchReviews}
+          />
+        )}
+
         {/* Reviews List */}
         <div className="space-y-4">
           {reviews.map((review) => (
             <div key={review.id} className="border-b border-gray-100 pb-4 last:border-b-0">
               <div className="flex items-start gap-3">
                 <Avatar className="w-10 h-10">
-                  <AvatarImage src={review.profiles.avatar_url} />
+                  <AvatarImage src={review.reviewer_avatar_url || undefined} />
                   <AvatarFallback className="bg-orange-100 text-orange-600">
-                    {getInitials(review.profiles.full_name)}
+                    {getInitials(review.reviewer_name)}
                   </AvatarFallback>
                 </Avatar>
                 
@@ -221,7 +294,7 @@ export default function VenueReviews({ venueId }: VenueReviewsProps) {
                   <div className="flex items-center justify-between">
                     <div>
                       <div className="font-medium text-gray-900">
-                        {review.profiles.full_name}
+                        {review.reviewer_name}
                       </div>
                       <div className="flex items-center gap-2">
                         {renderStars(review.rating)}
@@ -232,14 +305,21 @@ export default function VenueReviews({ venueId }: VenueReviewsProps) {
                     </div>
                   </div>
                   
-                  <p className="text-gray-700 leading-relaxed">
-                    {review.comment}
-                  </p>
+                  {review.comment && (
+                    <p className="text-gray-700 leading-relaxed">
+                      {review.comment}
+                    </p>
+                  )}
                   
                   <div className="flex items-center gap-4 text-sm text-gray-500">
-                    <Button variant="ghost" size="sm" className="h-auto p-0">
-                      <ThumbsUp className="h-3 w-3 mr-1" />
-                      Helpful
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={`h-auto p-0 ${review.has_voted ? 'text-orange-600' : ''}`}
+                      onClick={() => toggleHelpful(review)}
+                    >
+                      <ThumbsUp className={`h-3 w-3 mr-1 ${review.has_voted ? 'fill-orange-600' : ''}`} />
+                      Helpful{review.helpful_count > 0 && ` (${review.helpful_count})`}
                     </Button>
                   </div>
                 </div>
@@ -249,9 +329,10 @@ export default function VenueReviews({ venueId }: VenueReviewsProps) {
         </div>
 
         {/* Load More */}
-        {reviews.length > 0 && (
+        {hasMore && (
           <div className="text-center">
-            <Button variant="outline">
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Load More Reviews
             </Button>
           </div>
@@ -21,10 +21,12 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Sheet, SheetContent, SheetTrigger, SheetTitle } from '@/components/ui/sheet'
-import { Calendar, Home, Image, LogOut, Settings, User, Menu, X } from 'lucide-react'
+import { Calendar, CalendarPlus, CalendarRange, Home, Image, LogOut, ScanLine, Settings, User, Menu, X } from 'lucide-react'
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
+import WaitlistOfferBanner from '@/components/features/booking/waitlist-offer-banner'
+import NotificationInbox from '@/components/features/notifications/notification-inbox'
 
 interface MainLayoutProps {
   children: ReactNode
@@ -42,7 +44,8 @@ export function MainLayout({ children }: MainLayoutProps) {
     router.push('/login')
   }
 
-  const isAdmin = profile?.user_type === 'admin' || profile?.user_type === 'superadmin'
+  const isAdmin = profile?.role === 'admin' || profile?.role === 'superadmin'
+  const isStaff = isAdmin || profile?.role === 'staff'
 
   const navigationItems = [
     { href: '/', label: 'Home', icon: Home },
@@ -167,6 +170,39 @@ export function MainLayout({ children }: MainLayoutProps) {
                               <span>Admin Dashboard</span>
                             </Link>
                           )}
+
+                          {isStaff && (
+                            <Link
+                              href="/admin/check-in"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="flex items-center space-x-3 px-3 py-2 rounded-md text-sm font-medium transition-colors hover:bg-accent hover:text-accent-foreground"
+                            >
+                              <ScanLine className="w-5 h-5" />
+                              <span>Front Desk Check-in</span>
+                            </Link>
+                          )}
+
+                          {isStaff && (
+                            <Link
+                              href="/admin/schedule"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="flex items-center space-x-3 px-3 py-2 rounded-md text-sm font-medium transition-colors hover:bg-accent hover:text-accent-foreground"
+                            >
+                              <CalendarRange className="w-5 h-5" />
+                              <span>Schedule Board</span>
+                            </Link>
+                          )}
+
+                          {isStaff && (
+                            <Link
+                              href="/admin/bookings/new"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="flex items-center space-x-3 px-3 py-2 rounded-md text-sm font-medium transition-colors hover:bg-accent hover:text-accent-foreground"
+                            >
+                              <CalendarPlus className="w-5 h-5" />
+                              <span>New Booking</span>
+                            </Link>
+                          )}
                           
                           <Link
                             href="/profile"
@@ -216,6 +252,9 @@ export function MainLayout({ children }: MainLayoutProps) {
                 </SheetContent>
               </Sheet>
 
+              {/* Notifications */}
+              {user && <NotificationInbox userId={user.id} />}
+
               {/* Desktop User Menu */}
               {user ? (
                 <DropdownMenu>
@@ -242,12 +281,32 @@ export function MainLayout({ children }: MainLayoutProps) {
                     </DropdownMenuLabel>
                     <DropdownMenuSeparator />
                     
-                    {isAdmin && (
+                    {isStaff && (
                       <>
+                        {isAdmin && (
+                          <DropdownMenuItem asChild>
+                            <Link href="/admin/dashboard">
+                              <Settings className="mr-2 h-4 w-4" />
+                              Admin Dashboard
+                            </Link>
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem asChild>
-                          <Link href="/admin/dashboard">
-                            <Settings className="mr-2 h-4 w-4" />
-                            Admin Dashboard
+                          <Link href="/admin/check-in">
+                            <ScanLine className="mr-2 h-4 w-4" />
+                            Front Desk Check-in
+                          </Link>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link href="/admin/schedule">
+                            <CalendarRange className="mr-2 h-4 w-4" />
+                            Schedule Board
+                          </Link>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link href="/admin/bookings/new">
+                            <CalendarPlus className="mr-2 h-4 w-4" />
+                            New Booking
                           </Link>
                         </DropdownMenuItem>
                         <DropdownMenuSeparator />
@@ -290,6 +349,9 @@ export function MainLayout({ children }: MainLayoutProps) {
         </div>
       </header>
 
+      {/* Waitlist Offers */}
+      {user && <WaitlistOfferBanner userId={user.id} />}
+
       {/* Main Content */}
       <main className="flex-1">
         {children}
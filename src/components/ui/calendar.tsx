@@ -6,10 +6,14 @@ import {
   ChevronLeftIcon,
   ChevronRightIcon,
 } from "lucide-react"
+import { parseISO } from "date-fns"
 import { DayButton, DayPicker, getDefaultClassNames } from "react-day-picker"
 
 import { cn } from "@/lib/utils"
 import { Button, buttonVariants } from "@/components/ui/button"
+import type { SpecialDate } from "@/types/database"
+
+type CalendarSpecialDate = Pick<SpecialDate, "special_date" | "is_closed">
 
 function Calendar({
   className,
@@ -19,11 +23,23 @@ function Calendar({
   buttonVariant = "ghost",
   formatters,
   components,
+  specialDates,
+  disabled,
+  modifiers,
+  modifiersClassNames,
   ...props
 }: React.ComponentProps<typeof DayPicker> & {
   buttonVariant?: React.ComponentProps<typeof Button>["variant"]
+  // Closed dates are disabled, the others are highlighted
+  specialDates?: CalendarSpecialDate[]
 }) {
   const defaultClassNames = getDefaultClassNames()
+  const closedDates = (specialDates ?? [])
+    .filter((entry) => entry.is_closed)
+    .map((entry) => parseISO(entry.special_date))
+  const openSpecialDates = (specialDates ?? [])
+    .filter((entry) => !entry.is_closed)
+    .map((entry) => parseISO(entry.special_date))
 
   return (
     <DayPicker
@@ -35,6 +51,12 @@ function Calendar({
         className
       )}
       captionLayout={captionLayout}
+      disabled={closedDates.length > 0 ? [disabled ?? [], closedDates].flat() : disabled}
+      modifiers={{ special: openSpecialDates, ...modifiers }}
+      modifiersClassNames={{
+        special: "[&_button]:text-orange-600 [&_button]:font-semibold",
+        ...modifiersClassNames,
+      }}
       formatters={{
         formatMonthDropdown: (date) =>
           date.toLocaleString("default", { month: "short" }),
@@ -0,0 +1,46 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { getEffectiveRules } from '@/lib/cancellation-policies'
+import { CancellationPolicyRule } from '@/types/database'
+
+// The cancellation rules that apply to a venue type, longest notice first
+export function useCancellationPolicy(venueTypeId?: string | null) {
+  const [rules, setRules] = useState<CancellationPolicyRule[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!venueTypeId) {
+      setRules([])
+      return
+    }
+
+    const supabase = createClient()
+
+    const fetchRules = async () => {
+      try {
+        setLoading(true)
+
+        const { data, error } = await supabase
+          .from('cancellation_policy_rules')
+          .select('*')
+          .or(`venue_type_id.is.null,venue_type_id.eq.${venueTypeId}`)
+
+        if (error) throw error
+
+        setRules(getEffectiveRules(data || [], venueTypeId))
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRules()
+  }, [venueTypeId])
+
+  return { rules, loading, error }
+}
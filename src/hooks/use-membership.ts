@@ -0,0 +1,43 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { ActiveMembership } from '@/lib/memberships'
+
+// The membership the user is in right now, null for non-members
+export function useMembership(userId?: string | null) {
+  const [membership, setMembership] = useState<ActiveMembership | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!userId) {
+      setMembership(null)
+      return
+    }
+
+    const supabase = createClient()
+
+    const fetchMembership = async () => {
+      try {
+        setLoading(true)
+
+        const { data, error } = await supabase
+          .rpc('get_active_membership', { p_user_id: userId })
+
+        if (error) throw error
+
+        setMembership(data?.[0] ?? null)
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMembership()
+  }, [userId])
+
+  return { membership, loading, error }
+}
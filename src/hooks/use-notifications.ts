@@ -0,0 +1,79 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { InAppNotification } from '@/types/database'
+
+const INBOX_SIZE = 20
+
+// Latest in-app notifications of a user, updated live as new ones arrive
+export function useNotifications(userId?: string | null) {
+  const [notifications, setNotifications] = useState<InAppNotification[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([])
+      return
+    }
+
+    try {
+      const { data, error } = await createClient()
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_SIZE)
+
+      if (error) throw error
+
+      setNotifications(data || [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }, [userId])
+
+  const markRead = useCallback(async (ids?: string[]) => {
+    const readAt = new Date().toISOString()
+    setNotifications(current => current.map(n =>
+      !n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: readAt } : n
+    ))
+
+    const { error } = await createClient().rpc('mark_notifications_read', { p_ids: ids })
+
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      fetchNotifications()
+    }
+  }, [fetchNotifications])
+
+  useEffect(() => {
+    fetchNotifications()
+
+    if (!userId) return
+
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => fetchNotifications()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, fetchNotifications])
+
+  const unreadCount = notifications.filter(n => !n.read_at).length
+
+  return { notifications, unreadCount, error, markRead, refetch: fetchNotifications }
+}
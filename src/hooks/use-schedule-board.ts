@@ -0,0 +1,108 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { BoardBlackout, BoardClosure, BoardOpeningPeriod, BoardEvent, BoardReservation } from '@/lib/schedule-board'
+
+// Bookings, events, blackouts, opening hours and closed days between two dates (inclusive), kept live for the schedule board
+export function useScheduleBoard(from: string, to: string) {
+  const [reservations, setReservations] = useState<BoardReservation[]>([])
+  const [events, setEvents] = useState<BoardEvent[]>([])
+  const [closures, setClosures] = useState<BoardClosure[]>([])
+  const [blackouts, setBlackouts] = useState<BoardBlackout[]>([])
+  const [openingHours, setOpeningHours] = useState<BoardOpeningPeriod[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchBoard = useCallback(async () => {
+    const supabase = createClient()
+
+    try {
+      const [reservationsResult, eventsResult, closuresResult, blackoutsResult, hoursResult] = await Promise.all([
+        supabase
+          .from('reservations')
+          .select(`
+            id,
+            reservation_code,
+            venue_id,
+            reservation_date,
+            start_time,
+            end_time,
+            status,
+            payment_status,
+            expires_at,
+            checked_in_at,
+            user_id,
+            customer_name,
+            user:profiles!reservations_user_id_fkey(
+              full_name
+            )
+          `)
+          .gte('reservation_date', from)
+          .lte('reservation_date', to)
+          .neq('status', 'cancelled')
+          .order('start_time'),
+        supabase
+          .from('events')
+          .select('id, title, venue_id, event_date, start_time, end_time')
+          .gte('event_date', from)
+          .lte('event_date', to)
+          .eq('is_active', true),
+        supabase
+          .from('special_dates')
+          .select('id, name, venue_id, special_date')
+          .gte('special_date', from)
+          .lte('special_date', to)
+          .eq('is_closed', true),
+        supabase.rpc('get_venue_blackouts', { p_from: from, p_to: to }),
+        supabase.rpc('get_venue_opening_hours', { p_from: from, p_to: to }),
+      ])
+
+      if (reservationsResult.error) throw reservationsResult.error
+      if (eventsResult.error) throw eventsResult.error
+      if (closuresResult.error) throw closuresResult.error
+      if (blackoutsResult.error) throw blackoutsResult.error
+      if (hoursResult.error) throw hoursResult.error
+
+      setReservations(reservationsResult.data || [])
+      setEvents(eventsResult.data || [])
+      setClosures(closuresResult.data || [])
+      setBlackouts(blackoutsResult.data || [])
+      setOpeningHours(hoursResult.data || [])
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching schedule:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load the schedule')
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchBoard()
+
+    // Same channel as useRealtimeBookings. Change payloads carry no customer or venue
+    // details, so the board is fetched again rather than patched.
+    const supabase = createClient()
+    const channel = supabase
+      .channel('reservations')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'reservations' },
+        () => fetchBoard()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'events' },
+        () => fetchBoard()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [fetchBoard])
+
+  return { reservations, events, closures, blackouts, openingHours, loading, error, refetch: fetchBoard }
+}
@@ -0,0 +1,49 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { resolveSpecialDates, venueSpecialDatesFilter } from '@/lib/special-dates'
+import { SpecialDate } from '@/types/database'
+
+// Upcoming special dates of a venue, one per date with the venue's own entries winning
+export function useSpecialDates(venueId?: string | null) {
+  const [specialDates, setSpecialDates] = useState<SpecialDate[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!venueId) {
+      setSpecialDates([])
+      return
+    }
+
+    const supabase = createClient()
+
+    const fetchSpecialDates = async () => {
+      try {
+        setLoading(true)
+
+        const { data, error } = await supabase
+          .from('special_dates')
+          .select('*')
+          .or(venueSpecialDatesFilter(venueId))
+          .gte('special_date', format(new Date(), 'yyyy-MM-dd'))
+          .order('special_date')
+
+        if (error) throw error
+
+        setSpecialDates(resolveSpecialDates(data || [], venueId))
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSpecialDates()
+  }, [venueId])
+
+  return { specialDates, loading, error }
+}
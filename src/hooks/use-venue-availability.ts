@@ -2,16 +2,23 @@
 
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import { VenueTimeSlot } from '@/types/database'
+import { blockingReservationsFilter } from '@/lib/reservation-holds'
+import { findBlackout, type BlackoutOccurrence } from '@/lib/venue-blackouts'
+import type { VenueDaySlot } from '@/lib/operating-hours'
+import { SpecialDate } from '@/types/database'
 import { useBookingStore } from '@/stores/booking-store'
 
-interface AvailabilitySlot extends VenueTimeSlot {
+interface AvailabilitySlot extends VenueDaySlot {
   isAvailable: boolean
   reservationId?: string
+  // Set when the venue is blacked out during the slot
+  blackout?: BlackoutOccurrence
 }
 
 export function useVenueAvailability(venueId: string, date: string) {
   const [availability, setAvailability] = useState<AvailabilitySlot[]>([])
+  const [specialDate, setSpecialDate] = useState<SpecialDate | null>(null)
+  const [blackouts, setBlackouts] = useState<BlackoutOccurrence[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { setAvailableSlots } = useBookingStore()
@@ -20,6 +27,8 @@ export function useVenueAvailability(venueId: string, date: string) {
   useEffect(() => {
     if (!venueId || !date) {
       setAvailability([])
+      setSpecialDate(null)
+      setBlackouts([])
       setLoading(false)
       return
     }
@@ -28,23 +37,43 @@ export function useVenueAvailability(venueId: string, date: string) {
       try {
         setLoading(true)
 
-        // Get all time slots for the venue
+        // Time slots of the day, cut from the venue's opening hours
         const { data: timeSlots, error: slotsError } = await supabase
-          .from('venue_time_slots')
-          .select('*')
-          .eq('venue_id', venueId)
-          .eq('is_active', true)
-          .order('start_time')
+          .rpc('get_venue_day_slots', {
+            p_venue_id: venueId,
+            p_date: date
+          })
 
         if (slotsError) throw slotsError
 
+        // Holidays, peak days and closures for the date
+        const { data: specialDates, error: specialDateError } = await supabase
+          .rpc('get_special_date', {
+            p_venue_id: venueId,
+            p_date: date
+          })
+
+        if (specialDateError) throw specialDateError
+
+        const daySpecialDate = specialDates?.[0] ?? null
+
+        // Maintenance and private-use closures during the day
+        const { data: dayBlackouts, error: blackoutsError } = await supabase
+          .rpc('get_venue_blackouts', {
+            p_from: date,
+            p_to: date,
+            p_venue_id: venueId
+          })
+
+        if (blackoutsError) throw blackoutsError
+
         // Get existing reservations for the date
         const { data: reservations, error: reservationsError } = await supabase
           .from('reservations')
           .select('*')
           .eq('venue_id', venueId)
           .eq('reservation_date', date)
-          .in('status', ['confirmed', 'pending'])
+          .or(blockingReservationsFilter())
 
         if (reservationsError) throw reservationsError
 
@@ -64,14 +93,19 @@ export function useVenueAvailability(venueId: string, date: string) {
             )
           })
 
+          const blackout = findBlackout<BlackoutOccurrence>(dayBlackouts || [], date, slot.start_time, slot.end_time)
+
           return {
             ...slot,
-            isAvailable: !conflictingReservation,
+            isAvailable: !daySpecialDate?.is_closed && !blackout && !conflictingReservation,
             reservationId: conflictingReservation?.id,
+            blackout: blackout ?? undefined,
           }
         })
 
         setAvailability(availabilityData)
+        setSpecialDate(daySpecialDate)
+        setBlackouts(dayBlackouts || [])
         setAvailableSlots(availabilityData.filter(slot => slot.isAvailable))
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred')
@@ -105,5 +139,5 @@ export function useVenueAvailability(venueId: string, date: string) {
     }
   }, [venueId, date, supabase, setAvailableSlots])
 
-  return { availability, loading, error }
+  return { availability, specialDate, blackouts, loading, error }
 }
\ No newline at end of file
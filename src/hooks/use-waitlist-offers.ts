@@ -0,0 +1,71 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { isOpenOffer } from '@/lib/waitlist'
+import type { Venue, WaitlistEntry } from '@/types/database'
+
+export type WaitlistOffer = WaitlistEntry & {
+  venue: Pick<Venue, 'name'> | null
+}
+
+// Open waitlist offers of a user, kept up to date as offers are made or taken
+export function useWaitlistOffers(userId?: string | null) {
+  const [offers, setOffers] = useState<WaitlistOffer[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchOffers = useCallback(async () => {
+    if (!userId) {
+      setOffers([])
+      return
+    }
+
+    try {
+      const { data, error } = await createClient()
+        .from('waitlist_entries')
+        .select(`
+          *,
+          venue:venues(
+            name
+          )
+        `)
+        .eq('user_id', userId)
+        .eq('status', 'offered')
+        .order('offer_expires_at')
+
+      if (error) throw error
+
+      setOffers((data || []).filter(offer => isOpenOffer(offer)))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchOffers()
+
+    if (!userId) return
+
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`waitlist-offers-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'waitlist_entries',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => fetchOffers()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, fetchOffers])
+
+  return { offers, error, refetch: fetchOffers }
+}
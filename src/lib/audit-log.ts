@@ -0,0 +1,68 @@
+import type { AuditLogEntry, Enums, Json } from '@/types/database'
+
+// Rows written by audit_row_change() (see 027_audit_log.sql). Updates keep only the columns
+// that changed; inserts keep the whole new row and deletes the whole old one.
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  reservations: 'Reservation',
+  venues: 'Venue',
+  venue_time_slots: 'Price band',
+  financial_transactions: 'Financial transaction',
+  profiles: 'User role',
+}
+
+export const AUDIT_ACTION_LABELS: Record<Enums<'audit_action'>, string> = {
+  insert: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+}
+
+export const AUDIT_SOURCE_LABELS: Record<Enums<'audit_source'>, string> = {
+  app: 'App',
+  service: 'Webhook or background job',
+  system: 'Database',
+}
+
+export const AUDIT_PAGE_SIZE = 50
+
+// Actor filter value for changes made without a signed-in user
+export const NO_ACTOR = 'none'
+
+export interface AuditChange {
+  field: string
+  before: Json | undefined
+  after: Json | undefined
+}
+
+function asObject(values: Json | null): Record<string, Json | undefined> {
+  return values && typeof values === 'object' && !Array.isArray(values) ? values : {}
+}
+
+// One line per column, in the order the columns appear
+export function getAuditChanges(entry: Pick<AuditLogEntry, 'old_values' | 'new_values'>): AuditChange[] {
+  const before = asObject(entry.old_values)
+  const after = asObject(entry.new_values)
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+
+  return fields.map(field => ({ field, before: before[field], after: after[field] }))
+}
+
+// e.g. "payment_status" -> "Payment status"
+export function formatAuditField(field: string) {
+  const words = field.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function formatAuditValue(value: Json | undefined) {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Who made the change: the user, or where it came from when nobody was signed in
+export function getAuditActorLabel(entry: Pick<AuditLogEntry, 'actor_id' | 'actor_name' | 'actor_role' | 'source'>) {
+  if (!entry.actor_id) return AUDIT_SOURCE_LABELS[entry.source]
+
+  const name = entry.actor_name || 'Deleted user'
+  return entry.actor_role ? `${name} (${entry.actor_role})` : name
+}
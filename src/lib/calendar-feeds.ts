@@ -0,0 +1,96 @@
+import { COMPANY } from '@/lib/invoices'
+import { renderIcsCalendar, type IcsEvent } from '@/lib/ics'
+import type { Event, Profile, Reservation, Venue } from '@/types/database'
+
+// Calendar entries for bookings, used by the .ics download and the subscription feeds.
+// Every booking and event keeps one UID, so calendars move an entry when the booking is
+// rescheduled and drop it from a feed once it is cancelled.
+
+const UID_DOMAIN = 'orangesportcenter.com'
+
+export type CalendarReservation = Pick<
+  Reservation,
+  | 'id'
+  | 'reservation_code'
+  | 'reservation_date'
+  | 'start_time'
+  | 'end_time'
+  | 'status'
+  | 'notes'
+  | 'reschedule_count'
+  | 'updated_at'
+> & {
+  customer_name?: string | null
+  customer_phone?: string | null
+  venue: Pick<Venue, 'name'> | null
+  user?: Pick<Profile, 'full_name' | 'phone'> | null
+}
+
+export function getReservationCalendarUrl(reservationId: string) {
+  return `/api/reservations/${reservationId}/calendar`
+}
+
+export function getCalendarFeedUrl(origin: string, token: string) {
+  return `${origin}/api/calendar/${token}`
+}
+
+// webcal:// opens the subscribe dialog of the default calendar app
+export function toWebcalUrl(url: string) {
+  return url.replace(/^https?:/, 'webcal:')
+}
+
+export function reservationToIcsEvent(
+  reservation: CalendarReservation,
+  { origin, forStaff = false }: { origin: string, forStaff?: boolean }
+): IcsEvent {
+  const venueName = reservation.venue?.name ?? 'Venue'
+  const cancelled = reservation.status === 'cancelled'
+  const details = [
+    `Booking code: ${reservation.reservation_code}`,
+    forStaff && (reservation.user?.phone || reservation.customer_phone)
+      ? `Phone: ${reservation.user?.phone || reservation.customer_phone}`
+      : null,
+    reservation.status && reservation.status !== 'confirmed' ? `Status: ${reservation.status.replace('_', '-')}` : null,
+    reservation.notes ? `Notes: ${reservation.notes}` : null,
+  ]
+
+  return {
+    uid: `reservation-${reservation.id}@${UID_DOMAIN}`,
+    date: reservation.reservation_date,
+    startTime: reservation.start_time,
+    endTime: reservation.end_time,
+    summary: forStaff
+      ? `${reservation.user?.full_name || reservation.customer_name || 'Customer'} (${reservation.reservation_code})`
+      : `${venueName} - ${COMPANY.name}`,
+    description: details.filter(Boolean).join('\n'),
+    location: `${venueName}, ${COMPANY.name}`,
+    url: `${origin}/booking/confirmation/${reservation.id}`,
+    status: cancelled ? 'CANCELLED' : reservation.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+    // Each reschedule, and the cancellation, supersedes what calendars have stored
+    sequence: reservation.reschedule_count + (cancelled ? 1 : 0),
+    updatedAt: reservation.updated_at,
+  }
+}
+
+export function eventToIcsEvent(event: Event, venueName: string): IcsEvent {
+  return {
+    uid: `event-${event.id}@${UID_DOMAIN}`,
+    date: event.event_date,
+    startTime: event.start_time,
+    endTime: event.end_time,
+    summary: event.title,
+    description: event.description,
+    location: `${venueName}, ${COMPANY.name}`,
+    updatedAt: event.updated_at,
+  }
+}
+
+// A single booking, for "Add to calendar". A cancelled booking comes out as a
+// cancellation that removes the entry from calendars it was imported into.
+export function renderReservationCalendar(reservation: CalendarReservation, origin: string) {
+  return renderIcsCalendar({
+    name: `${COMPANY.name} booking ${reservation.reservation_code}`,
+    events: [reservationToIcsEvent(reservation, { origin })],
+    method: reservation.status === 'cancelled' ? 'CANCEL' : 'PUBLISH',
+  })
+}
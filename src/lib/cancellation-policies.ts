@@ -0,0 +1,39 @@
+import type { CancellationPolicyRule } from '@/types/database'
+
+// Refunds for cancelled bookings are worked out by get_cancellation_refund_percentage()
+// (see 018_cancellation_policies.sql); these helpers only describe the policy.
+
+type PolicyRule = Pick<CancellationPolicyRule, 'venue_type_id' | 'min_hours_before_start' | 'refund_percentage'>
+
+// The rules that apply to a venue type: its own when it has any, the global ones otherwise.
+// Sorted from the longest notice down.
+export function getEffectiveRules<T extends PolicyRule>(rules: T[], venueTypeId?: string | null) {
+  const own = venueTypeId ? rules.filter(rule => rule.venue_type_id === venueTypeId) : []
+  const effective = own.length > 0 ? own : rules.filter(rule => rule.venue_type_id === null)
+
+  return [...effective].sort((a, b) => b.min_hours_before_start - a.min_hours_before_start)
+}
+
+export function formatNotice(hours: number) {
+  if (hours === 0) return 'Any time before the booking'
+  if (hours % 24 === 0) return `${hours / 24} day${hours === 24 ? '' : 's'} or more before`
+  return `${hours} hour${hours === 1 ? '' : 's'} or more before`
+}
+
+export function formatRefund(percentage: number) {
+  if (percentage >= 100) return 'Full refund'
+  if (percentage <= 0) return 'No refund'
+  return `${percentage}% refund`
+}
+
+// One line per rule, e.g. "2 days or more before: Full refund"
+export function describeCancellationPolicy(rules: PolicyRule[]) {
+  const lines = rules.map(rule => `${formatNotice(rule.min_hours_before_start)}: ${formatRefund(rule.refund_percentage)}`)
+
+  // Without a rule for zero notice, late cancellations get nothing back
+  if (rules.length > 0 && rules[rules.length - 1].min_hours_before_start > 0) {
+    lines.push(`Later than that: ${formatRefund(0)}`)
+  }
+
+  return lines
+}
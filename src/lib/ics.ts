@@ -0,0 +1,222 @@
+// Minimal iCalendar (RFC 5545) reader for holiday lists such as the public
+// "Holidays in Indonesia" calendar: one entry per day covered by each VEVENT.
+
+export interface IcsDateEntry {
+  // yyyy-MM-dd
+  date: string
+  name: string
+}
+
+// Longest event expanded into single days, guards against open-ended entries
+const MAX_EVENT_DAYS = 31
+
+function unescapeText(value: string) {
+  return value
+    .replace(/\\[nN]/g, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim()
+}
+
+// DATE (20250101) or DATE-TIME (20250101T000000Z) to yyyy-MM-dd
+function toIsoDate(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null
+}
+
+function addDays(isoDate: string, days: number) {
+  const [year, month, day] = isoDate.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10)
+}
+
+export function parseIcsDates(text: string): IcsDateEntry[] {
+  // Unfold continuation lines before splitting
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const byDate = new Map<string, string>()
+
+  let event: { start?: string; end?: string; allDay?: boolean; name?: string } | null = null
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {}
+      continue
+    }
+
+    if (line === 'END:VEVENT') {
+      const start = event?.start && toIsoDate(event.start)
+
+      if (event && start && event.name) {
+        const end = event.allDay && event.end ? toIsoDate(event.end) : null
+        let date = start
+
+        for (let i = 0; i < MAX_EVENT_DAYS && (i === 0 || (end && date < end)); i++) {
+          const existing = byDate.get(date)
+          if (existing !== event.name) {
+            byDate.set(date, existing ? `${existing} / ${event.name}` : event.name)
+          }
+          date = addDays(date, 1)
+        }
+      }
+
+      event = null
+      continue
+    }
+
+    if (!event) continue
+
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const [property, ...params] = line.slice(0, separator).split(';')
+    const value = line.slice(separator + 1)
+
+    switch (property.toUpperCase()) {
+      case 'DTSTART':
+        event.start = value
+        event.allDay = params.some(param => param.toUpperCase() === 'VALUE=DATE') || /^\d{8}$/.test(value)
+        break
+      case 'DTEND':
+        event.end = value
+        break
+      case 'SUMMARY':
+        event.name = unescapeText(value)
+        break
+    }
+  }
+
+  return Array.from(byDate, ([date, name]) => ({ date, name }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// Writer for the calendar files and subscription feeds of bookings. Booking times are
+// venue local time, which is Western Indonesia Time (UTC+7, no daylight saving).
+
+export const VENUE_TIME_ZONE = 'Asia/Jakarta'
+
+const VENUE_TIME_ZONE_DEFINITION = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${VENUE_TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0700',
+  'TZOFFSETTO:+0700',
+  'TZNAME:WIB',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+]
+
+export type IcsEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+
+export interface IcsEvent {
+  // Stays the same when the booking moves, so calendars update the existing entry
+  uid: string
+  // yyyy-MM-dd in venue local time
+  date: string
+  // HH:mm or HH:mm:ss; an all-day entry without a start time
+  startTime?: string | null
+  endTime?: string | null
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  status?: IcsEventStatus
+  // Raised on every change that calendars should pick up over the copy they have
+  sequence?: number
+  updatedAt?: string | null
+}
+
+export interface IcsCalendar {
+  name: string
+  events: IcsEvent[]
+  // CANCEL asks calendars that imported the file to remove its events
+  method?: 'PUBLISH' | 'CANCEL'
+  now?: Date
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let length = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    if (length + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      length = 0
+    }
+    current += char
+    length += size
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function formatDate(isoDate: string) {
+  return isoDate.replace(/-/g, '')
+}
+
+function formatLocalDateTime(isoDate: string, time: string) {
+  return `${formatDate(isoDate)}T${time.replace(/:/g, '').padEnd(6, '0').slice(0, 6)}`
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function eventLines(event: IcsEvent, stamp: string) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+  ]
+
+  if (event.startTime) {
+    lines.push(`DTSTART;TZID=${VENUE_TIME_ZONE}:${formatLocalDateTime(event.date, event.startTime)}`)
+    if (event.endTime) {
+      lines.push(`DTEND;TZID=${VENUE_TIME_ZONE}:${formatLocalDateTime(event.date, event.endTime)}`)
+    }
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`)
+    lines.push(`DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`)
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`)
+  lines.push(`SEQUENCE:${event.sequence ?? 0}`)
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`)
+  lines.push('END:VEVENT')
+
+  return lines
+}
+
+export function renderIcsCalendar({ name, events, method = 'PUBLISH', now = new Date() }: IcsCalendar) {
+  const stamp = formatUtc(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Orange Sport Center//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${VENUE_TIME_ZONE}`,
+    ...VENUE_TIME_ZONE_DEFINITION,
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,316 @@
+import { format, parseISO } from 'date-fns'
+import { formatCurrency } from '@/lib/utils'
+import { parsePriceLineItems, roundAmount } from '@/lib/pricing/engine'
+import { createPdfPage, measureText, renderPdf, PAGE_HEIGHT, PAGE_WIDTH, type PdfColor, type PdfPage } from '@/lib/pdf'
+import type { QrMatrix } from '@/lib/qr'
+import type { Payment, Profile, Reservation, Venue, VenueType } from '@/types/database'
+
+// Invoices and receipts for a reservation, rendered as PDF by /api/reservations/[id]/invoice
+
+export type InvoiceReservation = Reservation & {
+  venue: (Pick<Venue, 'name'> & { venue_types: Pick<VenueType, 'name'> | null }) | null
+  user: Pick<Profile, 'full_name' | 'phone'> | null
+}
+
+export interface InvoiceInput {
+  reservation: InvoiceReservation
+  // Payments and refunds of the reservation, or of the order it was paid with
+  payments: Payment[]
+  customerEmail?: string | null
+  // Check-in pass, for bookings that haven't been used yet
+  checkInQr?: QrMatrix | null
+  issuedAt?: Date
+}
+
+export interface TaxLines {
+  rate: number
+  // Price before tax
+  taxBase: number
+  tax: number
+}
+
+export const COMPANY = {
+  name: 'Orange Sport Center',
+  phone: '+62 123 456 7890',
+  email: 'info@orangesportcenter.com',
+}
+
+// Booking prices include PPN (VAT). INVOICE_TAX_RATE overrides the rate; 0 leaves the tax lines off.
+export function getTaxRate(): number {
+  const rate = Number(process.env.INVOICE_TAX_RATE ?? 0.11)
+  return Number.isFinite(rate) && rate >= 0 ? rate : 0.11
+}
+
+export function calculateTaxLines(total: number, rate: number = getTaxRate()): TaxLines {
+  const taxBase = roundAmount(total / (1 + rate))
+
+  return {
+    rate,
+    taxBase,
+    tax: roundAmount(total - taxBase),
+  }
+}
+
+// Fully paid bookings get a receipt, anything still owing an invoice
+export function getDocumentType(reservation: Pick<Reservation, 'payment_status'>): 'invoice' | 'receipt' {
+  return reservation.payment_status === 'paid' || reservation.payment_status === 'refunded' ? 'receipt' : 'invoice'
+}
+
+export function getInvoiceNumber(reservation: Pick<Reservation, 'reservation_code'>) {
+  return `INV-${reservation.reservation_code}`
+}
+
+export function getInvoiceUrl(reservationId: string) {
+  return `/api/reservations/${reservationId}/invoice`
+}
+
+export function getInvoiceFilename(reservation: Pick<Reservation, 'reservation_code' | 'payment_status'>) {
+  return `${getDocumentType(reservation)}-${reservation.reservation_code}.pdf`
+}
+
+const PAYMENT_STATUS_LABELS: Record<NonNullable<Reservation['payment_status']>, string> = {
+  pending: 'Unpaid',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+}
+
+const PAYMENT_METHOD_LABELS: Record<Payment['payment_method'], string> = {
+  credit_card: 'Credit Card',
+  bank_transfer: 'Bank Transfer',
+  e_wallet: 'E-Wallet',
+  cash: 'Cash',
+}
+
+const PAYMENT_KIND_LABELS: Record<Payment['payment_kind'], string> = {
+  deposit: 'Deposit',
+  partial: 'Partial payment',
+  full: 'Payment',
+  refund: 'Refund',
+}
+
+const MARGIN = 50
+const RIGHT = PAGE_WIDTH - MARGIN
+const BOTTOM = PAGE_HEIGHT - 70
+const ORANGE: PdfColor = [0.976, 0.451, 0.086]
+const MUTED: PdfColor = [0.42, 0.45, 0.5]
+const HEADER_FILL: PdfColor = [0.96, 0.96, 0.97]
+const QR_SIZE = 72
+
+// Draws down the page and starts a new one when the next block doesn't fit
+function createLayout() {
+  const pages: PdfPage[] = [createPdfPage()]
+  let y = MARGIN
+
+  return {
+    pages,
+    get page() {
+      return pages[pages.length - 1]
+    },
+    get y() {
+      return y
+    },
+    advance(height: number) {
+      y += height
+    },
+    ensureSpace(height: number) {
+      if (y + height > BOTTOM) {
+        pages.push(createPdfPage())
+        y = MARGIN
+      }
+    },
+  }
+}
+
+function amountLine(
+  layout: ReturnType<typeof createLayout>,
+  label: string,
+  amount: string,
+  options: { bold?: boolean, color?: PdfColor } = {}
+) {
+  const font = options.bold ? 'bold' : 'regular'
+  layout.ensureSpace(16)
+  layout.page.text(label, 350, layout.y, { font, color: options.color })
+  layout.page.text(amount, RIGHT, layout.y, { font, align: 'right', color: options.color })
+  layout.advance(16)
+}
+
+function drawQr(page: PdfPage, qr: QrMatrix, x: number, y: number, size: number) {
+  const cell = size / qr.length
+
+  qr.forEach((row, i) => {
+    row.forEach((dark, j) => {
+      if (dark) page.fillRect(x + j * cell, y + i * cell, cell, cell, [0, 0, 0])
+    })
+  })
+}
+
+export function renderInvoicePdf({ reservation, payments, customerEmail, checkInQr, issuedAt = new Date() }: InvoiceInput): Buffer {
+  const layout = createLayout()
+  const documentType = getDocumentType(reservation)
+  const total = Number(reservation.total_price) || 0
+  const amountPaid = Number(reservation.amount_paid) || 0
+  const discount = Number(reservation.discount_amount) || 0
+  const lineItems = parsePriceLineItems(reservation.price_breakdown)
+  const tax = calculateTaxLines(total)
+
+  // Company and document header
+  const first = layout.page
+  first.text(COMPANY.name, MARGIN, layout.y + 14, { size: 18, font: 'bold', color: ORANGE })
+  first.text(`${COMPANY.phone}  ·  ${COMPANY.email}`, MARGIN, layout.y + 30, { size: 9, color: MUTED })
+  first.text(documentType === 'receipt' ? 'RECEIPT' : 'INVOICE', RIGHT, layout.y + 14, { size: 18, font: 'bold', align: 'right' })
+  first.text(getInvoiceNumber(reservation), RIGHT, layout.y + 30, { size: 9, align: 'right', color: MUTED })
+  layout.advance(50)
+  first.line(MARGIN, layout.y, RIGHT, layout.y)
+  layout.advance(22)
+
+  // Customer and document details
+  first.text('Billed to', MARGIN, layout.y, { size: 9, font: 'bold', color: MUTED })
+  first.text('Details', 350, layout.y, { size: 9, font: 'bold', color: MUTED })
+  layout.advance(15)
+
+  const customerLines = [
+    reservation.user?.full_name || reservation.customer_name || 'Customer',
+    reservation.user?.phone || reservation.customer_phone,
+    customerEmail || reservation.customer_email,
+  ]
+    .filter((line): line is string => Boolean(line))
+  const detailLines: [string, string][] = [
+    ['Issued', format(issuedAt, 'd MMM yyyy')],
+    ['Booking code', reservation.reservation_code],
+    ['Booking status', (reservation.status || 'pending').replace(/^\w/, c => c.toUpperCase())],
+    ['Payment status', PAYMENT_STATUS_LABELS[reservation.payment_status || 'pending']],
+  ]
+
+  for (let i = 0; i < Math.max(customerLines.length, detailLines.length); i++) {
+    if (customerLines[i]) first.text(customerLines[i], MARGIN, layout.y)
+    if (detailLines[i]) {
+      first.text(detailLines[i][0], 350, layout.y, { color: MUTED })
+      first.text(detailLines[i][1], RIGHT, layout.y, { align: 'right' })
+    }
+    layout.advance(15)
+  }
+  layout.advance(15)
+
+  // Booking, with the check-in pass beside it
+  const bookingTop = layout.y
+  if (checkInQr) {
+    drawQr(first, checkInQr, RIGHT - QR_SIZE, bookingTop - 9, QR_SIZE)
+    const label = 'Scan at check-in'
+    first.text(label, RIGHT - (QR_SIZE + measureText(label, 8)) / 2, bookingTop + QR_SIZE + 8, { size: 8, color: MUTED })
+  }
+
+  const venueName = reservation.venue?.name ?? 'Venue'
+  const venueType = reservation.venue?.venue_types?.name
+  first.text('Booking', MARGIN, layout.y, { size: 9, font: 'bold', color: MUTED })
+  layout.advance(15)
+  first.text(venueType ? `${venueName} (${venueType})` : venueName, MARGIN, layout.y, { font: 'bold' })
+  layout.advance(15)
+  first.text(
+    `${format(parseISO(reservation.reservation_date), 'EEEE, d MMMM yyyy')}, ` +
+    `${reservation.start_time.slice(0, 5)} - ${reservation.end_time.slice(0, 5)} (${Number(reservation.duration_hours)} h)`,
+    MARGIN,
+    layout.y
+  )
+  layout.advance(checkInQr ? Math.max(28, bookingTop + QR_SIZE + 28 - layout.y) : 28)
+
+  // Price breakdown
+  first.fillRect(MARGIN, layout.y - 12, RIGHT - MARGIN, 18, HEADER_FILL)
+  first.text('Description', MARGIN + 6, layout.y, { font: 'bold', size: 9 })
+  first.text('Hours', 330, layout.y, { font: 'bold', size: 9, align: 'right' })
+  first.text('Rate', 430, layout.y, { font: 'bold', size: 9, align: 'right' })
+  first.text('Amount', RIGHT - 6, layout.y, { font: 'bold', size: 9, align: 'right' })
+  layout.advance(20)
+
+  const rows = lineItems.length > 0
+    ? lineItems.map(item => ({
+        description: `${venueName}, ${item.startTime} - ${item.endTime}`,
+        hours: String(Number(item.hours.toFixed(2))),
+        rate: formatCurrency(item.hourlyRate),
+        amount: formatCurrency(item.amount),
+      }))
+    : [{
+        description: `${venueName}, ${reservation.start_time.slice(0, 5)} - ${reservation.end_time.slice(0, 5)}`,
+        hours: String(Number(reservation.duration_hours)),
+        rate: '',
+        amount: formatCurrency(Number(reservation.base_price) || 0),
+      }]
+
+  for (const row of rows) {
+    layout.ensureSpace(18)
+    layout.page.text(row.description, MARGIN + 6, layout.y)
+    layout.page.text(row.hours, 330, layout.y, { align: 'right' })
+    layout.page.text(row.rate, 430, layout.y, { align: 'right' })
+    layout.page.text(row.amount, RIGHT - 6, layout.y, { align: 'right' })
+    layout.advance(8)
+    layout.page.line(MARGIN, layout.y, RIGHT, layout.y)
+    layout.advance(14)
+  }
+  layout.advance(6)
+
+  // Totals
+  amountLine(layout, 'Subtotal', formatCurrency(Number(reservation.base_price) || 0))
+  if (discount > 0) {
+    const percentage = Number(reservation.discount_percentage) || 0
+    amountLine(layout, percentage > 0 ? `Discount (${percentage}%)` : 'Discount', `-${formatCurrency(discount)}`)
+  }
+  amountLine(layout, 'Total', formatCurrency(total), { bold: true })
+  if (tax.rate > 0) {
+    amountLine(layout, 'Price before tax', formatCurrency(tax.taxBase), { color: MUTED })
+    amountLine(layout, `PPN ${Number((tax.rate * 100).toFixed(2))}% (included)`, formatCurrency(tax.tax), { color: MUTED })
+  }
+  amountLine(layout, 'Paid', formatCurrency(amountPaid))
+  if (total - amountPaid > 0 && reservation.status !== 'cancelled') {
+    amountLine(layout, 'Balance due', formatCurrency(total - amountPaid), { bold: true, color: ORANGE })
+  }
+  layout.advance(14)
+
+  // Payments
+  if (payments.length > 0) {
+    layout.ensureSpace(60)
+    layout.page.text('Payments', MARGIN, layout.y, { size: 9, font: 'bold', color: MUTED })
+    layout.advance(16)
+
+    for (const payment of payments) {
+      const isRefund = payment.payment_kind === 'refund'
+      layout.ensureSpace(16)
+      layout.page.text(format(parseISO(payment.paid_at || payment.transaction_date), 'd MMM yyyy HH:mm'), MARGIN, layout.y)
+      layout.page.text(
+        `${PAYMENT_KIND_LABELS[payment.payment_kind]} · ${PAYMENT_METHOD_LABELS[payment.payment_method]}` +
+        (payment.order_id && !payment.reservation_id ? ' (order)' : ''),
+        160,
+        layout.y
+      )
+      layout.page.text(payment.payment_status, 400, layout.y, { color: MUTED })
+      layout.page.text(`${isRefund ? '-' : ''}${formatCurrency(Number(payment.amount))}`, RIGHT, layout.y, { align: 'right' })
+      layout.advance(16)
+    }
+    layout.advance(10)
+  }
+
+  if (reservation.status === 'cancelled') {
+    layout.ensureSpace(30)
+    layout.page.text(
+      `This booking was cancelled${reservation.cancellation_reason ? `: ${reservation.cancellation_reason}` : '.'}`,
+      MARGIN,
+      layout.y,
+      { color: ORANGE }
+    )
+    layout.advance(20)
+  }
+
+  // Footer on every page
+  layout.pages.forEach((page, i) => {
+    page.line(MARGIN, PAGE_HEIGHT - 55, RIGHT, PAGE_HEIGHT - 55)
+    page.text(
+      tax.rate > 0 ? 'Prices include PPN. Thank you for booking with us.' : 'Thank you for booking with us.',
+      MARGIN,
+      PAGE_HEIGHT - 40,
+      { size: 8, color: MUTED }
+    )
+    page.text(`Page ${i + 1} of ${layout.pages.length}`, RIGHT, PAGE_HEIGHT - 40, { size: 8, align: 'right', color: MUTED })
+  })
+
+  return renderPdf(layout.pages, `${documentType === 'receipt' ? 'Receipt' : 'Invoice'} ${reservation.reservation_code}`)
+}
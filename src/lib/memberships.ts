@@ -0,0 +1,20 @@
+import { differenceInCalendarDays } from 'date-fns'
+import type { FunctionReturns } from '@/types/database'
+
+// Membership tiers give a discount and a longer booking window (see 014_memberships.sql)
+
+export type ActiveMembership = FunctionReturns<'get_active_membership'>[number]
+
+// Same as default_booking_window_days() in SQL
+export const DEFAULT_BOOKING_WINDOW_DAYS = 14
+
+// Members are reminded to renew this many days before their membership ends
+export const MEMBERSHIP_RENEWAL_NOTICE_DAYS = 7
+
+export function getBookingWindowDays(membership?: Pick<ActiveMembership, 'booking_window_days'> | null) {
+  return membership?.booking_window_days ?? DEFAULT_BOOKING_WINDOW_DAYS
+}
+
+export function getMembershipDaysLeft(expiresAt: string, now = new Date()) {
+  return Math.max(differenceInCalendarDays(new Date(expiresAt), now), 0)
+}
@@ -0,0 +1,43 @@
+import { sendMail, type SmtpConfig } from './smtp'
+import { NotificationDeliveryError, type NotificationChannel } from './types'
+
+function getSmtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST
+  const from = process.env.SMTP_FROM
+
+  if (!host || !from) {
+    throw new NotificationDeliveryError('SMTP_HOST and SMTP_FROM must be set for email notifications', false)
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true'
+
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+  }
+}
+
+// Plain-text email over SMTP
+export function createEmailChannel(): NotificationChannel {
+  const config = getSmtpConfig()
+
+  return {
+    name: 'email',
+
+    async send(message, recipient) {
+      if (!recipient.email) return 'skipped'
+
+      await sendMail(config, {
+        to: recipient.email,
+        subject: message.title,
+        text: message.url ? `${message.body}\n\n${message.url}\n` : `${message.body}\n`,
+      })
+
+      return 'sent'
+    },
+  }
+}
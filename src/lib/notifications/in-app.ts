@@ -0,0 +1,30 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NotificationDeliveryError, type NotificationChannel } from './types'
+
+// Writes to the notifications table, which the inbox in the header reads
+export function createInAppChannel(): NotificationChannel {
+  const supabase = createAdminClient()
+
+  return {
+    name: 'in_app',
+
+    async send(message, recipient) {
+      const { error } = await supabase
+        .from('notifications')
+        .insert({
+          user_id: recipient.userId,
+          reservation_id: message.reservationId,
+          event: message.event,
+          title: message.title,
+          body: message.body,
+          link: message.link,
+        })
+
+      if (error) {
+        throw new NotificationDeliveryError(`Failed to save notification: ${error.message}`)
+      }
+
+      return 'sent'
+    },
+  }
+}
@@ -0,0 +1,43 @@
+import { createEmailChannel } from './email'
+import { createInAppChannel } from './in-app'
+import { createConsoleSink, createDisabledChannel, createFileSink } from './sinks'
+import { createWhatsAppChannel } from './whatsapp'
+import { NotificationDeliveryError, type NotificationChannel, type NotificationChannelName } from './types'
+
+export * from './types'
+
+const LIVE_TRANSPORTS: Record<NotificationChannelName, { transport: string, create: () => NotificationChannel }> = {
+  email: { transport: 'smtp', create: createEmailChannel },
+  whatsapp: { transport: 'whatsapp_cloud', create: createWhatsAppChannel },
+  in_app: { transport: 'database', create: createInAppChannel },
+}
+
+// Email and WhatsApp go to the console until a real transport is configured
+const DEFAULT_TRANSPORTS: Record<NotificationChannelName, string> = {
+  email: 'console',
+  whatsapp: 'console',
+  in_app: 'database',
+}
+
+// Transport of a channel, configured with NOTIFICATION_EMAIL_TRANSPORT, NOTIFICATION_WHATSAPP_TRANSPORT
+// and NOTIFICATION_IN_APP_TRANSPORT: its live transport, 'console', 'file' or 'disabled'
+export function getTransportName(channel: NotificationChannelName): string {
+  return process.env[`NOTIFICATION_${channel.toUpperCase()}_TRANSPORT`] || DEFAULT_TRANSPORTS[channel]
+}
+
+export function getNotificationChannel(channel: NotificationChannelName): NotificationChannel {
+  const transport = getTransportName(channel)
+
+  switch (transport) {
+    case LIVE_TRANSPORTS[channel].transport:
+      return LIVE_TRANSPORTS[channel].create()
+    case 'console':
+      return createConsoleSink(channel)
+    case 'file':
+      return createFileSink(channel)
+    case 'disabled':
+      return createDisabledChannel(channel)
+    default:
+      throw new NotificationDeliveryError(`Unknown ${channel} notification transport: ${transport}`, false)
+  }
+}
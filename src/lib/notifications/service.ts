@@ -0,0 +1,199 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getNotificationChannel } from './index'
+import { getNotificationLink, renderTemplate } from './templates'
+import {
+  NotificationDeliveryError,
+  type DeliveryResult,
+  type NotificationChannel,
+  type NotificationChannelName,
+  type NotificationLanguage,
+  type NotificationRecipient,
+} from './types'
+import type { NotificationDelivery, Profile, Reservation, Venue } from '@/types/database'
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+type ReservationWithVenue = Reservation & {
+  venue: Pick<Venue, 'name'> | null
+}
+
+interface SendDueNotificationsInput {
+  // Site origin for links in email and WhatsApp messages
+  origin: string
+  limit?: number
+}
+
+export interface SendDueNotificationsResult {
+  sent: number
+  skipped: number
+  retrying: number
+  failed: number
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 5
+
+// 1, 4, 9, 16 minutes between attempts
+function getRetryDelayMs(attempts: number) {
+  return attempts * attempts * 60_000
+}
+
+// Messages that no longer match the booking: an unpaid-booking message once it
+// is paid or cancelled, a reminder for a booking that isn't going ahead
+function isStale(delivery: NotificationDelivery, reservation: ReservationWithVenue) {
+  switch (delivery.event) {
+    case 'reservation_created':
+    case 'waitlist_offer':
+      return reservation.status !== 'pending'
+    case 'reservation_reminder':
+      return reservation.status !== 'confirmed'
+    default:
+      return false
+  }
+}
+
+async function getReservations(supabase: AdminClient, ids: string[]) {
+  const { data, error } = await supabase
+    .from('reservations')
+    .select(`
+      *,
+      venue:venues(
+        name
+      )
+    `)
+    .in('id', ids)
+
+  if (error) throw error
+
+  return new Map((data as ReservationWithVenue[]).map(reservation => [reservation.id, reservation]))
+}
+
+async function getRecipients(supabase: AdminClient, userIds: string[]) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, phone, preferred_language')
+    .in('id', userIds)
+
+  if (error) throw error
+
+  const recipients = new Map<string, NotificationRecipient>()
+
+  for (const profile of data as Pick<Profile, 'id' | 'full_name' | 'phone' | 'preferred_language'>[]) {
+    // Email addresses live in auth.users, not in profiles
+    const { data: { user } } = await supabase.auth.admin.getUserById(profile.id)
+
+    recipients.set(profile.id, {
+      userId: profile.id,
+      name: profile.full_name,
+      email: user?.email ?? null,
+      phone: profile.phone,
+      language: profile.preferred_language as NotificationLanguage,
+    })
+  }
+
+  return recipients
+}
+
+async function deliver(
+  channel: NotificationChannel,
+  delivery: NotificationDelivery,
+  reservation: ReservationWithVenue,
+  recipient: NotificationRecipient,
+  origin: string
+): Promise<DeliveryResult> {
+  const { title, body } = renderTemplate(delivery.event, recipient.language, {
+    customerName: recipient.name,
+    venueName: reservation.venue?.name ?? '',
+    reservationCode: reservation.reservation_code,
+    reservationDate: reservation.reservation_date,
+    startTime: reservation.start_time,
+    endTime: reservation.end_time,
+    totalPrice: reservation.total_price,
+    cancellationReason: reservation.cancellation_reason,
+    holdExpiresAt: reservation.expires_at,
+  })
+  const link = getNotificationLink(delivery.event, reservation.id)
+
+  return channel.send(
+    {
+      event: delivery.event,
+      reservationId: reservation.id,
+      title,
+      body,
+      link,
+      url: link ? `${origin}${link}` : null,
+    },
+    recipient
+  )
+}
+
+async function updateDelivery(supabase: AdminClient, id: string, update: Partial<NotificationDelivery>) {
+  const { error } = await supabase
+    .from('notification_deliveries')
+    .update(update)
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error updating notification delivery:', error)
+  }
+}
+
+// Sends the notifications that are due. Called every minute by
+// /api/cron/send-notifications; failed deliveries are retried with a growing delay.
+export async function sendDueNotifications({
+  origin,
+  limit = 50,
+}: SendDueNotificationsInput): Promise<SendDueNotificationsResult> {
+  const supabase = createAdminClient()
+  const result: SendDueNotificationsResult = { sent: 0, skipped: 0, retrying: 0, failed: 0 }
+
+  const { data: deliveries, error } = await supabase.rpc('claim_notification_deliveries', { p_limit: limit })
+
+  if (error) throw error
+  if (!deliveries?.length) return result
+
+  const reservationIds = [...new Set(deliveries.flatMap(d => d.reservation_id ? [d.reservation_id] : []))]
+  const reservations = await getReservations(supabase, reservationIds)
+  const recipients = await getRecipients(supabase, [...new Set(deliveries.map(d => d.user_id))])
+  const channels = new Map<NotificationChannelName, NotificationChannel>()
+
+  for (const delivery of deliveries) {
+    const reservation = delivery.reservation_id ? reservations.get(delivery.reservation_id) : undefined
+    const recipient = recipients.get(delivery.user_id)
+
+    try {
+      let outcome: DeliveryResult = 'skipped'
+
+      if (reservation && recipient && !isStale(delivery, reservation)) {
+        const channel = channels.get(delivery.channel) ?? getNotificationChannel(delivery.channel)
+        channels.set(delivery.channel, channel)
+
+        outcome = await deliver(channel, delivery, reservation, recipient, origin)
+      }
+
+      await updateDelivery(supabase, delivery.id, {
+        status: outcome,
+        sent_at: outcome === 'sent' ? new Date().toISOString() : null,
+        last_error: null,
+      })
+      result[outcome] += 1
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      const retryable = !(err instanceof NotificationDeliveryError) || err.retryable
+
+      if (retryable && delivery.attempts < MAX_DELIVERY_ATTEMPTS) {
+        await updateDelivery(supabase, delivery.id, {
+          status: 'pending',
+          scheduled_for: new Date(Date.now() + getRetryDelayMs(delivery.attempts)).toISOString(),
+          last_error: message,
+        })
+        result.retrying += 1
+      } else {
+        console.error(`Notification ${delivery.id} (${delivery.channel}) failed:`, message)
+        await updateDelivery(supabase, delivery.id, { status: 'failed', last_error: message })
+        result.failed += 1
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,79 @@
+import { appendFile } from 'fs/promises'
+import { toWhatsAppNumber } from './whatsapp'
+import type {
+  NotificationChannel,
+  NotificationChannelName,
+  NotificationMessage,
+  NotificationRecipient,
+} from './types'
+
+// Where the real channel would deliver, or null when it would skip the recipient
+function getAddress(channel: NotificationChannelName, recipient: NotificationRecipient) {
+  switch (channel) {
+    case 'email':
+      return recipient.email
+    case 'whatsapp':
+      return recipient.phone ? toWhatsAppNumber(recipient.phone) : null
+    case 'in_app':
+      return recipient.userId
+  }
+}
+
+function toRecord(channel: NotificationChannelName, to: string, message: NotificationMessage, recipient: NotificationRecipient) {
+  return {
+    channel,
+    to,
+    language: recipient.language,
+    event: message.event,
+    title: message.title,
+    body: message.body,
+    url: message.url,
+  }
+}
+
+// Development sinks: they stand in for a channel without sending anything, so
+// templates and triggers can be checked locally and in tests.
+export function createConsoleSink(channel: NotificationChannelName): NotificationChannel {
+  return {
+    name: channel,
+
+    async send(message, recipient) {
+      const to = getAddress(channel, recipient)
+      if (!to) return 'skipped'
+
+      console.info(`[notification:${channel}]`, JSON.stringify(toRecord(channel, to, message, recipient), null, 2))
+
+      return 'sent'
+    },
+  }
+}
+
+// Appends one JSON line per message to NOTIFICATION_LOG_FILE
+export function createFileSink(channel: NotificationChannelName): NotificationChannel {
+  const path = process.env.NOTIFICATION_LOG_FILE || 'notifications.log'
+
+  return {
+    name: channel,
+
+    async send(message, recipient) {
+      const to = getAddress(channel, recipient)
+      if (!to) return 'skipped'
+
+      const record = { sentAt: new Date().toISOString(), ...toRecord(channel, to, message, recipient) }
+      await appendFile(path, `${JSON.stringify(record)}\n`)
+
+      return 'sent'
+    },
+  }
+}
+
+// For channels turned off with NOTIFICATION_<CHANNEL>_TRANSPORT=disabled
+export function createDisabledChannel(channel: NotificationChannelName): NotificationChannel {
+  return {
+    name: channel,
+
+    async send() {
+      return 'skipped'
+    },
+  }
+}
@@ -0,0 +1,200 @@
+import net from 'net'
+import tls from 'tls'
+import { randomUUID } from 'crypto'
+import { NotificationDeliveryError } from './types'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean
+  user?: string
+  password?: string
+  // "Orange Sport Center <no-reply@example.com>" or a bare address
+  from: string
+}
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+interface SmtpResponse {
+  code: number
+  lines: string[]
+}
+
+const TIMEOUT_MS = 30_000
+
+function getAddress(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim()
+}
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+// Base64 bodies need no dot-stuffing and survive servers without 8BITMIME
+function buildMessage(from: string, message: MailMessage) {
+  const domain = getAddress(from).split('@')[1] || 'localhost'
+  const body = Buffer.from(message.text).toString('base64').replace(/.{1,76}/g, '$&\r\n')
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n')
+}
+
+// Minimal SMTP client: one message per connection, AUTH PLAIN, STARTTLS
+class SmtpSession {
+  private socket!: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private waiting: { resolve: (response: SmtpResponse) => void, reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    this.buffer = ''
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')))
+    socket.on('data', (chunk: Buffer) => {
+      const parts = (this.buffer + chunk.toString('utf8')).split('\r\n')
+      this.buffer = parts.pop() ?? ''
+      this.lines.push(...parts)
+      this.flush()
+    })
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error
+    this.waiting?.reject(error)
+    this.waiting = null
+  }
+
+  // A reply is complete at the first line without a continuation dash ("250 OK" vs "250-SIZE")
+  private flush() {
+    if (!this.waiting) return
+
+    const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line))
+    if (last === -1) return
+
+    const lines = this.lines.splice(0, last + 1)
+    const { resolve } = this.waiting
+    this.waiting = null
+    resolve({ code: Number(lines[last].slice(0, 3)), lines })
+  }
+
+  read(): Promise<SmtpResponse> {
+    if (this.failure) return Promise.reject(this.failure)
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpResponse> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`)
+    }
+
+    const response = await this.read()
+
+    if (!expected.includes(response.code)) {
+      // 4xx replies are temporary, 5xx are not worth retrying
+      throw new NotificationDeliveryError(
+        `SMTP ${response.code}: ${response.lines.map(l => l.slice(4)).join(' ')}`,
+        response.code < 500
+      )
+    }
+
+    return response
+  }
+
+  async startTls(host: string) {
+    // The handshake must not reach the line reader of the plain socket
+    this.socket.removeAllListeners('data')
+    this.lines = []
+
+    const secureSocket = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve)
+      secureSocket.once('error', reject)
+    })
+    this.attach(secureSocket)
+  }
+
+  write(data: string) {
+    this.socket.write(data)
+  }
+
+  close() {
+    this.socket.end()
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket))
+    socket.once('error', reject)
+  })
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  let socket: net.Socket
+
+  try {
+    socket = await connect(config)
+  } catch (error) {
+    throw new NotificationDeliveryError(`Could not connect to ${config.host}:${config.port}: ${(error as Error).message}`)
+  }
+
+  const session = new SmtpSession(socket)
+
+  try {
+    await session.command(null, [220])
+    const hello = await session.command('EHLO orange-sport-center', [250])
+
+    if (!config.secure && hello.lines.some(line => line.slice(4).toUpperCase() === 'STARTTLS')) {
+      await session.command('STARTTLS', [220])
+      await session.startTls(config.host)
+      await session.command('EHLO orange-sport-center', [250])
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString('base64')
+      await session.command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await session.command(`MAIL FROM:<${getAddress(config.from)}>`, [250])
+    await session.command(`RCPT TO:<${getAddress(message.to)}>`, [250, 251])
+    await session.command('DATA', [354])
+    session.write(`${buildMessage(config.from, message)}\r\n.\r\n`)
+    await session.command(null, [250])
+    await session.command('QUIT', [221]).catch(() => undefined)
+  } catch (error) {
+    if (error instanceof NotificationDeliveryError) throw error
+    throw new NotificationDeliveryError(`SMTP delivery failed: ${(error as Error).message}`)
+  } finally {
+    session.close()
+  }
+}
@@ -0,0 +1,121 @@
+import { format, parseISO } from 'date-fns'
+import { enUS, id } from 'date-fns/locale'
+import { formatCurrency } from '@/lib/utils'
+import type { NotificationEvent, NotificationLanguage } from './types'
+
+export interface TemplateContext {
+  customerName: string
+  venueName: string
+  reservationCode: string
+  reservationDate: string
+  startTime: string
+  endTime: string
+  totalPrice: number
+  cancellationReason: string | null
+  // When an unpaid booking or waitlist offer stops holding the slot
+  holdExpiresAt: string | null
+}
+
+interface RenderedTemplate {
+  title: string
+  body: string
+}
+
+type Template = (context: TemplateContext) => RenderedTemplate
+
+const LOCALES = { id, en: enUS }
+
+function formatWhen(context: TemplateContext, language: NotificationLanguage) {
+  const date = format(parseISO(context.reservationDate), 'EEEE, d MMMM yyyy', { locale: LOCALES[language] })
+  return `${date}, ${context.startTime.slice(0, 5)} - ${context.endTime.slice(0, 5)}`
+}
+
+function formatHold(context: TemplateContext) {
+  return context.holdExpiresAt ? format(parseISO(context.holdExpiresAt), 'HH:mm') : null
+}
+
+const TEMPLATES: Record<NotificationEvent, Record<NotificationLanguage, Template>> = {
+  reservation_created: {
+    id: (c) => ({
+      title: `Reservasi ${c.reservationCode} menunggu pembayaran`,
+      body: `Halo ${c.customerName}, reservasi ${c.venueName} pada ${formatWhen(c, 'id')} sudah kami catat. ` +
+        `Total ${formatCurrency(c.totalPrice)}.` +
+        (formatHold(c) ? ` Selesaikan pembayaran sebelum pukul ${formatHold(c)} agar slot tidak dilepas.` : ''),
+    }),
+    en: (c) => ({
+      title: `Booking ${c.reservationCode} is awaiting payment`,
+      body: `Hi ${c.customerName}, we have your booking for ${c.venueName} on ${formatWhen(c, 'en')}. ` +
+        `Total ${formatCurrency(c.totalPrice)}.` +
+        (formatHold(c) ? ` Please pay before ${formatHold(c)} or the slot will be released.` : ''),
+    }),
+  },
+  reservation_confirmed: {
+    id: (c) => ({
+      title: `Reservasi ${c.reservationCode} dikonfirmasi`,
+      body: `Halo ${c.customerName}, reservasi ${c.venueName} pada ${formatWhen(c, 'id')} sudah dikonfirmasi. Sampai jumpa!`,
+    }),
+    en: (c) => ({
+      title: `Booking ${c.reservationCode} confirmed`,
+      body: `Hi ${c.customerName}, your booking for ${c.venueName} on ${formatWhen(c, 'en')} is confirmed. See you there!`,
+    }),
+  },
+  reservation_cancelled: {
+    id: (c) => ({
+      title: `Reservasi ${c.reservationCode} dibatalkan`,
+      body: `Halo ${c.customerName}, reservasi ${c.venueName} pada ${formatWhen(c, 'id')} telah dibatalkan.` +
+        (c.cancellationReason ? ` Alasan: ${c.cancellationReason}.` : ''),
+    }),
+    en: (c) => ({
+      title: `Booking ${c.reservationCode} cancelled`,
+      body: `Hi ${c.customerName}, your booking for ${c.venueName} on ${formatWhen(c, 'en')} has been cancelled.` +
+        (c.cancellationReason ? ` Reason: ${c.cancellationReason}.` : ''),
+    }),
+  },
+  reservation_reminder: {
+    id: (c) => ({
+      title: `Pengingat: ${c.venueName} pukul ${c.startTime.slice(0, 5)}`,
+      body: `Halo ${c.customerName}, reservasi ${c.reservationCode} di ${c.venueName} dimulai ${formatWhen(c, 'id')}. ` +
+        'Harap datang 10 menit lebih awal.',
+    }),
+    en: (c) => ({
+      title: `Reminder: ${c.venueName} at ${c.startTime.slice(0, 5)}`,
+      body: `Hi ${c.customerName}, your booking ${c.reservationCode} at ${c.venueName} starts ${formatWhen(c, 'en')}. ` +
+        'Please arrive 10 minutes early.',
+    }),
+  },
+  waitlist_offer: {
+    id: (c) => ({
+      title: `Slot ${c.venueName} tersedia untuk Anda`,
+      body: `Halo ${c.customerName}, slot yang Anda tunggu di ${c.venueName} pada ${formatWhen(c, 'id')} kini tersedia.` +
+        (formatHold(c) ? ` Kami menahannya untuk Anda hingga pukul ${formatHold(c)}.` : '') +
+        ` Bayar ${formatCurrency(c.totalPrice)} untuk memesannya.`,
+    }),
+    en: (c) => ({
+      title: `A slot at ${c.venueName} is free for you`,
+      body: `Hi ${c.customerName}, the time you were waiting for at ${c.venueName} on ${formatWhen(c, 'en')} is free.` +
+        (formatHold(c) ? ` We are holding it for you until ${formatHold(c)}.` : '') +
+        ` Pay ${formatCurrency(c.totalPrice)} to book it.`,
+    }),
+  },
+}
+
+export function renderTemplate(
+  event: NotificationEvent,
+  language: NotificationLanguage,
+  context: TemplateContext
+): RenderedTemplate {
+  return TEMPLATES[event][language](context)
+}
+
+// Where the customer can act on the notification
+export function getNotificationLink(event: NotificationEvent, reservationId: string | null): string | null {
+  if (!reservationId) return null
+
+  switch (event) {
+    case 'reservation_created':
+    case 'waitlist_offer':
+      return `/booking/confirmation/${reservationId}`
+    default:
+      return '/bookings'
+  }
+}
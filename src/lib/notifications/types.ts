@@ -0,0 +1,41 @@
+import type { Enums } from '@/types/database'
+
+export type NotificationEvent = Enums<'notification_event'>
+
+export type NotificationChannelName = Enums<'notification_channel'>
+
+export type NotificationLanguage = 'id' | 'en'
+
+export interface NotificationRecipient {
+  userId: string
+  name: string
+  email: string | null
+  phone: string | null
+  language: NotificationLanguage
+}
+
+export interface NotificationMessage {
+  event: NotificationEvent
+  reservationId: string | null
+  title: string
+  body: string
+  // Path inside the app, e.g. /bookings
+  link: string | null
+  // The same link with the site origin, for messages read outside the app
+  url: string | null
+}
+
+// 'skipped' when the recipient can't be reached on the channel (no phone number, channel disabled)
+export type DeliveryResult = 'sent' | 'skipped'
+
+export interface NotificationChannel {
+  name: NotificationChannelName
+  send(message: NotificationMessage, recipient: NotificationRecipient): Promise<DeliveryResult>
+}
+
+export class NotificationDeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message)
+    this.name = 'NotificationDeliveryError'
+  }
+}
@@ -0,0 +1,91 @@
+import { NotificationDeliveryError, type NotificationChannel, type NotificationLanguage } from './types'
+
+const TEMPLATE_LANGUAGES: Record<NotificationLanguage, string> = {
+  id: 'id',
+  en: 'en_US',
+}
+
+// WhatsApp wants the number with its country code and no "+": 0812... -> 62812...
+export function toWhatsAppNumber(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '')
+
+  if (digits.length < 8) return null
+
+  return digits.startsWith('0') ? `62${digits.slice(1)}` : digits
+}
+
+// WhatsApp Business (Cloud API). Free-form text only reaches customers who have
+// messaged us in the last 24 hours, so production setups should set
+// WHATSAPP_TEMPLATE_NAME to an approved template taking the title and body as {{1}} and {{2}}.
+export function createWhatsAppChannel(): NotificationChannel {
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID
+  const accessToken = process.env.WHATSAPP_TOKEN
+  const apiVersion = process.env.WHATSAPP_API_VERSION || 'v21.0'
+  const templateName = process.env.WHATSAPP_TEMPLATE_NAME
+
+  if (!phoneNumberId || !accessToken) {
+    throw new NotificationDeliveryError(
+      'WHATSAPP_PHONE_NUMBER_ID and WHATSAPP_TOKEN must be set for WhatsApp notifications',
+      false
+    )
+  }
+
+  return {
+    name: 'whatsapp',
+
+    async send(message, recipient) {
+      const to = recipient.phone ? toWhatsAppNumber(recipient.phone) : null
+      if (!to) return 'skipped'
+
+      const body = message.url ? `${message.body}\n\n${message.url}` : message.body
+      const payload = templateName
+        ? {
+            messaging_product: 'whatsapp',
+            to,
+            type: 'template',
+            template: {
+              name: templateName,
+              language: { code: TEMPLATE_LANGUAGES[recipient.language] },
+              components: [{
+                type: 'body',
+                parameters: [
+                  { type: 'text', text: message.title },
+                  { type: 'text', text: body },
+                ],
+              }],
+            },
+          }
+        : {
+            messaging_product: 'whatsapp',
+            to,
+            type: 'text',
+            text: { body: `*${message.title}*\n\n${body}` },
+          }
+
+      let response: Response
+      try {
+        response = await fetch(`https://graph.facebook.com/${apiVersion}/${phoneNumberId}/messages`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(payload),
+        })
+      } catch (error) {
+        throw new NotificationDeliveryError(`WhatsApp API unreachable: ${(error as Error).message}`)
+      }
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null) as { error?: { message?: string } } | null
+        // Rate limits and server errors are worth another try, other client errors are not
+        throw new NotificationDeliveryError(
+          `WhatsApp API ${response.status}: ${result?.error?.message || response.statusText}`,
+          response.status === 429 || response.status >= 500
+        )
+      }
+
+      return 'sent'
+    },
+  }
+}
@@ -0,0 +1,67 @@
+import { timeToMinutes } from '@/lib/pricing/engine'
+import type { FunctionReturns, VenueOperatingHours } from '@/types/database'
+
+// Weekly opening hours of a venue and overrides for single dates (see 026_operating_hours.sql).
+// Bookable slots are cut from the opening periods by get_venue_day_slots(); venue_time_slots
+// only set the price multiplier of each time of day.
+
+// A slot from get_venue_day_slots(); slot_id is the price band it starts in
+export type VenueDaySlot = FunctionReturns<'get_venue_day_slots'>[number]
+
+// One opening period of a day from get_venue_opening_hours()
+export type DayOpeningPeriod = FunctionReturns<'get_venue_opening_hours'>[number]
+
+export type OpeningPeriod = Pick<VenueOperatingHours, 'open_time' | 'close_time'>
+
+// Indexed by day_of_week, which counts like EXTRACT(DOW): 0 is Sunday
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Days in the order the week is shown, Monday first
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+// The hours seed_venue_operating_hours() gives a new venue
+export const DEFAULT_OPENING_PERIOD: OpeningPeriod = { open_time: '06:00', close_time: '23:00' }
+
+// Time inputs can't go past 23:59, so 00:00 as a closing time means midnight
+export function toClosingTime(time: string) {
+  return time === '00:00' ? '24:00' : time
+}
+
+export function fromClosingTime(time: string) {
+  return time.startsWith('24:') ? '00:00' : time.slice(0, 5)
+}
+
+// e.g. "06:00 - 11:30, 13:00 - 24:00" or "Closed"
+export function formatOpeningPeriods(periods: OpeningPeriod[]) {
+  if (periods.length === 0) return 'Closed'
+
+  return [...periods]
+    .sort((a, b) => a.open_time.localeCompare(b.open_time))
+    .map(period => `${period.open_time.slice(0, 5)} - ${period.close_time.slice(0, 5)}`)
+    .join(', ')
+}
+
+// Whether any two periods of a day overlap; touching ends don't
+export function hasOverlappingPeriods(periods: OpeningPeriod[]) {
+  const sorted = [...periods].sort((a, b) => timeToMinutes(a.open_time) - timeToMinutes(b.open_time))
+
+  return sorted.some((period, index) =>
+    index > 0 && timeToMinutes(period.open_time) < timeToMinutes(sorted[index - 1].close_time)
+  )
+}
+
+// Minutes of the day the venue is closed, between and around its opening periods
+export function getClosedPeriods(periods: OpeningPeriod[]) {
+  const closed: { start: number, end: number }[] = []
+  let cursor = 0
+
+  for (const period of [...periods].sort((a, b) => timeToMinutes(a.open_time) - timeToMinutes(b.open_time))) {
+    const open = timeToMinutes(period.open_time)
+    if (open > cursor) closed.push({ start: cursor, end: open })
+    cursor = Math.max(cursor, timeToMinutes(period.close_time))
+  }
+
+  if (cursor < 24 * 60) closed.push({ start: cursor, end: 24 * 60 })
+
+  return closed
+}
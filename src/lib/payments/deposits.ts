@@ -0,0 +1,8 @@
+// Same as minimum_deposit_percentage() in SQL: a first payment has to cover this share
+// of the total before the booking is confirmed
+export const MINIMUM_DEPOSIT_PERCENTAGE = 50
+
+// Same as minimum_deposit() in SQL, in whole rupiah
+export function getMinimumDeposit(total: number) {
+  return Math.ceil(total * MINIMUM_DEPOSIT_PERCENTAGE / 100)
+}
@@ -0,0 +1,38 @@
+import { createMidtransProvider } from './midtrans'
+import { createMockProvider } from './mock'
+import { PaymentGatewayError, type PaymentProvider, type PaymentProviderName } from './types'
+
+export * from './types'
+
+const PROVIDERS: Record<PaymentProviderName, () => PaymentProvider> = {
+  midtrans: createMidtransProvider,
+  mock: createMockProvider,
+}
+
+export function isPaymentProviderName(name: string): name is PaymentProviderName {
+  return name in PROVIDERS
+}
+
+// Provider used for new charges, configured with PAYMENT_PROVIDER. Outside production it
+// defaults to the local mock; production has no default.
+export function getDefaultProviderName(): PaymentProviderName {
+  const name = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'mock')
+
+  if (!name) {
+    throw new PaymentGatewayError('Missing payment provider', 500)
+  }
+
+  if (!isPaymentProviderName(name)) {
+    throw new PaymentGatewayError(`Unknown payment provider: ${name}`, 500)
+  }
+
+  return name
+}
+
+export function getPaymentProvider(name: string = getDefaultProviderName()): PaymentProvider {
+  if (!isPaymentProviderName(name)) {
+    throw new PaymentGatewayError(`Unknown payment provider: ${name}`, 404)
+  }
+
+  return PROVIDERS[name]()
+}
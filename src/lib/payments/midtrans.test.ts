@@ -0,0 +1,75 @@
+import { createHash } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMidtransProvider } from './midtrans'
+
+const SERVER_KEY = 'test-server-key'
+
+function notify(values: Record<string, string>) {
+  const notification = {
+    order_id: 'payment-1',
+    status_code: '200',
+    gross_amount: '100000.00',
+    transaction_id: 'tx-1',
+    ...values,
+  }
+  const signature_key = createHash('sha512')
+    .update(`${notification.order_id}${notification.status_code}${notification.gross_amount}${SERVER_KEY}`)
+    .digest('hex')
+
+  return { rawBody: JSON.stringify({ ...notification, signature_key }), headers: new Headers() }
+}
+
+// What GET /v2/{order_id}/status answers
+function mockStatus(transaction: Record<string, string>) {
+  const fetchMock = vi.fn(async () => Response.json({ status_code: '200', order_id: 'payment-1', ...transaction }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('Midtrans handleWebhook', () => {
+  beforeEach(() => {
+    vi.stubEnv('MIDTRANS_SERVER_KEY', SERVER_KEY)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('takes the status from the status API, not the notification', async () => {
+    const fetchMock = mockStatus({ transaction_status: 'pending', gross_amount: '100000.00' })
+
+    const event = await createMidtransProvider().handleWebhook(notify({ transaction_status: 'settlement' }))
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.sandbox.midtrans.com/v2/payment-1/status',
+      expect.anything()
+    )
+    expect(event.status).toBe('pending')
+  })
+
+  it('reports the verified amount of a settled charge', async () => {
+    mockStatus({ transaction_status: 'settlement', gross_amount: '100000.00', payment_type: 'qris' })
+
+    const event = await createMidtransProvider().handleWebhook(notify({ transaction_status: 'settlement' }))
+
+    expect(event).toMatchObject({ status: 'completed', paymentMethod: 'e_wallet', amount: 100000 })
+  })
+
+  it('refuses a notification whose amount differs from the transaction', async () => {
+    mockStatus({ transaction_status: 'settlement', gross_amount: '100000.00' })
+
+    await expect(createMidtransProvider().handleWebhook(notify({ gross_amount: '1.00' })))
+      .rejects.toThrow('Notification amount does not match the transaction')
+  })
+
+  it('refuses an unsigned notification without asking the API', async () => {
+    const fetchMock = mockStatus({ transaction_status: 'settlement', gross_amount: '100000.00' })
+    const request = notify({ transaction_status: 'settlement' })
+    const body = { ...JSON.parse(request.rawBody), signature_key: 'forged' }
+
+    await expect(createMidtransProvider().handleWebhook({ ...request, rawBody: JSON.stringify(body) }))
+      .rejects.toThrow('Invalid webhook signature')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,232 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import {
+  PaymentGatewayError,
+  PaymentSignatureError,
+  type ChargeStatusResult,
+  type PaymentProvider,
+  type ProviderPaymentStatus,
+} from './types'
+import type { Payment } from '@/types/database'
+
+interface MidtransTransaction {
+  status_code: string
+  status_message?: string
+  transaction_id?: string
+  order_id: string
+  gross_amount?: string
+  transaction_status?: string
+  fraud_status?: string
+  payment_type?: string
+  signature_key?: string
+}
+
+function mapTransactionStatus(transactionStatus?: string, fraudStatus?: string): ProviderPaymentStatus {
+  switch (transactionStatus) {
+    case 'capture':
+      return fraudStatus === 'challenge' ? 'pending' : 'completed'
+    case 'settlement':
+    case 'partial_refund':
+      return 'completed'
+    case 'deny':
+    case 'failure':
+      return 'failed'
+    case 'cancel':
+    case 'expire':
+      return 'cancelled'
+    case 'refund':
+      return 'refunded'
+    default:
+      return 'pending'
+  }
+}
+
+function mapPaymentType(paymentType?: string): Payment['payment_method'] | undefined {
+  switch (paymentType) {
+    case 'credit_card':
+      return 'credit_card'
+    case 'bank_transfer':
+    case 'echannel':
+    case 'permata':
+      return 'bank_transfer'
+    case 'gopay':
+    case 'shopeepay':
+    case 'qris':
+      return 'e_wallet'
+    case 'cstore':
+      return 'cash'
+    default:
+      return undefined
+  }
+}
+
+// Snap payment channels offered for each of our payment methods
+const ENABLED_PAYMENTS: Record<Payment['payment_method'], string[]> = {
+  credit_card: ['credit_card'],
+  bank_transfer: ['bca_va', 'bni_va', 'bri_va', 'permata_va', 'echannel'],
+  e_wallet: ['gopay', 'shopeepay', 'qris'],
+  cash: ['indomaret', 'alfamart'],
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+// Midtrans (Snap) implementation. Xendit and similar gateways follow the same
+// charge -> redirect -> signed notification flow and can be added alongside.
+export function createMidtransProvider(): PaymentProvider {
+  const serverKey = process.env.MIDTRANS_SERVER_KEY
+  const isProduction = process.env.MIDTRANS_IS_PRODUCTION === 'true'
+
+  if (!serverKey) {
+    throw new PaymentGatewayError('Missing Midtrans server key', 500)
+  }
+
+  const snapUrl = isProduction ? 'https://app.midtrans.com' : 'https://app.sandbox.midtrans.com'
+  const apiUrl = isProduction ? 'https://api.midtrans.com' : 'https://api.sandbox.midtrans.com'
+  const authorization = `Basic ${Buffer.from(`${serverKey}:`).toString('base64')}`
+
+  async function request<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: authorization,
+      },
+    })
+
+    const body = await response.json().catch(() => null)
+
+    if (!response.ok || !body) {
+      const message = body?.error_messages?.join(', ') || body?.status_message || response.statusText
+      throw new PaymentGatewayError(`Midtrans request failed: ${message}`)
+    }
+
+    return body as T
+  }
+
+  async function queryStatus(providerReference: string): Promise<ChargeStatusResult> {
+    const transaction = await request<MidtransTransaction>(
+      `${apiUrl}/v2/${encodeURIComponent(providerReference)}/status`
+    )
+
+    return {
+      providerReference,
+      status: mapTransactionStatus(transaction.transaction_status, transaction.fraud_status),
+      paymentMethod: mapPaymentType(transaction.payment_type),
+      amount: transaction.gross_amount ? Number(transaction.gross_amount) : undefined,
+    }
+  }
+
+  return {
+    name: 'midtrans',
+
+    async createCharge(input) {
+      const snap = await request<{ token: string; redirect_url: string }>(
+        `${snapUrl}/snap/v1/transactions`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            transaction_details: {
+              order_id: input.orderId,
+              gross_amount: Math.round(input.amount),
+            },
+            enabled_payments: ENABLED_PAYMENTS[input.paymentMethod],
+            item_details: [{
+              id: input.orderId,
+              name: input.description.slice(0, 50),
+              price: Math.round(input.amount),
+              quantity: 1,
+            }],
+            customer_details: {
+              first_name: input.customer.name,
+              email: input.customer.email || undefined,
+              phone: input.customer.phone || undefined,
+            },
+            callbacks: {
+              finish: input.returnUrl,
+            },
+            expiry: input.expiresAt && {
+              unit: 'minute',
+              duration: Math.max(1, Math.floor((input.expiresAt.getTime() - Date.now()) / 60_000)),
+            },
+          }),
+        }
+      )
+
+      return {
+        providerReference: input.orderId,
+        status: 'pending',
+        checkoutUrl: snap.redirect_url,
+      }
+    },
+
+    async handleWebhook({ rawBody }) {
+      let notification: MidtransTransaction
+
+      try {
+        notification = JSON.parse(rawBody)
+      } catch {
+        throw new PaymentGatewayError('Invalid notification payload', 400)
+      }
+
+      const { order_id, status_code, gross_amount, signature_key } = notification
+      if (!order_id || !status_code || !gross_amount || !signature_key) {
+        throw new PaymentSignatureError()
+      }
+
+      // signature_key = SHA512(order_id + status_code + gross_amount + server_key)
+      const expected = createHash('sha512')
+        .update(`${order_id}${status_code}${gross_amount}${serverKey}`)
+        .digest('hex')
+
+      if (!safeEqual(expected, signature_key)) {
+        throw new PaymentSignatureError()
+      }
+
+      // The signature doesn't cover transaction_status or fraud_status, so the status
+      // comes from the status API rather than from the notification
+      const verified = await queryStatus(order_id)
+
+      if (verified.amount !== Number(gross_amount)) {
+        throw new PaymentGatewayError('Notification amount does not match the transaction', 400)
+      }
+
+      return {
+        eventId: `${notification.transaction_id || order_id}:${notification.transaction_status}:${status_code}`,
+        providerReference: order_id,
+        status: verified.status,
+        paymentMethod: verified.paymentMethod,
+        amount: verified.amount,
+        payload: notification as unknown as Record<string, unknown>,
+      }
+    },
+
+    async refund(input) {
+      const result = await request<MidtransTransaction>(
+        `${apiUrl}/v2/${encodeURIComponent(input.providerReference)}/refund`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            refund_key: input.refundId,
+            amount: Math.round(input.amount),
+            reason: input.reason,
+          }),
+        }
+      )
+
+      if (result.status_code !== '200') {
+        throw new PaymentGatewayError(`Midtrans refund failed: ${result.status_message || result.status_code}`)
+      }
+
+      return {
+        providerReference: input.providerReference,
+        status: 'completed',
+      }
+    },
+
+    queryStatus,
+  }
+}
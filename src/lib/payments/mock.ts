@@ -0,0 +1,135 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import {
+  PaymentGatewayError,
+  PaymentSignatureError,
+  type PaymentProvider,
+  type ProviderPaymentStatus,
+} from './types'
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature'
+
+interface MockCharge {
+  amount: number
+  refunded: number
+  status: ProviderPaymentStatus
+}
+
+interface MockNotification {
+  event_id: string
+  reference: string
+  status: ProviderPaymentStatus
+}
+
+// Kept on globalThis so charges survive module reloads in development
+const globalForMock = globalThis as unknown as { mockPaymentCharges?: Map<string, MockCharge> }
+const charges = globalForMock.mockPaymentCharges ??= new Map<string, MockCharge>()
+
+// No built-in fallback: a secret in the source would let anyone sign callbacks
+function getSecret() {
+  const secret = process.env.MOCK_PAYMENT_SECRET
+
+  if (!secret) {
+    throw new PaymentGatewayError('Missing mock payment secret', 500)
+  }
+
+  return secret
+}
+
+export function signMockPayload(rawBody: string) {
+  return createHmac('sha256', getSecret()).update(rawBody).digest('hex')
+}
+
+// Builds a signed callback the way a real gateway would deliver it
+export function buildMockWebhook(reference: string, status: ProviderPaymentStatus) {
+  const notification: MockNotification = {
+    event_id: randomUUID(),
+    reference,
+    status,
+  }
+  const rawBody = JSON.stringify(notification)
+
+  return {
+    rawBody,
+    headers: new Headers({ [MOCK_SIGNATURE_HEADER]: signMockPayload(rawBody) }),
+  }
+}
+
+// Fully local provider for development and tests: no network calls, payments
+// are settled with signed callbacks from /api/payments/mock/simulate.
+// Never available in production, where it would let anyone mark bookings paid.
+export function createMockProvider(): PaymentProvider {
+  if (process.env.NODE_ENV === 'production') {
+    throw new PaymentGatewayError('Unknown payment provider: mock', 404)
+  }
+
+  getSecret()
+
+  return {
+    name: 'mock',
+
+    async createCharge(input) {
+      const providerReference = `mock_${input.orderId}`
+      charges.set(providerReference, { amount: input.amount, refunded: 0, status: 'pending' })
+
+      return {
+        providerReference,
+        status: 'pending',
+        checkoutUrl: null,
+      }
+    },
+
+    async handleWebhook({ rawBody, headers }) {
+      const signature = headers.get(MOCK_SIGNATURE_HEADER) || ''
+      const expected = Buffer.from(signMockPayload(rawBody))
+      const received = Buffer.from(signature)
+
+      if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+        throw new PaymentSignatureError()
+      }
+
+      const notification = JSON.parse(rawBody) as MockNotification
+      const charge = charges.get(notification.reference)
+      if (charge) {
+        charge.status = notification.status
+      }
+
+      return {
+        eventId: notification.event_id,
+        providerReference: notification.reference,
+        status: notification.status,
+        amount: charge?.amount,
+        payload: notification as unknown as Record<string, unknown>,
+      }
+    },
+
+    async refund(input) {
+      const charge = charges.get(input.providerReference)
+
+      if (charge && charge.refunded + input.amount > charge.amount) {
+        throw new PaymentGatewayError('Refund exceeds the charged amount', 400)
+      }
+
+      if (charge) {
+        charge.refunded += input.amount
+        if (charge.refunded >= charge.amount) {
+          charge.status = 'refunded'
+        }
+      }
+
+      return {
+        providerReference: input.providerReference,
+        status: 'completed',
+      }
+    },
+
+    async queryStatus(providerReference) {
+      const charge = charges.get(providerReference)
+
+      return {
+        providerReference,
+        status: charge?.status || 'pending',
+        amount: charge?.amount,
+      }
+    },
+  }
+}
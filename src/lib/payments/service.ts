@@ -0,0 +1,645 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getPaymentProvider } from './index'
+import { getMinimumDeposit, MINIMUM_DEPOSIT_PERCENTAGE } from './deposits'
+import {
+  PaymentGatewayError,
+  type PaymentProvider,
+  type ProviderPaymentStatus,
+  type WebhookRequest,
+} from './types'
+import type { Json, Payment } from '@/types/database'
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+interface CreateReservationChargeInput {
+  reservationId: string
+  paymentMethod: Payment['payment_method']
+  // Defaults to the outstanding balance; a smaller amount is taken as a deposit or instalment
+  amount?: number
+  createdBy: string
+  origin: string
+}
+
+interface CreateOrderChargeInput {
+  orderId: string
+  paymentMethod: Payment['payment_method']
+  amount?: number
+  createdBy: string
+  origin: string
+}
+
+interface RefundPaymentInput {
+  paymentId: string
+  amount?: number
+  reason?: string
+  createdBy: string
+}
+
+interface SubmitPendingRefundsInput {
+  reservationId: string
+}
+
+interface RefundOverpaymentInput {
+  reservationId: string
+  reason?: string
+  createdBy: string
+}
+
+async function getPayment(supabase: AdminClient, paymentId: string): Promise<Payment> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('id', paymentId)
+    .single()
+
+  if (error || !data) {
+    throw new PaymentGatewayError('Payment not found', 404)
+  }
+
+  return data as Payment
+}
+
+// Applies a status reported by the provider. Only pending charges move; repeated
+// or out-of-order reports for a settled payment are ignored.
+async function applyProviderStatus(
+  supabase: AdminClient,
+  payment: Payment,
+  status: ProviderPaymentStatus,
+  paymentMethod?: Payment['payment_method']
+): Promise<Payment> {
+  if (payment.payment_status !== 'pending' || status === 'pending' || status === 'refunded') {
+    return payment
+  }
+
+  const { data, error } = await supabase
+    .from('payments')
+    .update({
+      payment_status: status,
+      payment_method: paymentMethod || payment.payment_method,
+      paid_at: status === 'completed' ? new Date().toISOString() : null,
+    })
+    .eq('id', payment.id)
+    .eq('payment_status', 'pending')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw new PaymentGatewayError(`Failed to update payment: ${error.message}`, 500)
+  }
+
+  // Another callback settled the payment first
+  return (data as Payment | null) || getPayment(supabase, payment.id)
+}
+
+// Gateways are charged in whole rupiah (see createCharge in midtrans.ts), so compare rounded amounts
+function matchesChargedAmount(payment: Payment, amount?: number) {
+  return amount === undefined || Math.round(payment.amount) === Math.round(amount)
+}
+
+interface ChargeDetails {
+  description: string
+  customer: { full_name: string; phone: string | null } | null
+  returnUrl: string
+  expiresAt?: Date
+}
+
+// Same as maximum_reservation_hold() in SQL
+const MAXIMUM_RESERVATION_HOLD_MS = 60 * 60 * 1000
+
+// Latest a pending booking stays held while its charge is in progress. The charge expires
+// then, so it can't be paid once the booking has been cancelled.
+function getHoldDeadline(reservation: { created_at: string | null; expires_at: string | null }) {
+  const capped = new Date(reservation.created_at ?? Date.now()).getTime() + MAXIMUM_RESERVATION_HOLD_MS
+  const expires = reservation.expires_at ? new Date(reservation.expires_at).getTime() : 0
+
+  return new Date(Math.max(capped, expires))
+}
+
+// Sends a new pending payment to the provider. The payment is marked failed if the
+// provider rejects it.
+async function startProviderCharge(
+  supabase: AdminClient,
+  provider: PaymentProvider,
+  payment: Payment,
+  details: ChargeDetails
+): Promise<Payment> {
+  try {
+    const charge = await provider.createCharge({
+      orderId: payment.id,
+      amount: payment.amount,
+      paymentMethod: payment.payment_method,
+      description: details.description,
+      customer: {
+        name: details.customer?.full_name || 'Customer',
+        phone: details.customer?.phone,
+      },
+      returnUrl: details.returnUrl,
+      expiresAt: details.expiresAt,
+    })
+
+    const { data: updated, error: updateError } = await supabase
+      .from('payments')
+      .update({
+        provider_reference: charge.providerReference,
+        checkout_url: charge.checkoutUrl,
+      })
+      .eq('id', payment.id)
+      .select('*')
+      .single()
+
+    if (updateError || !updated) {
+      throw new PaymentGatewayError(`Failed to save charge: ${updateError?.message}`, 500)
+    }
+
+    return applyProviderStatus(supabase, updated as Payment, charge.status)
+  } catch (err) {
+    await supabase
+      .from('payments')
+      .update({
+        payment_status: 'failed',
+        notes: err instanceof Error ? err.message : 'Charge failed',
+      })
+      .eq('id', payment.id)
+
+    throw err
+  }
+}
+
+// Sends a pending refund row to the provider that took the charge
+async function submitRefund(
+  supabase: AdminClient,
+  refund: Payment,
+  charge: Payment,
+  reason?: string
+): Promise<Payment> {
+  // Payments recorded by staff (cash, manual transfer) are refunded outside any gateway
+  if (!charge.provider || !charge.provider_reference) {
+    return applyProviderStatus(supabase, refund, 'completed')
+  }
+
+  try {
+    const result = await getPaymentProvider(charge.provider).refund({
+      providerReference: charge.provider_reference,
+      refundId: refund.id,
+      amount: refund.amount,
+      reason,
+    })
+
+    return applyProviderStatus(supabase, refund, result.status)
+  } catch (err) {
+    await applyProviderStatus(supabase, refund, 'failed')
+    throw err
+  }
+}
+
+function getPaymentKind(amount: number, outstanding: number, amountPaid: number): Payment['payment_kind'] {
+  return amountPaid > 0
+    ? 'partial'
+    : amount < outstanding ? 'deposit' : 'full'
+}
+
+// Until the minimum deposit is in, a payment has to reach it (or clear the balance), so a
+// token amount can't confirm a booking and hold the court
+function assertMinimumDeposit(amount: number, total: number, amountPaid: number) {
+  const depositDue = getMinimumDeposit(total) - amountPaid
+
+  if (amount < total - amountPaid && amount < depositDue) {
+    throw new PaymentGatewayError(`Pay at least ${MINIMUM_DEPOSIT_PERCENTAGE}% of the total to secure the booking`, 400)
+  }
+}
+
+export async function createReservationCharge(input: CreateReservationChargeInput): Promise<Payment> {
+  const supabase = createAdminClient()
+  const provider = getPaymentProvider()
+
+  const { data: reservation, error } = await supabase
+    .from('reservations')
+    .select(`
+      id,
+      reservation_code,
+      user_id,
+      status,
+      total_price,
+      amount_paid,
+      created_at,
+      expires_at,
+      user:profiles!reservations_user_id_fkey(
+        full_name,
+        phone
+      ),
+      venue:venues(
+        name
+      )
+    `)
+    .eq('id', input.reservationId)
+    .single()
+
+  if (error || !reservation) {
+    throw new PaymentGatewayError('Reservation not found', 404)
+  }
+
+  if (reservation.status === 'cancelled' || reservation.status === 'completed') {
+    throw new PaymentGatewayError(`Cannot pay for a ${reservation.status} reservation`, 409)
+  }
+
+  if (reservation.status === 'pending' && reservation.expires_at && new Date(reservation.expires_at) <= new Date()) {
+    throw new PaymentGatewayError('The booking hold has expired. Please make a new booking.', 409)
+  }
+
+  const amountPaid = Number(reservation.amount_paid)
+  const outstanding = Number(reservation.total_price) - amountPaid
+
+  if (outstanding <= 0) {
+    throw new PaymentGatewayError('This reservation is already paid', 409)
+  }
+
+  const amount = input.amount ?? outstanding
+  if (amount > outstanding) {
+    throw new PaymentGatewayError('Amount exceeds the outstanding balance', 400)
+  }
+
+  assertMinimumDeposit(amount, Number(reservation.total_price), amountPaid)
+
+  const paymentKind = getPaymentKind(amount, outstanding, amountPaid)
+
+  // Reuse an open charge for the same amount so double submits don't create duplicates
+  const { data: existing } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('reservation_id', reservation.id)
+    .eq('provider', provider.name)
+    .eq('payment_status', 'pending')
+    .eq('payment_method', input.paymentMethod)
+    .eq('amount', amount)
+    .neq('payment_kind', 'refund')
+    .not('provider_reference', 'is', null)
+    .limit(1)
+    .maybeSingle()
+
+  if (existing) {
+    return existing as Payment
+  }
+
+  const { data: payment, error: insertError } = await supabase
+    .from('payments')
+    .insert({
+      reservation_id: reservation.id,
+      user_id: reservation.user_id,
+      payment_kind: paymentKind,
+      amount,
+      payment_method: input.paymentMethod,
+      provider: provider.name,
+      created_by: input.createdBy,
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !payment) {
+    throw new PaymentGatewayError(`Failed to create payment: ${insertError?.message}`, 500)
+  }
+
+  const user = reservation.user as unknown as ChargeDetails['customer']
+  const venue = reservation.venue as unknown as { name: string } | null
+
+  return startProviderCharge(supabase, provider, payment as Payment, {
+    description: `${venue?.name || 'Booking'} ${reservation.reservation_code}`,
+    customer: user,
+    returnUrl: `${input.origin}/booking/confirmation/${reservation.id}`,
+    expiresAt: reservation.status === 'pending' ? getHoldDeadline(reservation) : undefined,
+  })
+}
+
+// One charge for every booking in a cart checkout (see 016_booking_orders.sql)
+export async function createOrderCharge(input: CreateOrderChargeInput): Promise<Payment> {
+  const supabase = createAdminClient()
+  const provider = getPaymentProvider()
+
+  const { data: order, error } = await supabase
+    .from('booking_orders')
+    .select(`
+      id,
+      order_code,
+      user_id,
+      user:profiles!booking_orders_user_id_fkey(
+        full_name,
+        phone
+      ),
+      reservations(
+        status,
+        total_price,
+        amount_paid,
+        created_at,
+        expires_at
+      )
+    `)
+    .eq('id', input.orderId)
+    .single()
+
+  if (error || !order || order.reservations.length === 0) {
+    throw new PaymentGatewayError('Order not found', 404)
+  }
+
+  if (order.reservations.some(r => r.status === 'cancelled' || r.status === 'completed')) {
+    throw new PaymentGatewayError('Some bookings in this order are no longer open. Please pay for the others one by one.', 409)
+  }
+
+  const now = new Date()
+  if (order.reservations.some(r => r.status === 'pending' && r.expires_at && new Date(r.expires_at) <= now)) {
+    throw new PaymentGatewayError('The booking hold has expired. Please make a new booking.', 409)
+  }
+
+  const amountPaid = order.reservations.reduce((sum, r) => sum + Number(r.amount_paid), 0)
+  const outstanding = order.reservations.reduce((sum, r) => sum + Number(r.total_price), 0) - amountPaid
+
+  if (outstanding <= 0) {
+    throw new PaymentGatewayError('This order is already paid', 409)
+  }
+
+  const amount = input.amount ?? outstanding
+  if (amount > outstanding) {
+    throw new PaymentGatewayError('Amount exceeds the outstanding balance', 400)
+  }
+
+  assertMinimumDeposit(amount, outstanding + amountPaid, amountPaid)
+
+  const { data: existing } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('order_id', order.id)
+    .eq('provider', provider.name)
+    .eq('payment_status', 'pending')
+    .eq('payment_method', input.paymentMethod)
+    .eq('amount', amount)
+    .neq('payment_kind', 'refund')
+    .not('provider_reference', 'is', null)
+    .limit(1)
+    .maybeSingle()
+
+  if (existing) {
+    return existing as Payment
+  }
+
+  const { data: payment, error: insertError } = await supabase
+    .from('payments')
+    .insert({
+      order_id: order.id,
+      user_id: order.user_id,
+      payment_kind: getPaymentKind(amount, outstanding, amountPaid),
+      amount,
+      payment_method: input.paymentMethod,
+      provider: provider.name,
+      created_by: input.createdBy,
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !payment) {
+    throw new PaymentGatewayError(`Failed to create payment: ${insertError?.message}`, 500)
+  }
+
+  const holdDeadlines = order.reservations
+    .filter(r => r.status === 'pending')
+    .map(r => getHoldDeadline(r).getTime())
+
+  return startProviderCharge(supabase, provider, payment as Payment, {
+    description: `Order ${order.order_code} (${order.reservations.length} bookings)`,
+    customer: order.user as unknown as ChargeDetails['customer'],
+    returnUrl: `${input.origin}/booking/orders/${order.id}`,
+    expiresAt: holdDeadlines.length > 0 ? new Date(Math.min(...holdDeadlines)) : undefined,
+  })
+}
+
+export async function processPaymentWebhook(providerName: string, request: WebhookRequest) {
+  const supabase = createAdminClient()
+  const provider = getPaymentProvider(providerName)
+
+  // Throws PaymentSignatureError before anything is written
+  const event = await provider.handleWebhook(request)
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('payment_webhook_events')
+    .insert({
+      provider: provider.name,
+      event_id: event.eventId,
+      status: event.status,
+      payload: event.payload as Json,
+    })
+    .select('id')
+    .single()
+
+  let eventRowId = inserted?.id
+
+  if (insertError) {
+    // Unique violation: this callback was delivered before
+    if (insertError.code !== '23505') {
+      throw new PaymentGatewayError(`Failed to record webhook: ${insertError.message}`, 500)
+    }
+
+    const { data: previous } = await supabase
+      .from('payment_webhook_events')
+      .select('id, processed_at')
+      .eq('provider', provider.name)
+      .eq('event_id', event.eventId)
+      .single()
+
+    if (!previous) {
+      throw new PaymentGatewayError('Failed to record webhook', 500)
+    }
+
+    if (previous.processed_at) {
+      return { duplicate: true, processed: true }
+    }
+
+    // The earlier delivery failed part way through; process it again
+    eventRowId = previous.id
+  }
+
+  if (!eventRowId) {
+    throw new PaymentGatewayError('Failed to record webhook', 500)
+  }
+
+  const { data: payment } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('provider', provider.name)
+    .eq('provider_reference', event.providerReference)
+    .maybeSingle()
+
+  if (!payment) {
+    await supabase
+      .from('payment_webhook_events')
+      .update({ error: 'Unknown payment reference', processed_at: new Date().toISOString() })
+      .eq('id', eventRowId)
+
+    return { duplicate: false, processed: false }
+  }
+
+  if (!matchesChargedAmount(payment as Payment, event.amount)) {
+    await supabase
+      .from('payment_webhook_events')
+      .update({ payment_id: payment.id, error: 'Amount does not match the payment', processed_at: new Date().toISOString() })
+      .eq('id', eventRowId)
+
+    throw new PaymentGatewayError('Amount does not match the payment', 400)
+  }
+
+  const updated = await applyProviderStatus(supabase, payment as Payment, event.status, event.paymentMethod)
+
+  await supabase
+    .from('payment_webhook_events')
+    .update({ payment_id: payment.id, processed_at: new Date().toISOString() })
+    .eq('id', eventRowId)
+
+  return { duplicate: false, processed: true, payment: updated }
+}
+
+// Asks the provider for the latest status of a pending charge (for missed callbacks)
+export async function syncPaymentStatus(paymentId: string): Promise<Payment> {
+  const supabase = createAdminClient()
+  const payment = await getPayment(supabase, paymentId)
+
+  if (payment.payment_status !== 'pending' || !payment.provider || !payment.provider_reference) {
+    return payment
+  }
+
+  const provider = getPaymentProvider(payment.provider)
+  const result = await provider.queryStatus(payment.provider_reference)
+
+  if (!matchesChargedAmount(payment, result.amount)) {
+    throw new PaymentGatewayError('Amount does not match the payment', 409)
+  }
+
+  return applyProviderStatus(supabase, payment, result.status, result.paymentMethod)
+}
+
+export async function refundPayment(input: RefundPaymentInput): Promise<Payment> {
+  const supabase = createAdminClient()
+  const payment = await getPayment(supabase, input.paymentId)
+
+  if (payment.payment_kind === 'refund' || payment.payment_status !== 'completed') {
+    throw new PaymentGatewayError('Only completed payments can be refunded', 409)
+  }
+
+  // validate_payment() rejects refunds above what is left on the charge
+  const { data: refund, error } = await supabase
+    .from('payments')
+    .insert({
+      payment_kind: 'refund',
+      refunded_payment_id: payment.id,
+      amount: input.amount ?? payment.amount,
+      payment_method: payment.payment_method,
+      provider: payment.provider,
+      notes: input.reason || null,
+      created_by: input.createdBy,
+    })
+    .select('*')
+    .single()
+
+  if (error || !refund) {
+    throw new PaymentGatewayError(error?.message || 'Failed to create refund', 400)
+  }
+
+  return submitRefund(supabase, refund as Payment, payment, input.reason)
+}
+
+// Refunds whatever was paid above a reservation's total, e.g. after it was rescheduled to a
+// cheaper slot. Only payments made for the reservation itself are refunded, newest first;
+// an order payment's share simply moves on to the other bookings of the order.
+// Returns the amount refunded.
+export async function refundReservationOverpayment(input: RefundOverpaymentInput): Promise<number> {
+  const supabase = createAdminClient()
+
+  const { data: reservation } = await supabase
+    .from('reservations')
+    .select('total_price, amount_paid')
+    .eq('id', input.reservationId)
+    .single()
+
+  if (!reservation) {
+    throw new PaymentGatewayError('Reservation not found', 404)
+  }
+
+  let overpaid = Math.round((Number(reservation.amount_paid) - Number(reservation.total_price)) * 100) / 100
+
+  if (overpaid <= 0) {
+    return 0
+  }
+
+  const { data: payments } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('reservation_id', input.reservationId)
+    .order('created_at', { ascending: false })
+
+  // Refunds already completed or on their way, per charge
+  const refunded = new Map<string, number>()
+  for (const payment of payments || []) {
+    if (payment.payment_kind === 'refund' && payment.refunded_payment_id && ['pending', 'completed'].includes(payment.payment_status)) {
+      refunded.set(payment.refunded_payment_id, (refunded.get(payment.refunded_payment_id) || 0) + Number(payment.amount))
+    }
+  }
+
+  let total = 0
+
+  for (const payment of payments || []) {
+    if (overpaid <= 0) break
+    if (payment.payment_kind === 'refund' || payment.payment_status !== 'completed') continue
+
+    const amount = Math.min(overpaid, Number(payment.amount) - (refunded.get(payment.id) || 0))
+    if (amount <= 0) continue
+
+    await refundPayment({
+      paymentId: payment.id,
+      amount,
+      reason: input.reason,
+      createdBy: input.createdBy,
+    })
+
+    overpaid -= amount
+    total += amount
+  }
+
+  return total
+}
+
+// Sends the refunds cancel_reservation() recorded against gateway charges to the provider.
+// Refunds of an order payment are recorded on the order, so those are picked up too.
+// Returns the refunds that could not be submitted; they stay pending for staff to follow up.
+export async function submitPendingRefunds(input: SubmitPendingRefundsInput): Promise<Payment[]> {
+  const supabase = createAdminClient()
+
+  const { data: reservation } = await supabase
+    .from('reservations')
+    .select('id, order_id')
+    .eq('id', input.reservationId)
+    .single()
+
+  if (!reservation) {
+    throw new PaymentGatewayError('Reservation not found', 404)
+  }
+
+  const filter = reservation.order_id
+    ? `reservation_id.eq.${reservation.id},order_id.eq.${reservation.order_id}`
+    : `reservation_id.eq.${reservation.id}`
+
+  const { data: refunds } = await supabase
+    .from('payments')
+    .select('*')
+    .or(filter)
+    .eq('payment_kind', 'refund')
+    .eq('payment_status', 'pending')
+
+  const failed: Payment[] = []
+
+  for (const refund of refunds || []) {
+    try {
+      const charge = await getPayment(supabase, refund.refunded_payment_id!)
+      await submitRefund(supabase, refund, charge, refund.notes || undefined)
+    } catch (error) {
+      console.error('Error submitting refund:', error)
+      failed.push(refund)
+    }
+  }
+
+  return failed
+}
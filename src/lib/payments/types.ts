@@ -0,0 +1,87 @@
+import type { Payment } from '@/types/database'
+
+export type PaymentProviderName = 'midtrans' | 'mock'
+
+export type ProviderPaymentStatus = Payment['payment_status']
+
+export interface CreateChargeInput {
+  // Our payment id, used as the provider's order id
+  orderId: string
+  amount: number
+  paymentMethod: Payment['payment_method']
+  description: string
+  customer: {
+    name: string
+    email?: string | null
+    phone?: string | null
+  }
+  // Where the provider should send the customer after checkout
+  returnUrl: string
+  // End of the booking hold; the charge can't be paid after it
+  expiresAt?: Date
+}
+
+export interface ChargeResult {
+  providerReference: string
+  status: ProviderPaymentStatus
+  checkoutUrl: string | null
+}
+
+export interface WebhookRequest {
+  rawBody: string
+  headers: Headers
+}
+
+export interface WebhookEvent {
+  // Unique per delivery of a given state, used to drop repeated callbacks
+  eventId: string
+  providerReference: string
+  status: ProviderPaymentStatus
+  paymentMethod?: Payment['payment_method']
+  // Amount the provider charged, checked against the stored payment
+  amount?: number
+  payload: Record<string, unknown>
+}
+
+export interface RefundInput {
+  providerReference: string
+  // Our refund payment id, used as the provider's refund key
+  refundId: string
+  amount: number
+  reason?: string
+}
+
+export interface RefundResult {
+  providerReference: string
+  status: ProviderPaymentStatus
+}
+
+export interface ChargeStatusResult {
+  providerReference: string
+  status: ProviderPaymentStatus
+  paymentMethod?: Payment['payment_method']
+  amount?: number
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName
+  createCharge(input: CreateChargeInput): Promise<ChargeResult>
+  // Verifies the signature and normalises the callback; throws PaymentSignatureError when invalid
+  handleWebhook(request: WebhookRequest): Promise<WebhookEvent>
+  refund(input: RefundInput): Promise<RefundResult>
+  queryStatus(providerReference: string): Promise<ChargeStatusResult>
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public readonly status: number = 502) {
+    super(message)
+    this.name = 'PaymentGatewayError'
+  }
+}
+
+export class PaymentSignatureError extends PaymentGatewayError {
+  constructor(message: string = 'Invalid webhook signature') {
+    super(message, 401)
+    this.name = 'PaymentSignatureError'
+  }
+}
@@ -0,0 +1,157 @@
+// Minimal PDF (1.4) writer for generated documents such as invoices: text in the
+// standard Helvetica fonts, lines and filled boxes on A4 pages. No embedded fonts,
+// so text is limited to the Latin-1 range.
+
+export const PAGE_WIDTH = 595.28
+export const PAGE_HEIGHT = 841.89
+
+export type PdfFont = 'regular' | 'bold'
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size?: number
+  font?: PdfFont
+  // 'right' draws the text ending at x
+  align?: 'left' | 'right'
+  color?: PdfColor
+}
+
+// Glyph widths (1/1000 em) of Helvetica and Helvetica-Bold for characters 32-126
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+}
+
+const BLACK: PdfColor = [0, 0, 0]
+const LIGHT_GRAY: PdfColor = [0.8, 0.8, 0.8]
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+}
+
+// Characters outside Latin-1 that show up in our text, e.g. from Intl number formatting
+function toLatin1(text: string) {
+  return text
+    .replace(/[\u00a0\u202f]/g, ' ')
+    .replace(/[\u2018\u2019]/g, '\'')
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e\xa1-\xff]/g, '?')
+}
+
+function escapeText(text: string) {
+  return text.replace(/[\\()]/g, '\\$&')
+}
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(2)).toString()
+}
+
+function formatColor(color: PdfColor) {
+  return color.map(c => formatNumber(c)).join(' ')
+}
+
+export function measureText(text: string, size: number, font: PdfFont = 'regular') {
+  let width = 0
+
+  for (const char of toLatin1(text)) {
+    const code = char.charCodeAt(0)
+    width += code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : 556
+  }
+
+  return (width * size) / 1000
+}
+
+// A page drawn top-down: y is measured from the top edge
+export interface PdfPage {
+  text(text: string, x: number, y: number, options?: PdfTextOptions): void
+  line(x1: number, y1: number, x2: number, y2: number, width?: number, color?: PdfColor): void
+  fillRect(x: number, y: number, width: number, height: number, color: PdfColor): void
+  readonly content: string
+}
+
+export function createPdfPage(): PdfPage {
+  const commands: string[] = []
+
+  return {
+    text(text, x, y, { size = 10, font = 'regular', align = 'left', color = BLACK } = {}) {
+      const left = align === 'right' ? x - measureText(text, size, font) : x
+      commands.push(
+        `BT ${formatColor(color)} rg /${FONT_RESOURCES[font]} ${formatNumber(size)} Tf ` +
+        `${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td (${escapeText(toLatin1(text))}) Tj ET`
+      )
+    },
+
+    line(x1, y1, x2, y2, width = 0.5, color = LIGHT_GRAY) {
+      commands.push(
+        `${formatColor(color)} RG ${formatNumber(width)} w ` +
+        `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+      )
+    },
+
+    fillRect(x, y, width, height, color) {
+      commands.push(
+        `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f`
+      )
+    },
+
+    get content() {
+      return commands.join('\n')
+    },
+  }
+}
+
+export function renderPdf(pages: PdfPage[], title?: string): Buffer {
+  const objects: string[] = []
+  const pageIds = pages.map((_, i) => 5 + i * 2)
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i]
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(page.content, 'latin1')} >>\nstream\n${page.content}\nendstream`
+  })
+
+  const infoId = objects.length
+  objects[infoId] = `<< /Producer (Orange Sport Center)${title ? ` /Title (${escapeText(toLatin1(title))})` : ''} >>`
+
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets: number[] = []
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1')
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1')
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(output, 'latin1')
+}
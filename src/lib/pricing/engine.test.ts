@@ -0,0 +1,227 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { startDatabase } from '../../../scripts/generate-types'
+import {
+  calculateBookingPrice,
+  type PriceBookingInput,
+  type PricingSlot,
+  type PricingSpecialDate,
+  type PricingVenue,
+} from './engine'
+
+const venue: PricingVenue = { base_price: 100000, weekend_price: 150000 }
+
+// Off-peak until 16:00, peak after
+const slots: PricingSlot[] = [
+  { start_time: '06:00:00', end_time: '16:00:00', price_multiplier: 1 },
+  { start_time: '16:00:00', end_time: '22:00:00', price_multiplier: 1.5 },
+]
+
+const WEDNESDAY = '2026-10-21'
+const SATURDAY = '2026-10-24'
+const SUNDAY = '2026-10-25'
+
+function price(input: Partial<PriceBookingInput> = {}) {
+  return calculateBookingPrice({
+    venue,
+    slots,
+    date: WEDNESDAY,
+    startTime: '15:00',
+    endTime: '17:30',
+    ...input,
+  })
+}
+
+function holiday(values: Partial<PricingSpecialDate> = {}): PricingSpecialDate {
+  return {
+    name: 'Independence Day',
+    date_type: 'public_holiday',
+    price_multiplier: null,
+    price_override: null,
+    is_closed: false,
+    ...values,
+  }
+}
+
+describe('calculateBookingPrice', () => {
+  describe('peak and off-peak bands', () => {
+    it('splits a booking that crosses into peak hours', () => {
+      const breakdown = price()
+
+      expect(breakdown.dayRate).toBe('weekday')
+      expect(breakdown.lineItems).toEqual([
+        { startTime: '15:00', endTime: '16:00', hours: 1, hourlyRate: 100000, multiplier: 1, amount: 100000 },
+        { startTime: '16:00', endTime: '17:30', hours: 1.5, hourlyRate: 150000, multiplier: 1.5, amount: 225000 },
+      ])
+      expect(breakdown.durationHours).toBe(2.5)
+      expect(breakdown.subtotal).toBe(325000)
+      expect(breakdown.total).toBe(325000)
+    })
+
+    it('keeps a booking inside one band on one line', () => {
+      const breakdown = price({ startTime: '08:00', endTime: '10:00' })
+
+      expect(breakdown.lineItems).toHaveLength(1)
+      expect(breakdown.total).toBe(200000)
+    })
+
+    it('refuses times without an available band', () => {
+      const unavailable = [slots[0], { ...slots[1], is_available: false }]
+
+      expect(() => price({ slots: unavailable })).toThrow('No pricing available for 16:00')
+    })
+
+    it('refuses an end time before the start time', () => {
+      expect(() => price({ startTime: '17:00', endTime: '15:00' })).toThrow('End time must be after start time')
+    })
+  })
+
+  describe('weekend rates', () => {
+    it.each([SATURDAY, SUNDAY])('charges the weekend price on %s', (date) => {
+      const breakdown = price({ date })
+
+      expect(breakdown.dayRate).toBe('weekend')
+      expect(breakdown.lineItems.map(item => item.hourlyRate)).toEqual([150000, 225000])
+      expect(breakdown.subtotal).toBe(487500)
+    })
+
+    it('falls back to the base price when the venue has no weekend price', () => {
+      const breakdown = price({ date: SATURDAY, venue: { base_price: 100000, weekend_price: null } })
+
+      expect(breakdown.subtotal).toBe(325000)
+    })
+  })
+
+  describe('special dates', () => {
+    it('charges holidays like weekends', () => {
+      const breakdown = price({ specialDate: holiday() })
+
+      expect(breakdown.dayRate).toBe('holiday')
+      expect(breakdown.specialDateName).toBe('Independence Day')
+      expect(breakdown.subtotal).toBe(487500)
+    })
+
+    it('uses the price override instead of the venue rate', () => {
+      const breakdown = price({ specialDate: holiday({ date_type: 'custom', price_override: 200000 }) })
+
+      expect(breakdown.dayRate).toBe('special')
+      expect(breakdown.lineItems.map(item => item.hourlyRate)).toEqual([200000, 300000])
+      expect(breakdown.subtotal).toBe(650000)
+    })
+
+    it('scales the weekend rate by the price multiplier', () => {
+      const breakdown = price({ specialDate: holiday({ price_multiplier: 2 }) })
+
+      expect(breakdown.lineItems.map(item => item.hourlyRate)).toEqual([300000, 450000])
+      expect(breakdown.subtotal).toBe(975000)
+    })
+
+    it('refuses closed dates', () => {
+      expect(() => price({ specialDate: holiday({ is_closed: true }) }))
+        .toThrow('Venue is closed on this date (Independence Day)')
+    })
+  })
+
+  describe('discounts', () => {
+    const membership = { tier_name: 'Gold', discount_percentage: 20 }
+
+    it('applies a manual discount percentage', () => {
+      const breakdown = price({ discountPercentage: 10 })
+
+      expect(breakdown.discountAmount).toBe(32500)
+      expect(breakdown.total).toBe(292500)
+    })
+
+    it('applies a percentage promo code', () => {
+      const breakdown = price({ promoCode: { code: 'SAVE15', discount_type: 'percentage', discount_value: 15 } })
+
+      expect(breakdown.promoCode).toBe('SAVE15')
+      expect(breakdown.discountAmount).toBe(48750)
+      expect(breakdown.total).toBe(276250)
+    })
+
+    it('never takes a fixed promo code below zero', () => {
+      const breakdown = price({ promoCode: { code: 'FREE', discount_type: 'fixed_amount', discount_value: 500000 } })
+
+      expect(breakdown.discountAmount).toBe(325000)
+      expect(breakdown.total).toBe(0)
+    })
+
+    it('applies the member discount when there is no other discount', () => {
+      const breakdown = price({ membership })
+
+      expect(breakdown.membershipName).toBe('Gold')
+      expect(breakdown.discountPercentage).toBe(20)
+      expect(breakdown.total).toBe(260000)
+    })
+
+    it('does not stack the member discount on a promo code', () => {
+      const breakdown = price({
+        membership,
+        promoCode: { code: 'SAVE15', discount_type: 'percentage', discount_value: 15 },
+      })
+
+      expect(breakdown.membershipName).toBeNull()
+      expect(breakdown.total).toBe(276250)
+    })
+
+    it('does not stack the member discount on a manual discount', () => {
+      const breakdown = price({ membership, discountPercentage: 10 })
+
+      expect(breakdown.membershipName).toBeNull()
+      expect(breakdown.discountPercentage).toBe(10)
+      expect(breakdown.total).toBe(292500)
+    })
+
+    it('refuses a promo code together with a manual discount', () => {
+      expect(() => price({
+        discountPercentage: 10,
+        promoCode: { code: 'SAVE15', discount_type: 'percentage', discount_value: 15 },
+      })).toThrow('A promo code cannot be combined with another discount')
+    })
+  })
+})
+
+// The RPCs charge what calculate_price_breakdown() returns, so the two must agree
+describe('calculateBookingPrice and calculate_price_breakdown()', () => {
+  const venueId = '00000000-0000-0000-0000-0000000000b1'
+  let db: Awaited<ReturnType<typeof startDatabase>>
+
+  beforeAll(async () => {
+    db = await startDatabase()
+    await db.exec(`
+      INSERT INTO venue_types (id, name) VALUES ('00000000-0000-0000-0000-0000000000a1', 'Test court');
+      INSERT INTO venues (id, venue_type_id, name, base_price, weekend_price)
+      VALUES ('${venueId}', '00000000-0000-0000-0000-0000000000a1', 'Court 1', 100000, 150000);
+      INSERT INTO venue_time_slots (venue_id, start_time, end_time, price_multiplier) VALUES
+        ('${venueId}', '06:00', '16:00', 1.00),
+        ('${venueId}', '16:00', '22:00', 1.50);
+      INSERT INTO special_dates (venue_id, special_date, name, date_type, price_multiplier)
+      VALUES ('${venueId}', '2026-10-28', 'Youth Pledge Day', 'public_holiday', 1.20);
+    `)
+  }, 300_000)
+
+  afterAll(async () => {
+    await db?.close()
+  })
+
+  it.each([
+    ['a weekday', WEDNESDAY, null],
+    ['a weekend', SATURDAY, null],
+    ['a holiday', '2026-10-28', holiday({ name: 'Youth Pledge Day', price_multiplier: 1.2 })],
+  ])('returns the same line items on %s', async (_, date, specialDate) => {
+    const { rows } = await db.query<Record<string, string>>(
+      'SELECT * FROM calculate_price_breakdown($1, $2, $3, $4)',
+      [venueId, date, '15:00', '17:30']
+    )
+    const sqlItems = rows.map(row => ({
+      startTime: row.start_time.slice(0, 5),
+      endTime: row.end_time.slice(0, 5),
+      hours: Number(row.hours),
+      hourlyRate: Number(row.hourly_rate),
+      multiplier: Number(row.multiplier),
+      amount: Number(row.amount),
+    }))
+
+    expect(price({ date, specialDate }).lineItems).toEqual(sqlItems)
+  })
+})
@@ -0,0 +1,221 @@
+import { parseISO } from 'date-fns'
+import type { FunctionReturns, Json, PromoCode, SpecialDate, Venue, VenueTimeSlot } from '@/types/database'
+
+// Booking prices, line by line. Mirrors calculate_price_breakdown() in
+// 012_special_dates.sql and discounts mirror create_reservation() in 014_memberships.sql -
+// the RPCs charge what this module shows, so change both together.
+
+export type DayRate = 'weekday' | 'weekend' | 'holiday' | 'special'
+
+export type PricingVenue = Pick<Venue, 'base_price' | 'weekend_price'>
+
+export type PricingSlot = Pick<VenueTimeSlot, 'start_time' | 'end_time' | 'price_multiplier'> & {
+  is_available?: boolean | null
+}
+
+export type PricingSpecialDate = Pick<
+  SpecialDate,
+  'name' | 'date_type' | 'price_multiplier' | 'price_override' | 'is_closed'
+>
+
+export type PricingPromoCode = Pick<PromoCode, 'code' | 'discount_type' | 'discount_value'>
+
+export type PricingMembership = Pick<FunctionReturns<'get_active_membership'>[number], 'tier_name' | 'discount_percentage'>
+
+export interface PriceLineItem {
+  startTime: string
+  endTime: string
+  hours: number
+  // Venue rate for the day times the slot multiplier
+  hourlyRate: number
+  multiplier: number
+  amount: number
+}
+
+export interface PriceBreakdown {
+  dayRate: DayRate
+  specialDateName: string | null
+  lineItems: PriceLineItem[]
+  durationHours: number
+  subtotal: number
+  discountPercentage: number
+  promoCode: string | null
+  // Tier name when the member discount was applied
+  membershipName: string | null
+  discountAmount: number
+  total: number
+}
+
+export interface PriceBookingInput {
+  venue: PricingVenue
+  slots: PricingSlot[]
+  // yyyy-MM-dd or a local date
+  date: string | Date
+  startTime: string
+  endTime: string
+  discountPercentage?: number
+  // Special date that applies to the venue on this date (see findSpecialDate)
+  specialDate?: PricingSpecialDate | null
+  // Promo code already checked with check_promo_code; replaces discountPercentage
+  promoCode?: PricingPromoCode | null
+  // Active membership of the customer (see get_active_membership); its discount applies
+  // when there is no other discount or promo code
+  membership?: PricingMembership | null
+}
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PricingError'
+  }
+}
+
+// Same rounding as ROUND(x, 2) in SQL
+export function roundAmount(amount: number) {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+// Minutes since midnight for 'HH:mm' or 'HH:mm:ss'
+export function timeToMinutes(time: string) {
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes + seconds / 60
+}
+
+export function minutesToTime(minutes: number) {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  return `${String(hours).padStart(2, '0')}:${String(rest).padStart(2, '0')}`
+}
+
+export function getDayRate(date: string | Date, specialDate?: PricingSpecialDate | null): DayRate {
+  if (specialDate) return specialDate.date_type === 'public_holiday' ? 'holiday' : 'special'
+
+  const day = (typeof date === 'string' ? parseISO(date) : date).getDay()
+  return day === 0 || day === 6 ? 'weekend' : 'weekday'
+}
+
+// Hourly venue rate for the day. Special dates are charged like weekends unless they
+// override the rate or scale it with their own multiplier.
+export function getVenueRate(venue: PricingVenue, dayRate: DayRate, specialDate?: PricingSpecialDate | null) {
+  if (specialDate?.price_override != null) return specialDate.price_override
+
+  const rate = dayRate !== 'weekday' && venue.weekend_price ? venue.weekend_price : venue.base_price
+  return specialDate?.price_multiplier != null ? rate * specialDate.price_multiplier : rate
+}
+
+// Amount taken off the subtotal by a promo code, as in evaluate_promo_code(). Fixed amounts
+// never exceed the subtotal.
+export function getPromoDiscount(subtotal: number, promoCode: PricingPromoCode) {
+  if (promoCode.discount_type === 'percentage') {
+    return roundAmount(subtotal - roundAmount(subtotal * (1 - promoCode.discount_value / 100)))
+  }
+
+  return Math.min(promoCode.discount_value, subtotal)
+}
+
+export function calculateBookingPrice({
+  venue,
+  slots,
+  date,
+  startTime,
+  endTime,
+  discountPercentage = 0,
+  specialDate = null,
+  promoCode = null,
+  membership = null,
+}: PriceBookingInput): PriceBreakdown {
+  const start = timeToMinutes(startTime)
+  const end = timeToMinutes(endTime)
+
+  if (end <= start) {
+    throw new PricingError('End time must be after start time')
+  }
+
+  if (discountPercentage < 0 || discountPercentage > 100) {
+    throw new PricingError('Discount percentage must be between 0 and 100')
+  }
+
+  if (promoCode && discountPercentage !== 0) {
+    throw new PricingError('A promo code cannot be combined with another discount')
+  }
+
+  if (specialDate?.is_closed) {
+    throw new PricingError(`Venue is closed on this date (${specialDate.name})`)
+  }
+
+  const dayRate = getDayRate(date, specialDate)
+  const venueRate = getVenueRate(venue, dayRate, specialDate)
+  const availableSlots = slots
+    .filter(slot => slot.is_available !== false)
+    .sort((a, b) => timeToMinutes(b.start_time) - timeToMinutes(a.start_time))
+
+  const lineItems: PriceLineItem[] = []
+  let periodStart = start
+
+  while (periodStart < end) {
+    // Latest slot starting at or before this point, as in the SQL
+    const slot = availableSlots.find(s =>
+      timeToMinutes(s.start_time) <= periodStart && timeToMinutes(s.end_time) > periodStart
+    )
+
+    if (!slot) {
+      throw new PricingError(`No pricing available for ${minutesToTime(periodStart)}`)
+    }
+
+    const periodEnd = Math.min(timeToMinutes(slot.end_time), end)
+    const hours = (periodEnd - periodStart) / 60
+    const multiplier = slot.price_multiplier ?? 1
+    const hourlyRate = venueRate * multiplier
+
+    lineItems.push({
+      startTime: minutesToTime(periodStart),
+      endTime: minutesToTime(periodEnd),
+      hours,
+      hourlyRate,
+      multiplier,
+      amount: roundAmount(hourlyRate * hours),
+    })
+
+    periodStart = periodEnd
+  }
+
+  const subtotal = roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0))
+  const memberDiscount = !promoCode && discountPercentage === 0 && membership
+    ? membership.discount_percentage
+    : 0
+  const appliedPercentage = discountPercentage || memberDiscount
+  const discountAmount = promoCode
+    ? getPromoDiscount(subtotal, promoCode)
+    : roundAmount(subtotal - roundAmount(subtotal * (1 - appliedPercentage / 100)))
+
+  return {
+    dayRate,
+    specialDateName: specialDate?.name ?? null,
+    lineItems,
+    durationHours: (end - start) / 60,
+    subtotal,
+    discountPercentage: appliedPercentage,
+    promoCode: promoCode?.code ?? null,
+    membershipName: memberDiscount > 0 && membership ? membership.tier_name : null,
+    discountAmount,
+    total: roundAmount(subtotal - discountAmount),
+  }
+}
+
+// Line items stored on reservations.price_breakdown by create_reservation
+export function parsePriceLineItems(value: Json | null): PriceLineItem[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return []
+
+    return [{
+      startTime: String(item.start_time).slice(0, 5),
+      endTime: String(item.end_time).slice(0, 5),
+      hours: Number(item.hours),
+      hourlyRate: Number(item.hourly_rate),
+      multiplier: Number(item.multiplier),
+      amount: Number(item.amount),
+    }]
+  })
+}
@@ -1,5 +1,9 @@
+import { format } from 'date-fns'
 import { createClient } from '@/lib/supabase/client'
 import { VenueTimeSlot } from '@/types/database'
+import { calculateBookingPrice, type PriceBreakdown } from './engine'
+
+export * from './engine'
 
 export interface PricingRule {
   id: string
@@ -10,37 +14,30 @@ export interface PricingRule {
   isActive: boolean
 }
 
-export interface PricingCalculation {
-  basePrice: number
-  discountAmount: number
-  totalPrice: number
-  duration: number
-  isWeekend: boolean
-}
-
 export async function calculatePrice(
   venueId: string,
   date: Date,
   startTime: string,
   endTime: string,
   discountPercent: number = 0
-): Promise<PricingCalculation> {
+): Promise<PriceBreakdown> {
   const supabase = createClient()
   
-  // Check if the date is weekend (Saturday = 6, Sunday = 0)
-  const isWeekend = date.getDay() === 0 || date.getDay() === 6
+  const { data: venue, error: venueError } = await supabase
+    .from('venues')
+    .select('base_price, weekend_price')
+    .eq('id', venueId)
+    .single()
   
-  // Calculate duration in minutes
-  const start = new Date(`2000-01-01T${startTime}:00`)
-  const end = new Date(`2000-01-01T${endTime}:00`)
-  const duration = (end.getTime() - start.getTime()) / (1000 * 60) // minutes
+  if (venueError || !venue) {
+    throw new Error(`Failed to fetch pricing: ${venueError?.message}`)
+  }
   
-  // Get venue time slots that overlap with the requested time
   const { data: timeSlots, error } = await supabase
     .from('venue_time_slots')
-    .select('*')
+    .select('start_time, end_time, price_multiplier')
     .eq('venue_id', venueId)
-    .eq('is_active', true)
+    .eq('is_available', true)
   
   if (error) {
     throw new Error(`Failed to fetch pricing: ${error.message}`)
@@ -50,37 +47,25 @@ export async function calculatePrice(
     throw new Error('No pricing information available for this venue')
   }
   
-  // Find the applicable time slot
-  const applicableSlot = timeSlots.find(slot => {
-    const slotStart = new Date(`2000-01-01T${slot.start_time}`)
-    const slotEnd = new Date(`2000-01-01T${slot.end_time}`)
-    
-    // Check if requested time falls within this slot
-    return start >= slotStart && end <= slotEnd
-  })
+  const { data: specialDates, error: specialDateError } = await supabase
+    .rpc('get_special_date', {
+      p_venue_id: venueId,
+      p_date: format(date, 'yyyy-MM-dd')
+    })
   
-  if (!applicableSlot) {
-    throw new Error('No pricing available for the selected time slot')
+  if (specialDateError) {
+    throw new Error(`Failed to fetch pricing: ${specialDateError.message}`)
   }
   
-  // Calculate base price
-  const hourlyRate = isWeekend 
-    ? (applicableSlot.price_weekend || 0)
-    : (applicableSlot.price_weekday || 0)
-  
-  const basePrice = (hourlyRate * duration) / 60 // Convert to hourly rate
-  
-  // Calculate discount
-  const discountAmount = (basePrice * discountPercent) / 100
-  const totalPrice = basePrice - discountAmount
-  
-  return {
-    basePrice: Math.round(basePrice),
-    discountAmount: Math.round(discountAmount),
-    totalPrice: Math.round(totalPrice),
-    duration,
-    isWeekend,
-  }
+  return calculateBookingPrice({
+    venue,
+    slots: timeSlots,
+    date,
+    startTime,
+    endTime,
+    discountPercentage: discountPercent,
+    specialDate: specialDates?.[0] ?? null,
+  })
 }
 
 export async function getVenuePricing(venueId: string): Promise<VenueTimeSlot[]> {
@@ -90,7 +75,7 @@ export async function getVenuePricing(venueId: string): Promise<VenueTimeSlot[]>
     .from('venue_time_slots')
     .select('*')
     .eq('venue_id', venueId)
-    .eq('is_active', true)
+    .eq('is_available', true)
     .order('start_time')
   
   if (error) {
@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { startDatabase } from '../../scripts/generate-types'
+
+const customerId = '00000000-0000-0000-0000-000000000001'
+const venueId = '00000000-0000-0000-0000-0000000000b1'
+const slotId = '00000000-0000-0000-0000-0000000000c1'
+
+describe('create_reservation() with a promo code', () => {
+  let db: Awaited<ReturnType<typeof startDatabase>>
+
+  beforeAll(async () => {
+    db = await startDatabase()
+    await db.exec(`
+      INSERT INTO auth.users (id, email, raw_user_meta_data)
+      VALUES ('${customerId}', 'customer@example.com', '{"full_name": "Customer"}');
+      INSERT INTO profiles (id, full_name) VALUES ('${customerId}', 'Customer') ON CONFLICT DO NOTHING;
+      INSERT INTO venue_types (id, name) VALUES ('00000000-0000-0000-0000-0000000000a1', 'Test court');
+      INSERT INTO venues (id, venue_type_id, name, base_price)
+      VALUES ('${venueId}', '00000000-0000-0000-0000-0000000000a1', 'Court 1', 100000);
+      INSERT INTO venue_time_slots (id, venue_id, start_time, end_time)
+      VALUES ('${slotId}', '${venueId}', '10:00', '11:00');
+      INSERT INTO promo_codes (code, discount_type, discount_value) VALUES
+        ('FREE', 'percentage', 100),
+        ('HALF', 'percentage', 50);
+      SELECT set_config('request.jwt.claim.sub', '${customerId}', false);
+    `)
+  }, 300_000)
+
+  afterAll(async () => {
+    await db?.close()
+  })
+
+  async function book(promoCode: string, daysAhead: number) {
+    const { rows: [{ id }] } = await db.query<{ id: string }>(
+      `SELECT create_reservation($1, $2, $3, CURRENT_DATE + $4::INTEGER, '10:00', '11:00', 1, 0, NULL, $5) AS id`,
+      [customerId, venueId, slotId, daysAhead, promoCode]
+    )
+    const { rows: [reservation] } = await db.query<{
+      id: string
+      status: string
+      payment_status: string
+      total_price: string
+      expires_at: string | null
+    }>('SELECT id, status, payment_status, total_price, expires_at FROM reservations WHERE id = $1', [id])
+    return reservation
+  }
+
+  it('confirms a booking the promo code makes free, without a hold', async () => {
+    const reservation = await book('FREE', 2)
+
+    expect(reservation).toMatchObject({ status: 'confirmed', payment_status: 'paid', expires_at: null })
+    expect(Number(reservation.total_price)).toBe(0)
+
+    await db.query('SELECT expire_pending_reservations()')
+    const { rows: [{ status }] } = await db.query<{ status: string }>(
+      'SELECT status FROM reservations WHERE id = $1',
+      [reservation.id]
+    )
+    expect(status).toBe('confirmed')
+  })
+
+  it('holds a booking that still has something to pay', async () => {
+    const reservation = await book('HALF', 3)
+
+    expect(reservation).toMatchObject({ status: 'pending', payment_status: 'pending' })
+    expect(Number(reservation.total_price)).toBe(50000)
+    expect(reservation.expires_at).not.toBeNull()
+  })
+})
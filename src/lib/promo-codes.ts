@@ -0,0 +1,29 @@
+import { formatCurrency } from '@/lib/utils'
+import type { PromoCode } from '@/types/database'
+
+// Promo codes are redeemed by create_reservation (see 013_promo_codes.sql). Reservations that
+// were cancelled don't count towards the usage limits.
+
+export type PromoCodeStatus = 'active' | 'inactive' | 'scheduled' | 'expired' | 'used_up'
+
+export const PROMO_CODE_STATUS_LABELS: Record<PromoCodeStatus, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  used_up: 'Used up',
+}
+
+export function formatPromoDiscount(promoCode: Pick<PromoCode, 'discount_type' | 'discount_value'>) {
+  return promoCode.discount_type === 'percentage'
+    ? `${promoCode.discount_value}% off`
+    : `${formatCurrency(promoCode.discount_value)} off`
+}
+
+export function getPromoCodeStatus(promoCode: PromoCode, redemptions: number, now = new Date()): PromoCodeStatus {
+  if (!promoCode.is_active) return 'inactive'
+  if (promoCode.valid_until && new Date(promoCode.valid_until) <= now) return 'expired'
+  if (promoCode.valid_from && new Date(promoCode.valid_from) > now) return 'scheduled'
+  if (promoCode.usage_limit !== null && redemptions >= promoCode.usage_limit) return 'used_up'
+  return 'active'
+}
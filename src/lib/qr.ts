@@ -0,0 +1,388 @@
+// Minimal QR code encoder (ISO/IEC 18004) for short payloads such as check-in codes:
+// byte mode, error correction level M, versions 1-10 (up to 213 bytes).
+
+export type QrMatrix = boolean[][]
+
+const MAX_VERSION = 10
+
+// Level M error correction per version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+
+// Format information bits of level M
+const FORMAT_BITS_M = 0
+
+function getBit(value: number, index: number) {
+  return ((value >>> index) & 1) !== 0
+}
+
+function getSize(version: number) {
+  return version * 4 + 17
+}
+
+function getRawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64
+
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+
+  return result
+}
+
+function getDataCodewords(version: number) {
+  return Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+}
+
+function getAlignmentPositions(version: number) {
+  if (version === 1) return []
+
+  const count = Math.floor(version / 7) + 2
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const positions = [6]
+
+  for (let pos = getSize(version) - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos)
+  }
+
+  return positions
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number) {
+  let z = 0
+
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+
+  return z
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result: number[] = new Array(degree - 1).fill(0)
+  result.push(1)
+
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result: number[] = divisor.map(() => 0)
+
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+
+  return result
+}
+
+function encodeData(bytes: Uint8Array, version: number) {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+
+  const capacity = getDataCodewords(version) * 8
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad)
+  }
+
+  return codewords
+}
+
+// Splits the data into blocks, adds their error correction and interleaves the result
+function addErrorCorrection(data: number[], version: number) {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8)
+  const shortBlocks = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = reedSolomonDivisor(eccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1))
+    k += block.length
+    const ecc = reedSolomonRemainder(block, divisor)
+    if (i < shortBlocks) block.push(0)
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i])
+    })
+  }
+
+  return result
+}
+
+function shouldInvert(mask: number, x: number, y: number) {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+class QrBuilder {
+  readonly size: number
+  readonly modules: QrMatrix
+  private readonly isFunction: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = getSize(version)
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false))
+  }
+
+  private set(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this
+
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0)
+      this.set(i, 6, i % 2 === 0)
+    }
+
+    this.drawFinder(3, 3)
+    this.drawFinder(size - 4, 3)
+    this.drawFinder(3, size - 4)
+
+    const positions = getAlignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // The three corners are taken by the finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        this.drawAlignment(x, y)
+      })
+    })
+
+    // Reserve the format areas; the real bits are drawn once the mask is chosen
+    this.drawFormat(0)
+    this.drawVersion()
+  }
+
+  private drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          this.set(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  drawFormat(mask: number) {
+    const { size } = this
+    const data = (FORMAT_BITS_M << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, getBit(bits, i))
+    this.set(8, 7, getBit(bits, 6))
+    this.set(8, 8, getBit(bits, 7))
+    this.set(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, getBit(bits, i))
+    this.set(8, size - 8, true)
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return
+
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | remainder
+
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.set(a, b, getBit(bits, i))
+      this.set(b, a, getBit(bits, i))
+    }
+  }
+
+  // Places the codewords in the zigzag order, two columns at a time from the bottom right
+  drawCodewords(codewords: number[]) {
+    const { size } = this
+    let i = 0
+
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? size - 1 - vertical : vertical
+
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && shouldInvert(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  penalty() {
+    const { size, modules } = this
+    let score = 0
+    let dark = 0
+
+    const lines: boolean[][] = []
+    for (let i = 0; i < size; i++) {
+      lines.push(modules[i])
+      lines.push(modules.map(row => row[i]))
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of one color
+      let run = 1
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++
+        } else {
+          if (run >= 5) score += run - 2
+          run = 1
+        }
+      }
+
+      // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+      const text = line.map(m => (m ? '1' : '0')).join('')
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+          score += 40
+        }
+      }
+    }
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) dark++
+        if (
+          x < size - 1 && y < size - 1 &&
+          modules[y][x] === modules[y][x + 1] &&
+          modules[y][x] === modules[y + 1][x] &&
+          modules[y][x] === modules[y + 1][x + 1]
+        ) {
+          score += 3
+        }
+      }
+    }
+
+    const total = size * size
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+    return score
+  }
+}
+
+// Encodes text (as UTF-8) into a matrix of modules, true being dark. The matrix has
+// no quiet zone; leave four modules of margin around it when drawing.
+export function encodeQr(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  while (getDataCodewords(version) < bytes.length + (version <= 9 ? 2 : 3)) {
+    if (++version > MAX_VERSION) throw new Error('Text is too long for a QR code')
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version)
+
+  let best: QrBuilder | null = null
+  let bestPenalty = Infinity
+
+  for (let mask = 0; mask < 8; mask++) {
+    const builder = new QrBuilder(version)
+    builder.drawFunctionPatterns()
+    builder.drawCodewords(codewords)
+    builder.applyMask(mask)
+    builder.drawFormat(mask)
+
+    const penalty = builder.penalty()
+    if (penalty < bestPenalty) {
+      best = builder
+      bestPenalty = penalty
+    }
+  }
+
+  return (best as QrBuilder).modules
+}
+
+// SVG path of the dark modules, one unit per module, offset by the quiet zone
+export function qrToSvgPath(matrix: QrMatrix, margin = 4) {
+  const parts: string[] = []
+
+  matrix.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`)
+    })
+  })
+
+  return parts.join('')
+}
@@ -0,0 +1,54 @@
+// create_reservation raises SQLSTATE PT409 (HTTP 409) with hint 'slot_taken' when the
+// requested period overlaps another active booking (see 009_prevent_double_booking.sql)
+export const SLOT_TAKEN_ERROR_CODE = 'PT409'
+export const SLOT_TAKEN_ERROR_HINT = 'slot_taken'
+
+interface RpcError {
+  code?: string
+  hint?: string | null
+}
+
+export function isSlotTakenError(error: RpcError | null | undefined) {
+  return !!error && (error.code === SLOT_TAKEN_ERROR_CODE || error.hint === SLOT_TAKEN_ERROR_HINT)
+}
+
+// Raised by evaluate_promo_code when a code can't be used for the booking (see 013_promo_codes.sql)
+export const PROMO_INVALID_ERROR_HINT = 'promo_invalid'
+
+export function isPromoInvalidError(error: RpcError | null | undefined) {
+  return !!error && error.hint === PROMO_INVALID_ERROR_HINT
+}
+
+// Raised by create_reservation_series and reschedule_reservation_series with the dates
+// that are not available (see 015_recurring_reservations.sql). Shares the PT409 code
+// with slot_taken, so check for it first.
+export const SERIES_CONFLICT_ERROR_HINT = 'series_conflict'
+
+export function isSeriesConflictError(error: RpcError | null | undefined) {
+  return !!error && error.hint === SERIES_CONFLICT_ERROR_HINT
+}
+
+// Raised by create_booking_order when any cart item can't be booked; nothing is created.
+// The error details hold a JSON array of { item, message } with the item's index in the cart
+// (see 016_booking_orders.sql).
+export const CART_UNAVAILABLE_ERROR_HINT = 'cart_unavailable'
+
+export interface CartItemError {
+  item: number
+  message: string
+}
+
+export function isCartUnavailableError(error: RpcError | null | undefined) {
+  return !!error && error.hint === CART_UNAVAILABLE_ERROR_HINT
+}
+
+export function getCartItemErrors(error: (RpcError & { details?: string | null }) | null | undefined): CartItemError[] {
+  if (!isCartUnavailableError(error) || !error?.details) return []
+
+  try {
+    const parsed = JSON.parse(error.details)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,12 @@
+// Unpaid pending reservations hold their slot until expires_at (see 008_reservation_holds.sql).
+
+// PostgREST `or` filter matching reservations that currently block a slot:
+// confirmed bookings and pending holds that have not expired yet
+export function blockingReservationsFilter(now: Date = new Date()) {
+  return `status.eq.confirmed,and(status.eq.pending,or(expires_at.is.null,expires_at.gt."${now.toISOString()}"))`
+}
+
+export function getHoldSecondsRemaining(expiresAt: string | null, now: Date = new Date()) {
+  if (!expiresAt) return null
+  return Math.max(0, Math.floor((new Date(expiresAt).getTime() - now.getTime()) / 1000))
+}
@@ -0,0 +1,47 @@
+import { calculateBookingPrice, roundAmount, type PriceBookingInput } from '@/lib/pricing/engine'
+import type { Reservation } from '@/types/database'
+
+// Customer rescheduling (see 017_reservation_reschedules.sql)
+
+// Same as max_reschedules() in SQL
+export const MAX_RESCHEDULES = 2
+
+// Same as reschedule_cutoff_hours() in SQL
+export const RESCHEDULE_CUTOFF_HOURS = 24
+
+type ReschedulableReservation = Pick<Reservation, 'status' | 'reservation_date' | 'start_time' | 'reschedule_count'>
+
+// Why the customer can't reschedule this booking any more, or null if they can
+export function getRescheduleBlocker(reservation: ReschedulableReservation, now = new Date()) {
+  if (reservation.status !== 'pending' && reservation.status !== 'confirmed') {
+    return 'Only pending or confirmed bookings can be rescheduled'
+  }
+
+  if (reservation.reschedule_count >= MAX_RESCHEDULES) {
+    return `This booking has already been rescheduled ${MAX_RESCHEDULES} times`
+  }
+
+  const startsAt = new Date(`${reservation.reservation_date}T${reservation.start_time}`)
+  if (startsAt.getTime() - now.getTime() < RESCHEDULE_CUTOFF_HOURS * 60 * 60 * 1000) {
+    return `Bookings can be rescheduled up to ${RESCHEDULE_CUTOFF_HOURS} hours before they start`
+  }
+
+  return null
+}
+
+// New total after a move, repriced the way move_reservation() does: a promo code keeps
+// the amount it took off, any other discount keeps its percentage
+export function getRescheduledTotal(
+  reservation: Pick<Reservation, 'promo_code_id' | 'discount_amount' | 'discount_percentage'>,
+  input: Omit<PriceBookingInput, 'discountPercentage' | 'promoCode' | 'membership'>
+) {
+  if (reservation.promo_code_id) {
+    const { subtotal } = calculateBookingPrice(input)
+    return roundAmount(subtotal - Math.min(reservation.discount_amount, subtotal))
+  }
+
+  return calculateBookingPrice({
+    ...input,
+    discountPercentage: reservation.discount_percentage ?? 0,
+  }).total
+}
@@ -0,0 +1,49 @@
+import type { Enums, FunctionArgs, FunctionReturns } from '@/types/database'
+import type { RecurrenceFormData } from '@/lib/validations/booking'
+
+// Weekly and biweekly reservation series (see 015_recurring_reservations.sql)
+
+export type SeriesFrequency = Enums<'series_frequency'>
+export type SeriesOccurrence = FunctionReturns<'check_series_availability'>[number]
+
+export const SERIES_FREQUENCY_LABELS: Record<SeriesFrequency, string> = {
+  weekly: 'Every week',
+  biweekly: 'Every two weeks',
+}
+
+// Same as max_series_occurrences() in SQL
+export const MAX_SERIES_OCCURRENCES = 52
+
+// Same as series_package_discount() in SQL, largest package first
+export const SERIES_PACKAGE_DISCOUNTS = [
+  { minOccurrences: 12, percentage: 15 },
+  { minOccurrences: 8, percentage: 10 },
+  { minOccurrences: 4, percentage: 5 },
+] as const
+
+export function getSeriesPackageDiscount(occurrences: number) {
+  return SERIES_PACKAGE_DISCOUNTS.find(tier => occurrences >= tier.minOccurrences)?.percentage ?? 0
+}
+
+// The end of a series is either a last date or a number of occurrences, never both
+export function toSeriesArgs(recurrence: RecurrenceFormData): Pick<
+  FunctionArgs<'create_reservation_series'>,
+  'p_frequency' | 'p_end_date' | 'p_occurrences'
+> {
+  return {
+    p_frequency: recurrence.frequency,
+    p_end_date: recurrence.ends === 'on_date' ? recurrence.endDate : undefined,
+    p_occurrences: recurrence.ends === 'after_count' ? recurrence.occurrences : undefined,
+  }
+}
+
+export function summarizeSeriesAvailability(occurrences: SeriesOccurrence[]) {
+  const available = occurrences.filter(occurrence => occurrence.is_available)
+
+  return {
+    available,
+    conflicts: occurrences.filter(occurrence => !occurrence.is_available),
+    baseTotal: available.reduce((sum, occurrence) => sum + occurrence.base_price, 0),
+    total: available.reduce((sum, occurrence) => sum + occurrence.total_price, 0),
+  }
+}
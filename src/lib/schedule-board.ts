@@ -0,0 +1,224 @@
+import { addDays, format, parseISO, startOfWeek } from 'date-fns'
+import { getClosedPeriods, type DayOpeningPeriod } from '@/lib/operating-hours'
+import type { BlackoutOccurrence } from '@/lib/venue-blackouts'
+import type { Enums, Event, Reservation, SpecialDate } from '@/types/database'
+
+// The admin schedule board: venues as rows, a day or a week of time as columns.
+
+export type BoardView = 'day' | 'week'
+
+// Drags snap to this, and new bookings are at least this long
+export const BOARD_SNAP_MINUTES = 30
+
+// A click on an empty cell books this long
+export const BOARD_DEFAULT_MINUTES = 60
+
+// Hours shown when the venues have no opening hours to go by
+export const BOARD_DEFAULT_HOURS = { start: 6, end: 23 }
+
+export type BoardReservation = Pick<
+  Reservation,
+  | 'id'
+  | 'reservation_code'
+  | 'venue_id'
+  | 'reservation_date'
+  | 'start_time'
+  | 'end_time'
+  | 'status'
+  | 'payment_status'
+  | 'expires_at'
+  | 'checked_in_at'
+  | 'user_id'
+  | 'customer_name'
+> & {
+  user: { full_name: string } | null
+}
+
+export type BoardEvent = Pick<Event, 'id' | 'title' | 'venue_id' | 'event_date' | 'start_time' | 'end_time'>
+
+export type BoardClosure = Pick<SpecialDate, 'id' | 'name' | 'venue_id' | 'special_date'>
+
+export type BoardBlackout = BlackoutOccurrence
+
+export type BoardOpeningPeriod = DayOpeningPeriod
+
+export type BoardItem =
+  | { kind: 'reservation', id: string, venueId: string, date: string, start: number, end: number, reservation: BoardReservation }
+  | { kind: 'event', id: string, venueId: string, date: string, start: number, end: number, event: BoardEvent }
+  | { kind: 'closure', id: string, venueId: string, date: string, start: number, end: number, closure: BoardClosure }
+  | { kind: 'blackout', id: string, venueId: string, date: string, start: number, end: number, blackout: BoardBlackout }
+  | { kind: 'after_hours', id: string, venueId: string, date: string, start: number, end: number }
+
+export const RESERVATION_BLOCK_COLORS: Record<Enums<'reservation_status'>, string> = {
+  pending: 'bg-yellow-100 border-yellow-400 text-yellow-900',
+  confirmed: 'bg-green-100 border-green-500 text-green-900',
+  completed: 'bg-blue-100 border-blue-500 text-blue-900',
+  no_show: 'bg-orange-100 border-orange-400 text-orange-900',
+  cancelled: 'bg-red-100 border-red-400 text-red-900',
+}
+
+export const EVENT_BLOCK_COLOR = 'bg-purple-100 border-purple-500 text-purple-900'
+
+export const CLOSURE_BLOCK_COLOR = 'bg-gray-200 border-gray-400 text-gray-700'
+
+export const BLACKOUT_BLOCK_COLOR = 'bg-slate-300 border-slate-500 text-slate-800'
+
+export const AFTER_HOURS_BLOCK_COLOR = 'bg-gray-100 border-gray-200 text-gray-400'
+
+export function parseBoardView(value?: string): BoardView {
+  return value === 'week' ? 'week' : 'day'
+}
+
+// Days shown for the view; weeks start on Monday
+export function getBoardDays(view: BoardView, date: string): string[] {
+  const day = parseISO(date)
+
+  if (view === 'day') {
+    return [format(day, 'yyyy-MM-dd')]
+  }
+
+  const monday = startOfWeek(day, { weekStartsOn: 1 })
+  return Array.from({ length: 7 }, (_, i) => format(addDays(monday, i), 'yyyy-MM-dd'))
+}
+
+// Date the previous/next buttons go to
+export function shiftBoardDate(view: BoardView, date: string, direction: 1 | -1) {
+  return format(addDays(parseISO(date), direction * (view === 'week' ? 7 : 1)), 'yyyy-MM-dd')
+}
+
+export function timeToMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// HH:mm; the end of the day is 24:00, which Postgres accepts as a TIME
+export function minutesToTime(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+export function snapMinutes(minutes: number) {
+  return Math.round(minutes / BOARD_SNAP_MINUTES) * BOARD_SNAP_MINUTES
+}
+
+// Slots taken the way check_venue_availability() sees them: expired holds free up
+export function isBlockingReservation(reservation: Pick<Reservation, 'status' | 'expires_at'>, now = new Date()) {
+  return reservation.status === 'confirmed'
+    || reservation.status === 'completed'
+    || (reservation.status === 'pending' && (!reservation.expires_at || new Date(reservation.expires_at) > now))
+}
+
+// Only bookings that haven't started can be moved; completed ones have been checked in
+export function isMovableReservation(reservation: BoardReservation, now = new Date()) {
+  return (reservation.status === 'pending' || reservation.status === 'confirmed')
+    && new Date(`${reservation.reservation_date}T${reservation.start_time}`) > now
+}
+
+export function getReservationLabel(reservation: BoardReservation) {
+  return reservation.user?.full_name || reservation.customer_name || reservation.reservation_code
+}
+
+export function buildBoardItems(
+  reservations: BoardReservation[],
+  events: BoardEvent[],
+  closures: BoardClosure[],
+  blackouts: BoardBlackout[],
+  venueIds: string[],
+  now = new Date()
+): BoardItem[] {
+  const items: BoardItem[] = []
+
+  for (const reservation of reservations) {
+    // Lapsed holds are cancelled by the next sweep; they no longer take the slot
+    if (reservation.status === 'pending' && !isBlockingReservation(reservation, now)) continue
+
+    items.push({
+      kind: 'reservation',
+      id: reservation.id,
+      venueId: reservation.venue_id,
+      date: reservation.reservation_date,
+      start: timeToMinutes(reservation.start_time),
+      end: timeToMinutes(reservation.end_time),
+      reservation,
+    })
+  }
+
+  for (const event of events) {
+    if (!event.venue_id) continue
+
+    items.push({
+      kind: 'event',
+      id: event.id,
+      venueId: event.venue_id,
+      date: event.event_date,
+      start: event.start_time ? timeToMinutes(event.start_time) : 0,
+      end: event.end_time ? timeToMinutes(event.end_time) : 24 * 60,
+      event,
+    })
+  }
+
+  // A closure without a venue closes every venue that day
+  for (const closure of closures) {
+    for (const venueId of closure.venue_id ? [closure.venue_id] : venueIds) {
+      items.push({
+        kind: 'closure',
+        id: `${closure.id}-${venueId}`,
+        venueId,
+        date: closure.special_date,
+        start: 0,
+        end: 24 * 60,
+        closure,
+      })
+    }
+  }
+
+  for (const blackout of blackouts) {
+    items.push({
+      kind: 'blackout',
+      id: `${blackout.blackout_id}-${blackout.blackout_date}`,
+      venueId: blackout.venue_id,
+      date: blackout.blackout_date,
+      start: blackout.start_time ? timeToMinutes(blackout.start_time) : 0,
+      end: blackout.end_time ? timeToMinutes(blackout.end_time) : 24 * 60,
+      blackout,
+    })
+  }
+
+  return items
+}
+
+// Times each venue is closed on each day, around and between its opening periods
+export function buildAfterHoursItems(openingHours: BoardOpeningPeriod[], venueIds: string[], days: string[]): BoardItem[] {
+  return venueIds.flatMap(venueId => days.flatMap(date => {
+    const periods = openingHours.filter(period => period.venue_id === venueId && period.hours_date === date)
+
+    return getClosedPeriods(periods).map(({ start, end }) => ({
+      kind: 'after_hours' as const,
+      id: `after-hours-${venueId}-${date}-${start}`,
+      venueId,
+      date,
+      start,
+      end,
+    }))
+  }))
+}
+
+export interface BoardRange {
+  venueId: string
+  date: string
+  start: number
+  end: number
+}
+
+// What the range would run into: a booking that holds the slot, a blackout, a closed day
+// or a time the venue isn't open.
+// The database has the final word; this only saves a round trip.
+export function findBoardConflict(items: BoardItem[], range: BoardRange, ignoreId?: string, now = new Date()) {
+  return items.find(item =>
+    item.id !== ignoreId
+    && item.venueId === range.venueId
+    && item.date === range.date
+    && item.start < range.end
+    && item.end > range.start
+    && (item.kind === 'closure' || item.kind === 'blackout' || item.kind === 'after_hours' || (item.kind === 'reservation' && isBlockingReservation(item.reservation, now)))
+  )
+}
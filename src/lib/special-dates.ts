@@ -0,0 +1,37 @@
+import type { SpecialDate } from '@/types/database'
+
+// Public holidays, peak days and closures (see 012_special_dates.sql). Entries without a
+// venue apply to every venue; a venue's own entry wins on the same date, as in get_special_date().
+
+type DatedEntry = Pick<SpecialDate, 'venue_id' | 'special_date'>
+
+export const SPECIAL_DATE_TYPE_LABELS: Record<SpecialDate['date_type'], string> = {
+  public_holiday: 'Public holiday',
+  peak_day: 'Peak day',
+  custom: 'Custom',
+}
+
+// PostgREST `or` filter matching the special dates of a venue, global ones included
+export function venueSpecialDatesFilter(venueId: string) {
+  return `venue_id.is.null,venue_id.eq.${venueId}`
+}
+
+// One entry per date for the venue, its own entries taking precedence over global ones
+export function resolveSpecialDates<T extends DatedEntry>(specialDates: T[], venueId: string): T[] {
+  const byDate = new Map<string, T>()
+
+  for (const entry of specialDates) {
+    if (entry.venue_id && entry.venue_id !== venueId) continue
+
+    const current = byDate.get(entry.special_date)
+    if (!current || (!current.venue_id && entry.venue_id)) {
+      byDate.set(entry.special_date, entry)
+    }
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => a.special_date.localeCompare(b.special_date))
+}
+
+export function findSpecialDate<T extends DatedEntry>(specialDates: T[], venueId: string, date: string): T | null {
+  return resolveSpecialDates(specialDates.filter(entry => entry.special_date === date), venueId)[0] ?? null
+}
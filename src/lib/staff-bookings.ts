@@ -0,0 +1,65 @@
+import { roundAmount } from '@/lib/pricing/engine'
+import type { FunctionReturns } from '@/types/database'
+
+// Walk-in and phone bookings made by staff on behalf of customers with
+// create_staff_reservation() (see 024_staff_bookings.sql)
+
+export type CustomerMatch = FunctionReturns<'search_customers'>[number]
+
+export interface StaffBookingPrefill {
+  venueId?: string
+  date?: string
+  startTime?: string
+  endTime?: string
+}
+
+export interface StaffBookingPriceInput {
+  // Sum of calculate_price_breakdown() for the booking
+  subtotal: number
+  priceOverride?: number
+  discountPercentage?: number
+  // Discount of the attached customer's membership, used when staff give none
+  membershipDiscount?: number
+}
+
+export interface StaffBookingPrice {
+  basePrice: number
+  discountPercentage: number
+  discountAmount: number
+  total: number
+  membershipApplied: boolean
+}
+
+// Console link, optionally filled in with a venue and time from the schedule board
+export function getStaffBookingUrl(prefill: StaffBookingPrefill = {}) {
+  const params = new URLSearchParams()
+  if (prefill.venueId) params.set('venue', prefill.venueId)
+  if (prefill.date) params.set('date', prefill.date)
+  if (prefill.startTime) params.set('start', prefill.startTime)
+  if (prefill.endTime) params.set('end', prefill.endTime)
+
+  const query = params.toString()
+  return query ? `/admin/bookings/new?${query}` : '/admin/bookings/new'
+}
+
+// What create_staff_reservation() will charge: a set price replaces the calculated one,
+// and a member's discount only applies when staff leave the price alone
+export function calculateStaffBookingPrice({
+  subtotal,
+  priceOverride,
+  discountPercentage = 0,
+  membershipDiscount = 0,
+}: StaffBookingPriceInput): StaffBookingPrice {
+  const basePrice = priceOverride ?? subtotal
+  const membershipApplied = priceOverride === undefined && discountPercentage === 0 && membershipDiscount > 0
+  const percentage = membershipApplied ? membershipDiscount : discountPercentage
+  const discountAmount = roundAmount(basePrice - roundAmount(basePrice * (1 - percentage / 100)))
+
+  return {
+    basePrice,
+    discountPercentage: percentage,
+    discountAmount,
+    total: roundAmount(basePrice - discountAmount),
+    membershipApplied,
+  }
+}
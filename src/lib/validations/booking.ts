@@ -21,6 +21,87 @@ export const bookingSchema = z.object({
 
 export type BookingFormData = z.infer<typeof bookingSchema>
 
+// Repeating a booking as a series; must match get_series_dates() in SQL
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['weekly', 'biweekly']),
+  ends: z.enum(['after_count', 'on_date']),
+  occurrences: z.number().int().min(2, 'A series has at least 2 bookings').max(52, 'A series has at most 52 bookings'),
+  endDate: z.string(),
+  skipConflicts: z.boolean(),
+}).refine((data) => data.ends !== 'on_date' || data.endDate.length > 0, {
+  message: 'Please select an end date',
+  path: ['endDate']
+})
+
+export type RecurrenceFormData = z.infer<typeof recurrenceSchema>
+
+// Moving a booking with reschedule_reservation()
+export const rescheduleSchema = z.object({
+  venueId: z.string().uuid('Invalid venue ID'),
+  date: z.string().min(1, 'Please select a date'),
+  startTime: z.string().min(1, 'Please select a start time'),
+  endTime: z.string().min(1, 'Please select an end time'),
+}).refine((data) => data.endTime > data.startTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+})
+
+export type RescheduleFormData = z.infer<typeof rescheduleSchema>
+
+// Front desk check-in with a scanned pass or a typed reservation code
+export const checkInSchema = z.object({
+  code: z.string().trim().min(1, 'Scan a pass or enter a reservation code'),
+  venueId: z.string().uuid('Invalid venue ID').nullish(),
+})
+
+export type CheckInFormData = z.infer<typeof checkInSchema>
+
+// Guest booked from the schedule board with create_staff_reservation()
+export const walkInSchema = z.object({
+  customerName: z.string().trim().min(2, 'Customer name must be at least 2 characters'),
+  customerPhone: z.string().trim().optional(),
+  customerEmail: z.union([z.literal(''), z.string().trim().email('Invalid email address')]).optional(),
+  notes: z.string().optional(),
+})
+
+export type WalkInFormData = z.infer<typeof walkInSchema>
+
+// Walk-in or phone booking from the staff console; checks match create_staff_reservation()
+export const staffBookingSchema = z.object({
+  venueId: z.string().min(1, 'Please select a venue'),
+  date: z.string().min(1, 'Please select a date'),
+  startTime: z.string().min(1, 'Please select a start time'),
+  endTime: z.string().min(1, 'Please select an end time'),
+  customerType: z.enum(['guest', 'account']),
+  userId: z.string().optional(),
+  customerName: z.string().trim().optional(),
+  customerPhone: z.string().trim().optional(),
+  customerEmail: z.union([z.literal(''), z.string().trim().email('Invalid email address')]).optional(),
+  priceOverride: z.number().min(0, 'Price must be positive').optional(),
+  discountPercentage: z.number().min(0, 'Discount must be positive').max(100, 'Discount cannot be more than 100%').optional(),
+  adjustmentReason: z.string().trim().optional(),
+  collectCash: z.boolean(),
+  cashAmount: z.number().positive('Amount must be greater than 0').optional(),
+  notes: z.string().optional(),
+}).refine((data) => data.endTime > data.startTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+}).refine((data) => data.customerType !== 'guest' || (data.customerName?.length ?? 0) >= 2, {
+  message: 'Customer name must be at least 2 characters',
+  path: ['customerName']
+}).refine((data) => data.customerType !== 'account' || !!data.userId, {
+  message: 'Please select a customer',
+  path: ['userId']
+}).refine((data) => (data.priceOverride === undefined && !data.discountPercentage) || !!data.adjustmentReason, {
+  message: 'Please give a reason for the price change',
+  path: ['adjustmentReason']
+}).refine((data) => !data.collectCash || data.cashAmount !== undefined, {
+  message: 'Please enter the amount received',
+  path: ['cashAmount']
+})
+
+export type StaffBookingFormData = z.infer<typeof staffBookingSchema>
+
 export const reservationSchema = z.object({
   venueId: z.string().uuid('Invalid venue ID'),
   reservationDate: z.string().refine((date) => {
@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+// venueTypeId 'all' makes the rule global (column NULL)
+export const ALL_VENUE_TYPES = 'all'
+
+export const cancellationRuleSchema = z.object({
+  venueTypeId: z.string().min(1),
+  minHoursBeforeStart: z.number()
+    .int('Use whole hours')
+    .min(0, 'Notice cannot be negative'),
+  refundPercentage: z.number()
+    .min(0, 'Refund cannot be negative')
+    .max(100, 'Refund cannot be more than 100%'),
+})
+
+export type CancellationRuleFormData = z.infer<typeof cancellationRuleSchema>
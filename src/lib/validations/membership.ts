@@ -0,0 +1,21 @@
+import { z } from 'zod'
+
+export const membershipTierSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+  description: z.string().max(500).optional(),
+  price: z.number().min(0, 'Price must be positive'),
+  durationDays: z.number().int().positive('Duration must be at least 1 day'),
+  discountPercentage: z.number().min(0).max(100, 'Discount cannot be more than 100%'),
+  bookingWindowDays: z.number().int().positive('Booking window must be at least 1 day'),
+  isActive: z.boolean(),
+})
+
+export const grantMembershipSchema = z.object({
+  userId: z.string().min(1, 'Please select a customer'),
+  tierId: z.string().min(1, 'Please select a tier'),
+  // Defaults to the tier price
+  pricePaid: z.number().min(0, 'Price must be positive').optional(),
+})
+
+export type MembershipTierFormData = z.infer<typeof membershipTierSchema>
+export type GrantMembershipFormData = z.infer<typeof grantMembershipSchema>
@@ -0,0 +1,41 @@
+import { z } from 'zod'
+import { hasOverlappingPeriods, toClosingTime } from '@/lib/operating-hours'
+
+// Times as entered; a closing time of 00:00 means midnight
+const openingPeriodSchema = z.object({
+  openTime: z.string().min(1, 'Please enter an opening time'),
+  closeTime: z.string().min(1, 'Please enter a closing time'),
+}).refine((data) => toClosingTime(data.closeTime) > data.openTime, {
+  message: 'Closing time must be after opening time',
+  path: ['closeTime'],
+})
+
+export type OpeningPeriodFormData = z.infer<typeof openingPeriodSchema>
+
+// The whole week; a day without periods is closed
+export const weeklyHoursSchema = z.object({
+  days: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    periods: z.array(openingPeriodSchema),
+  }).refine((day) => !hasOverlappingPeriods(day.periods.map(period => ({
+    open_time: period.openTime,
+    close_time: toClosingTime(period.closeTime),
+  }))), {
+    message: 'Opening periods of a day cannot overlap',
+    path: ['periods'],
+  })),
+})
+
+export type WeeklyHoursFormData = z.infer<typeof weeklyHoursSchema>
+
+export const hoursOverrideSchema = z.object({
+  date: z.string().min(1, 'Please select a date'),
+  openTime: z.string().min(1, 'Please enter an opening time'),
+  closeTime: z.string().min(1, 'Please enter a closing time'),
+  reason: z.string().trim().max(200, 'Reason must be 200 characters or less'),
+}).refine((data) => toClosingTime(data.closeTime) > data.openTime, {
+  message: 'Closing time must be after opening time',
+  path: ['closeTime'],
+})
+
+export type HoursOverrideFormData = z.infer<typeof hoursOverrideSchema>
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+
+export const paymentMethodSchema = z.enum(['cash', 'bank_transfer', 'e_wallet', 'credit_card'])
+
+// Pays for one reservation or for a whole cart checkout (booking order)
+export const chargeSchema = z.object({
+  reservationId: z.string().uuid('Invalid reservation ID').optional(),
+  orderId: z.string().uuid('Invalid order ID').optional(),
+  paymentMethod: paymentMethodSchema,
+  amount: z.number().positive('Amount must be greater than 0').optional(),
+}).refine((data) => Boolean(data.reservationId) !== Boolean(data.orderId), {
+  message: 'Provide either a reservation or an order',
+  path: ['reservationId'],
+})
+
+export const refundSchema = z.object({
+  amount: z.number().positive('Amount must be greater than 0').optional(),
+  reason: z.string().max(500, 'Reason must be at most 500 characters').optional(),
+})
+
+export const mockPaymentSimulationSchema = z.object({
+  paymentId: z.string().uuid('Invalid payment ID'),
+  status: z.enum(['completed', 'failed', 'cancelled']),
+})
+
+export type ChargeRequest = z.infer<typeof chargeSchema>
+export type RefundRequest = z.infer<typeof refundSchema>
+export type MockPaymentSimulationRequest = z.infer<typeof mockPaymentSimulationSchema>
@@ -0,0 +1,31 @@
+import { z } from 'zod'
+
+// venueId / venueTypeId 'any' leave the code unrestricted (column NULL)
+export const ANY_VENUE = 'any'
+
+export const promoCodeSchema = z.object({
+  code: z.string()
+    .min(3, 'Code must be at least 3 characters')
+    .max(50)
+    .regex(/^[A-Z0-9_-]+$/, 'Use letters, numbers, dashes and underscores only'),
+  description: z.string().max(500).optional(),
+  discountType: z.enum(['percentage', 'fixed_amount']),
+  discountValue: z.number().positive('Discount must be more than 0'),
+  minSpend: z.number().min(0, 'Minimum spend must be positive'),
+  // datetime-local values, empty for no limit
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+  usageLimit: z.number().int().positive('Limit must be at least 1').optional(),
+  perUserLimit: z.number().int().positive('Limit must be at least 1').optional(),
+  venueId: z.string().min(1),
+  venueTypeId: z.string().min(1),
+  isActive: z.boolean(),
+}).refine((data) => data.discountType !== 'percentage' || data.discountValue <= 100, {
+  message: 'A percentage discount cannot be more than 100%',
+  path: ['discountValue'],
+}).refine((data) => !data.validFrom || !data.validUntil || data.validUntil > data.validFrom, {
+  message: 'The end must be after the start',
+  path: ['validUntil'],
+})
+
+export type PromoCodeFormData = z.infer<typeof promoCodeSchema>
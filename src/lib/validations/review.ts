@@ -0,0 +1,15 @@
+import { z } from 'zod'
+
+export const reviewSchema = z.object({
+  reservationId: z.string().min(1, 'Please select the booking you are reviewing'),
+  rating: z.number().int().min(1, 'Please select a rating').max(5),
+  comment: z.string().max(1000, 'Review must be at most 1000 characters').optional(),
+})
+
+export const reviewModerationSchema = z.object({
+  status: z.enum(['published', 'hidden', 'flagged']),
+  moderationNote: z.string().max(500).optional(),
+})
+
+export type ReviewFormData = z.infer<typeof reviewSchema>
+export type ReviewModerationFormData = z.infer<typeof reviewModerationSchema>
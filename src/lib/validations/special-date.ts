@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+// venueId 'all' stores the special date for every venue (venue_id NULL)
+export const ALL_VENUES = 'all'
+
+export const specialDateSchema = z.object({
+  specialDate: z.string().min(1, 'Please select a date'),
+  name: z.string().min(2, 'Name must be at least 2 characters').max(200),
+  dateType: z.enum(['public_holiday', 'peak_day', 'custom']),
+  venueId: z.string().min(1, 'Please select a venue'),
+  priceMultiplier: z.number().min(0, 'Multiplier must be positive').max(9.99).optional(),
+  priceOverride: z.number().min(0, 'Price must be positive').optional(),
+  isClosed: z.boolean(),
+}).refine((data) => data.priceMultiplier === undefined || data.priceOverride === undefined, {
+  message: 'Use either a price multiplier or a price override, not both',
+  path: ['priceOverride'],
+})
+
+export type SpecialDateFormData = z.infer<typeof specialDateSchema>
@@ -0,0 +1,31 @@
+import { z } from 'zod'
+
+// Matches the checks on venue_blackouts; an empty endDate repeats a weekly blackout for good
+export const venueBlackoutSchema = z.object({
+  startDate: z.string().min(1, 'Please select a start date'),
+  endDate: z.string(),
+  recurrence: z.enum(['none', 'weekly']),
+  allDay: z.boolean(),
+  startTime: z.string(),
+  endTime: z.string(),
+  reason: z.string().trim().min(2, 'Reason must be at least 2 characters').max(200),
+  visibility: z.enum(['public', 'internal']),
+}).refine((data) => data.recurrence === 'weekly' || data.endDate.length > 0, {
+  message: 'Please select an end date',
+  path: ['endDate'],
+}).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+  message: 'End date cannot be before the start date',
+  path: ['endDate'],
+}).refine((data) => data.allDay || (data.startTime.length > 0 && data.endTime > data.startTime), {
+  message: 'End time must be after start time',
+  path: ['endTime'],
+})
+
+export type VenueBlackoutFormData = z.infer<typeof venueBlackoutSchema>
+
+// Bookings to cancel for a blackout; leaving reservationIds out cancels every colliding booking
+export const blackoutCancellationSchema = z.object({
+  reservationIds: z.array(z.string().uuid('Invalid reservation ID')).min(1, 'Select at least one booking').optional(),
+})
+
+export type BlackoutCancellationData = z.infer<typeof blackoutCancellationSchema>
@@ -0,0 +1,81 @@
+import { format, parseISO } from 'date-fns'
+import { timeToMinutes } from '@/lib/pricing/engine'
+import type { FunctionReturns, VenueBlackout } from '@/types/database'
+
+// Maintenance and private-use closures of a venue (see 025_venue_blackouts.sql). A
+// blackout blocks every day of its date range, or one weekday a week, either all day
+// or between start_time and end_time.
+
+// One day of a blackout from get_venue_blackouts(); times are null for all-day
+// blackouts, and the reason is null when customers aren't meant to see it
+export type BlackoutOccurrence = Omit<
+  FunctionReturns<'get_venue_blackouts'>[number],
+  'start_time' | 'end_time' | 'reason'
+> & {
+  start_time: string | null
+  end_time: string | null
+  reason: string | null
+}
+
+export type BlackoutConflict = FunctionReturns<'get_blackout_conflicts'>[number]
+
+export const BLACKOUT_RECURRENCE_LABELS: Record<VenueBlackout['recurrence'], string> = {
+  none: 'Every day in the date range',
+  weekly: 'Weekly, on the start date\'s weekday',
+}
+
+export const BLACKOUT_VISIBILITY_LABELS: Record<VenueBlackout['visibility'], string> = {
+  public: 'Customers see the reason',
+  internal: 'Staff only',
+}
+
+// What customers are told about a blacked-out slot
+export function getBlackoutLabel(occurrence: Pick<BlackoutOccurrence, 'reason'>) {
+  return occurrence.reason || 'Unavailable'
+}
+
+// The blackout of the day that overlaps a period, if any
+export function findBlackout<T extends Pick<BlackoutOccurrence, 'blackout_date' | 'start_time' | 'end_time'>>(
+  occurrences: T[],
+  date: string,
+  startTime: string,
+  endTime: string
+): T | null {
+  return occurrences.find(occurrence =>
+    occurrence.blackout_date === date
+    && (
+      !occurrence.start_time
+      || !occurrence.end_time
+      || (timeToMinutes(occurrence.start_time) < timeToMinutes(endTime)
+        && timeToMinutes(occurrence.end_time) > timeToMinutes(startTime))
+    )
+  ) ?? null
+}
+
+// e.g. "Mon, Nov 2 - Wed, Nov 4, 2026 · All day" or "Sundays from Nov 1, 2026 · 10:30 - 12:00"
+export function describeBlackout(
+  blackout: Pick<VenueBlackout, 'start_date' | 'end_date' | 'start_time' | 'end_time' | 'recurrence'>
+) {
+  const start = parseISO(blackout.start_date)
+  const end = blackout.end_date ? parseISO(blackout.end_date) : null
+
+  let dates: string
+  if (blackout.recurrence === 'weekly') {
+    dates = `${format(start, 'EEEE')}s from ${format(start, 'MMM d, yyyy')}`
+    if (end) dates += ` to ${format(end, 'MMM d, yyyy')}`
+  } else if (!end || blackout.end_date === blackout.start_date) {
+    dates = format(start, 'EEE, MMM d, yyyy')
+  } else {
+    dates = `${format(start, 'EEE, MMM d')} - ${format(end, 'EEE, MMM d, yyyy')}`
+  }
+
+  const times = blackout.start_time && blackout.end_time
+    ? `${blackout.start_time.slice(0, 5)} - ${blackout.end_time.slice(0, 5)}`
+    : 'All day'
+
+  return `${dates} · ${times}`
+}
+
+export function getBlackoutCancellationUrl(blackoutId: string) {
+  return `/api/venue-blackouts/${blackoutId}/cancel-reservations`
+}
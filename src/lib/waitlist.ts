@@ -0,0 +1,36 @@
+import type { Enums, WaitlistEntry } from '@/types/database'
+
+// Customers queue for booked times and get offered the slot when it frees up
+// (see 019_waitlist.sql). An offer is a pending reservation the customer pays for.
+
+export type WaitlistStatus = Enums<'waitlist_status'>
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: 'Waiting',
+  offered: 'Slot offered',
+  booked: 'Booked',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+}
+
+// Same as waitlist_offer_duration() in SQL
+export const WAITLIST_OFFER_MINUTES = 30
+
+type WaitlistEntryTimes = Pick<WaitlistEntry, 'status' | 'requested_date' | 'start_time' | 'offer_expires_at'>
+
+// An offer the customer can still pay for
+export function isOpenOffer(entry: WaitlistEntryTimes, now = new Date()) {
+  return entry.status === 'offered'
+    && entry.offer_expires_at !== null
+    && new Date(entry.offer_expires_at) > now
+}
+
+// Waiting entries whose time has come and gone are only marked expired when the
+// waitlist is next looked at on the server, so show them as expired already
+export function getWaitlistStatus(entry: WaitlistEntryTimes, now = new Date()): WaitlistStatus {
+  if (entry.status === 'waiting' && new Date(`${entry.requested_date}T${entry.start_time}`) <= now) {
+    return 'expired'
+  }
+
+  return entry.status
+}
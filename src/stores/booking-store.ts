@@ -1,41 +1,87 @@
 import { create } from 'zustand'
-import { Venue, VenueTimeSlot, Reservation } from '@/types/database'
+import { Venue, VenueTimeSlot, Reservation, SpecialDate } from '@/types/database'
+import {
+  calculateBookingPrice,
+  type PriceBreakdown,
+  type PricingMembership,
+  type PricingPromoCode,
+} from '@/lib/pricing/engine'
+import { findSpecialDate } from '@/lib/special-dates'
+import type { CartItemError } from '@/lib/reservation-errors'
+import type { VenueDaySlot } from '@/lib/operating-hours'
+
+// Must match max_order_items() in SQL
+export const MAX_CART_ITEMS = 10
+
+// A booking waiting in the cart; all of them are booked together by create_booking_order
+export interface CartItem {
+  id: string
+  venue: Venue
+  date: string
+  startTime: string
+  endTime: string
+  priceBreakdown: PriceBreakdown
+  // Why the server couldn't book it at the last checkout
+  error?: string
+}
 
 interface BookingState {
   selectedVenue: Venue | null
   selectedDate: string | null
-  selectedTimeSlot: VenueTimeSlot | null
-  availableSlots: VenueTimeSlot[]
+  selectedStartTime: string | null
+  selectedEndTime: string | null
+  // Price bands of the selected venue
+  timeSlots: VenueTimeSlot[]
+  specialDates: SpecialDate[]
+  availableSlots: VenueDaySlot[]
   reservations: Reservation[]
   notes: string
+  promoCode: PricingPromoCode | null
+  membership: PricingMembership | null
+  priceBreakdown: PriceBreakdown | null
   totalPrice: number
   duration: number
   loading: boolean
   isSubmitting: boolean
+  cart: CartItem[]
   setSelectedVenue: (venue: Venue | null) => void
   setSelectedDate: (date: string | null) => void
-  setSelectedTimeSlot: (slot: VenueTimeSlot | null) => void
-  setAvailableSlots: (slots: VenueTimeSlot[]) => void
+  setSelectedTimeRange: (startTime: string | null, endTime: string | null) => void
+  setTimeSlots: (slots: VenueTimeSlot[]) => void
+  setSpecialDates: (specialDates: SpecialDate[]) => void
+  setAvailableSlots: (slots: VenueDaySlot[]) => void
   setReservations: (reservations: Reservation[]) => void
   setNotes: (notes: string) => void
+  setPromoCode: (promoCode: PricingPromoCode | null) => void
+  setMembership: (membership: PricingMembership | null) => void
   setLoading: (loading: boolean) => void
   setSubmitting: (submitting: boolean) => void
   calculatePrice: () => void
-  calculateDuration: () => void
+  addToCart: (item: Omit<CartItem, 'id' | 'error'>) => void
+  removeFromCart: (id: string) => void
+  setCartErrors: (errors: CartItemError[]) => void
+  clearCart: () => void
   clearBooking: () => void
 }
 
 export const useBookingStore = create<BookingState>((set, get) => ({
   selectedVenue: null,
   selectedDate: null,
-  selectedTimeSlot: null,
+  selectedStartTime: null,
+  selectedEndTime: null,
+  timeSlots: [],
+  specialDates: [],
   availableSlots: [],
   reservations: [],
   notes: '',
+  promoCode: null,
+  membership: null,
+  priceBreakdown: null,
   totalPrice: 0,
   duration: 0,
   loading: false,
   isSubmitting: false,
+  cart: [],
   setSelectedVenue: (venue) => {
     set({ selectedVenue: venue })
     get().calculatePrice()
@@ -44,54 +90,85 @@ export const useBookingStore = create<BookingState>((set, get) => ({
     set({ selectedDate: date })
     get().calculatePrice()
   },
-  setSelectedTimeSlot: (slot) => {
-    set({ selectedTimeSlot: slot })
+  setSelectedTimeRange: (startTime, endTime) => {
+    set({ selectedStartTime: startTime, selectedEndTime: endTime })
+    get().calculatePrice()
+  },
+  setTimeSlots: (slots) => {
+    set({ timeSlots: slots })
+    get().calculatePrice()
+  },
+  setSpecialDates: (specialDates) => {
+    set({ specialDates })
     get().calculatePrice()
-    get().calculateDuration()
   },
   setAvailableSlots: (slots) => set({ availableSlots: slots }),
   setReservations: (reservations) => set({ reservations }),
   setNotes: (notes) => set({ notes }),
+  setPromoCode: (promoCode) => {
+    set({ promoCode })
+    get().calculatePrice()
+  },
+  setMembership: (membership) => {
+    set({ membership })
+    get().calculatePrice()
+  },
   setLoading: (loading) => set({ loading }),
   setSubmitting: (submitting) => set({ isSubmitting: submitting }),
   calculatePrice: () => {
-    const { selectedDate, selectedTimeSlot } = get()
+    const { selectedVenue, selectedDate, selectedStartTime, selectedEndTime, timeSlots, specialDates, promoCode, membership } = get()
     
-    if (!selectedDate || !selectedTimeSlot) {
-      set({ totalPrice: 0 })
+    if (!selectedVenue || !selectedDate || !selectedStartTime || !selectedEndTime) {
+      set({ priceBreakdown: null, totalPrice: 0, duration: 0 })
       return
     }
     
-    const date = new Date(selectedDate)
-    const isWeekend = date.getDay() === 0 || date.getDay() === 6
-    
-    const price = isWeekend 
-      ? selectedTimeSlot.price_weekend 
-      : selectedTimeSlot.price_weekday
-    
-    set({ totalPrice: price || 0 })
-  },
-  calculateDuration: () => {
-    const { selectedTimeSlot } = get()
-    
-    if (!selectedTimeSlot) {
-      set({ duration: 0 })
-      return
+    try {
+      const priceBreakdown = calculateBookingPrice({
+        venue: selectedVenue,
+        slots: timeSlots,
+        date: selectedDate,
+        startTime: selectedStartTime,
+        endTime: selectedEndTime,
+        specialDate: findSpecialDate(specialDates, selectedVenue.id, selectedDate),
+        promoCode,
+        membership,
+      })
+      
+      set({
+        priceBreakdown,
+        totalPrice: priceBreakdown.total,
+        duration: priceBreakdown.durationHours,
+      })
+    } catch {
+      // Slots for the new venue or date are still loading, the venue is closed or the period isn't priced
+      set({ priceBreakdown: null, totalPrice: 0, duration: 0 })
     }
-    
-    const start = new Date(`2000-01-01T${selectedTimeSlot.start_time}`)
-    const end = new Date(`2000-01-01T${selectedTimeSlot.end_time}`)
-    const durationMs = end.getTime() - start.getTime()
-    const durationHours = durationMs / (1000 * 60 * 60)
-    
-    set({ duration: durationHours })
   },
+  addToCart: (item) => set((state) => ({
+    cart: [...state.cart, { ...item, id: crypto.randomUUID() }],
+  })),
+  removeFromCart: (id) => set((state) => ({
+    cart: state.cart.filter(item => item.id !== id),
+  })),
+  setCartErrors: (errors) => set((state) => ({
+    cart: state.cart.map((item, index) => ({
+      ...item,
+      error: errors.find(error => error.item === index)?.message,
+    })),
+  })),
+  clearCart: () => set({ cart: [] }),
   clearBooking: () => set({
     selectedVenue: null,
     selectedDate: null,
-    selectedTimeSlot: null,
+    selectedStartTime: null,
+    selectedEndTime: null,
+    timeSlots: [],
+    specialDates: [],
     availableSlots: [],
     notes: '',
+    promoCode: null,
+    priceBreakdown: null,
     totalPrice: 0,
     duration: 0,
     isSubmitting: false,
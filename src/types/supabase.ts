@@ -0,0 +1,2479 @@
+// Generated by scripts/generate-types.js from supabase/migrations - do not edit by hand.
+// Run `npm run db:types` after adding a migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      albums: {
+        Row: {
+          cover_image_url: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean | null
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          cover_image_url?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          cover_image_url?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "albums_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_id: string | null
+          actor_name: string | null
+          actor_role: Database["public"]["Enums"]["user_role"] | null
+          created_at: string
+          entity_id: string
+          entity_type: string
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          source: Database["public"]["Enums"]["audit_source"]
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_id?: string | null
+          actor_name?: string | null
+          actor_role?: Database["public"]["Enums"]["user_role"] | null
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          source: Database["public"]["Enums"]["audit_source"]
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["audit_action"]
+          actor_id?: string | null
+          actor_name?: string | null
+          actor_role?: Database["public"]["Enums"]["user_role"] | null
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          source?: Database["public"]["Enums"]["audit_source"]
+        }
+        Relationships: []
+      }
+      booking_orders: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          notes: string | null
+          order_code: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_code: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_code?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_orders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string | null
+          id: string
+          token: string
+          updated_at: string | null
+          user_id: string
+          venue_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          token: string
+          updated_at?: string | null
+          user_id: string
+          venue_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          token?: string
+          updated_at?: string | null
+          user_id?: string
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feeds_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cancellation_policy_rules: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          min_hours_before_start: number
+          refund_percentage: number
+          updated_at: string | null
+          venue_type_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          min_hours_before_start: number
+          refund_percentage: number
+          updated_at?: string | null
+          venue_type_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          min_hours_before_start?: number
+          refund_percentage?: number
+          updated_at?: string | null
+          venue_type_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_policy_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cancellation_policy_rules_venue_type_id_fkey"
+            columns: ["venue_type_id"]
+            isOneToOne: false
+            referencedRelation: "venue_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          end_time: string | null
+          event_date: string
+          id: string
+          image_url: string | null
+          is_active: boolean | null
+          start_time: string | null
+          title: string
+          updated_at: string | null
+          venue_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          end_time?: string | null
+          event_date: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean | null
+          start_time?: string | null
+          title: string
+          updated_at?: string | null
+          venue_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          end_time?: string | null
+          event_date?: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean | null
+          start_time?: string | null
+          title?: string
+          updated_at?: string | null
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      financial_transactions: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          description: string
+          id: string
+          payment_method: string | null
+          reference_number: string | null
+          reservation_id: string | null
+          transaction_date: string
+          transaction_type: Database["public"]["Enums"]["transaction_type"]
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          description: string
+          id?: string
+          payment_method?: string | null
+          reference_number?: string | null
+          reservation_id?: string | null
+          transaction_date?: string
+          transaction_type: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          description?: string
+          id?: string
+          payment_method?: string | null
+          reference_number?: string | null
+          reservation_id?: string | null
+          transaction_date?: string
+          transaction_type?: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "financial_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "financial_transactions_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      membership_tiers: {
+        Row: {
+          booking_window_days: number
+          created_at: string | null
+          description: string | null
+          discount_percentage: number
+          duration_days: number
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          sort_order: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          booking_window_days: number
+          created_at?: string | null
+          description?: string | null
+          discount_percentage?: number
+          duration_days?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          price: number
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          booking_window_days?: number
+          created_at?: string | null
+          description?: string | null
+          discount_percentage?: number
+          duration_days?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      memberships: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          expires_at: string
+          id: string
+          price_paid: number
+          starts_at: string
+          status: Database["public"]["Enums"]["membership_status"]
+          tier_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          price_paid?: number
+          starts_at?: string
+          status?: Database["public"]["Enums"]["membership_status"]
+          tier_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          price_paid?: number
+          starts_at?: string
+          status?: Database["public"]["Enums"]["membership_status"]
+          tier_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memberships_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "memberships_tier_id_fkey"
+            columns: ["tier_id"]
+            isOneToOne: false
+            referencedRelation: "membership_tiers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "memberships_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          last_error: string | null
+          reservation_id: string | null
+          scheduled_for: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["notification_delivery_status"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          last_error?: string | null
+          reservation_id?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string | null
+          event?: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          last_error?: string | null
+          reservation_id?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string
+          created_at: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          link: string | null
+          read_at: string | null
+          reservation_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          reservation_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string | null
+          event?: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          reservation_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_webhook_events: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          event_id: string
+          id: string
+          payload: Json
+          payment_id: string | null
+          processed_at: string | null
+          provider: string
+          status: Database["public"]["Enums"]["payment_transaction_status"] | null
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          event_id: string
+          id?: string
+          payload: Json
+          payment_id?: string | null
+          processed_at?: string | null
+          provider: string
+          status?: Database["public"]["Enums"]["payment_transaction_status"] | null
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          event_id?: string
+          id?: string
+          payload?: Json
+          payment_id?: string | null
+          processed_at?: string | null
+          provider?: string
+          status?: Database["public"]["Enums"]["payment_transaction_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_webhook_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          checkout_url: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          notes: string | null
+          order_id: string | null
+          paid_at: string | null
+          payment_kind: Database["public"]["Enums"]["payment_kind"]
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status: Database["public"]["Enums"]["payment_transaction_status"]
+          provider: string | null
+          provider_reference: string | null
+          reference_number: string | null
+          refunded_payment_id: string | null
+          reservation_id: string | null
+          transaction_date: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          amount: number
+          checkout_url?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_id?: string | null
+          paid_at?: string | null
+          payment_kind?: Database["public"]["Enums"]["payment_kind"]
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_transaction_status"]
+          provider?: string | null
+          provider_reference?: string | null
+          reference_number?: string | null
+          refunded_payment_id?: string | null
+          reservation_id?: string | null
+          transaction_date?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          checkout_url?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_id?: string | null
+          paid_at?: string | null
+          payment_kind?: Database["public"]["Enums"]["payment_kind"]
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_transaction_status"]
+          provider?: string | null
+          provider_reference?: string | null
+          reference_number?: string | null
+          refunded_payment_id?: string | null
+          reservation_id?: string | null
+          transaction_date?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "booking_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_refunded_payment_id_fkey"
+            columns: ["refunded_payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      photos: {
+        Row: {
+          album_id: string
+          created_at: string | null
+          description: string | null
+          id: string
+          image_url: string
+          is_active: boolean | null
+          sort_order: number | null
+          title: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          album_id: string
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          image_url: string
+          is_active?: boolean | null
+          sort_order?: number | null
+          title?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          album_id?: string
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          image_url?: string
+          is_active?: boolean | null
+          sort_order?: number | null
+          title?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photos_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          address: string | null
+          avatar_url: string | null
+          created_at: string | null
+          date_of_birth: string | null
+          full_name: string
+          id: string
+          is_active: boolean | null
+          phone: string | null
+          preferred_language: string
+          role: Database["public"]["Enums"]["user_role"] | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          avatar_url?: string | null
+          created_at?: string | null
+          date_of_birth?: string | null
+          full_name: string
+          id: string
+          is_active?: boolean | null
+          phone?: string | null
+          preferred_language?: string
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          avatar_url?: string | null
+          created_at?: string | null
+          date_of_birth?: string | null
+          full_name?: string
+          id?: string
+          is_active?: boolean | null
+          phone?: string | null
+          preferred_language?: string
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      promo_codes: {
+        Row: {
+          code: string
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          discount_type: Database["public"]["Enums"]["promo_discount_type"]
+          discount_value: number
+          id: string
+          is_active: boolean
+          min_spend: number
+          per_user_limit: number | null
+          updated_at: string | null
+          usage_limit: number | null
+          valid_from: string | null
+          valid_until: string | null
+          venue_id: string | null
+          venue_type_id: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          discount_type: Database["public"]["Enums"]["promo_discount_type"]
+          discount_value: number
+          id?: string
+          is_active?: boolean
+          min_spend?: number
+          per_user_limit?: number | null
+          updated_at?: string | null
+          usage_limit?: number | null
+          valid_from?: string | null
+          valid_until?: string | null
+          venue_id?: string | null
+          venue_type_id?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          discount_type?: Database["public"]["Enums"]["promo_discount_type"]
+          discount_value?: number
+          id?: string
+          is_active?: boolean
+          min_spend?: number
+          per_user_limit?: number | null
+          updated_at?: string | null
+          usage_limit?: number | null
+          valid_from?: string | null
+          valid_until?: string | null
+          venue_id?: string | null
+          venue_type_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_codes_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_codes_venue_type_id_fkey"
+            columns: ["venue_type_id"]
+            isOneToOne: false
+            referencedRelation: "venue_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_reschedules: {
+        Row: {
+          created_at: string | null
+          id: string
+          new_date: string
+          new_end_time: string
+          new_start_time: string
+          new_total_price: number
+          new_venue_id: string | null
+          previous_date: string
+          previous_end_time: string
+          previous_start_time: string
+          previous_total_price: number
+          previous_venue_id: string | null
+          rescheduled_by: string | null
+          reservation_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          new_date: string
+          new_end_time: string
+          new_start_time: string
+          new_total_price: number
+          new_venue_id?: string | null
+          previous_date: string
+          previous_end_time: string
+          previous_start_time: string
+          previous_total_price: number
+          previous_venue_id?: string | null
+          rescheduled_by?: string | null
+          reservation_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          new_date?: string
+          new_end_time?: string
+          new_start_time?: string
+          new_total_price?: number
+          new_venue_id?: string | null
+          previous_date?: string
+          previous_end_time?: string
+          previous_start_time?: string
+          previous_total_price?: number
+          previous_venue_id?: string | null
+          rescheduled_by?: string | null
+          reservation_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_reschedules_new_venue_id_fkey"
+            columns: ["new_venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_reschedules_previous_venue_id_fkey"
+            columns: ["previous_venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_reschedules_rescheduled_by_fkey"
+            columns: ["rescheduled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_reschedules_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_series: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          end_date: string
+          end_time: string
+          frequency: Database["public"]["Enums"]["series_frequency"]
+          id: string
+          notes: string | null
+          occurrence_count: number
+          package_discount_percentage: number
+          start_date: string
+          start_time: string
+          status: Database["public"]["Enums"]["series_status"]
+          updated_at: string | null
+          user_id: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          end_date: string
+          end_time: string
+          frequency?: Database["public"]["Enums"]["series_frequency"]
+          id?: string
+          notes?: string | null
+          occurrence_count: number
+          package_discount_percentage?: number
+          start_date: string
+          start_time: string
+          status?: Database["public"]["Enums"]["series_status"]
+          updated_at?: string | null
+          user_id: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          end_date?: string
+          end_time?: string
+          frequency?: Database["public"]["Enums"]["series_frequency"]
+          id?: string
+          notes?: string | null
+          occurrence_count?: number
+          package_discount_percentage?: number
+          start_date?: string
+          start_time?: string
+          status?: Database["public"]["Enums"]["series_status"]
+          updated_at?: string | null
+          user_id?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_series_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_series_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_series_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservations: {
+        Row: {
+          amount_paid: number
+          base_price: number
+          booked_period: unknown | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string | null
+          customer_email: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          discount_amount: number
+          discount_percentage: number | null
+          duration_hours: number
+          end_time: string
+          expires_at: string | null
+          id: string
+          notes: string | null
+          order_id: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"] | null
+          price_adjustment_reason: string | null
+          price_breakdown: Json | null
+          promo_code_id: string | null
+          reschedule_count: number
+          reservation_code: string
+          reservation_date: string
+          series_id: string | null
+          start_time: string
+          status: Database["public"]["Enums"]["reservation_status"] | null
+          total_price: number
+          updated_at: string | null
+          user_id: string | null
+          venue_id: string
+          venue_time_slot_id: string
+        }
+        Insert: {
+          amount_paid?: number
+          base_price: number
+          booked_period?: never
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          discount_amount?: number
+          discount_percentage?: number | null
+          duration_hours: number
+          end_time: string
+          expires_at?: string | null
+          id?: string
+          notes?: string | null
+          order_id?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          price_adjustment_reason?: string | null
+          price_breakdown?: Json | null
+          promo_code_id?: string | null
+          reschedule_count?: number
+          reservation_code: string
+          reservation_date: string
+          series_id?: string | null
+          start_time: string
+          status?: Database["public"]["Enums"]["reservation_status"] | null
+          total_price: number
+          updated_at?: string | null
+          user_id?: string | null
+          venue_id: string
+          venue_time_slot_id: string
+        }
+        Update: {
+          amount_paid?: number
+          base_price?: number
+          booked_period?: never
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          discount_amount?: number
+          discount_percentage?: number | null
+          duration_hours?: number
+          end_time?: string
+          expires_at?: string | null
+          id?: string
+          notes?: string | null
+          order_id?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          price_adjustment_reason?: string | null
+          price_breakdown?: Json | null
+          promo_code_id?: string | null
+          reschedule_count?: number
+          reservation_code?: string
+          reservation_date?: string
+          series_id?: string | null
+          start_time?: string
+          status?: Database["public"]["Enums"]["reservation_status"] | null
+          total_price?: number
+          updated_at?: string | null
+          user_id?: string | null
+          venue_id?: string
+          venue_time_slot_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservations_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "booking_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "reservation_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_venue_time_slot_id_fkey"
+            columns: ["venue_time_slot_id"]
+            isOneToOne: false
+            referencedRelation: "venue_time_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_votes: {
+        Row: {
+          created_at: string | null
+          review_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          review_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          review_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_votes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          comment: string | null
+          created_at: string | null
+          helpful_count: number
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_note: string | null
+          rating: number
+          reservation_id: string
+          status: Database["public"]["Enums"]["review_status"] | null
+          updated_at: string | null
+          user_id: string
+          venue_id: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string | null
+          helpful_count?: number
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_note?: string | null
+          rating: number
+          reservation_id: string
+          status?: Database["public"]["Enums"]["review_status"] | null
+          updated_at?: string | null
+          user_id: string
+          venue_id: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string | null
+          helpful_count?: number
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_note?: string | null
+          rating?: number
+          reservation_id?: string
+          status?: Database["public"]["Enums"]["review_status"] | null
+          updated_at?: string | null
+          user_id?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_moderated_by_fkey"
+            columns: ["moderated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: true
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      special_dates: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          date_type: Database["public"]["Enums"]["special_date_type"]
+          id: string
+          is_closed: boolean
+          name: string
+          price_multiplier: number | null
+          price_override: number | null
+          special_date: string
+          updated_at: string | null
+          venue_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          date_type?: Database["public"]["Enums"]["special_date_type"]
+          id?: string
+          is_closed?: boolean
+          name: string
+          price_multiplier?: number | null
+          price_override?: number | null
+          special_date: string
+          updated_at?: string | null
+          venue_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          date_type?: Database["public"]["Enums"]["special_date_type"]
+          id?: string
+          is_closed?: boolean
+          name?: string
+          price_multiplier?: number | null
+          price_override?: number | null
+          special_date?: string
+          updated_at?: string | null
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "special_dates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "special_dates_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_blackouts: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          end_date: string | null
+          end_time: string | null
+          id: string
+          reason: string
+          recurrence: Database["public"]["Enums"]["blackout_recurrence"]
+          start_date: string
+          start_time: string | null
+          updated_at: string | null
+          venue_id: string
+          visibility: Database["public"]["Enums"]["blackout_visibility"]
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          end_date?: string | null
+          end_time?: string | null
+          id?: string
+          reason: string
+          recurrence?: Database["public"]["Enums"]["blackout_recurrence"]
+          start_date: string
+          start_time?: string | null
+          updated_at?: string | null
+          venue_id: string
+          visibility?: Database["public"]["Enums"]["blackout_visibility"]
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          end_date?: string | null
+          end_time?: string | null
+          id?: string
+          reason?: string
+          recurrence?: Database["public"]["Enums"]["blackout_recurrence"]
+          start_date?: string
+          start_time?: string | null
+          updated_at?: string | null
+          venue_id?: string
+          visibility?: Database["public"]["Enums"]["blackout_visibility"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_blackouts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_blackouts_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_hours_overrides: {
+        Row: {
+          close_time: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          open_time: string
+          override_date: string
+          reason: string | null
+          updated_at: string | null
+          venue_id: string
+        }
+        Insert: {
+          close_time: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          open_time: string
+          override_date: string
+          reason?: string | null
+          updated_at?: string | null
+          venue_id: string
+        }
+        Update: {
+          close_time?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          open_time?: string
+          override_date?: string
+          reason?: string | null
+          updated_at?: string | null
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_hours_overrides_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_hours_overrides_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_operating_hours: {
+        Row: {
+          close_time: string
+          created_at: string | null
+          day_of_week: number
+          id: string
+          open_time: string
+          updated_at: string | null
+          venue_id: string
+        }
+        Insert: {
+          close_time: string
+          created_at?: string | null
+          day_of_week: number
+          id?: string
+          open_time: string
+          updated_at?: string | null
+          venue_id: string
+        }
+        Update: {
+          close_time?: string
+          created_at?: string | null
+          day_of_week?: number
+          id?: string
+          open_time?: string
+          updated_at?: string | null
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_operating_hours_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_time_slots: {
+        Row: {
+          created_at: string | null
+          end_time: string
+          id: string
+          is_available: boolean | null
+          price_multiplier: number | null
+          start_time: string
+          updated_at: string | null
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          end_time: string
+          id?: string
+          is_available?: boolean | null
+          price_multiplier?: number | null
+          start_time: string
+          updated_at?: string | null
+          venue_id: string
+        }
+        Update: {
+          created_at?: string | null
+          end_time?: string
+          id?: string
+          is_available?: boolean | null
+          price_multiplier?: number | null
+          start_time?: string
+          updated_at?: string | null
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_time_slots_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_types: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          icon: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          slot_duration: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          icon?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          slot_duration?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          icon?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          slot_duration?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      venues: {
+        Row: {
+          base_price: number
+          capacity: number
+          created_at: string | null
+          description: string | null
+          facilities: string[] | null
+          id: string
+          image_url: string | null
+          is_active: boolean | null
+          name: string
+          rules: string | null
+          updated_at: string | null
+          venue_type_id: string
+          weekend_price: number | null
+        }
+        Insert: {
+          base_price?: number
+          capacity?: number
+          created_at?: string | null
+          description?: string | null
+          facilities?: string[] | null
+          id?: string
+          image_url?: string | null
+          is_active?: boolean | null
+          name: string
+          rules?: string | null
+          updated_at?: string | null
+          venue_type_id: string
+          weekend_price?: number | null
+        }
+        Update: {
+          base_price?: number
+          capacity?: number
+          created_at?: string | null
+          description?: string | null
+          facilities?: string[] | null
+          id?: string
+          image_url?: string | null
+          is_active?: boolean | null
+          name?: string
+          rules?: string | null
+          updated_at?: string | null
+          venue_type_id?: string
+          weekend_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venues_venue_type_id_fkey"
+            columns: ["venue_type_id"]
+            isOneToOne: false
+            referencedRelation: "venue_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waitlist_entries: {
+        Row: {
+          created_at: string | null
+          end_time: string
+          id: string
+          notes: string | null
+          offer_expires_at: string | null
+          offered_at: string | null
+          requested_date: string
+          reservation_id: string | null
+          start_time: string
+          status: Database["public"]["Enums"]["waitlist_status"]
+          updated_at: string | null
+          user_id: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          end_time: string
+          id?: string
+          notes?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          requested_date: string
+          reservation_id?: string | null
+          start_time: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          updated_at?: string | null
+          user_id: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string | null
+          end_time?: string
+          id?: string
+          notes?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          requested_date?: string
+          reservation_id?: string | null
+          start_time?: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          updated_at?: string | null
+          user_id?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      blackout_covers: {
+        Args: {
+          p_start_date: string
+          p_end_date: string
+          p_start_time: string
+          p_end_time: string
+          p_recurrence: Database["public"]["Enums"]["blackout_recurrence"]
+          p_date: string
+          p_period_start: string
+          p_period_end: string
+        }
+        Returns: boolean
+      }
+      calculate_price_breakdown: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_end_time: string
+        }
+        Returns: {
+          start_time: string
+          end_time: string
+          hours: number
+          hourly_rate: number
+          multiplier: number
+          amount: number
+        }[]
+      }
+      calculate_venue_price: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_duration_hours: number
+        }
+        Returns: number
+      }
+      cancel_blackout_reservations: {
+        Args: {
+          p_blackout_id: string
+          p_reservation_ids?: string[]
+        }
+        Returns: {
+          reservation_id: string
+          refund_amount: number
+        }[]
+      }
+      cancel_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      cancel_reservation_series: {
+        Args: {
+          p_series_id: string
+          p_from_date?: string
+        }
+        Returns: number
+      }
+      cancel_reservation_with_refund: {
+        Args: {
+          p_reservation_id: string
+          p_reason?: string
+          p_refund_percentage?: number
+        }
+        Returns: number
+      }
+      check_in_opens_before: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      check_in_reservation: {
+        Args: {
+          p_reservation_code: string
+          p_venue_id?: string
+        }
+        Returns: Database["public"]["Tables"]["reservations"]["Row"]
+      }
+      check_promo_code: {
+        Args: {
+          p_code: string
+          p_venue_id: string
+          p_subtotal: number
+        }
+        Returns: {
+          promo_code_id: string
+          code: string
+          discount_type: Database["public"]["Enums"]["promo_discount_type"]
+          discount_value: number
+          discount_amount: number
+        }[]
+      }
+      check_series_availability: {
+        Args: {
+          p_user_id: string
+          p_venue_id: string
+          p_start_date: string
+          p_start_time: string
+          p_end_time: string
+          p_frequency: Database["public"]["Enums"]["series_frequency"]
+          p_end_date?: string
+          p_occurrences?: number
+        }
+        Returns: {
+          occurrence_date: string
+          is_available: boolean
+          conflict_reason: string
+          base_price: number
+          discount_percentage: number
+          total_price: number
+        }[]
+      }
+      check_venue_availability: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_end_time: string
+          p_exclude_reservation_id?: string
+        }
+        Returns: boolean
+      }
+      claim_notification_deliveries: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database["public"]["Tables"]["notification_deliveries"]["Row"][]
+      }
+      create_booking_order: {
+        Args: {
+          p_user_id: string
+          p_items: Json
+          p_notes?: string
+        }
+        Returns: string
+      }
+      create_reservation: {
+        Args: {
+          p_user_id: string
+          p_venue_id: string
+          p_venue_time_slot_id: string
+          p_reservation_date: string
+          p_start_time: string
+          p_end_time: string
+          p_duration_hours: number
+          p_discount_percentage?: number
+          p_notes?: string
+          p_promo_code?: string
+        }
+        Returns: string
+      }
+      create_reservation_series: {
+        Args: {
+          p_user_id: string
+          p_venue_id: string
+          p_start_date: string
+          p_start_time: string
+          p_end_time: string
+          p_frequency: Database["public"]["Enums"]["series_frequency"]
+          p_end_date?: string
+          p_occurrences?: number
+          p_skip_conflicts?: boolean
+          p_notes?: string
+        }
+        Returns: string
+      }
+      create_staff_reservation: {
+        Args: {
+          p_venue_id: string
+          p_reservation_date: string
+          p_start_time: string
+          p_end_time: string
+          p_user_id?: string
+          p_customer_name?: string
+          p_customer_phone?: string
+          p_customer_email?: string
+          p_price_override?: number
+          p_discount_percentage?: number
+          p_adjustment_reason?: string
+          p_cash_amount?: number
+          p_notes?: string
+        }
+        Returns: string
+      }
+      create_waitlist_offer: {
+        Args: {
+          p_entry_id: string
+        }
+        Returns: string
+      }
+      default_booking_window_days: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      enqueue_notification: {
+        Args: {
+          p_user_id: string
+          p_event: Database["public"]["Enums"]["notification_event"]
+          p_reservation_id: string
+          p_scheduled_for?: string
+        }
+        Returns: undefined
+      }
+      evaluate_promo_code: {
+        Args: {
+          p_code: string
+          p_user_id: string
+          p_venue_id: string
+          p_subtotal: number
+        }
+        Returns: {
+          promo_code_id: string
+          code: string
+          discount_type: Database["public"]["Enums"]["promo_discount_type"]
+          discount_value: number
+          discount_amount: number
+        }[]
+      }
+      expire_memberships: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      expire_pending_reservations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      flag_no_show_reservations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      generate_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_order_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_reservation_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_active_membership: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          membership_id: string
+          tier_id: string
+          tier_name: string
+          discount_percentage: number
+          booking_window_days: number
+          starts_at: string
+          expires_at: string
+        }[]
+      }
+      get_available_time_slots: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+        }
+        Returns: {
+          slot_id: string
+          start_time: string
+          end_time: string
+          price_multiplier: number
+          is_available: boolean
+        }[]
+      }
+      get_blackout_conflicts: {
+        Args: {
+          p_venue_id: string
+          p_start_date: string
+          p_recurrence: Database["public"]["Enums"]["blackout_recurrence"]
+          p_end_date?: string
+          p_start_time?: string
+          p_end_time?: string
+        }
+        Returns: {
+          reservation_id: string
+          reservation_code: string
+          reservation_date: string
+          start_time: string
+          end_time: string
+          status: Database["public"]["Enums"]["reservation_status"]
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          amount_paid: number
+          customer_name: string
+        }[]
+      }
+      get_booking_window_days: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: number
+      }
+      get_calendar_feed_token: {
+        Args: {
+          p_venue_id?: string
+        }
+        Returns: string
+      }
+      get_cancellation_refund: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: {
+          hours_before_start: number
+          refund_percentage: number
+          amount_paid: number
+          refund_amount: number
+        }[]
+      }
+      get_cancellation_refund_percentage: {
+        Args: {
+          p_venue_type_id: string
+          p_hours_before_start: number
+        }
+        Returns: number
+      }
+      get_financial_summary: {
+        Args: {
+          p_start_date?: string
+          p_end_date?: string
+        }
+        Returns: {
+          total_income: number
+          total_expense: number
+          net_profit: number
+          transaction_count: number
+        }[]
+      }
+      get_opening_periods: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+        }
+        Returns: {
+          open_time: string
+          close_time: string
+        }[]
+      }
+      get_order_amount_paid: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: number
+      }
+      get_payment_revenue: {
+        Args: {
+          p_start_date?: string
+          p_end_date?: string
+        }
+        Returns: {
+          total_collected: number
+          total_refunded: number
+          net_revenue: number
+          payment_count: number
+        }[]
+      }
+      get_reservation_amount_paid: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: number
+      }
+      get_reservation_timeline: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: Database["public"]["Tables"]["audit_log"]["Row"][]
+      }
+      get_series_dates: {
+        Args: {
+          p_start_date: string
+          p_frequency: Database["public"]["Enums"]["series_frequency"]
+          p_end_date?: string
+          p_occurrences?: number
+        }
+        Returns: string[]
+      }
+      get_special_date: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+        }
+        Returns: Database["public"]["Tables"]["special_dates"]["Row"][]
+      }
+      get_user_role: {
+        Args: {
+          user_id: string
+        }
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      get_venue_blackouts: {
+        Args: {
+          p_from: string
+          p_to: string
+          p_venue_id?: string
+        }
+        Returns: {
+          blackout_id: string
+          venue_id: string
+          blackout_date: string
+          start_time: string
+          end_time: string
+          reason: string
+          visibility: Database["public"]["Enums"]["blackout_visibility"]
+        }[]
+      }
+      get_venue_day_slots: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+        }
+        Returns: {
+          slot_id: string
+          start_time: string
+          end_time: string
+          price_multiplier: number
+        }[]
+      }
+      get_venue_opening_hours: {
+        Args: {
+          p_from: string
+          p_to: string
+          p_venue_id?: string
+        }
+        Returns: {
+          venue_id: string
+          hours_date: string
+          open_time: string
+          close_time: string
+        }[]
+      }
+      get_venue_review_stats: {
+        Args: {
+          p_venue_id: string
+        }
+        Returns: {
+          average_rating: number
+          total_reviews: number
+          rating_distribution: number[]
+        }[]
+      }
+      get_venue_reviews: {
+        Args: {
+          p_venue_id: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          rating: number
+          comment: string
+          helpful_count: number
+          created_at: string
+          reviewer_name: string
+          reviewer_avatar_url: string
+          has_voted: boolean
+        }[]
+      }
+      get_venue_statistics: {
+        Args: {
+          p_venue_id: string
+          p_start_date?: string
+          p_end_date?: string
+        }
+        Returns: {
+          total_reservations: number
+          confirmed_reservations: number
+          cancelled_reservations: number
+          total_revenue: number
+          average_booking_value: number
+          utilization_rate: number
+        }[]
+      }
+      grant_membership: {
+        Args: {
+          p_user_id: string
+          p_tier_id: string
+          p_price_paid?: number
+        }
+        Returns: string
+      }
+      has_pending_charge: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: boolean
+      }
+      is_admin_or_higher: {
+        Args: {
+          user_id: string
+        }
+        Returns: boolean
+      }
+      is_staff_or_higher: {
+        Args: {
+          user_id: string
+        }
+        Returns: boolean
+      }
+      is_venue_blacked_out: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_end_time: string
+        }
+        Returns: boolean
+      }
+      is_venue_open: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_end_time: string
+        }
+        Returns: boolean
+      }
+      join_waitlist: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_end_time: string
+          p_notes?: string
+        }
+        Returns: string
+      }
+      leave_waitlist: {
+        Args: {
+          p_entry_id: string
+        }
+        Returns: undefined
+      }
+      mark_notifications_read: {
+        Args: {
+          p_ids?: string[]
+        }
+        Returns: number
+      }
+      max_order_items: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      max_reschedules: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      max_series_occurrences: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      maximum_reservation_hold: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      minimum_deposit: {
+        Args: {
+          p_total: number
+        }
+        Returns: number
+      }
+      minimum_deposit_percentage: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      move_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_new_date: string
+          p_new_start_time: string
+          p_new_end_time: string
+          p_new_venue_id?: string
+        }
+        Returns: undefined
+      }
+      notification_reminder_lead_time: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      offer_waitlist_entry: {
+        Args: {
+          p_entry_id: string
+        }
+        Returns: string
+      }
+      offer_waitlisted_period: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_end_time: string
+        }
+        Returns: number
+      }
+      refresh_order_payment_status: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      refresh_reservation_payment_status: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: Database["public"]["Enums"]["payment_status"]
+      }
+      release_expired_holds: {
+        Args: {
+          p_venue_id: string
+          p_date: string
+          p_start_time: string
+          p_end_time: string
+        }
+        Returns: number
+      }
+      reschedule_cutoff_hours: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      reschedule_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_new_date: string
+          p_new_start_time: string
+          p_new_end_time: string
+          p_new_venue_id?: string
+        }
+        Returns: undefined
+      }
+      reschedule_reservation_series: {
+        Args: {
+          p_series_id: string
+          p_new_start_time: string
+          p_new_end_time: string
+          p_from_date?: string
+        }
+        Returns: number
+      }
+      reschedule_series_occurrence: {
+        Args: {
+          p_reservation_id: string
+          p_new_date: string
+          p_new_start_time: string
+          p_new_end_time: string
+        }
+        Returns: undefined
+      }
+      reservation_hold_duration: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      reset_calendar_feed_token: {
+        Args: {
+          p_venue_id?: string
+        }
+        Returns: string
+      }
+      schedule_reservation_reminder: {
+        Args: {
+          p_reservation: Database["public"]["Tables"]["reservations"]["Row"]
+        }
+        Returns: undefined
+      }
+      search_customers: {
+        Args: {
+          p_query: string
+        }
+        Returns: {
+          id: string
+          full_name: string
+          phone: string
+          email: string
+        }[]
+      }
+      series_hold_expiry: {
+        Args: {
+          p_date: string
+          p_start_time: string
+        }
+        Returns: string
+      }
+      series_package_discount: {
+        Args: {
+          p_occurrences: number
+        }
+        Returns: number
+      }
+      series_payment_lead_time: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      set_venue_operating_hours: {
+        Args: {
+          p_venue_id: string
+          p_hours: Json
+        }
+        Returns: undefined
+      }
+      skip_pending_reminders: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: undefined
+      }
+      sync_member_role: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      update_reservation_status: {
+        Args: {
+          p_reservation_id: string
+          p_status: Database["public"]["Enums"]["reservation_status"]
+          p_payment_status?: Database["public"]["Enums"]["payment_status"]
+        }
+        Returns: boolean
+      }
+      venue_now: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      venue_time_zone: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      venue_today: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      waitlist_offer_duration: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+    }
+    Enums: {
+      audit_action: "insert" | "update" | "delete"
+      audit_source: "app" | "service" | "system"
+      blackout_recurrence: "none" | "weekly"
+      blackout_visibility: "public" | "internal"
+      membership_status: "active" | "expired" | "cancelled"
+      notification_channel: "email" | "whatsapp" | "in_app"
+      notification_delivery_status: "pending" | "sending" | "sent" | "failed" | "skipped"
+      notification_event: "reservation_created" | "reservation_confirmed" | "reservation_cancelled" | "reservation_reminder" | "waitlist_offer"
+      payment_kind: "deposit" | "partial" | "full" | "refund"
+      payment_method: "cash" | "bank_transfer" | "e_wallet" | "credit_card"
+      payment_status: "pending" | "partially_paid" | "paid" | "failed" | "refunded"
+      payment_transaction_status: "pending" | "completed" | "failed" | "cancelled" | "refunded"
+      promo_discount_type: "percentage" | "fixed_amount"
+      reservation_status: "pending" | "confirmed" | "cancelled" | "completed" | "no_show"
+      review_status: "published" | "hidden" | "flagged"
+      series_frequency: "weekly" | "biweekly"
+      series_status: "active" | "cancelled"
+      special_date_type: "public_holiday" | "peak_day" | "custom"
+      transaction_type: "income" | "expense"
+      user_role: "customer" | "member" | "staff" | "admin" | "superadmin"
+      waitlist_status: "waiting" | "offered" | "booked" | "expired" | "cancelled"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
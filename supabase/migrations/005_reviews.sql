@@ -0,0 +1,229 @@
+-- Venue Reviews
+-- Migration: Customer reviews, helpful votes and staff moderation
+
+-- Create custom types
+CREATE TYPE review_status AS ENUM ('published', 'hidden', 'flagged');
+
+-- Reviews table (one review per completed reservation)
+CREATE TABLE reviews (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    venue_id UUID REFERENCES venues(id) ON DELETE CASCADE NOT NULL,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    rating SMALLINT NOT NULL,
+    comment TEXT,
+    status review_status DEFAULT 'published',
+    helpful_count INTEGER NOT NULL DEFAULT 0,
+    moderation_note TEXT,
+    moderated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    moderated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_rating CHECK (rating BETWEEN 1 AND 5)
+);
+
+-- Helpful votes table
+CREATE TABLE review_votes (
+    review_id UUID REFERENCES reviews(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (review_id, user_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_reviews_venue_status ON reviews(venue_id, status);
+CREATE INDEX idx_reviews_user ON reviews(user_id);
+CREATE INDEX idx_review_votes_user ON review_votes(user_id);
+
+CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON reviews FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the customer of a completed reservation may review it, and only for that venue.
+-- Authors may later change their rating and comment, but not what the review is about,
+-- its moderation or its helpful votes.
+CREATE OR REPLACE FUNCTION validate_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- New reviews start without votes or moderation, whatever the author sent
+    IF TG_OP = 'INSERT' AND NOT is_staff_or_higher(auth.uid()) THEN
+        NEW.helpful_count := 0;
+        NEW.moderation_note := NULL;
+        NEW.moderated_by := NULL;
+        NEW.moderated_at := NULL;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        IF auth.uid() = OLD.user_id AND NOT is_staff_or_higher(auth.uid()) AND (
+            NEW.venue_id IS DISTINCT FROM OLD.venue_id
+            OR NEW.reservation_id IS DISTINCT FROM OLD.reservation_id
+            OR NEW.user_id IS DISTINCT FROM OLD.user_id
+            OR NEW.status IS DISTINCT FROM OLD.status
+            OR NEW.helpful_count IS DISTINCT FROM OLD.helpful_count
+            OR NEW.moderation_note IS DISTINCT FROM OLD.moderation_note
+            OR NEW.moderated_by IS DISTINCT FROM OLD.moderated_by
+            OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+        ) THEN
+            RAISE EXCEPTION 'You can only change the rating and comment of your review';
+        END IF;
+
+        IF NEW.venue_id = OLD.venue_id
+            AND NEW.reservation_id = OLD.reservation_id
+            AND NEW.user_id = OLD.user_id THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM reservations r
+        WHERE r.id = NEW.reservation_id
+        AND r.user_id = NEW.user_id
+        AND r.venue_id = NEW.venue_id
+        AND r.status = 'completed'
+    ) THEN
+        RAISE EXCEPTION 'Reviews can only be written for your own completed reservations';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_review_before_write
+    BEFORE INSERT OR UPDATE ON reviews
+    FOR EACH ROW EXECUTE FUNCTION validate_review();
+
+-- Keep reviews.helpful_count in sync with review_votes
+CREATE OR REPLACE FUNCTION update_review_helpful_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE reviews SET helpful_count = helpful_count + 1 WHERE id = NEW.review_id;
+        RETURN NEW;
+    END IF;
+
+    UPDATE reviews SET helpful_count = GREATEST(helpful_count - 1, 0) WHERE id = OLD.review_id;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_review_helpful_count_on_vote
+    AFTER INSERT OR DELETE ON review_votes
+    FOR EACH ROW EXECUTE FUNCTION update_review_helpful_count();
+
+-- Function to get rating summary for a venue (published reviews only)
+CREATE OR REPLACE FUNCTION get_venue_review_stats(p_venue_id UUID)
+RETURNS TABLE(
+    average_rating DECIMAL,
+    total_reviews BIGINT,
+    rating_distribution INTEGER[]
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        COALESCE(ROUND(AVG(rv.rating), 1), 0) as average_rating,
+        COUNT(*) as total_reviews,
+        ARRAY[
+            COUNT(*) FILTER (WHERE rv.rating = 1)::INTEGER,
+            COUNT(*) FILTER (WHERE rv.rating = 2)::INTEGER,
+            COUNT(*) FILTER (WHERE rv.rating = 3)::INTEGER,
+            COUNT(*) FILTER (WHERE rv.rating = 4)::INTEGER,
+            COUNT(*) FILTER (WHERE rv.rating = 5)::INTEGER
+        ] as rating_distribution
+    FROM reviews rv
+    WHERE rv.venue_id = p_venue_id
+    AND rv.status = 'published';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to list published reviews with reviewer details
+-- (profiles are private under RLS, so reviewer names are exposed through here)
+CREATE OR REPLACE FUNCTION get_venue_reviews(
+    p_venue_id UUID,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+    id UUID,
+    rating SMALLINT,
+    comment TEXT,
+    helpful_count INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE,
+    reviewer_name TEXT,
+    reviewer_avatar_url TEXT,
+    has_voted BOOLEAN
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        rv.id,
+        rv.rating,
+        rv.comment,
+        rv.helpful_count,
+        rv.created_at,
+        p.full_name as reviewer_name,
+        p.avatar_url as reviewer_avatar_url,
+        EXISTS(
+            SELECT 1 FROM review_votes v
+            WHERE v.review_id = rv.id AND v.user_id = auth.uid()
+        ) as has_voted
+    FROM reviews rv
+    JOIN profiles p ON p.id = rv.user_id
+    WHERE rv.venue_id = p_venue_id
+    AND rv.status = 'published'
+    ORDER BY rv.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+
+-- REVIEWS TABLE POLICIES
+-- Everyone can view published reviews
+CREATE POLICY "Everyone can view published reviews" ON reviews
+    FOR SELECT USING (status = 'published');
+
+-- Users can view their own reviews regardless of moderation status
+CREATE POLICY "Users can view own reviews" ON reviews
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can review their own completed reservations (enforced by validate_review)
+CREATE POLICY "Users can create own reviews" ON reviews
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND status = 'published');
+
+-- Users can edit their own review (validate_review keeps them to the rating and comment)
+CREATE POLICY "Users can update own reviews" ON reviews
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND status = (SELECT r.status FROM reviews r WHERE r.id = reviews.id)
+        AND moderated_by IS NOT DISTINCT FROM (SELECT r.moderated_by FROM reviews r WHERE r.id = reviews.id)
+    );
+
+-- Staff and above can view and moderate all reviews
+CREATE POLICY "Staff can manage reviews" ON reviews
+    FOR ALL USING (is_staff_or_higher(auth.uid()));
+
+-- REVIEW_VOTES TABLE POLICIES
+-- Everyone can view helpful votes
+CREATE POLICY "Everyone can view review votes" ON review_votes
+    FOR SELECT USING (true);
+
+-- Users can mark other people's reviews as helpful
+CREATE POLICY "Users can vote on reviews" ON review_votes
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND review_id NOT IN (SELECT id FROM reviews WHERE user_id = auth.uid())
+    );
+
+-- Users can remove their own votes
+CREATE POLICY "Users can remove own votes" ON review_votes
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Grant permissions
+GRANT ALL ON reviews TO authenticated;
+GRANT ALL ON review_votes TO authenticated;
+GRANT SELECT ON reviews TO anon;
+GRANT SELECT ON review_votes TO anon;
+GRANT EXECUTE ON FUNCTION get_venue_review_stats(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_venue_reviews(UUID, INTEGER, INTEGER) TO anon, authenticated;
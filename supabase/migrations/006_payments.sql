@@ -0,0 +1,362 @@
+-- Payments
+-- Migration: Payment records, deposits/partial payments and derived reservation payment status
+
+-- Reservations can be partially paid (deposit or instalment received, balance outstanding)
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'partially_paid' AFTER 'pending';
+
+-- Create custom types
+CREATE TYPE payment_kind AS ENUM ('deposit', 'partial', 'full', 'refund');
+CREATE TYPE payment_method AS ENUM ('cash', 'bank_transfer', 'e_wallet', 'credit_card');
+CREATE TYPE payment_transaction_status AS ENUM ('pending', 'completed', 'failed', 'cancelled', 'refunded');
+
+-- Amount collected so far, maintained from payments
+ALTER TABLE reservations ADD COLUMN amount_paid DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Payments table (one row per charge or refund)
+CREATE TABLE payments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE RESTRICT,
+    user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    payment_kind payment_kind NOT NULL DEFAULT 'full',
+    amount DECIMAL(12,2) NOT NULL,
+    payment_method payment_method NOT NULL,
+    payment_status payment_transaction_status NOT NULL DEFAULT 'pending',
+    refunded_payment_id UUID REFERENCES payments(id) ON DELETE RESTRICT,
+    reference_number VARCHAR(100),
+    transaction_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT positive_payment_amount CHECK (amount > 0),
+    CONSTRAINT refund_references_payment CHECK (
+        (payment_kind = 'refund') = (refunded_payment_id IS NOT NULL)
+    )
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_payments_reservation ON payments(reservation_id);
+CREATE INDEX idx_payments_user ON payments(user_id);
+CREATE INDEX idx_payments_status_date ON payments(payment_status, transaction_date);
+CREATE INDEX idx_payments_refunded_payment ON payments(refunded_payment_id);
+
+CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Validate new payments: refunds cannot exceed what was collected on the original payment
+CREATE OR REPLACE FUNCTION validate_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+    original payments%ROWTYPE;
+    already_refunded DECIMAL;
+BEGIN
+    IF NEW.payment_kind <> 'refund' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO original FROM payments WHERE id = NEW.refunded_payment_id;
+
+    IF original.id IS NULL OR original.payment_kind = 'refund' THEN
+        RAISE EXCEPTION 'Refunds must reference a charge';
+    END IF;
+
+    IF original.payment_status <> 'completed' THEN
+        RAISE EXCEPTION 'Only completed payments can be refunded';
+    END IF;
+
+    NEW.reservation_id := original.reservation_id;
+    NEW.user_id := COALESCE(NEW.user_id, original.user_id);
+
+    SELECT COALESCE(SUM(amount), 0)
+    INTO already_refunded
+    FROM payments
+    WHERE refunded_payment_id = original.id
+    AND payment_status IN ('pending', 'completed');
+
+    IF already_refunded + NEW.amount > original.amount THEN
+        RAISE EXCEPTION 'Refund exceeds the refundable amount of %', original.amount - already_refunded;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_payment_before_insert
+    BEFORE INSERT ON payments
+    FOR EACH ROW EXECUTE FUNCTION validate_payment();
+
+-- Enforce the payment state machine:
+--   pending   -> completed | failed | cancelled
+--   completed -> refunded (charges only, once fully refunded)
+--   failed, cancelled, refunded are terminal
+CREATE OR REPLACE FUNCTION enforce_payment_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.amount <> OLD.amount
+        OR NEW.payment_kind <> OLD.payment_kind
+        OR NEW.reservation_id IS DISTINCT FROM OLD.reservation_id
+        OR NEW.refunded_payment_id IS DISTINCT FROM OLD.refunded_payment_id THEN
+        RAISE EXCEPTION 'Payment amount, kind and reservation cannot be changed';
+    END IF;
+
+    IF NEW.payment_status = OLD.payment_status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.payment_status = 'pending' AND NEW.payment_status IN ('completed', 'failed', 'cancelled'))
+        OR (OLD.payment_status = 'completed' AND NEW.payment_status = 'refunded' AND OLD.payment_kind <> 'refund')
+    ) THEN
+        RAISE EXCEPTION 'Invalid payment status transition from % to %', OLD.payment_status, NEW.payment_status;
+    END IF;
+
+    IF NEW.payment_status = 'completed' THEN
+        NEW.paid_at := COALESCE(NEW.paid_at, NOW());
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_payment_transition_before_update
+    BEFORE UPDATE ON payments
+    FOR EACH ROW EXECUTE FUNCTION enforce_payment_transition();
+
+-- Net amount collected for a reservation (completed charges minus completed refunds)
+CREATE OR REPLACE FUNCTION get_reservation_amount_paid(p_reservation_id UUID)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN p.payment_kind = 'refund' THEN -p.amount
+            ELSE p.amount
+        END
+    ), 0)
+    FROM payments p
+    WHERE p.reservation_id = p_reservation_id
+    AND (
+        (p.payment_kind = 'refund' AND p.payment_status = 'completed')
+        OR (p.payment_kind <> 'refund' AND p.payment_status IN ('completed', 'refunded'))
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Share of the total a first payment must cover to secure a pending booking
+CREATE OR REPLACE FUNCTION minimum_deposit_percentage()
+RETURNS DECIMAL AS $$
+    SELECT 50::DECIMAL;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Smallest deposit for a booking total, in whole rupiah
+CREATE OR REPLACE FUNCTION minimum_deposit(p_total DECIMAL)
+RETURNS DECIMAL AS $$
+    SELECT CEIL(p_total * minimum_deposit_percentage() / 100);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Derive reservations.payment_status and amount_paid from the reservation's payments
+CREATE OR REPLACE FUNCTION refresh_reservation_payment_status(p_reservation_id UUID)
+RETURNS payment_status AS $$
+DECLARE
+    paid DECIMAL;
+    total DECIMAL;
+    has_refunds BOOLEAN;
+    has_pending BOOLEAN;
+    has_failed BOOLEAN;
+    new_status payment_status;
+BEGIN
+    SELECT r.total_price INTO total FROM reservations r WHERE r.id = p_reservation_id;
+
+    IF total IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    paid := get_reservation_amount_paid(p_reservation_id);
+
+    SELECT
+        COUNT(*) FILTER (WHERE p.payment_kind = 'refund' AND p.payment_status = 'completed') > 0,
+        COUNT(*) FILTER (WHERE p.payment_kind <> 'refund' AND p.payment_status = 'pending') > 0,
+        COUNT(*) FILTER (WHERE p.payment_kind <> 'refund' AND p.payment_status = 'failed') > 0
+    INTO has_refunds, has_pending, has_failed
+    FROM payments p
+    WHERE p.reservation_id = p_reservation_id;
+
+    IF has_refunds AND paid <= 0 THEN
+        new_status := 'refunded';
+    ELSIF paid >= total THEN
+        new_status := 'paid';
+    ELSIF paid > 0 THEN
+        new_status := 'partially_paid';
+    ELSIF has_failed AND NOT has_pending THEN
+        new_status := 'failed';
+    ELSE
+        new_status := 'pending';
+    END IF;
+
+    UPDATE reservations
+    SET
+        payment_status = new_status,
+        amount_paid = GREATEST(paid, 0),
+        -- A deposit of at least minimum_deposit() or full payment secures a pending booking
+        status = CASE
+            WHEN status = 'pending' AND paid > 0 AND paid >= minimum_deposit(total) AND new_status <> 'refunded' THEN 'confirmed'
+            ELSE status
+        END
+    WHERE id = p_reservation_id;
+
+    RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION sync_reservation_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.reservation_id IS NOT NULL THEN
+        PERFORM refresh_reservation_payment_status(OLD.reservation_id);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.reservation_id IS NOT NULL
+        AND NEW.reservation_id IS DISTINCT FROM OLD.reservation_id THEN
+        PERFORM refresh_reservation_payment_status(NEW.reservation_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_reservation_payment_status_after_change
+    AFTER INSERT OR UPDATE OR DELETE ON payments
+    FOR EACH ROW EXECUTE FUNCTION sync_reservation_payment_status();
+
+-- When a refund completes, mark the original charge refunded once nothing is left on it
+CREATE OR REPLACE FUNCTION settle_refunded_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+    refunded_total DECIMAL;
+BEGIN
+    IF NEW.payment_kind <> 'refund' OR NEW.payment_status <> 'completed'
+        OR (TG_OP = 'UPDATE' AND OLD.payment_status = 'completed') THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0)
+    INTO refunded_total
+    FROM payments
+    WHERE refunded_payment_id = NEW.refunded_payment_id
+    AND payment_status = 'completed';
+
+    UPDATE payments
+    SET payment_status = 'refunded'
+    WHERE id = NEW.refunded_payment_id
+    AND payment_status = 'completed'
+    AND amount <= refunded_total;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER settle_refunded_payment_after_change
+    AFTER INSERT OR UPDATE ON payments
+    FOR EACH ROW EXECUTE FUNCTION settle_refunded_payment();
+
+-- Book completed charges as income and completed refunds as expenses
+CREATE OR REPLACE FUNCTION record_payment_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+    code TEXT;
+BEGIN
+    IF NEW.payment_status <> 'completed'
+        OR (TG_OP = 'UPDATE' AND OLD.payment_status = 'completed') THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT r.reservation_code INTO code FROM reservations r WHERE r.id = NEW.reservation_id;
+
+    INSERT INTO financial_transactions (
+        reservation_id,
+        transaction_type,
+        amount,
+        description,
+        transaction_date,
+        reference_number,
+        payment_method,
+        created_by
+    ) VALUES (
+        NEW.reservation_id,
+        CASE WHEN NEW.payment_kind = 'refund' THEN 'expense'::transaction_type ELSE 'income'::transaction_type END,
+        NEW.amount,
+        CASE
+            WHEN NEW.payment_kind = 'refund' THEN 'Refund'
+            ELSE INITCAP(NEW.payment_kind::TEXT) || ' payment'
+        END || COALESCE(' for ' || code, ''),
+        COALESCE(NEW.paid_at::DATE, CURRENT_DATE),
+        NEW.reference_number,
+        NEW.payment_method::TEXT,
+        NEW.created_by
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_payment_transaction_after_change
+    AFTER INSERT OR UPDATE ON payments
+    FOR EACH ROW EXECUTE FUNCTION record_payment_transaction();
+
+-- Function to get collected revenue (charges minus refunds) for a period
+CREATE OR REPLACE FUNCTION get_payment_revenue(
+    p_start_date DATE DEFAULT NULL,
+    p_end_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    total_collected DECIMAL,
+    total_refunded DECIMAL,
+    net_revenue DECIMAL,
+    payment_count BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        COALESCE(SUM(p.amount) FILTER (WHERE p.payment_kind <> 'refund'), 0) as total_collected,
+        COALESCE(SUM(p.amount) FILTER (WHERE p.payment_kind = 'refund'), 0) as total_refunded,
+        COALESCE(SUM(p.amount) FILTER (WHERE p.payment_kind <> 'refund'), 0) -
+        COALESCE(SUM(p.amount) FILTER (WHERE p.payment_kind = 'refund'), 0) as net_revenue,
+        COUNT(*) FILTER (WHERE p.payment_kind <> 'refund') as payment_count
+    FROM payments p
+    WHERE (
+        (p.payment_kind = 'refund' AND p.payment_status = 'completed')
+        OR (p.payment_kind <> 'refund' AND p.payment_status IN ('completed', 'refunded'))
+    )
+    AND (p_start_date IS NULL OR COALESCE(p.paid_at::DATE, p.transaction_date) >= p_start_date)
+    AND (p_end_date IS NULL OR COALESCE(p.paid_at::DATE, p.transaction_date) <= p_end_date);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Enable RLS
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- PAYMENTS TABLE POLICIES
+-- Users can view payments for their own reservations
+CREATE POLICY "Users can view own payments" ON payments
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR reservation_id IN (
+            SELECT id FROM reservations WHERE user_id = auth.uid()
+        )
+    );
+
+-- Staff and above can manage payments
+CREATE POLICY "Staff can manage payments" ON payments
+    FOR ALL USING (is_staff_or_higher(auth.uid()));
+
+-- RESERVATIONS TABLE POLICIES
+-- Payment status, amount paid and price are derived from payments now, so customers can't
+-- update their reservations directly; cancelling and rescheduling go through functions
+DROP POLICY "Users can update own pending reservations" ON reservations;
+
+-- Grant permissions
+GRANT ALL ON payments TO authenticated;
+
+-- Backfill: reservations already marked paid get a completed payment record
+INSERT INTO payments (reservation_id, user_id, payment_kind, amount, payment_method, payment_status, paid_at, notes)
+SELECT r.id, r.user_id, 'full', r.total_price, 'cash', 'completed', r.updated_at, 'Backfilled from reservation payment status'
+FROM reservations r
+WHERE r.payment_status = 'paid'
+AND r.total_price > 0;
@@ -0,0 +1,38 @@
+-- Payment Gateway
+-- Migration: Provider references on payments and a webhook event log for idempotent callbacks
+
+-- Provider details for payments created through a gateway
+ALTER TABLE payments ADD COLUMN provider VARCHAR(50);
+ALTER TABLE payments ADD COLUMN provider_reference VARCHAR(255);
+ALTER TABLE payments ADD COLUMN checkout_url TEXT;
+
+CREATE UNIQUE INDEX idx_payments_provider_reference ON payments(provider, provider_reference)
+    WHERE provider_reference IS NOT NULL;
+
+-- Webhook events received from payment providers
+CREATE TABLE payment_webhook_events (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    provider VARCHAR(50) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    status payment_transaction_status,
+    payload JSONB NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(provider, event_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_payment_webhook_events_payment ON payment_webhook_events(payment_id);
+
+-- Enable RLS
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- PAYMENT WEBHOOK EVENTS POLICIES
+-- Webhooks are written by the server with the service role; staff can inspect them
+CREATE POLICY "Staff can view payment webhook events" ON payment_webhook_events
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT SELECT ON payment_webhook_events TO authenticated;
@@ -0,0 +1,144 @@
+-- Reservation Holds
+-- Migration: Pending reservations hold a slot until expires_at and are auto-cancelled if unpaid
+
+ALTER TABLE reservations ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE reservations ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE reservations ADD COLUMN cancellation_reason TEXT;
+
+CREATE INDEX idx_reservations_pending_expiry ON reservations(expires_at) WHERE status = 'pending';
+
+-- How long an unpaid booking holds its slot
+CREATE OR REPLACE FUNCTION reservation_hold_duration()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '15 minutes';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Longest a booking can be held while a charge for it is in progress, counted from when
+-- it was made. Gateway charges expire by then (see createCharge in src/lib/payments).
+CREATE OR REPLACE FUNCTION maximum_reservation_hold()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '1 hour';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Start the hold on new pending reservations and clear it once the reservation moves on
+CREATE OR REPLACE FUNCTION manage_reservation_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' AND NEW.status = 'pending' AND NEW.payment_status = 'pending' THEN
+        NEW.expires_at := COALESCE(NEW.expires_at, NOW() + reservation_hold_duration());
+    END IF;
+
+    IF NEW.status <> 'pending' THEN
+        NEW.expires_at := NULL;
+    END IF;
+
+    IF NEW.status = 'cancelled' AND (TG_OP = 'INSERT' OR OLD.status <> 'cancelled') THEN
+        NEW.cancelled_at := COALESCE(NEW.cancelled_at, NOW());
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER manage_reservation_hold_before_change
+    BEFORE INSERT OR UPDATE ON reservations
+    FOR EACH ROW EXECUTE FUNCTION manage_reservation_hold();
+
+-- Availability only counts confirmed bookings and pending holds that have not expired.
+-- SECURITY DEFINER so customers see conflicts with other customers' bookings.
+CREATE OR REPLACE FUNCTION check_venue_availability(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_exclude_reservation_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    conflict_count INTEGER;
+BEGIN
+    -- Check for time conflicts with existing reservations
+    SELECT COUNT(*)
+    INTO conflict_count
+    FROM reservations r
+    WHERE r.venue_id = p_venue_id
+    AND r.reservation_date = p_date
+    AND (
+        r.status = 'confirmed'
+        OR (r.status = 'pending' AND (r.expires_at IS NULL OR r.expires_at > NOW()))
+    )
+    AND (
+        (r.start_time < p_end_time AND r.end_time > p_start_time)
+    )
+    AND (p_exclude_reservation_id IS NULL OR r.id != p_exclude_reservation_id);
+
+    RETURN conflict_count = 0;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Whether a charge for the reservation is still in progress at the gateway. Such a charge
+-- may yet complete, so its hold is extended rather than cancelled, up to
+-- maximum_reservation_hold() so an abandoned charge can't block the court for good.
+CREATE OR REPLACE FUNCTION has_pending_charge(p_reservation_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM payments p
+        WHERE p.reservation_id = p_reservation_id
+        AND p.payment_kind <> 'refund'
+        AND p.payment_status = 'pending'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION has_pending_charge(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Cancel unpaid pending reservations whose hold has run out.
+-- Run every minute by pg_cron when available, otherwise by /api/cron/expire-reservations.
+CREATE OR REPLACE FUNCTION expire_pending_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    UPDATE reservations
+    SET expires_at = LEAST(NOW() + reservation_hold_duration(), created_at + maximum_reservation_hold())
+    WHERE status = 'pending'
+    AND expires_at <= NOW()
+    AND created_at + maximum_reservation_hold() > NOW()
+    AND has_pending_charge(id);
+
+    UPDATE reservations
+    SET
+        status = 'cancelled',
+        cancellation_reason = 'Payment not received before the booking hold expired',
+        updated_at = NOW()
+    WHERE status = 'pending'
+    AND expires_at <= NOW()
+    AND amount_paid = 0;
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+
+    RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION expire_pending_reservations() FROM PUBLIC, anon, authenticated;
+
+-- Give reservations that are already pending a fresh hold instead of expiring them at once
+UPDATE reservations
+SET expires_at = NOW() + reservation_hold_duration()
+WHERE status = 'pending'
+AND payment_status = 'pending';
+
+-- Schedule the expiry job where pg_cron is installed (enable it under Database → Extensions)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+        PERFORM cron.schedule(
+            'expire-pending-reservations',
+            '* * * * *',
+            'SELECT expire_pending_reservations()'
+        );
+    END IF;
+END;
+$$;
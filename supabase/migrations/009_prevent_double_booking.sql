@@ -0,0 +1,147 @@
+-- Prevent Double Booking
+-- Migration: Exclusion constraint on active reservations and a typed "slot taken" error
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Booked period in venue local time, used by the exclusion constraint
+ALTER TABLE reservations ADD COLUMN booked_period TSRANGE
+    GENERATED ALWAYS AS (tsrange(reservation_date + start_time, reservation_date + end_time, '[)')) STORED;
+
+-- No two active reservations may overlap on the same venue, even under concurrent inserts
+ALTER TABLE reservations ADD CONSTRAINT reservations_no_overlap
+    EXCLUDE USING gist (venue_id WITH =, booked_period WITH &&)
+    WHERE (status IN ('pending', 'confirmed'));
+
+-- Cancel expired, unpaid holds on the requested period so they don't trip the constraint
+-- before the scheduled expiry job gets to them. Holds with a charge in progress are extended,
+-- up to maximum_reservation_hold().
+CREATE OR REPLACE FUNCTION release_expired_holds(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME
+)
+RETURNS INTEGER AS $$
+DECLARE
+    released_count INTEGER;
+BEGIN
+    UPDATE reservations
+    SET expires_at = LEAST(NOW() + reservation_hold_duration(), created_at + maximum_reservation_hold())
+    WHERE venue_id = p_venue_id
+    AND reservation_date = p_date
+    AND start_time < p_end_time
+    AND end_time > p_start_time
+    AND status = 'pending'
+    AND expires_at <= NOW()
+    AND created_at + maximum_reservation_hold() > NOW()
+    AND has_pending_charge(id);
+
+    UPDATE reservations
+    SET
+        status = 'cancelled',
+        cancellation_reason = 'Payment not received before the booking hold expired',
+        updated_at = NOW()
+    WHERE venue_id = p_venue_id
+    AND reservation_date = p_date
+    AND start_time < p_end_time
+    AND end_time > p_start_time
+    AND status = 'pending'
+    AND expires_at <= NOW()
+    AND amount_paid = 0;
+
+    GET DIAGNOSTICS released_count = ROW_COUNT;
+
+    RETURN released_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION release_expired_holds(UUID, DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+
+-- Function to create a reservation with validation.
+-- Conflicts raise SQLSTATE PT409 (HTTP 409 through PostgREST) with hint 'slot_taken'.
+CREATE OR REPLACE FUNCTION create_reservation(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_venue_time_slot_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_duration_hours DECIMAL,
+    p_discount_percentage DECIMAL DEFAULT 0,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    base_price DECIMAL;
+    total_price DECIMAL;
+    reservation_code TEXT;
+BEGIN
+    -- Validate venue exists and is active
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    -- Validate time slot exists and is available
+    IF NOT EXISTS (
+        SELECT 1 FROM venue_time_slots
+        WHERE id = p_venue_time_slot_id
+        AND venue_id = p_venue_id
+        AND is_available = true
+    ) THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    -- Check availability (the exclusion constraint below is the final word under concurrency)
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    -- Calculate pricing
+    base_price := calculate_venue_price(p_venue_id, p_reservation_date, p_start_time, p_duration_hours);
+    total_price := base_price * (1 - p_discount_percentage / 100);
+
+    -- Generate reservation code
+    reservation_code := generate_reservation_code();
+
+    -- Create reservation
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            total_price,
+            notes
+        ) VALUES (
+            reservation_code,
+            p_user_id,
+            p_venue_id,
+            p_venue_time_slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            p_duration_hours,
+            base_price,
+            p_discount_percentage,
+            total_price,
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,152 @@
+-- Create Reservation RPC
+-- Migration: Align create_reservation with the reservations schema and validate caller input
+
+-- Role checks are false, not NULL, for callers without a profile (anon), so that
+-- "NOT is_staff_or_higher(auth.uid())" guards in SECURITY DEFINER functions hold for them
+CREATE OR REPLACE FUNCTION is_admin_or_higher(user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN COALESCE((SELECT role IN ('admin', 'superadmin') FROM profiles WHERE id = user_id), false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_staff_or_higher(user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN COALESCE((SELECT role IN ('staff', 'admin', 'superadmin') FROM profiles WHERE id = user_id), false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to create a reservation with validation.
+-- Price comes from calculate_venue_price and the code from generate_reservation_code;
+-- the duration is derived from the requested times rather than trusted from the caller.
+-- Conflicts raise SQLSTATE PT409 (HTTP 409 through PostgREST) with hint 'slot_taken'.
+-- SECURITY DEFINER: this is the only way customers can add reservations.
+CREATE OR REPLACE FUNCTION create_reservation(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_venue_time_slot_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_duration_hours DECIMAL,
+    p_discount_percentage DECIMAL DEFAULT 0,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    duration_hours DECIMAL;
+    discount_percentage DECIMAL := COALESCE(p_discount_percentage, 0);
+    base_price DECIMAL;
+    total_price DECIMAL;
+    reservation_code TEXT;
+BEGIN
+    -- Customers book for themselves; staff may book on behalf of a customer
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to create a reservation for another user';
+    END IF;
+
+    -- Discounts are granted by staff only
+    IF discount_percentage <> 0 AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to apply a discount';
+    END IF;
+
+    IF discount_percentage < 0 OR discount_percentage > 100 THEN
+        RAISE EXCEPTION 'Discount percentage must be between 0 and 100';
+    END IF;
+
+    -- Validate requested period
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_reservation_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    duration_hours := EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600;
+
+    -- Validate venue exists and is active
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    -- Validate time slot belongs to the venue, is available and covers the start time
+    IF NOT EXISTS (
+        SELECT 1 FROM venue_time_slots
+        WHERE id = p_venue_time_slot_id
+        AND venue_id = p_venue_id
+        AND is_available = true
+        AND start_time <= p_start_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    -- Check availability (the exclusion constraint below is the final word under concurrency)
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    -- Calculate pricing
+    base_price := calculate_venue_price(p_venue_id, p_reservation_date, p_start_time, duration_hours);
+
+    IF base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    total_price := ROUND(base_price * (1 - discount_percentage / 100), 2);
+
+    -- Generate reservation code
+    reservation_code := generate_reservation_code();
+
+    -- Create reservation
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            total_price,
+            notes
+        ) VALUES (
+            reservation_code,
+            p_user_id,
+            p_venue_id,
+            p_venue_time_slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            total_price,
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RESERVATIONS TABLE POLICIES
+-- Customers book through create_reservation(), which validates and prices the booking;
+-- a direct insert could skip all of that
+DROP POLICY "Users can create own reservations" ON reservations;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION create_reservation(UUID, UUID, UUID, DATE, TIME, TIME, DECIMAL, DECIMAL, TEXT) TO authenticated;
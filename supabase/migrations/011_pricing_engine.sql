@@ -0,0 +1,234 @@
+-- Pricing Engine
+-- Migration: Price bookings slot by slot and keep the line items on the reservation
+
+-- Line items behind base_price, as shown on the confirmation page
+ALTER TABLE reservations ADD COLUMN price_breakdown JSONB;
+
+-- Line items of a booking. Mirrors calculateBookingPrice() in src/lib/pricing/engine.ts,
+-- so change both together. The period is split at time slot boundaries and each part is
+-- charged at the venue rate for the day (weekend_price on Saturday and Sunday when set)
+-- times the multiplier of the slot it falls in.
+CREATE OR REPLACE FUNCTION calculate_price_breakdown(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME
+)
+RETURNS TABLE (
+    start_time TIME,
+    end_time TIME,
+    hours DECIMAL,
+    hourly_rate DECIMAL,
+    multiplier DECIMAL,
+    amount DECIMAL
+) AS $$
+DECLARE
+    venue_base_price DECIMAL;
+    venue_weekend_price DECIMAL;
+    day_rate DECIMAL;
+    period_start TIME := p_start_time;
+    slot RECORD;
+BEGIN
+    SELECT v.base_price, v.weekend_price
+    INTO venue_base_price, venue_weekend_price
+    FROM venues v
+    WHERE v.id = p_venue_id AND v.is_active = true;
+
+    IF venue_base_price IS NULL THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    -- Weekend rate on Saturday (6) and Sunday (0)
+    IF EXTRACT(DOW FROM p_date) IN (0, 6) AND venue_weekend_price IS NOT NULL THEN
+        day_rate := venue_weekend_price;
+    ELSE
+        day_rate := venue_base_price;
+    END IF;
+
+    WHILE period_start < p_end_time LOOP
+        SELECT vts.end_time AS slot_end, COALESCE(vts.price_multiplier, 1.0) AS slot_multiplier
+        INTO slot
+        FROM venue_time_slots vts
+        WHERE vts.venue_id = p_venue_id
+        AND vts.is_available = true
+        AND vts.start_time <= period_start
+        AND vts.end_time > period_start
+        ORDER BY vts.start_time DESC
+        LIMIT 1;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'No pricing available for %', period_start;
+        END IF;
+
+        start_time := period_start;
+        end_time := LEAST(slot.slot_end, p_end_time);
+        hours := EXTRACT(EPOCH FROM (end_time - start_time)) / 3600;
+        hourly_rate := day_rate * slot.slot_multiplier;
+        multiplier := slot.slot_multiplier;
+        amount := ROUND(hourly_rate * hours, 2);
+        RETURN NEXT;
+
+        period_start := end_time;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION calculate_price_breakdown(UUID, DATE, TIME, TIME) TO anon, authenticated;
+
+-- Function to calculate venue price based on date and time, now the sum of the line items
+CREATE OR REPLACE FUNCTION calculate_venue_price(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_duration_hours DECIMAL
+)
+RETURNS DECIMAL AS $$
+DECLARE
+    final_price DECIMAL;
+BEGIN
+    SELECT SUM(b.amount)
+    INTO final_price
+    FROM calculate_price_breakdown(
+        p_venue_id,
+        p_date,
+        p_start_time,
+        (p_start_time + p_duration_hours * INTERVAL '1 hour')::TIME
+    ) b;
+
+    RETURN ROUND(final_price, 2);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to create a reservation with validation.
+-- Price and line items come from calculate_price_breakdown and the code from generate_reservation_code;
+-- the duration is derived from the requested times rather than trusted from the caller.
+-- Conflicts raise SQLSTATE PT409 (HTTP 409 through PostgREST) with hint 'slot_taken'.
+CREATE OR REPLACE FUNCTION create_reservation(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_venue_time_slot_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_duration_hours DECIMAL,
+    p_discount_percentage DECIMAL DEFAULT 0,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    duration_hours DECIMAL;
+    discount_percentage DECIMAL := COALESCE(p_discount_percentage, 0);
+    base_price DECIMAL;
+    total_price DECIMAL;
+    price_breakdown JSONB;
+    reservation_code TEXT;
+BEGIN
+    -- Customers book for themselves; staff may book on behalf of a customer
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to create a reservation for another user';
+    END IF;
+
+    -- Discounts are granted by staff only
+    IF discount_percentage <> 0 AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to apply a discount';
+    END IF;
+
+    IF discount_percentage < 0 OR discount_percentage > 100 THEN
+        RAISE EXCEPTION 'Discount percentage must be between 0 and 100';
+    END IF;
+
+    -- Validate requested period
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_reservation_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    duration_hours := EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600;
+
+    -- Validate venue exists and is active
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    -- Validate time slot belongs to the venue, is available and covers the start time
+    IF NOT EXISTS (
+        SELECT 1 FROM venue_time_slots
+        WHERE id = p_venue_time_slot_id
+        AND venue_id = p_venue_id
+        AND is_available = true
+        AND start_time <= p_start_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    -- Check availability (the exclusion constraint below is the final word under concurrency)
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    -- Price the booking slot by slot
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO base_price, price_breakdown
+    FROM calculate_price_breakdown(p_venue_id, p_reservation_date, p_start_time, p_end_time) b;
+
+    IF base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    total_price := ROUND(base_price * (1 - discount_percentage / 100), 2);
+
+    -- Generate reservation code
+    reservation_code := generate_reservation_code();
+
+    -- Create reservation
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            total_price,
+            price_breakdown,
+            notes
+        ) VALUES (
+            reservation_code,
+            p_user_id,
+            p_venue_id,
+            p_venue_time_slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            total_price,
+            price_breakdown,
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,187 @@
+-- Special Dates
+-- Migration: Public holidays and peak days with their own pricing or closures
+
+-- Create custom types
+CREATE TYPE special_date_type AS ENUM ('public_holiday', 'peak_day', 'custom');
+
+-- Special dates table (venue_id NULL applies to every venue; a venue's own row wins over a global one)
+CREATE TABLE special_dates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    venue_id UUID REFERENCES venues(id) ON DELETE CASCADE,
+    special_date DATE NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    date_type special_date_type NOT NULL DEFAULT 'custom',
+    price_multiplier DECIMAL(3,2), -- Applied to the day rate
+    price_override DECIMAL(10,2), -- Replaces the venue hourly rate for the day
+    is_closed BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT special_dates_venue_date_key UNIQUE NULLS NOT DISTINCT (venue_id, special_date),
+    CONSTRAINT valid_special_date_pricing CHECK (
+        (price_multiplier IS NULL OR price_multiplier >= 0)
+        AND (price_override IS NULL OR price_override >= 0)
+        AND (price_multiplier IS NULL OR price_override IS NULL)
+    )
+);
+
+CREATE INDEX idx_special_dates_date ON special_dates(special_date);
+
+CREATE TRIGGER update_special_dates_updated_at BEFORE UPDATE ON special_dates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Special date that applies to a venue on a date, if any
+CREATE OR REPLACE FUNCTION get_special_date(
+    p_venue_id UUID,
+    p_date DATE
+)
+RETURNS SETOF special_dates AS $$
+BEGIN
+    RETURN QUERY
+    SELECT sd.*
+    FROM special_dates sd
+    WHERE sd.special_date = p_date
+    AND (sd.venue_id = p_venue_id OR sd.venue_id IS NULL)
+    ORDER BY sd.venue_id NULLS LAST
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Line items of a booking. Mirrors calculateBookingPrice() in src/lib/pricing/engine.ts,
+-- so change both together. The day rate is weekend_price on Saturday, Sunday and special
+-- dates (base_price when the venue has none), replaced by a special date's price_override
+-- or scaled by its price_multiplier. The period is split at time slot boundaries and each
+-- part is charged at the day rate times the multiplier of the slot it falls in.
+CREATE OR REPLACE FUNCTION calculate_price_breakdown(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME
+)
+RETURNS TABLE (
+    start_time TIME,
+    end_time TIME,
+    hours DECIMAL,
+    hourly_rate DECIMAL,
+    multiplier DECIMAL,
+    amount DECIMAL
+) AS $$
+DECLARE
+    venue_base_price DECIMAL;
+    venue_weekend_price DECIMAL;
+    day_rate DECIMAL;
+    special special_dates%ROWTYPE;
+    period_start TIME := p_start_time;
+    slot RECORD;
+BEGIN
+    SELECT v.base_price, v.weekend_price
+    INTO venue_base_price, venue_weekend_price
+    FROM venues v
+    WHERE v.id = p_venue_id AND v.is_active = true;
+
+    IF venue_base_price IS NULL THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    SELECT * INTO special FROM get_special_date(p_venue_id, p_date);
+
+    IF special.is_closed THEN
+        RAISE EXCEPTION 'Venue is closed on % (%)', p_date, special.name;
+    END IF;
+
+    -- Weekend rate on Saturday (6), Sunday (0) and special dates
+    IF (special.id IS NOT NULL OR EXTRACT(DOW FROM p_date) IN (0, 6)) AND venue_weekend_price IS NOT NULL THEN
+        day_rate := venue_weekend_price;
+    ELSE
+        day_rate := venue_base_price;
+    END IF;
+
+    IF special.price_override IS NOT NULL THEN
+        day_rate := special.price_override;
+    ELSIF special.price_multiplier IS NOT NULL THEN
+        day_rate := day_rate * special.price_multiplier;
+    END IF;
+
+    WHILE period_start < p_end_time LOOP
+        SELECT vts.end_time AS slot_end, COALESCE(vts.price_multiplier, 1.0) AS slot_multiplier
+        INTO slot
+        FROM venue_time_slots vts
+        WHERE vts.venue_id = p_venue_id
+        AND vts.is_available = true
+        AND vts.start_time <= period_start
+        AND vts.end_time > period_start
+        ORDER BY vts.start_time DESC
+        LIMIT 1;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'No pricing available for %', period_start;
+        END IF;
+
+        start_time := period_start;
+        end_time := LEAST(slot.slot_end, p_end_time);
+        hours := EXTRACT(EPOCH FROM (end_time - start_time)) / 3600;
+        hourly_rate := day_rate * slot.slot_multiplier;
+        multiplier := slot.slot_multiplier;
+        amount := ROUND(hourly_rate * hours, 2);
+        RETURN NEXT;
+
+        period_start := end_time;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to get available time slots for a venue on a specific date (none on closed days)
+CREATE OR REPLACE FUNCTION get_available_time_slots(
+    p_venue_id UUID,
+    p_date DATE
+)
+RETURNS TABLE(
+    slot_id UUID,
+    start_time TIME,
+    end_time TIME,
+    price_multiplier DECIMAL,
+    is_available BOOLEAN
+) AS $$
+DECLARE
+    is_closed BOOLEAN;
+BEGIN
+    SELECT COALESCE(bool_or(sd.is_closed), false)
+    INTO is_closed
+    FROM get_special_date(p_venue_id, p_date) sd;
+
+    RETURN QUERY
+    SELECT
+        vts.id,
+        vts.start_time,
+        vts.end_time,
+        vts.price_multiplier,
+        (
+            NOT is_closed AND
+            vts.is_available AND
+            check_venue_availability(p_venue_id, p_date, vts.start_time, vts.end_time)
+        ) as is_available
+    FROM venue_time_slots vts
+    WHERE vts.venue_id = p_venue_id
+    ORDER BY vts.start_time;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE special_dates ENABLE ROW LEVEL SECURITY;
+
+-- SPECIAL_DATES TABLE POLICIES
+-- Everyone can view special dates (they affect public prices)
+CREATE POLICY "Everyone can view special dates" ON special_dates
+    FOR SELECT USING (true);
+
+-- Admins can manage special dates
+CREATE POLICY "Admins can manage special dates" ON special_dates
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT ALL ON special_dates TO authenticated;
+GRANT SELECT ON special_dates TO anon;
+GRANT EXECUTE ON FUNCTION get_special_date(UUID, DATE) TO anon, authenticated;
@@ -0,0 +1,327 @@
+-- Promo Codes
+-- Migration: Percentage and fixed-amount promo codes redeemed when a reservation is created
+
+-- Create custom types
+CREATE TYPE promo_discount_type AS ENUM ('percentage', 'fixed_amount');
+
+-- Promo codes table (venue_id / venue_type_id restrict where a code can be used)
+CREATE TABLE promo_codes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    code VARCHAR(50) NOT NULL,
+    description TEXT,
+    discount_type promo_discount_type NOT NULL,
+    discount_value DECIMAL(10,2) NOT NULL,
+    min_spend DECIMAL(10,2) NOT NULL DEFAULT 0,
+    valid_from TIMESTAMP WITH TIME ZONE,
+    valid_until TIMESTAMP WITH TIME ZONE,
+    usage_limit INTEGER, -- Total redemptions, NULL for unlimited
+    per_user_limit INTEGER DEFAULT 1, -- Redemptions per customer, NULL for unlimited
+    venue_id UUID REFERENCES venues(id) ON DELETE CASCADE,
+    venue_type_id UUID REFERENCES venue_types(id) ON DELETE CASCADE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_promo_discount CHECK (
+        discount_value > 0 AND (discount_type <> 'percentage' OR discount_value <= 100)
+    ),
+    CONSTRAINT valid_promo_limits CHECK (
+        (usage_limit IS NULL OR usage_limit > 0) AND (per_user_limit IS NULL OR per_user_limit > 0)
+    ),
+    CONSTRAINT valid_promo_window CHECK (
+        valid_from IS NULL OR valid_until IS NULL OR valid_until > valid_from
+    )
+);
+
+-- Codes are matched case-insensitively
+CREATE UNIQUE INDEX idx_promo_codes_code ON promo_codes(UPPER(code));
+
+CREATE TRIGGER update_promo_codes_updated_at BEFORE UPDATE ON promo_codes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A reservation with a promo code is its redemption; cancelled reservations give the use back
+ALTER TABLE reservations ADD COLUMN promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL;
+ALTER TABLE reservations ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+UPDATE reservations SET discount_amount = base_price - total_price WHERE total_price < base_price;
+
+CREATE INDEX idx_reservations_promo_code ON reservations(promo_code_id) WHERE promo_code_id IS NOT NULL;
+
+-- Validates a promo code for a booking and returns the discount it gives on the subtotal.
+-- Invalid codes raise with hint 'promo_invalid'. The code row is locked so concurrent
+-- bookings can't go over the usage limits.
+CREATE OR REPLACE FUNCTION evaluate_promo_code(
+    p_code TEXT,
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_subtotal DECIMAL
+)
+RETURNS TABLE (
+    promo_code_id UUID,
+    code TEXT,
+    discount_type promo_discount_type,
+    discount_value DECIMAL,
+    discount_amount DECIMAL
+) AS $$
+DECLARE
+    promo promo_codes%ROWTYPE;
+    redemption_count INTEGER;
+BEGIN
+    SELECT * INTO promo
+    FROM promo_codes pc
+    WHERE UPPER(pc.code) = UPPER(TRIM(p_code))
+    AND pc.is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Promo code not found' USING HINT = 'promo_invalid';
+    END IF;
+
+    IF promo.valid_from IS NOT NULL AND promo.valid_from > NOW() THEN
+        RAISE EXCEPTION 'Promo code is not valid yet' USING HINT = 'promo_invalid';
+    END IF;
+
+    IF promo.valid_until IS NOT NULL AND promo.valid_until <= NOW() THEN
+        RAISE EXCEPTION 'Promo code has expired' USING HINT = 'promo_invalid';
+    END IF;
+
+    IF (promo.venue_id IS NOT NULL AND promo.venue_id <> p_venue_id)
+        OR (promo.venue_type_id IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM venues v WHERE v.id = p_venue_id AND v.venue_type_id = promo.venue_type_id
+        )) THEN
+        RAISE EXCEPTION 'Promo code is not valid for this venue' USING HINT = 'promo_invalid';
+    END IF;
+
+    IF p_subtotal < promo.min_spend THEN
+        RAISE EXCEPTION 'Promo code requires a minimum spend of %', promo.min_spend USING HINT = 'promo_invalid';
+    END IF;
+
+    IF promo.usage_limit IS NOT NULL THEN
+        SELECT COUNT(*) INTO redemption_count
+        FROM reservations r
+        WHERE r.promo_code_id = promo.id
+        AND r.status IS DISTINCT FROM 'cancelled';
+
+        IF redemption_count >= promo.usage_limit THEN
+            RAISE EXCEPTION 'Promo code has been fully redeemed' USING HINT = 'promo_invalid';
+        END IF;
+    END IF;
+
+    IF promo.per_user_limit IS NOT NULL THEN
+        SELECT COUNT(*) INTO redemption_count
+        FROM reservations r
+        WHERE r.promo_code_id = promo.id
+        AND r.user_id = p_user_id
+        AND r.status IS DISTINCT FROM 'cancelled';
+
+        IF redemption_count >= promo.per_user_limit THEN
+            RAISE EXCEPTION 'You have already used this promo code' USING HINT = 'promo_invalid';
+        END IF;
+    END IF;
+
+    promo_code_id := promo.id;
+    code := promo.code;
+    discount_type := promo.discount_type;
+    discount_value := promo.discount_value;
+
+    -- Same rounding as a percentage discount in calculateBookingPrice()
+    IF promo.discount_type = 'percentage' THEN
+        discount_amount := p_subtotal - ROUND(p_subtotal * (1 - promo.discount_value / 100), 2);
+    ELSE
+        discount_amount := LEAST(promo.discount_value, p_subtotal);
+    END IF;
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION evaluate_promo_code(TEXT, UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Lets a signed-in customer check a code before booking
+CREATE OR REPLACE FUNCTION check_promo_code(
+    p_code TEXT,
+    p_venue_id UUID,
+    p_subtotal DECIMAL
+)
+RETURNS TABLE (
+    promo_code_id UUID,
+    code TEXT,
+    discount_type promo_discount_type,
+    discount_value DECIMAL,
+    discount_amount DECIMAL
+) AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to use a promo code';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM evaluate_promo_code(p_code, auth.uid(), p_venue_id, p_subtotal);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The promo code parameter changes the signature, so drop the old function instead of overloading it
+DROP FUNCTION IF EXISTS create_reservation(UUID, UUID, UUID, DATE, TIME, TIME, DECIMAL, DECIMAL, TEXT);
+
+-- Function to create a reservation with validation.
+-- Price and line items come from calculate_price_breakdown and the code from generate_reservation_code;
+-- the duration is derived from the requested times rather than trusted from the caller.
+-- Runs as the function owner so it can use the internal hold and promo helpers; callers are
+-- checked against auth.uid() instead.
+-- Conflicts raise SQLSTATE PT409 (HTTP 409 through PostgREST) with hint 'slot_taken'.
+CREATE OR REPLACE FUNCTION create_reservation(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_venue_time_slot_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_duration_hours DECIMAL,
+    p_discount_percentage DECIMAL DEFAULT 0,
+    p_notes TEXT DEFAULT NULL,
+    p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    duration_hours DECIMAL;
+    discount_percentage DECIMAL := COALESCE(p_discount_percentage, 0);
+    discount_amount DECIMAL;
+    promo_code_id UUID;
+    base_price DECIMAL;
+    total_price DECIMAL;
+    price_breakdown JSONB;
+    reservation_code TEXT;
+BEGIN
+    -- Customers book for themselves; staff may book on behalf of a customer
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to create a reservation for another user';
+    END IF;
+
+    -- Discounts are granted by staff only
+    IF discount_percentage <> 0 AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to apply a discount';
+    END IF;
+
+    IF discount_percentage < 0 OR discount_percentage > 100 THEN
+        RAISE EXCEPTION 'Discount percentage must be between 0 and 100';
+    END IF;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL AND discount_percentage <> 0 THEN
+        RAISE EXCEPTION 'A promo code cannot be combined with another discount';
+    END IF;
+
+    -- Validate requested period
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_reservation_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    duration_hours := EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600;
+
+    -- Validate venue exists and is active
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    -- Validate time slot belongs to the venue, is available and covers the start time
+    IF NOT EXISTS (
+        SELECT 1 FROM venue_time_slots
+        WHERE id = p_venue_time_slot_id
+        AND venue_id = p_venue_id
+        AND is_available = true
+        AND start_time <= p_start_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    -- Check availability (the exclusion constraint below is the final word under concurrency)
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    -- Price the booking slot by slot
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO base_price, price_breakdown
+    FROM calculate_price_breakdown(p_venue_id, p_reservation_date, p_start_time, p_end_time) b;
+
+    IF base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        SELECT promo.promo_code_id, promo.discount_amount
+        INTO promo_code_id, discount_amount
+        FROM evaluate_promo_code(p_promo_code, p_user_id, p_venue_id, base_price) promo;
+    ELSE
+        discount_amount := base_price - ROUND(base_price * (1 - discount_percentage / 100), 2);
+    END IF;
+
+    total_price := base_price - discount_amount;
+
+    -- Generate reservation code
+    reservation_code := generate_reservation_code();
+
+    -- Create reservation
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            promo_code_id,
+            total_price,
+            price_breakdown,
+            notes
+        ) VALUES (
+            reservation_code,
+            p_user_id,
+            p_venue_id,
+            p_venue_time_slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            promo_code_id,
+            total_price,
+            price_breakdown,
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- PROMO_CODES TABLE POLICIES
+-- Admins can manage promo codes (customers check codes through check_promo_code)
+CREATE POLICY "Admins can manage promo codes" ON promo_codes
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT ALL ON promo_codes TO authenticated;
+GRANT EXECUTE ON FUNCTION check_promo_code(TEXT, UUID, DECIMAL) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_reservation(UUID, UUID, UUID, DATE, TIME, TIME, DECIMAL, DECIMAL, TEXT, TEXT) TO authenticated;
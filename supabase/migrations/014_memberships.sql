@@ -0,0 +1,436 @@
+-- Memberships
+-- Migration: Membership tiers with member discounts, a longer booking window and expiry
+
+-- Create custom types
+CREATE TYPE membership_status AS ENUM ('active', 'expired', 'cancelled');
+
+-- Membership tiers table
+CREATE TABLE membership_tiers (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    price DECIMAL(10,2) NOT NULL,
+    duration_days INTEGER NOT NULL DEFAULT 30,
+    discount_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    booking_window_days INTEGER NOT NULL, -- How far ahead members can book
+    sort_order INTEGER DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_membership_tier CHECK (
+        price >= 0
+        AND duration_days > 0
+        AND discount_percentage >= 0 AND discount_percentage <= 100
+        AND booking_window_days > 0
+    )
+);
+
+-- Memberships table (a renewal is a new row starting when the current one ends)
+CREATE TABLE memberships (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    tier_id UUID REFERENCES membership_tiers(id) ON DELETE RESTRICT NOT NULL,
+    status membership_status NOT NULL DEFAULT 'active',
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    price_paid DECIMAL(10,2) NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_membership_period CHECK (expires_at > starts_at)
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_memberships_user ON memberships(user_id, expires_at);
+CREATE INDEX idx_memberships_active_expiry ON memberships(expires_at) WHERE status = 'active';
+
+CREATE TRIGGER update_membership_tiers_updated_at BEFORE UPDATE ON membership_tiers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_memberships_updated_at BEFORE UPDATE ON memberships FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- How far ahead customers without a membership can book
+CREATE OR REPLACE FUNCTION default_booking_window_days()
+RETURNS INTEGER AS $$
+    SELECT 14;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The membership a user is in right now, if any. Benefits end at expires_at even
+-- before expire_memberships() has marked the membership as expired.
+CREATE OR REPLACE FUNCTION get_active_membership(p_user_id UUID)
+RETURNS TABLE (
+    membership_id UUID,
+    tier_id UUID,
+    tier_name VARCHAR,
+    discount_percentage DECIMAL,
+    booking_window_days INTEGER,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to view memberships of another user';
+    END IF;
+
+    RETURN QUERY
+    SELECT m.id, t.id, t.name, t.discount_percentage, t.booking_window_days, m.starts_at, m.expires_at
+    FROM memberships m
+    JOIN membership_tiers t ON t.id = m.tier_id
+    WHERE m.user_id = p_user_id
+    AND m.status = 'active'
+    AND m.starts_at <= NOW()
+    AND m.expires_at > NOW()
+    -- Overlapping memberships only happen when a tier is bought mid-term; the best discount wins
+    ORDER BY t.discount_percentage DESC, m.expires_at DESC
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Days ahead of today a user can book
+CREATE OR REPLACE FUNCTION get_booking_window_days(p_user_id UUID)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        (SELECT booking_window_days FROM get_active_membership(p_user_id)),
+        default_booking_window_days()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Customers with a current membership have the member role and go back to customer
+-- when it ends. Staff and admin roles are never changed.
+CREATE OR REPLACE FUNCTION sync_member_role(p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    target_role user_role;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM memberships
+        WHERE user_id = p_user_id
+        AND status = 'active'
+        AND starts_at <= NOW()
+        AND expires_at > NOW()
+    ) THEN
+        target_role := 'member';
+    ELSE
+        target_role := 'customer';
+    END IF;
+
+    UPDATE profiles
+    SET role = target_role, updated_at = NOW()
+    WHERE id = p_user_id
+    AND role IN ('customer', 'member')
+    AND role <> target_role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION sync_member_role(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION handle_membership_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM sync_member_role(NEW.user_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_member_role_on_membership_change
+    AFTER INSERT OR UPDATE OF status, starts_at, expires_at ON memberships
+    FOR EACH ROW EXECUTE FUNCTION handle_membership_change();
+
+-- Sells a membership, or renews one: the new period starts when the user's current
+-- membership ends. Staff record the sale at the front desk.
+CREATE OR REPLACE FUNCTION grant_membership(
+    p_user_id UUID,
+    p_tier_id UUID,
+    p_price_paid DECIMAL DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    tier membership_tiers%ROWTYPE;
+    membership_id UUID;
+    period_start TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to grant memberships';
+    END IF;
+
+    SELECT * INTO tier FROM membership_tiers WHERE id = p_tier_id AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Membership tier not found or inactive';
+    END IF;
+
+    SELECT GREATEST(NOW(), MAX(m.expires_at)) INTO period_start
+    FROM memberships m
+    WHERE m.user_id = p_user_id
+    AND m.status = 'active';
+
+    INSERT INTO memberships (user_id, tier_id, starts_at, expires_at, price_paid, created_by)
+    VALUES (
+        p_user_id,
+        tier.id,
+        period_start,
+        period_start + make_interval(days => tier.duration_days),
+        COALESCE(p_price_paid, tier.price),
+        auth.uid()
+    )
+    RETURNING id INTO membership_id;
+
+    RETURN membership_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark memberships that have run out as expired and bring member roles up to date
+-- (renewals that have just started included).
+-- Run hourly by pg_cron when available, otherwise by /api/cron/expire-memberships.
+CREATE OR REPLACE FUNCTION expire_memberships()
+RETURNS INTEGER AS $$
+DECLARE
+    expired_count INTEGER;
+    profile_id UUID;
+BEGIN
+    UPDATE memberships
+    SET status = 'expired', updated_at = NOW()
+    WHERE status = 'active'
+    AND expires_at <= NOW();
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+
+    FOR profile_id IN
+        SELECT p.id FROM profiles p
+        WHERE p.role IN ('customer', 'member')
+        AND (p.role = 'member') IS DISTINCT FROM EXISTS (
+            SELECT 1 FROM memberships m
+            WHERE m.user_id = p.id
+            AND m.status = 'active'
+            AND m.starts_at <= NOW()
+            AND m.expires_at > NOW()
+        )
+    LOOP
+        PERFORM sync_member_role(profile_id);
+    END LOOP;
+
+    RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION expire_memberships() FROM PUBLIC, anon, authenticated;
+
+-- Function to create a reservation with validation.
+-- Price and line items come from calculate_price_breakdown and the code from generate_reservation_code;
+-- the duration is derived from the requested times rather than trusted from the caller.
+-- Members get their tier's discount unless staff give another discount or a promo code is used,
+-- and can book as far ahead as their tier allows.
+-- Runs as the function owner so it can use the internal hold and promo helpers; callers are
+-- checked against auth.uid() instead.
+-- Conflicts raise SQLSTATE PT409 (HTTP 409 through PostgREST) with hint 'slot_taken'.
+CREATE OR REPLACE FUNCTION create_reservation(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_venue_time_slot_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_duration_hours DECIMAL,
+    p_discount_percentage DECIMAL DEFAULT 0,
+    p_notes TEXT DEFAULT NULL,
+    p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    duration_hours DECIMAL;
+    discount_percentage DECIMAL := COALESCE(p_discount_percentage, 0);
+    discount_amount DECIMAL;
+    promo_code_id UUID;
+    base_price DECIMAL;
+    total_price DECIMAL;
+    price_breakdown JSONB;
+    reservation_code TEXT;
+    booking_window_days INTEGER;
+BEGIN
+    -- Customers book for themselves; staff may book on behalf of a customer
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to create a reservation for another user';
+    END IF;
+
+    -- Discounts are granted by staff only
+    IF discount_percentage <> 0 AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to apply a discount';
+    END IF;
+
+    IF discount_percentage < 0 OR discount_percentage > 100 THEN
+        RAISE EXCEPTION 'Discount percentage must be between 0 and 100';
+    END IF;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL AND discount_percentage <> 0 THEN
+        RAISE EXCEPTION 'A promo code cannot be combined with another discount';
+    END IF;
+
+    -- Validate requested period
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_reservation_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    -- Members can book further ahead; staff are not limited
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        booking_window_days := get_booking_window_days(p_user_id);
+
+        IF p_reservation_date > CURRENT_DATE + booking_window_days THEN
+            RAISE EXCEPTION 'Bookings can be made up to % days in advance', booking_window_days;
+        END IF;
+    END IF;
+
+    duration_hours := EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600;
+
+    -- Validate venue exists and is active
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    -- Validate time slot belongs to the venue, is available and covers the start time
+    IF NOT EXISTS (
+        SELECT 1 FROM venue_time_slots
+        WHERE id = p_venue_time_slot_id
+        AND venue_id = p_venue_id
+        AND is_available = true
+        AND start_time <= p_start_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    -- Check availability (the exclusion constraint below is the final word under concurrency)
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    -- Price the booking slot by slot
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO base_price, price_breakdown
+    FROM calculate_price_breakdown(p_venue_id, p_reservation_date, p_start_time, p_end_time) b;
+
+    IF base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        SELECT promo.promo_code_id, promo.discount_amount
+        INTO promo_code_id, discount_amount
+        FROM evaluate_promo_code(p_promo_code, p_user_id, p_venue_id, base_price) promo;
+    ELSE
+        IF discount_percentage = 0 THEN
+            SELECT COALESCE(MAX(membership.discount_percentage), 0)
+            INTO discount_percentage
+            FROM get_active_membership(p_user_id) membership;
+        END IF;
+
+        discount_amount := base_price - ROUND(base_price * (1 - discount_percentage / 100), 2);
+    END IF;
+
+    total_price := base_price - discount_amount;
+
+    -- Generate reservation code
+    reservation_code := generate_reservation_code();
+
+    -- Create reservation
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            promo_code_id,
+            total_price,
+            price_breakdown,
+            status,
+            payment_status,
+            notes
+        ) VALUES (
+            reservation_code,
+            p_user_id,
+            p_venue_id,
+            p_venue_time_slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            promo_code_id,
+            total_price,
+            price_breakdown,
+            -- Nothing to pay (e.g. a 100% promo code): confirmed straight away, without a hold
+            CASE WHEN total_price <= 0 THEN 'confirmed' ELSE 'pending' END::reservation_status,
+            CASE WHEN total_price <= 0 THEN 'paid' ELSE 'pending' END::payment_status,
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE membership_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+-- MEMBERSHIP_TIERS TABLE POLICIES
+-- Everyone can view active tiers
+CREATE POLICY "Everyone can view active membership tiers" ON membership_tiers
+    FOR SELECT USING (is_active = true OR is_admin_or_higher(auth.uid()));
+
+-- Admins can manage tiers
+CREATE POLICY "Admins can manage membership tiers" ON membership_tiers
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- MEMBERSHIPS TABLE POLICIES
+-- Users can view their own memberships
+CREATE POLICY "Users can view own memberships" ON memberships
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Staff can view all memberships (new ones are sold through grant_membership)
+CREATE POLICY "Staff can view all memberships" ON memberships
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- Admins can manage memberships
+CREATE POLICY "Admins can manage memberships" ON memberships
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Schedule the expiry job where pg_cron is installed (enable it under Database → Extensions)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+        PERFORM cron.schedule(
+            'expire-memberships',
+            '0 * * * *',
+            'SELECT expire_memberships()'
+        );
+    END IF;
+END;
+$$;
+
+-- Grant permissions
+GRANT SELECT ON membership_tiers TO anon;
+GRANT ALL ON membership_tiers TO authenticated;
+GRANT ALL ON memberships TO authenticated;
+GRANT EXECUTE ON FUNCTION get_active_membership(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_booking_window_days(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION grant_membership(UUID, UUID, DECIMAL) TO authenticated;
@@ -0,0 +1,662 @@
+-- Recurring Reservations
+-- Migration: Weekly and biweekly reservation series priced as a package
+
+-- Create custom types
+CREATE TYPE series_frequency AS ENUM ('weekly', 'biweekly');
+CREATE TYPE series_status AS ENUM ('active', 'cancelled');
+
+-- Reservation series table (each occurrence is a regular reservation pointing back here)
+CREATE TABLE reservation_series (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    venue_id UUID REFERENCES venues(id) ON DELETE CASCADE NOT NULL,
+    frequency series_frequency NOT NULL DEFAULT 'weekly',
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    occurrence_count INTEGER NOT NULL, -- Occurrences booked, after skipped conflicts
+    package_discount_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    status series_status NOT NULL DEFAULT 'active',
+    notes TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_series_period CHECK (end_date >= start_date AND end_time > start_time),
+    CONSTRAINT valid_series_discount CHECK (package_discount_percentage >= 0 AND package_discount_percentage <= 100)
+);
+
+ALTER TABLE reservations ADD COLUMN series_id UUID REFERENCES reservation_series(id) ON DELETE SET NULL;
+
+-- Create indexes for better performance
+CREATE INDEX idx_reservation_series_user ON reservation_series(user_id);
+CREATE INDEX idx_reservations_series ON reservations(series_id, reservation_date) WHERE series_id IS NOT NULL;
+
+CREATE TRIGGER update_reservation_series_updated_at BEFORE UPDATE ON reservation_series FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Booking dates and times are venue local time (Asia/Jakarta, see VENUE_TIME_ZONE in
+-- src/lib/ics.ts). Compare them with venue_now() and venue_today(), not NOW() and
+-- CURRENT_DATE, which follow the database time zone (UTC).
+CREATE OR REPLACE FUNCTION venue_time_zone()
+RETURNS TEXT AS $$
+    SELECT 'Asia/Jakarta'::TEXT;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION venue_now()
+RETURNS TIMESTAMP AS $$
+    SELECT NOW() AT TIME ZONE venue_time_zone();
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION venue_today()
+RETURNS DATE AS $$
+    SELECT venue_now()::DATE;
+$$ LANGUAGE sql STABLE;
+
+-- Longest series that can be booked in one go (a year of weekly sessions)
+CREATE OR REPLACE FUNCTION max_series_occurrences()
+RETURNS INTEGER AS $$
+    SELECT 52;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Package discount for booking p_occurrences sessions together
+CREATE OR REPLACE FUNCTION series_package_discount(p_occurrences INTEGER)
+RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN p_occurrences >= 12 THEN 15
+        WHEN p_occurrences >= 8 THEN 10
+        WHEN p_occurrences >= 4 THEN 5
+        ELSE 0
+    END::DECIMAL;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Occurrences are paid one at a time, so an unpaid occurrence holds its slot
+-- until this long before it starts instead of the usual booking hold
+CREATE OR REPLACE FUNCTION series_payment_lead_time()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '24 hours';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION series_hold_expiry(p_date DATE, p_start_time TIME)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+    SELECT GREATEST(
+        NOW() + reservation_hold_duration(),
+        (p_date + p_start_time) AT TIME ZONE venue_time_zone() - series_payment_lead_time()
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Dates of a series, given either its last date or its number of occurrences
+CREATE OR REPLACE FUNCTION get_series_dates(
+    p_start_date DATE,
+    p_frequency series_frequency,
+    p_end_date DATE DEFAULT NULL,
+    p_occurrences INTEGER DEFAULT NULL
+)
+RETURNS SETOF DATE AS $$
+DECLARE
+    step_days INTEGER := CASE WHEN p_frequency = 'biweekly' THEN 14 ELSE 7 END;
+    occurrences INTEGER := p_occurrences;
+BEGIN
+    IF (p_end_date IS NULL) = (p_occurrences IS NULL) THEN
+        RAISE EXCEPTION 'Give either an end date or a number of occurrences';
+    END IF;
+
+    IF p_end_date IS NOT NULL THEN
+        IF p_end_date < p_start_date THEN
+            RAISE EXCEPTION 'The series must end after it starts';
+        END IF;
+
+        occurrences := (p_end_date - p_start_date) / step_days + 1;
+    END IF;
+
+    IF occurrences < 2 OR occurrences > max_series_occurrences() THEN
+        RAISE EXCEPTION 'A series must have between 2 and % occurrences', max_series_occurrences();
+    END IF;
+
+    RETURN QUERY
+    SELECT p_start_date + n * step_days
+    FROM generate_series(0, occurrences - 1) n;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Availability and package price of every occurrence of a proposed series.
+-- Unavailable dates come with the reason and are left out of the package.
+CREATE OR REPLACE FUNCTION check_series_availability(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_start_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_frequency series_frequency,
+    p_end_date DATE DEFAULT NULL,
+    p_occurrences INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    occurrence_date DATE,
+    is_available BOOLEAN,
+    conflict_reason TEXT,
+    base_price DECIMAL,
+    discount_percentage DECIMAL,
+    total_price DECIMAL
+) AS $$
+DECLARE
+    series_date DATE;
+    dates DATE[] := '{}';
+    available BOOLEAN[] := '{}';
+    reasons TEXT[] := '{}';
+    prices DECIMAL[] := '{}';
+    date_price DECIMAL;
+    date_reason TEXT;
+    member_discount DECIMAL;
+    package_discount DECIMAL;
+    booking_window_days INTEGER;
+    i INTEGER;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to check a series for another user';
+    END IF;
+
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    -- Staff can book any date; customers only within their booking window
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        booking_window_days := get_booking_window_days(p_user_id);
+    END IF;
+
+    FOR series_date IN
+        SELECT d FROM get_series_dates(p_start_date, p_frequency, p_end_date, p_occurrences) d
+    LOOP
+        date_price := NULL;
+        date_reason := NULL;
+
+        IF series_date < venue_today() THEN
+            date_reason := 'Date is in the past';
+        ELSIF series_date > venue_today() + booking_window_days THEN
+            date_reason := format('Bookings can be made up to %s days in advance', booking_window_days);
+        ELSIF NOT check_venue_availability(p_venue_id, series_date, p_start_time, p_end_time) THEN
+            date_reason := 'Already booked';
+        ELSE
+            -- Pricing fails on closed special dates
+            BEGIN
+                SELECT SUM(b.amount) INTO date_price
+                FROM calculate_price_breakdown(p_venue_id, series_date, p_start_time, p_end_time) b;
+
+                IF date_price IS NULL THEN
+                    date_reason := 'No price for this time';
+                END IF;
+            EXCEPTION
+                WHEN raise_exception THEN
+                    date_reason := SQLERRM;
+            END;
+        END IF;
+
+        dates := dates || series_date;
+        available := available || (date_reason IS NULL);
+        reasons := reasons || date_reason;
+        prices := prices || date_price;
+    END LOOP;
+
+    SELECT COALESCE(MAX(membership.discount_percentage), 0)
+    INTO member_discount
+    FROM get_active_membership(p_user_id) membership;
+
+    package_discount := series_package_discount(
+        (SELECT COUNT(*) FROM unnest(available) a WHERE a)::INTEGER
+    );
+
+    FOR i IN 1 .. array_length(dates, 1) LOOP
+        occurrence_date := dates[i];
+        is_available := available[i];
+        conflict_reason := reasons[i];
+        base_price := prices[i];
+        discount_percentage := CASE WHEN available[i] THEN GREATEST(package_discount, member_discount) END;
+        total_price := ROUND(prices[i] * (1 - discount_percentage / 100), 2);
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Book every available occurrence of a series. Conflicts raise SQLSTATE PT409 with
+-- hint 'series_conflict' listing the dates, unless p_skip_conflicts leaves them out.
+CREATE OR REPLACE FUNCTION create_reservation_series(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_start_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_frequency series_frequency,
+    p_end_date DATE DEFAULT NULL,
+    p_occurrences INTEGER DEFAULT NULL,
+    p_skip_conflicts BOOLEAN DEFAULT false,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    series_id UUID;
+    slot_id UUID;
+    booking_window_days INTEGER;
+    occurrence RECORD;
+    conflicts TEXT;
+    booked_count INTEGER;
+    price_breakdown JSONB;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to create a reservation for another user';
+    END IF;
+
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_start_date < venue_today() THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    -- Later occurrences outside the booking window are conflicts (see check_series_availability)
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        booking_window_days := get_booking_window_days(p_user_id);
+
+        IF p_start_date > venue_today() + booking_window_days THEN
+            RAISE EXCEPTION 'Bookings can be made up to % days in advance', booking_window_days;
+        END IF;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    SELECT id INTO slot_id
+    FROM venue_time_slots
+    WHERE venue_id = p_venue_id
+    AND is_available = true
+    AND start_time <= p_start_time
+    AND end_time > p_start_time
+    ORDER BY start_time DESC
+    LIMIT 1;
+
+    IF slot_id IS NULL THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    CREATE TEMP TABLE series_occurrences ON COMMIT DROP AS
+    SELECT * FROM check_series_availability(
+        p_user_id, p_venue_id, p_start_date, p_start_time, p_end_time,
+        p_frequency, p_end_date, p_occurrences
+    );
+
+    SELECT string_agg(to_char(s.occurrence_date, 'YYYY-MM-DD'), ', ' ORDER BY s.occurrence_date)
+    INTO conflicts
+    FROM series_occurrences s
+    WHERE NOT s.is_available;
+
+    IF conflicts IS NOT NULL AND NOT p_skip_conflicts THEN
+        RAISE EXCEPTION 'These dates are not available: %', conflicts
+            USING ERRCODE = 'PT409', HINT = 'series_conflict';
+    END IF;
+
+    SELECT COUNT(*) INTO booked_count FROM series_occurrences s WHERE s.is_available;
+
+    IF booked_count < 2 THEN
+        RAISE EXCEPTION 'A series needs at least two available dates';
+    END IF;
+
+    INSERT INTO reservation_series (
+        user_id,
+        venue_id,
+        frequency,
+        start_date,
+        end_date,
+        start_time,
+        end_time,
+        occurrence_count,
+        package_discount_percentage,
+        notes,
+        created_by
+    )
+    SELECT
+        p_user_id,
+        p_venue_id,
+        p_frequency,
+        MIN(s.occurrence_date),
+        MAX(s.occurrence_date),
+        p_start_time,
+        p_end_time,
+        booked_count,
+        series_package_discount(booked_count),
+        p_notes,
+        auth.uid()
+    FROM series_occurrences s
+    WHERE s.is_available
+    RETURNING id INTO series_id;
+
+    FOR occurrence IN
+        SELECT * FROM series_occurrences s WHERE s.is_available ORDER BY s.occurrence_date
+    LOOP
+        PERFORM release_expired_holds(p_venue_id, occurrence.occurrence_date, p_start_time, p_end_time);
+
+        SELECT jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+        INTO price_breakdown
+        FROM calculate_price_breakdown(p_venue_id, occurrence.occurrence_date, p_start_time, p_end_time) b;
+
+        BEGIN
+            INSERT INTO reservations (
+                reservation_code,
+                user_id,
+                venue_id,
+                venue_time_slot_id,
+                series_id,
+                reservation_date,
+                start_time,
+                end_time,
+                duration_hours,
+                base_price,
+                discount_percentage,
+                discount_amount,
+                total_price,
+                price_breakdown,
+                expires_at,
+                notes
+            ) VALUES (
+                generate_reservation_code(),
+                p_user_id,
+                p_venue_id,
+                slot_id,
+                series_id,
+                occurrence.occurrence_date,
+                p_start_time,
+                p_end_time,
+                EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600,
+                occurrence.base_price,
+                occurrence.discount_percentage,
+                occurrence.base_price - occurrence.total_price,
+                occurrence.total_price,
+                price_breakdown,
+                series_hold_expiry(occurrence.occurrence_date, p_start_time),
+                p_notes
+            );
+        EXCEPTION
+            WHEN exclusion_violation THEN
+                RAISE EXCEPTION 'These dates are not available: %', to_char(occurrence.occurrence_date, 'YYYY-MM-DD')
+                    USING ERRCODE = 'PT409', HINT = 'series_conflict';
+        END;
+    END LOOP;
+
+    DROP TABLE series_occurrences;
+
+    RETURN series_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move a reservation to another date or time at the same venue, repriced for the new
+-- period with the discount it was booked with. Callers check who may move it.
+CREATE OR REPLACE FUNCTION move_reservation(
+    p_reservation_id UUID,
+    p_new_date DATE,
+    p_new_start_time TIME,
+    p_new_end_time TIME
+)
+RETURNS VOID AS $$
+DECLARE
+    reservation RECORD;
+    slot_id UUID;
+    new_base_price DECIMAL;
+    new_price_breakdown JSONB;
+    new_discount_amount DECIMAL;
+BEGIN
+    SELECT * INTO reservation FROM reservations WHERE id = p_reservation_id FOR UPDATE;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION 'Only pending or confirmed reservations can be moved';
+    END IF;
+
+    IF p_new_end_time <= p_new_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_new_date < venue_today() THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    SELECT id INTO slot_id
+    FROM venue_time_slots
+    WHERE venue_id = reservation.venue_id
+    AND is_available = true
+    AND start_time <= p_new_start_time
+    AND end_time > p_new_start_time
+    ORDER BY start_time DESC
+    LIMIT 1;
+
+    IF slot_id IS NULL THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(reservation.venue_id, p_new_date, p_new_start_time, p_new_end_time);
+
+    IF NOT check_venue_availability(
+        reservation.venue_id, p_new_date, p_new_start_time, p_new_end_time, p_reservation_id
+    ) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO new_base_price, new_price_breakdown
+    FROM calculate_price_breakdown(reservation.venue_id, p_new_date, p_new_start_time, p_new_end_time) b;
+
+    IF new_base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    -- A promo code keeps the amount it took off, as far as the new price allows
+    IF reservation.promo_code_id IS NOT NULL THEN
+        new_discount_amount := LEAST(reservation.discount_amount, new_base_price);
+    ELSE
+        new_discount_amount := new_base_price - ROUND(new_base_price * (1 - reservation.discount_percentage / 100), 2);
+    END IF;
+
+    BEGIN
+        UPDATE reservations
+        SET
+            venue_time_slot_id = slot_id,
+            reservation_date = p_new_date,
+            start_time = p_new_start_time,
+            end_time = p_new_end_time,
+            duration_hours = EXTRACT(EPOCH FROM (p_new_end_time - p_new_start_time)) / 3600,
+            base_price = new_base_price,
+            discount_amount = new_discount_amount,
+            total_price = new_base_price - new_discount_amount,
+            price_breakdown = new_price_breakdown,
+            expires_at = CASE
+                WHEN reservations.series_id IS NOT NULL AND reservations.status = 'pending'
+                    THEN series_hold_expiry(p_new_date, p_new_start_time)
+                ELSE reservations.expires_at
+            END,
+            updated_at = NOW()
+        WHERE id = p_reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    -- The new total may be more or less than what has been paid so far
+    PERFORM refresh_reservation_payment_status(p_reservation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION move_reservation(UUID, DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+
+-- Cancel the occurrences of a series from p_from_date on (today by default).
+-- Returns the number of occurrences cancelled.
+CREATE OR REPLACE FUNCTION cancel_reservation_series(
+    p_series_id UUID,
+    p_from_date DATE DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    series_owner UUID;
+    cancelled_count INTEGER;
+BEGIN
+    SELECT user_id INTO series_owner FROM reservation_series WHERE id = p_series_id;
+
+    IF series_owner IS NULL THEN
+        RAISE EXCEPTION 'Series not found';
+    END IF;
+
+    IF series_owner IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to cancel this series';
+    END IF;
+
+    UPDATE reservations
+    SET
+        status = 'cancelled',
+        cancellation_reason = 'Series cancelled',
+        updated_at = NOW()
+    WHERE series_id = p_series_id
+    AND status IN ('pending', 'confirmed')
+    AND reservation_date >= GREATEST(COALESCE(p_from_date, venue_today()), venue_today());
+
+    GET DIAGNOSTICS cancelled_count = ROW_COUNT;
+
+    -- The series is over once nothing is left to play
+    UPDATE reservation_series
+    SET status = 'cancelled'
+    WHERE id = p_series_id
+    AND NOT EXISTS (
+        SELECT 1 FROM reservations r
+        WHERE r.series_id = p_series_id
+        AND r.status IN ('pending', 'confirmed')
+        AND r.reservation_date >= venue_today()
+    );
+
+    RETURN cancelled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move one occurrence of a series to another date or time
+CREATE OR REPLACE FUNCTION reschedule_series_occurrence(
+    p_reservation_id UUID,
+    p_new_date DATE,
+    p_new_start_time TIME,
+    p_new_end_time TIME
+)
+RETURNS VOID AS $$
+DECLARE
+    reservation_owner UUID;
+    reservation_series_id UUID;
+BEGIN
+    SELECT user_id, series_id INTO reservation_owner, reservation_series_id
+    FROM reservations
+    WHERE id = p_reservation_id;
+
+    IF reservation_owner IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation_owner IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to reschedule this reservation';
+    END IF;
+
+    IF reservation_series_id IS NULL THEN
+        RAISE EXCEPTION 'Reservation is not part of a series';
+    END IF;
+
+    PERFORM move_reservation(p_reservation_id, p_new_date, p_new_start_time, p_new_end_time);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move the remaining occurrences of a series to a new time on the same days.
+-- Either every occurrence moves or none does; conflicts are reported like
+-- create_reservation_series. Returns the number of occurrences moved.
+CREATE OR REPLACE FUNCTION reschedule_reservation_series(
+    p_series_id UUID,
+    p_new_start_time TIME,
+    p_new_end_time TIME,
+    p_from_date DATE DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    series RECORD;
+    occurrence RECORD;
+    from_date DATE := GREATEST(COALESCE(p_from_date, venue_today()), venue_today());
+    conflicts TEXT;
+    moved_count INTEGER := 0;
+BEGIN
+    SELECT * INTO series FROM reservation_series WHERE id = p_series_id FOR UPDATE;
+
+    IF series.id IS NULL THEN
+        RAISE EXCEPTION 'Series not found';
+    END IF;
+
+    IF series.user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to reschedule this series';
+    END IF;
+
+    IF p_new_end_time <= p_new_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    SELECT string_agg(to_char(r.reservation_date, 'YYYY-MM-DD'), ', ' ORDER BY r.reservation_date)
+    INTO conflicts
+    FROM reservations r
+    WHERE r.series_id = p_series_id
+    AND r.status IN ('pending', 'confirmed')
+    AND r.reservation_date >= from_date
+    AND NOT check_venue_availability(r.venue_id, r.reservation_date, p_new_start_time, p_new_end_time, r.id);
+
+    IF conflicts IS NOT NULL THEN
+        RAISE EXCEPTION 'These dates are not available: %', conflicts
+            USING ERRCODE = 'PT409', HINT = 'series_conflict';
+    END IF;
+
+    FOR occurrence IN
+        SELECT r.id, r.reservation_date
+        FROM reservations r
+        WHERE r.series_id = p_series_id
+        AND r.status IN ('pending', 'confirmed')
+        AND r.reservation_date >= from_date
+        ORDER BY r.reservation_date
+    LOOP
+        PERFORM move_reservation(occurrence.id, occurrence.reservation_date, p_new_start_time, p_new_end_time);
+        moved_count := moved_count + 1;
+    END LOOP;
+
+    UPDATE reservation_series
+    SET
+        start_time = p_new_start_time,
+        end_time = p_new_end_time
+    WHERE id = p_series_id;
+
+    RETURN moved_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE reservation_series ENABLE ROW LEVEL SECURITY;
+
+-- RESERVATION_SERIES TABLE POLICIES
+-- Users can view their own series (new ones are booked through create_reservation_series)
+CREATE POLICY "Users can view own reservation series" ON reservation_series
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Staff can view all series
+CREATE POLICY "Staff can view all reservation series" ON reservation_series
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- Admins can manage series
+CREATE POLICY "Admins can manage reservation series" ON reservation_series
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT ALL ON reservation_series TO authenticated;
+GRANT EXECUTE ON FUNCTION get_series_dates(DATE, series_frequency, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_series_availability(UUID, UUID, DATE, TIME, TIME, series_frequency, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_reservation_series(UUID, UUID, DATE, TIME, TIME, series_frequency, DATE, INTEGER, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_reservation_series(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_series_occurrence(UUID, DATE, TIME, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_reservation_series(UUID, TIME, TIME, DATE) TO authenticated;
@@ -0,0 +1,427 @@
+-- Booking Orders
+-- Migration: Cart checkout that books several venues and times at once and takes one payment
+
+-- Booking orders table (one per checkout; the items are reservations pointing back here)
+CREATE TABLE booking_orders (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    order_code VARCHAR(20) UNIQUE NOT NULL,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE reservations ADD COLUMN order_id UUID REFERENCES booking_orders(id) ON DELETE SET NULL;
+
+-- A payment is for one reservation or for a whole order
+ALTER TABLE payments ADD COLUMN order_id UUID REFERENCES booking_orders(id) ON DELETE RESTRICT;
+ALTER TABLE payments ADD CONSTRAINT payment_single_target CHECK (reservation_id IS NULL OR order_id IS NULL);
+
+-- Create indexes for better performance
+CREATE INDEX idx_booking_orders_user ON booking_orders(user_id);
+CREATE INDEX idx_reservations_order ON reservations(order_id) WHERE order_id IS NOT NULL;
+CREATE INDEX idx_payments_order ON payments(order_id) WHERE order_id IS NOT NULL;
+
+CREATE TRIGGER update_booking_orders_updated_at BEFORE UPDATE ON booking_orders FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Most items one checkout can hold
+CREATE OR REPLACE FUNCTION max_order_items()
+RETURNS INTEGER AS $$
+    SELECT 10;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION generate_order_code()
+RETURNS TEXT AS $$
+DECLARE
+    code TEXT;
+    exists BOOLEAN := TRUE;
+BEGIN
+    WHILE exists LOOP
+        code := 'OSO' || TO_CHAR(NOW(), 'YYYYMMDD') || LPAD(FLOOR(RANDOM() * 10000)::TEXT, 4, '0');
+        SELECT COUNT(*) > 0 INTO exists FROM booking_orders WHERE order_code = code;
+    END LOOP;
+    RETURN code;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Net amount collected by payments made for a whole order
+CREATE OR REPLACE FUNCTION get_order_amount_paid(p_order_id UUID)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN p.payment_kind = 'refund' THEN -p.amount
+            ELSE p.amount
+        END
+    ), 0)
+    FROM payments p
+    WHERE p.order_id = p_order_id
+    AND (
+        (p.payment_kind = 'refund' AND p.payment_status = 'completed')
+        OR (p.payment_kind <> 'refund' AND p.payment_status IN ('completed', 'refunded'))
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Net amount collected for a reservation: its own payments plus its share of payments
+-- for its order. Order payments fill the order's reservations in date and time order.
+CREATE OR REPLACE FUNCTION get_reservation_amount_paid(p_reservation_id UUID)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE((
+        SELECT SUM(
+            CASE
+                WHEN p.payment_kind = 'refund' THEN -p.amount
+                ELSE p.amount
+            END
+        )
+        FROM payments p
+        WHERE p.reservation_id = p_reservation_id
+        AND (
+            (p.payment_kind = 'refund' AND p.payment_status = 'completed')
+            OR (p.payment_kind <> 'refund' AND p.payment_status IN ('completed', 'refunded'))
+        )
+    ), 0) + COALESCE((
+        SELECT GREATEST(LEAST(
+            share.total_price,
+            get_order_amount_paid(share.order_id) - (share.running_total - share.total_price)
+        ), 0)
+        FROM (
+            SELECT
+                r.id,
+                r.order_id,
+                r.total_price,
+                SUM(r.total_price) OVER (ORDER BY r.reservation_date, r.start_time, r.id) AS running_total
+            FROM reservations r
+            WHERE r.order_id = (SELECT order_id FROM reservations WHERE id = p_reservation_id)
+        ) share
+        WHERE share.id = p_reservation_id
+    ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- A charge for the reservation's order keeps its hold too
+CREATE OR REPLACE FUNCTION has_pending_charge(p_reservation_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM payments p
+        JOIN reservations r ON r.id = p_reservation_id
+        WHERE (p.reservation_id = r.id OR (r.order_id IS NOT NULL AND p.order_id = r.order_id))
+        AND p.payment_kind <> 'refund'
+        AND p.payment_status = 'pending'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Derive reservations.payment_status and amount_paid from the reservation's payments,
+-- including payments for its order
+CREATE OR REPLACE FUNCTION refresh_reservation_payment_status(p_reservation_id UUID)
+RETURNS payment_status AS $$
+DECLARE
+    paid DECIMAL;
+    total DECIMAL;
+    reservation_order_id UUID;
+    has_refunds BOOLEAN;
+    has_pending BOOLEAN;
+    has_failed BOOLEAN;
+    new_status payment_status;
+BEGIN
+    SELECT r.total_price, r.order_id INTO total, reservation_order_id FROM reservations r WHERE r.id = p_reservation_id;
+
+    IF total IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    paid := get_reservation_amount_paid(p_reservation_id);
+
+    SELECT
+        COUNT(*) FILTER (WHERE p.payment_kind = 'refund' AND p.payment_status = 'completed') > 0,
+        COUNT(*) FILTER (WHERE p.payment_kind <> 'refund' AND p.payment_status = 'pending') > 0,
+        COUNT(*) FILTER (WHERE p.payment_kind <> 'refund' AND p.payment_status = 'failed') > 0
+    INTO has_refunds, has_pending, has_failed
+    FROM payments p
+    WHERE p.reservation_id = p_reservation_id
+    OR (reservation_order_id IS NOT NULL AND p.order_id = reservation_order_id);
+
+    IF has_refunds AND paid <= 0 THEN
+        new_status := 'refunded';
+    ELSIF paid >= total THEN
+        new_status := 'paid';
+    ELSIF paid > 0 THEN
+        new_status := 'partially_paid';
+    ELSIF has_failed AND NOT has_pending THEN
+        new_status := 'failed';
+    ELSE
+        new_status := 'pending';
+    END IF;
+
+    UPDATE reservations
+    SET
+        payment_status = new_status,
+        amount_paid = GREATEST(paid, 0),
+        -- A deposit of at least minimum_deposit() or full payment secures a pending booking
+        status = CASE
+            WHEN status = 'pending' AND paid > 0 AND paid >= minimum_deposit(total) AND new_status <> 'refunded' THEN 'confirmed'
+            ELSE status
+        END
+    WHERE id = p_reservation_id;
+
+    RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION refresh_order_payment_status(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    order_reservation_id UUID;
+BEGIN
+    FOR order_reservation_id IN
+        SELECT id FROM reservations WHERE order_id = p_order_id
+    LOOP
+        PERFORM refresh_reservation_payment_status(order_reservation_id);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION sync_reservation_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        IF OLD.reservation_id IS NOT NULL THEN
+            PERFORM refresh_reservation_payment_status(OLD.reservation_id);
+        END IF;
+
+        IF OLD.order_id IS NOT NULL THEN
+            PERFORM refresh_order_payment_status(OLD.order_id);
+        END IF;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        IF NEW.reservation_id IS NOT NULL AND NEW.reservation_id IS DISTINCT FROM OLD.reservation_id THEN
+            PERFORM refresh_reservation_payment_status(NEW.reservation_id);
+        END IF;
+
+        IF NEW.order_id IS NOT NULL AND NEW.order_id IS DISTINCT FROM OLD.order_id THEN
+            PERFORM refresh_order_payment_status(NEW.order_id);
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Validate new payments: refunds cannot exceed what was collected on the original payment
+CREATE OR REPLACE FUNCTION validate_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+    original payments%ROWTYPE;
+    already_refunded DECIMAL;
+BEGIN
+    IF NEW.payment_kind <> 'refund' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO original FROM payments WHERE id = NEW.refunded_payment_id;
+
+    IF original.id IS NULL OR original.payment_kind = 'refund' THEN
+        RAISE EXCEPTION 'Refunds must reference a charge';
+    END IF;
+
+    IF original.payment_status <> 'completed' THEN
+        RAISE EXCEPTION 'Only completed payments can be refunded';
+    END IF;
+
+    NEW.reservation_id := original.reservation_id;
+    NEW.order_id := original.order_id;
+    NEW.user_id := COALESCE(NEW.user_id, original.user_id);
+
+    SELECT COALESCE(SUM(amount), 0)
+    INTO already_refunded
+    FROM payments
+    WHERE refunded_payment_id = original.id
+    AND payment_status IN ('pending', 'completed');
+
+    IF already_refunded + NEW.amount > original.amount THEN
+        RAISE EXCEPTION 'Refund exceeds the refundable amount of %', original.amount - already_refunded;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION enforce_payment_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.amount <> OLD.amount
+        OR NEW.payment_kind <> OLD.payment_kind
+        OR NEW.reservation_id IS DISTINCT FROM OLD.reservation_id
+        OR NEW.order_id IS DISTINCT FROM OLD.order_id
+        OR NEW.refunded_payment_id IS DISTINCT FROM OLD.refunded_payment_id THEN
+        RAISE EXCEPTION 'Payment amount, kind and reservation cannot be changed';
+    END IF;
+
+    IF NEW.payment_status = OLD.payment_status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.payment_status = 'pending' AND NEW.payment_status IN ('completed', 'failed', 'cancelled'))
+        OR (OLD.payment_status = 'completed' AND NEW.payment_status = 'refunded' AND OLD.payment_kind <> 'refund')
+    ) THEN
+        RAISE EXCEPTION 'Invalid payment status transition from % to %', OLD.payment_status, NEW.payment_status;
+    END IF;
+
+    IF NEW.payment_status = 'completed' THEN
+        NEW.paid_at := COALESCE(NEW.paid_at, NOW());
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Book completed charges as income and completed refunds as expenses
+CREATE OR REPLACE FUNCTION record_payment_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+    code TEXT;
+BEGIN
+    IF NEW.payment_status <> 'completed'
+        OR (TG_OP = 'UPDATE' AND OLD.payment_status = 'completed') THEN
+        RETURN NULL;
+    END IF;
+
+    IF NEW.order_id IS NOT NULL THEN
+        SELECT o.order_code INTO code FROM booking_orders o WHERE o.id = NEW.order_id;
+    ELSE
+        SELECT r.reservation_code INTO code FROM reservations r WHERE r.id = NEW.reservation_id;
+    END IF;
+
+    INSERT INTO financial_transactions (
+        reservation_id,
+        transaction_type,
+        amount,
+        description,
+        transaction_date,
+        reference_number,
+        payment_method,
+        created_by
+    ) VALUES (
+        NEW.reservation_id,
+        CASE WHEN NEW.payment_kind = 'refund' THEN 'expense'::transaction_type ELSE 'income'::transaction_type END,
+        NEW.amount,
+        CASE
+            WHEN NEW.payment_kind = 'refund' THEN 'Refund'
+            ELSE INITCAP(NEW.payment_kind::TEXT) || ' payment'
+        END || COALESCE(' for ' || code, ''),
+        COALESCE(NEW.paid_at::DATE, CURRENT_DATE),
+        NEW.reference_number,
+        NEW.payment_method::TEXT,
+        NEW.created_by
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Book every item of a cart or nothing. p_items is a JSON array of
+-- {venue_id, reservation_date, start_time, end_time}; each item goes through
+-- create_reservation(). If any item fails, SQLSTATE PT409 with hint 'cart_unavailable'
+-- is raised and the detail holds a JSON array of {item, message} (item is the array index).
+CREATE OR REPLACE FUNCTION create_booking_order(
+    p_user_id UUID,
+    p_items JSONB,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    booking_order_id UUID;
+    item JSONB;
+    item_index BIGINT;
+    item_start TIME;
+    item_end TIME;
+    slot_id UUID;
+    reservation_id UUID;
+    item_errors JSONB := '[]'::JSONB;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to create a reservation for another user';
+    END IF;
+
+    IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'The cart is empty';
+    END IF;
+
+    IF jsonb_array_length(p_items) > max_order_items() THEN
+        RAISE EXCEPTION 'A cart can hold up to % bookings', max_order_items();
+    END IF;
+
+    INSERT INTO booking_orders (order_code, user_id, notes, created_by)
+    VALUES (generate_order_code(), p_user_id, p_notes, auth.uid())
+    RETURNING id INTO booking_order_id;
+
+    FOR item, item_index IN
+        SELECT value, ordinality - 1 FROM jsonb_array_elements(p_items) WITH ORDINALITY
+    LOOP
+        -- A failed item rolls back on its own so the other items can still be checked
+        BEGIN
+            item_start := (item->>'start_time')::TIME;
+            item_end := (item->>'end_time')::TIME;
+
+            SELECT id INTO slot_id
+            FROM venue_time_slots
+            WHERE venue_id = (item->>'venue_id')::UUID
+            AND is_available = true
+            AND start_time <= item_start
+            AND end_time > item_start
+            ORDER BY start_time DESC
+            LIMIT 1;
+
+            IF slot_id IS NULL THEN
+                RAISE EXCEPTION 'Time slot not available';
+            END IF;
+
+            -- Items in the same cart that overlap each other fail like any other double booking
+            reservation_id := create_reservation(
+                p_user_id,
+                (item->>'venue_id')::UUID,
+                slot_id,
+                (item->>'reservation_date')::DATE,
+                item_start,
+                item_end,
+                EXTRACT(EPOCH FROM (item_end - item_start)) / 3600,
+                0,
+                p_notes
+            );
+
+            UPDATE reservations SET order_id = booking_order_id WHERE id = reservation_id;
+        EXCEPTION
+            WHEN OTHERS THEN
+                item_errors := item_errors || jsonb_build_object('item', item_index, 'message', SQLERRM);
+        END;
+    END LOOP;
+
+    IF jsonb_array_length(item_errors) > 0 THEN
+        RAISE EXCEPTION 'Some items in your cart can''t be booked'
+            USING ERRCODE = 'PT409', HINT = 'cart_unavailable', DETAIL = item_errors::TEXT;
+    END IF;
+
+    RETURN booking_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE booking_orders ENABLE ROW LEVEL SECURITY;
+
+-- BOOKING_ORDERS TABLE POLICIES
+-- Users can view their own orders (new ones are created through create_booking_order)
+CREATE POLICY "Users can view own booking orders" ON booking_orders
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Staff can view all orders
+CREATE POLICY "Staff can view all booking orders" ON booking_orders
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- Admins can manage orders
+CREATE POLICY "Admins can manage booking orders" ON booking_orders
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT ALL ON booking_orders TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking_order(UUID, JSONB, TEXT) TO authenticated;
@@ -0,0 +1,369 @@
+-- Reservation Reschedules
+-- Migration: Customer self-service rescheduling with a reschedule policy and an audit trail of previous slots
+
+-- How often a booking has been rescheduled by its customer
+ALTER TABLE reservations ADD COLUMN reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+-- Reschedule history (one row per move, including moves of series occurrences)
+CREATE TABLE reservation_reschedules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE CASCADE NOT NULL,
+    previous_venue_id UUID REFERENCES venues(id) ON DELETE SET NULL,
+    previous_date DATE NOT NULL,
+    previous_start_time TIME NOT NULL,
+    previous_end_time TIME NOT NULL,
+    previous_total_price DECIMAL(10,2) NOT NULL,
+    new_venue_id UUID REFERENCES venues(id) ON DELETE SET NULL,
+    new_date DATE NOT NULL,
+    new_start_time TIME NOT NULL,
+    new_end_time TIME NOT NULL,
+    new_total_price DECIMAL(10,2) NOT NULL,
+    rescheduled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_reservation_reschedules_reservation ON reservation_reschedules(reservation_id, created_at);
+
+-- Most times a customer can reschedule one booking
+CREATE OR REPLACE FUNCTION max_reschedules()
+RETURNS INTEGER AS $$
+    SELECT 2;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Customers can't reschedule a booking later than this many hours before it starts
+CREATE OR REPLACE FUNCTION reschedule_cutoff_hours()
+RETURNS INTEGER AS $$
+    SELECT 24;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- move_reservation() can now also move a booking to another venue, and records
+-- every move in reservation_reschedules
+DROP FUNCTION move_reservation(UUID, DATE, TIME, TIME);
+
+CREATE OR REPLACE FUNCTION move_reservation(
+    p_reservation_id UUID,
+    p_new_date DATE,
+    p_new_start_time TIME,
+    p_new_end_time TIME,
+    p_new_venue_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    reservation RECORD;
+    new_venue_id UUID;
+    slot_id UUID;
+    new_base_price DECIMAL;
+    new_price_breakdown JSONB;
+    new_discount_amount DECIMAL;
+BEGIN
+    SELECT * INTO reservation FROM reservations WHERE id = p_reservation_id FOR UPDATE;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION 'Only pending or confirmed reservations can be moved';
+    END IF;
+
+    IF p_new_end_time <= p_new_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_new_date < venue_today() THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    new_venue_id := COALESCE(p_new_venue_id, reservation.venue_id);
+
+    SELECT id INTO slot_id
+    FROM venue_time_slots
+    WHERE venue_id = new_venue_id
+    AND is_available = true
+    AND start_time <= p_new_start_time
+    AND end_time > p_new_start_time
+    ORDER BY start_time DESC
+    LIMIT 1;
+
+    IF slot_id IS NULL THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(new_venue_id, p_new_date, p_new_start_time, p_new_end_time);
+
+    IF NOT check_venue_availability(
+        new_venue_id, p_new_date, p_new_start_time, p_new_end_time, p_reservation_id
+    ) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO new_base_price, new_price_breakdown
+    FROM calculate_price_breakdown(new_venue_id, p_new_date, p_new_start_time, p_new_end_time) b;
+
+    IF new_base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    -- A promo code keeps the amount it took off, as far as the new price allows
+    IF reservation.promo_code_id IS NOT NULL THEN
+        new_discount_amount := LEAST(reservation.discount_amount, new_base_price);
+    ELSE
+        new_discount_amount := new_base_price - ROUND(new_base_price * (1 - reservation.discount_percentage / 100), 2);
+    END IF;
+
+    BEGIN
+        UPDATE reservations
+        SET
+            venue_id = new_venue_id,
+            venue_time_slot_id = slot_id,
+            reservation_date = p_new_date,
+            start_time = p_new_start_time,
+            end_time = p_new_end_time,
+            duration_hours = EXTRACT(EPOCH FROM (p_new_end_time - p_new_start_time)) / 3600,
+            base_price = new_base_price,
+            discount_amount = new_discount_amount,
+            total_price = new_base_price - new_discount_amount,
+            price_breakdown = new_price_breakdown,
+            expires_at = CASE
+                WHEN reservations.series_id IS NOT NULL AND reservations.status = 'pending'
+                    THEN series_hold_expiry(p_new_date, p_new_start_time)
+                ELSE reservations.expires_at
+            END,
+            updated_at = NOW()
+        WHERE id = p_reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    INSERT INTO reservation_reschedules (
+        reservation_id,
+        previous_venue_id,
+        previous_date,
+        previous_start_time,
+        previous_end_time,
+        previous_total_price,
+        new_venue_id,
+        new_date,
+        new_start_time,
+        new_end_time,
+        new_total_price,
+        rescheduled_by
+    ) VALUES (
+        p_reservation_id,
+        reservation.venue_id,
+        reservation.reservation_date,
+        reservation.start_time,
+        reservation.end_time,
+        reservation.total_price,
+        new_venue_id,
+        p_new_date,
+        p_new_start_time,
+        p_new_end_time,
+        new_base_price - new_discount_amount,
+        auth.uid()
+    );
+
+    -- The new total may be more or less than what has been paid so far
+    PERFORM refresh_reservation_payment_status(p_reservation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION move_reservation(UUID, DATE, TIME, TIME, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Move a booking to another date and time, on the same venue or another active venue
+-- of the same type. Customers are held to max_reschedules() and reschedule_cutoff_hours();
+-- staff are not. The price is recalculated: a higher price leaves a balance to pay, a lower
+-- one leaves an overpayment that is refunded by the app.
+CREATE OR REPLACE FUNCTION reschedule_reservation(
+    p_reservation_id UUID,
+    p_new_date DATE,
+    p_new_start_time TIME,
+    p_new_end_time TIME,
+    p_new_venue_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    reservation RECORD;
+    is_staff BOOLEAN := is_staff_or_higher(auth.uid());
+    new_venue RECORD;
+    booking_window_days INTEGER;
+BEGIN
+    SELECT r.id, r.user_id, r.venue_id, r.reservation_date, r.start_time, r.reschedule_count, v.venue_type_id
+    INTO reservation
+    FROM reservations r
+    JOIN venues v ON v.id = r.venue_id
+    WHERE r.id = p_reservation_id;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation.user_id IS DISTINCT FROM auth.uid() AND NOT is_staff THEN
+        RAISE EXCEPTION 'Unauthorized to reschedule this reservation';
+    END IF;
+
+    IF p_new_venue_id IS NOT NULL AND p_new_venue_id <> reservation.venue_id THEN
+        SELECT id, venue_type_id, is_active INTO new_venue FROM venues WHERE id = p_new_venue_id;
+
+        IF new_venue.id IS NULL OR NOT COALESCE(new_venue.is_active, false) THEN
+            RAISE EXCEPTION 'Venue not found';
+        END IF;
+
+        IF new_venue.venue_type_id IS DISTINCT FROM reservation.venue_type_id THEN
+            RAISE EXCEPTION 'A booking can only be moved to a venue of the same type';
+        END IF;
+    END IF;
+
+    IF (p_new_date + p_new_start_time) <= venue_now() THEN
+        RAISE EXCEPTION 'The new time has already started';
+    END IF;
+
+    IF NOT is_staff THEN
+        IF reservation.reschedule_count >= max_reschedules() THEN
+            RAISE EXCEPTION 'A booking can be rescheduled at most % times', max_reschedules();
+        END IF;
+
+        IF (reservation.reservation_date + reservation.start_time) - make_interval(hours => reschedule_cutoff_hours()) < venue_now() THEN
+            RAISE EXCEPTION 'Bookings can be rescheduled up to % hours before they start', reschedule_cutoff_hours();
+        END IF;
+
+        booking_window_days := get_booking_window_days(reservation.user_id);
+
+        IF p_new_date > venue_today() + booking_window_days THEN
+            RAISE EXCEPTION 'Bookings can be made up to % days in advance', booking_window_days;
+        END IF;
+    END IF;
+
+    PERFORM move_reservation(p_reservation_id, p_new_date, p_new_start_time, p_new_end_time, p_new_venue_id);
+
+    IF NOT is_staff THEN
+        UPDATE reservations
+        SET reschedule_count = reschedule_count + 1
+        WHERE id = p_reservation_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Series occurrences are moved through reschedule_reservation() from now on, so
+-- customers are held to the same reschedule policy as for single bookings
+CREATE OR REPLACE FUNCTION reschedule_series_occurrence(
+    p_reservation_id UUID,
+    p_new_date DATE,
+    p_new_start_time TIME,
+    p_new_end_time TIME
+)
+RETURNS VOID AS $$
+DECLARE
+    reservation_owner UUID;
+    reservation_series_id UUID;
+BEGIN
+    SELECT user_id, series_id INTO reservation_owner, reservation_series_id
+    FROM reservations
+    WHERE id = p_reservation_id;
+
+    IF reservation_owner IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation_owner IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to reschedule this reservation';
+    END IF;
+
+    IF reservation_series_id IS NULL THEN
+        RAISE EXCEPTION 'Reservation is not part of a series';
+    END IF;
+
+    PERFORM reschedule_reservation(p_reservation_id, p_new_date, p_new_start_time, p_new_end_time);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Every remaining occurrence has to pass the reschedule policy, or none of them moves
+CREATE OR REPLACE FUNCTION reschedule_reservation_series(
+    p_series_id UUID,
+    p_new_start_time TIME,
+    p_new_end_time TIME,
+    p_from_date DATE DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    series RECORD;
+    occurrence RECORD;
+    from_date DATE := GREATEST(COALESCE(p_from_date, venue_today()), venue_today());
+    conflicts TEXT;
+    moved_count INTEGER := 0;
+BEGIN
+    SELECT * INTO series FROM reservation_series WHERE id = p_series_id FOR UPDATE;
+
+    IF series.id IS NULL THEN
+        RAISE EXCEPTION 'Series not found';
+    END IF;
+
+    IF series.user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to reschedule this series';
+    END IF;
+
+    IF p_new_end_time <= p_new_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    SELECT string_agg(to_char(r.reservation_date, 'YYYY-MM-DD'), ', ' ORDER BY r.reservation_date)
+    INTO conflicts
+    FROM reservations r
+    WHERE r.series_id = p_series_id
+    AND r.status IN ('pending', 'confirmed')
+    AND r.reservation_date >= from_date
+    AND NOT check_venue_availability(r.venue_id, r.reservation_date, p_new_start_time, p_new_end_time, r.id);
+
+    IF conflicts IS NOT NULL THEN
+        RAISE EXCEPTION 'These dates are not available: %', conflicts
+            USING ERRCODE = 'PT409', HINT = 'series_conflict';
+    END IF;
+
+    FOR occurrence IN
+        SELECT r.id, r.reservation_date
+        FROM reservations r
+        WHERE r.series_id = p_series_id
+        AND r.status IN ('pending', 'confirmed')
+        AND r.reservation_date >= from_date
+        ORDER BY r.reservation_date
+    LOOP
+        PERFORM reschedule_reservation(occurrence.id, occurrence.reservation_date, p_new_start_time, p_new_end_time);
+        moved_count := moved_count + 1;
+    END LOOP;
+
+    UPDATE reservation_series
+    SET
+        start_time = p_new_start_time,
+        end_time = p_new_end_time
+    WHERE id = p_series_id;
+
+    RETURN moved_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE reservation_reschedules ENABLE ROW LEVEL SECURITY;
+
+-- RESERVATION_RESCHEDULES TABLE POLICIES
+-- Users can view the history of their own reservations (rows are written by move_reservation)
+CREATE POLICY "Users can view own reservation reschedules" ON reservation_reschedules
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM reservations r
+            WHERE r.id = reservation_reschedules.reservation_id
+            AND r.user_id = auth.uid()
+        )
+    );
+
+-- Staff can view all reschedules
+CREATE POLICY "Staff can view all reservation reschedules" ON reservation_reschedules
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT SELECT ON reservation_reschedules TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_reservation(UUID, DATE, TIME, TIME, UUID) TO authenticated;
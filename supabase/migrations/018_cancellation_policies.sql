@@ -0,0 +1,383 @@
+-- Cancellation Policies
+-- Migration: Refund rules by notice period, per venue type or global, applied when a booking is cancelled
+
+-- Cancellation policy rules. A rule refunds refund_percentage of what was paid when a booking
+-- is cancelled at least min_hours_before_start before it starts; the rule with the longest
+-- notice that is met applies. A venue type with rules of its own ignores the global rules
+-- (venue_type_id NULL). Nothing is refunded once the booking has started.
+CREATE TABLE cancellation_policy_rules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    venue_type_id UUID REFERENCES venue_types(id) ON DELETE CASCADE,
+    min_hours_before_start INTEGER NOT NULL,
+    refund_percentage DECIMAL(5,2) NOT NULL,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_cancellation_notice CHECK (min_hours_before_start >= 0),
+    CONSTRAINT valid_cancellation_refund CHECK (refund_percentage >= 0 AND refund_percentage <= 100),
+    CONSTRAINT unique_cancellation_rule UNIQUE NULLS NOT DISTINCT (venue_type_id, min_hours_before_start)
+);
+
+CREATE TRIGGER update_cancellation_policy_rules_updated_at BEFORE UPDATE ON cancellation_policy_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default policy: full refund with 48 hours notice, half after that until the booking starts
+INSERT INTO cancellation_policy_rules (venue_type_id, min_hours_before_start, refund_percentage) VALUES
+    (NULL, 48, 100),
+    (NULL, 0, 50);
+
+-- Share of the amount paid refunded when a booking of p_venue_type_id is cancelled
+-- p_hours_before_start hours before it starts
+CREATE OR REPLACE FUNCTION get_cancellation_refund_percentage(
+    p_venue_type_id UUID,
+    p_hours_before_start DECIMAL
+)
+RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN p_hours_before_start < 0 THEN 0
+        ELSE COALESCE((
+            SELECT c.refund_percentage
+            FROM cancellation_policy_rules c
+            WHERE c.venue_type_id IS NOT DISTINCT FROM (
+                SELECT t.venue_type_id
+                FROM cancellation_policy_rules t
+                WHERE t.venue_type_id = p_venue_type_id
+                LIMIT 1
+            )
+            AND c.min_hours_before_start <= p_hours_before_start
+            ORDER BY c.min_hours_before_start DESC
+            LIMIT 1
+        ), 0)
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- What cancelling a reservation now would refund, for showing the customer before they confirm
+CREATE OR REPLACE FUNCTION get_cancellation_refund(p_reservation_id UUID)
+RETURNS TABLE (
+    hours_before_start DECIMAL,
+    refund_percentage DECIMAL,
+    amount_paid DECIMAL,
+    refund_amount DECIMAL
+) AS $$
+DECLARE
+    reservation RECORD;
+    notice DECIMAL;
+    percentage DECIMAL;
+BEGIN
+    SELECT r.user_id, r.reservation_date, r.start_time, r.amount_paid, v.venue_type_id
+    INTO reservation
+    FROM reservations r
+    JOIN venues v ON v.id = r.venue_id
+    WHERE r.id = p_reservation_id;
+
+    IF reservation.user_id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation.user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to view this reservation';
+    END IF;
+
+    notice := EXTRACT(EPOCH FROM ((reservation.reservation_date + reservation.start_time) - venue_now())) / 3600;
+    percentage := get_cancellation_refund_percentage(reservation.venue_type_id, notice);
+
+    RETURN QUERY SELECT
+        ROUND(notice, 1),
+        percentage,
+        reservation.amount_paid,
+        ROUND(reservation.amount_paid * percentage / 100, 2);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Order payments fill the order's active reservations first, so the share kept from a
+-- cancelled booking is what is left after its refund
+CREATE OR REPLACE FUNCTION get_reservation_amount_paid(p_reservation_id UUID)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE((
+        SELECT SUM(
+            CASE
+                WHEN p.payment_kind = 'refund' THEN -p.amount
+                ELSE p.amount
+            END
+        )
+        FROM payments p
+        WHERE p.reservation_id = p_reservation_id
+        AND (
+            (p.payment_kind = 'refund' AND p.payment_status = 'completed')
+            OR (p.payment_kind <> 'refund' AND p.payment_status IN ('completed', 'refunded'))
+        )
+    ), 0) + COALESCE((
+        SELECT GREATEST(LEAST(
+            share.total_price,
+            get_order_amount_paid(share.order_id) - (share.running_total - share.total_price)
+        ), 0)
+        FROM (
+            SELECT
+                r.id,
+                r.order_id,
+                r.total_price,
+                SUM(r.total_price) OVER (
+                    ORDER BY r.status = 'cancelled', r.reservation_date, r.start_time, r.id
+                ) AS running_total
+            FROM reservations r
+            WHERE r.order_id = (SELECT order_id FROM reservations WHERE id = p_reservation_id)
+        ) share
+        WHERE share.id = p_reservation_id
+    ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- A cancelled booking that got a refund counts as refunded, even when part of the
+-- payment was kept as a cancellation fee
+CREATE OR REPLACE FUNCTION refresh_reservation_payment_status(p_reservation_id UUID)
+RETURNS payment_status AS $$
+DECLARE
+    paid DECIMAL;
+    total DECIMAL;
+    reservation_status reservation_status;
+    reservation_order_id UUID;
+    has_refunds BOOLEAN;
+    has_pending BOOLEAN;
+    has_failed BOOLEAN;
+    new_status payment_status;
+BEGIN
+    SELECT r.total_price, r.status, r.order_id
+    INTO total, reservation_status, reservation_order_id
+    FROM reservations r
+    WHERE r.id = p_reservation_id;
+
+    IF total IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    paid := get_reservation_amount_paid(p_reservation_id);
+
+    SELECT
+        COUNT(*) FILTER (WHERE p.payment_kind = 'refund' AND p.payment_status = 'completed') > 0,
+        COUNT(*) FILTER (WHERE p.payment_kind <> 'refund' AND p.payment_status = 'pending') > 0,
+        COUNT(*) FILTER (WHERE p.payment_kind <> 'refund' AND p.payment_status = 'failed') > 0
+    INTO has_refunds, has_pending, has_failed
+    FROM payments p
+    WHERE p.reservation_id = p_reservation_id
+    OR (reservation_order_id IS NOT NULL AND p.order_id = reservation_order_id);
+
+    IF has_refunds AND (paid <= 0 OR reservation_status = 'cancelled') THEN
+        new_status := 'refunded';
+    ELSIF paid >= total THEN
+        new_status := 'paid';
+    ELSIF paid > 0 THEN
+        new_status := 'partially_paid';
+    ELSIF has_failed AND NOT has_pending THEN
+        new_status := 'failed';
+    ELSE
+        new_status := 'pending';
+    END IF;
+
+    UPDATE reservations
+    SET
+        payment_status = new_status,
+        amount_paid = GREATEST(paid, 0),
+        -- A deposit of at least minimum_deposit() or full payment secures a pending booking
+        status = CASE
+            WHEN status = 'pending' AND paid > 0 AND paid >= minimum_deposit(total) AND new_status <> 'refunded' THEN 'confirmed'
+            ELSE status
+        END
+    WHERE id = p_reservation_id;
+
+    RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cancel a reservation and refund it under the cancellation policy. Refunds are taken from
+-- the reservation's own payments first, then from its order's, newest first. Refunds of
+-- cash and manual payments complete right away; gateway refunds stay pending until the app
+-- has sent them to the provider. Returns the amount refunded.
+CREATE OR REPLACE FUNCTION cancel_reservation_with_refund(
+    p_reservation_id UUID,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS DECIMAL AS $$
+DECLARE
+    reservation RECORD;
+    percentage DECIMAL;
+    refund_total DECIMAL;
+    remaining DECIMAL;
+    charge RECORD;
+    refund_amount DECIMAL;
+BEGIN
+    SELECT r.*, v.venue_type_id
+    INTO reservation
+    FROM reservations r
+    JOIN venues v ON v.id = r.venue_id
+    WHERE r.id = p_reservation_id
+    FOR UPDATE OF r;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION 'Only pending or confirmed reservations can be cancelled';
+    END IF;
+
+    percentage := get_cancellation_refund_percentage(
+        reservation.venue_type_id,
+        EXTRACT(EPOCH FROM ((reservation.reservation_date + reservation.start_time) - venue_now())) / 3600
+    );
+    refund_total := ROUND(reservation.amount_paid * percentage / 100, 2);
+
+    UPDATE reservations
+    SET
+        status = 'cancelled',
+        cancellation_reason = COALESCE(p_reason, cancellation_reason),
+        updated_at = NOW()
+    WHERE id = p_reservation_id;
+
+    remaining := refund_total;
+
+    FOR charge IN
+        SELECT
+            p.id,
+            p.payment_method,
+            p.provider,
+            p.provider_reference,
+            p.amount - COALESCE((
+                SELECT SUM(refund.amount)
+                FROM payments refund
+                WHERE refund.refunded_payment_id = p.id
+                AND refund.payment_status IN ('pending', 'completed')
+            ), 0) AS refundable
+        FROM payments p
+        WHERE p.payment_kind <> 'refund'
+        AND p.payment_status = 'completed'
+        AND (
+            p.reservation_id = p_reservation_id
+            OR (reservation.order_id IS NOT NULL AND p.order_id = reservation.order_id)
+        )
+        ORDER BY p.reservation_id IS NULL, p.created_at DESC
+    LOOP
+        EXIT WHEN remaining <= 0;
+
+        refund_amount := LEAST(remaining, charge.refundable);
+        CONTINUE WHEN refund_amount <= 0;
+
+        INSERT INTO payments (
+            payment_kind,
+            refunded_payment_id,
+            amount,
+            payment_method,
+            provider,
+            payment_status,
+            paid_at,
+            notes,
+            created_by
+        ) VALUES (
+            'refund',
+            charge.id,
+            refund_amount,
+            charge.payment_method,
+            charge.provider,
+            CASE WHEN charge.provider_reference IS NULL THEN 'completed' ELSE 'pending' END::payment_transaction_status,
+            CASE WHEN charge.provider_reference IS NULL THEN NOW() END,
+            'Cancellation refund (' || percentage || '%)',
+            auth.uid()
+        );
+
+        remaining := remaining - refund_amount;
+    END LOOP;
+
+    RETURN refund_total - remaining;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cancel_reservation_with_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- cancel_reservation() now applies the cancellation policy and returns the amount refunded
+DROP FUNCTION cancel_reservation(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION cancel_reservation(
+    p_reservation_id UUID,
+    p_user_id UUID
+)
+RETURNS DECIMAL AS $$
+DECLARE
+    reservation_owner UUID;
+BEGIN
+    SELECT user_id INTO reservation_owner FROM reservations WHERE id = p_reservation_id;
+
+    IF reservation_owner IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF p_user_id IS DISTINCT FROM auth.uid()
+        OR (reservation_owner <> p_user_id AND NOT is_staff_or_higher(auth.uid())) THEN
+        RAISE EXCEPTION 'Unauthorized to cancel this reservation';
+    END IF;
+
+    RETURN cancel_reservation_with_refund(p_reservation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Series cancellations are refunded under the same policy
+CREATE OR REPLACE FUNCTION cancel_reservation_series(
+    p_series_id UUID,
+    p_from_date DATE DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    series_owner UUID;
+    occurrence_id UUID;
+    cancelled_count INTEGER := 0;
+BEGIN
+    SELECT user_id INTO series_owner FROM reservation_series WHERE id = p_series_id;
+
+    IF series_owner IS NULL THEN
+        RAISE EXCEPTION 'Series not found';
+    END IF;
+
+    IF series_owner IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to cancel this series';
+    END IF;
+
+    FOR occurrence_id IN
+        SELECT id FROM reservations
+        WHERE series_id = p_series_id
+        AND status IN ('pending', 'confirmed')
+        AND reservation_date >= GREATEST(COALESCE(p_from_date, venue_today()), venue_today())
+        ORDER BY reservation_date
+    LOOP
+        PERFORM cancel_reservation_with_refund(occurrence_id, 'Series cancelled');
+        cancelled_count := cancelled_count + 1;
+    END LOOP;
+
+    -- The series is over once nothing is left to play
+    UPDATE reservation_series
+    SET status = 'cancelled'
+    WHERE id = p_series_id
+    AND NOT EXISTS (
+        SELECT 1 FROM reservations r
+        WHERE r.series_id = p_series_id
+        AND r.status IN ('pending', 'confirmed')
+        AND r.reservation_date >= venue_today()
+    );
+
+    RETURN cancelled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE cancellation_policy_rules ENABLE ROW LEVEL SECURITY;
+
+-- CANCELLATION_POLICY_RULES TABLE POLICIES
+-- Everyone can view the cancellation policy
+CREATE POLICY "Everyone can view cancellation policy rules" ON cancellation_policy_rules
+    FOR SELECT USING (true);
+
+-- Admins can manage the cancellation policy
+CREATE POLICY "Admins can manage cancellation policy rules" ON cancellation_policy_rules
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT SELECT ON cancellation_policy_rules TO anon;
+GRANT ALL ON cancellation_policy_rules TO authenticated;
+GRANT EXECUTE ON FUNCTION get_cancellation_refund_percentage(UUID, DECIMAL) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_cancellation_refund(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_reservation(UUID, UUID) TO authenticated;
@@ -0,0 +1,401 @@
+-- Waitlist
+-- Migration: Queue for fully booked times that offers a freed slot to the first customer waiting
+
+-- Create custom types
+CREATE TYPE waitlist_status AS ENUM ('waiting', 'offered', 'booked', 'expired', 'cancelled');
+
+-- Waitlist entries table (an offer is a pending reservation holding the slot for the customer)
+CREATE TABLE waitlist_entries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    venue_id UUID REFERENCES venues(id) ON DELETE CASCADE NOT NULL,
+    requested_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    status waitlist_status DEFAULT 'waiting' NOT NULL,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+    offered_at TIMESTAMP WITH TIME ZONE,
+    offer_expires_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_waitlist_entries_queue ON waitlist_entries(venue_id, requested_date, created_at) WHERE status = 'waiting';
+CREATE INDEX idx_waitlist_entries_user ON waitlist_entries(user_id, requested_date);
+CREATE INDEX idx_waitlist_entries_reservation ON waitlist_entries(reservation_id);
+
+-- A customer waits for a given time only once
+CREATE UNIQUE INDEX idx_waitlist_entries_unique_active
+    ON waitlist_entries(user_id, venue_id, requested_date, start_time, end_time)
+    WHERE status IN ('waiting', 'offered');
+
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- How long a customer has to pay for a slot offered from the waitlist
+CREATE OR REPLACE FUNCTION waitlist_offer_duration()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '30 minutes';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Offer a waiting entry its slot: book a pending reservation for the customer that holds
+-- the slot for waitlist_offer_duration(). The booking is priced like create_reservation(),
+-- member discount included. Returns the reservation, or NULL when the time isn't free.
+CREATE OR REPLACE FUNCTION create_waitlist_offer(p_entry_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    entry RECORD;
+    slot_id UUID;
+    base_price DECIMAL;
+    price_breakdown JSONB;
+    discount_percentage DECIMAL;
+    discount_amount DECIMAL;
+    offer_reservation_id UUID;
+    offer_expiry TIMESTAMP WITH TIME ZONE := NOW() + waitlist_offer_duration();
+BEGIN
+    SELECT * INTO entry FROM waitlist_entries WHERE id = p_entry_id FOR UPDATE;
+
+    IF entry.id IS NULL OR entry.status <> 'waiting' THEN
+        RETURN NULL;
+    END IF;
+
+    IF (entry.requested_date + entry.start_time) <= venue_now() THEN
+        UPDATE waitlist_entries SET status = 'expired' WHERE id = p_entry_id;
+        RETURN NULL;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = entry.venue_id AND is_active = true) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO slot_id
+    FROM venue_time_slots
+    WHERE venue_id = entry.venue_id
+    AND is_available = true
+    AND start_time <= entry.start_time
+    AND end_time > entry.start_time
+    ORDER BY start_time DESC
+    LIMIT 1;
+
+    IF slot_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM release_expired_holds(entry.venue_id, entry.requested_date, entry.start_time, entry.end_time);
+
+    IF NOT check_venue_availability(entry.venue_id, entry.requested_date, entry.start_time, entry.end_time) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO base_price, price_breakdown
+    FROM calculate_price_breakdown(entry.venue_id, entry.requested_date, entry.start_time, entry.end_time) b;
+
+    -- Closed dates have no price
+    IF base_price IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Same as get_active_membership(), which only answers for the caller
+    SELECT COALESCE(MAX(t.discount_percentage), 0)
+    INTO discount_percentage
+    FROM memberships m
+    JOIN membership_tiers t ON t.id = m.tier_id
+    WHERE m.user_id = entry.user_id
+    AND m.status = 'active'
+    AND m.starts_at <= NOW()
+    AND m.expires_at > NOW();
+
+    discount_amount := base_price - ROUND(base_price * (1 - discount_percentage / 100), 2);
+
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            total_price,
+            price_breakdown,
+            notes,
+            expires_at
+        ) VALUES (
+            generate_reservation_code(),
+            entry.user_id,
+            entry.venue_id,
+            slot_id,
+            entry.requested_date,
+            entry.start_time,
+            entry.end_time,
+            EXTRACT(EPOCH FROM (entry.end_time - entry.start_time)) / 3600,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            base_price - discount_amount,
+            price_breakdown,
+            COALESCE(entry.notes, 'Booked from the waitlist'),
+            offer_expiry
+        ) RETURNING id INTO offer_reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RETURN NULL;
+    END;
+
+    UPDATE waitlist_entries
+    SET
+        status = 'offered',
+        reservation_id = offer_reservation_id,
+        offered_at = NOW(),
+        offer_expires_at = offer_expiry
+    WHERE id = p_entry_id;
+
+    RETURN offer_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_waitlist_offer(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Offer a period that has just been freed to the waitlist, first come first served.
+-- Entries that overlap the period but need more than is free keep waiting.
+-- Returns the number of offers made.
+CREATE OR REPLACE FUNCTION offer_waitlisted_period(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME
+)
+RETURNS INTEGER AS $$
+DECLARE
+    entry RECORD;
+    offer_count INTEGER := 0;
+BEGIN
+    FOR entry IN
+        SELECT id
+        FROM waitlist_entries
+        WHERE venue_id = p_venue_id
+        AND requested_date = p_date
+        AND start_time < p_end_time
+        AND end_time > p_start_time
+        AND status = 'waiting'
+        ORDER BY created_at, id
+    LOOP
+        IF create_waitlist_offer(entry.id) IS NOT NULL THEN
+            offer_count := offer_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN offer_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION offer_waitlisted_period(UUID, DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+
+-- Keep the waitlist in step with reservations: a paid offer is booked, an offer whose hold
+-- was cancelled or ran out has expired, and a period freed by a cancellation or a move
+-- goes to the next customer waiting
+CREATE OR REPLACE FUNCTION sync_waitlist()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+        UPDATE waitlist_entries
+        SET status = 'booked'
+        WHERE reservation_id = NEW.id
+        AND status = 'offered';
+    END IF;
+
+    IF NEW.status = 'cancelled' AND OLD.status IN ('pending', 'confirmed') THEN
+        UPDATE waitlist_entries
+        SET status = 'expired'
+        WHERE reservation_id = NEW.id
+        AND status = 'offered';
+
+        PERFORM offer_waitlisted_period(OLD.venue_id, OLD.reservation_date, OLD.start_time, OLD.end_time);
+    ELSIF NEW.status IN ('pending', 'confirmed') AND (
+        NEW.venue_id <> OLD.venue_id
+        OR NEW.reservation_date <> OLD.reservation_date
+        OR NEW.start_time <> OLD.start_time
+        OR NEW.end_time <> OLD.end_time
+    ) THEN
+        PERFORM offer_waitlisted_period(OLD.venue_id, OLD.reservation_date, OLD.start_time, OLD.end_time);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_waitlist_after_reservation_update
+    AFTER UPDATE OF status, venue_id, reservation_date, start_time, end_time ON reservations
+    FOR EACH ROW EXECUTE FUNCTION sync_waitlist();
+
+-- Join the waitlist for a time that is booked. If the time is free already, the
+-- customer gets an offer straight away. Returns the waitlist entry.
+CREATE OR REPLACE FUNCTION join_waitlist(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    entry_id UUID;
+    booking_window_days INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to join the waitlist';
+    END IF;
+
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF (p_date + p_start_time) <= venue_now() THEN
+        RAISE EXCEPTION 'This time has already started';
+    END IF;
+
+    booking_window_days := get_booking_window_days(auth.uid());
+
+    IF p_date > venue_today() + booking_window_days THEN
+        RAISE EXCEPTION 'Bookings can be made up to % days in advance', booking_window_days;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM venue_time_slots
+        WHERE venue_id = p_venue_id
+        AND is_available = true
+        AND start_time <= p_start_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    BEGIN
+        INSERT INTO waitlist_entries (user_id, venue_id, requested_date, start_time, end_time, notes)
+        VALUES (auth.uid(), p_venue_id, p_date, p_start_time, p_end_time, NULLIF(TRIM(p_notes), ''))
+        RETURNING id INTO entry_id;
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'You are already on the waitlist for this time';
+    END;
+
+    -- Earlier customers come first, so only offer when nobody is ahead for this time
+    IF NOT EXISTS (
+        SELECT 1 FROM waitlist_entries
+        WHERE venue_id = p_venue_id
+        AND requested_date = p_date
+        AND start_time < p_end_time
+        AND end_time > p_start_time
+        AND status = 'waiting'
+        AND id <> entry_id
+    ) THEN
+        PERFORM create_waitlist_offer(entry_id);
+    END IF;
+
+    RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leave the waitlist. Leaving with an open offer releases the held slot, which
+-- passes it on to the next customer waiting.
+CREATE OR REPLACE FUNCTION leave_waitlist(p_entry_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    entry RECORD;
+BEGIN
+    SELECT * INTO entry FROM waitlist_entries WHERE id = p_entry_id FOR UPDATE;
+
+    IF entry.id IS NULL THEN
+        RAISE EXCEPTION 'Waitlist entry not found';
+    END IF;
+
+    IF entry.user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to change this waitlist entry';
+    END IF;
+
+    IF entry.status NOT IN ('waiting', 'offered') THEN
+        RAISE EXCEPTION 'Only waiting entries and open offers can be cancelled';
+    END IF;
+
+    UPDATE waitlist_entries SET status = 'cancelled' WHERE id = p_entry_id;
+
+    IF entry.status = 'offered' THEN
+        UPDATE reservations
+        SET
+            status = 'cancelled',
+            cancellation_reason = 'Waitlist offer declined',
+            updated_at = NOW()
+        WHERE id = entry.reservation_id
+        AND status = 'pending'
+        AND amount_paid = 0;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Staff can offer a waiting entry its slot ahead of the queue, e.g. after
+-- freeing the time by hand
+CREATE OR REPLACE FUNCTION offer_waitlist_entry(p_entry_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    offer_reservation_id UUID;
+BEGIN
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to make waitlist offers';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM waitlist_entries WHERE id = p_entry_id AND status = 'waiting') THEN
+        RAISE EXCEPTION 'Only waiting entries can be offered a slot';
+    END IF;
+
+    offer_reservation_id := create_waitlist_offer(p_entry_id);
+
+    IF offer_reservation_id IS NULL THEN
+        RAISE EXCEPTION 'The requested time is not free'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    RETURN offer_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- WAITLIST_ENTRIES TABLE POLICIES
+-- Users can view their own entries (new ones are added through join_waitlist)
+CREATE POLICY "Users can view own waitlist entries" ON waitlist_entries
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Staff can view all entries
+CREATE POLICY "Staff can view all waitlist entries" ON waitlist_entries
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- Admins can manage entries
+CREATE POLICY "Admins can manage waitlist entries" ON waitlist_entries
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Let customers hear about offers as they are made
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE waitlist_entries;
+    END IF;
+END;
+$$;
+
+-- Grant permissions
+GRANT SELECT ON waitlist_entries TO authenticated;
+GRANT EXECUTE ON FUNCTION join_waitlist(UUID, DATE, TIME, TIME, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_waitlist(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION offer_waitlist_entry(UUID) TO authenticated;
@@ -0,0 +1,253 @@
+-- Notifications
+-- Migration: Outbox of customer notifications (email, WhatsApp, in-app) raised by reservation changes, plus the in-app inbox
+
+-- Create custom types
+CREATE TYPE notification_event AS ENUM (
+    'reservation_created',
+    'reservation_confirmed',
+    'reservation_cancelled',
+    'reservation_reminder',
+    'waitlist_offer'
+);
+CREATE TYPE notification_channel AS ENUM ('email', 'whatsapp', 'in_app');
+CREATE TYPE notification_delivery_status AS ENUM ('pending', 'sending', 'sent', 'failed', 'skipped');
+
+-- Language used for the customer's messages
+ALTER TABLE profiles
+    ADD COLUMN preferred_language VARCHAR(2) DEFAULT 'id' NOT NULL CHECK (preferred_language IN ('id', 'en'));
+
+-- Notification deliveries table: one row per event and channel, sent by the
+-- notification worker (/api/cron/send-notifications) once scheduled_for is reached
+CREATE TABLE notification_deliveries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE CASCADE,
+    event notification_event NOT NULL,
+    channel notification_channel NOT NULL,
+    status notification_delivery_status DEFAULT 'pending' NOT NULL,
+    scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    attempts INTEGER DEFAULT 0 NOT NULL,
+    last_error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- In-app notifications table (the customer's inbox)
+CREATE TABLE notifications (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+    event notification_event NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    link TEXT,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_notification_deliveries_due ON notification_deliveries(scheduled_for) WHERE status IN ('pending', 'sending');
+CREATE INDEX idx_notification_deliveries_reservation ON notification_deliveries(reservation_id, event);
+CREATE INDEX idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+CREATE TRIGGER update_notification_deliveries_updated_at BEFORE UPDATE ON notification_deliveries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- How long before start_time the reminder goes out
+CREATE OR REPLACE FUNCTION notification_reminder_lead_time()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '2 hours';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Queue an event on every channel. The worker skips channels the customer
+-- can't be reached on (no phone number for WhatsApp, for example).
+CREATE OR REPLACE FUNCTION enqueue_notification(
+    p_user_id UUID,
+    p_event notification_event,
+    p_reservation_id UUID,
+    p_scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO notification_deliveries (user_id, reservation_id, event, channel, scheduled_for)
+    SELECT p_user_id, p_reservation_id, p_event, channel, p_scheduled_for
+    FROM unnest(enum_range(NULL::notification_channel)) AS channel;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION enqueue_notification(UUID, notification_event, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Drop reminders that haven't gone out yet, e.g. after a cancellation or a move
+CREATE OR REPLACE FUNCTION skip_pending_reminders(p_reservation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE notification_deliveries
+    SET status = 'skipped'
+    WHERE reservation_id = p_reservation_id
+    AND event = 'reservation_reminder'
+    AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION skip_pending_reminders(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Remind the customer notification_reminder_lead_time() before a confirmed booking.
+-- Bookings that start sooner than that get no reminder. The start is venue local time, so it is
+-- read in venue_time_zone() before comparing with NOW().
+CREATE OR REPLACE FUNCTION schedule_reservation_reminder(p_reservation reservations)
+RETURNS VOID AS $$
+DECLARE
+    remind_at TIMESTAMP WITH TIME ZONE :=
+        ((p_reservation.reservation_date + p_reservation.start_time) AT TIME ZONE venue_time_zone()) - notification_reminder_lead_time();
+BEGIN
+    IF remind_at > NOW() THEN
+        PERFORM enqueue_notification(p_reservation.user_id, 'reservation_reminder', p_reservation.id, remind_at);
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION schedule_reservation_reminder(reservations) FROM PUBLIC, anon, authenticated;
+
+-- Queue notifications as reservations are created, confirmed, cancelled or moved
+CREATE OR REPLACE FUNCTION notify_reservation_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status = 'pending' THEN
+            PERFORM enqueue_notification(NEW.user_id, 'reservation_created', NEW.id);
+        ELSIF NEW.status = 'confirmed' THEN
+            PERFORM enqueue_notification(NEW.user_id, 'reservation_confirmed', NEW.id);
+            PERFORM schedule_reservation_reminder(NEW);
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+        PERFORM enqueue_notification(NEW.user_id, 'reservation_confirmed', NEW.id);
+        PERFORM schedule_reservation_reminder(NEW);
+    ELSIF NEW.status = 'cancelled' AND OLD.status IN ('pending', 'confirmed') THEN
+        PERFORM skip_pending_reminders(NEW.id);
+        PERFORM enqueue_notification(NEW.user_id, 'reservation_cancelled', NEW.id);
+    ELSIF NEW.status = 'confirmed' AND (
+        NEW.reservation_date <> OLD.reservation_date
+        OR NEW.start_time <> OLD.start_time
+    ) THEN
+        PERFORM skip_pending_reminders(NEW.id);
+        PERFORM schedule_reservation_reminder(NEW);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_reservation_change_after_insert
+    AFTER INSERT ON reservations
+    FOR EACH ROW EXECUTE FUNCTION notify_reservation_change();
+
+CREATE TRIGGER notify_reservation_change_after_update
+    AFTER UPDATE OF status, reservation_date, start_time ON reservations
+    FOR EACH ROW EXECUTE FUNCTION notify_reservation_change();
+
+-- A waitlist offer is booked as a pending reservation; tell the customer about
+-- the offer instead of sending the usual "awaiting payment" message
+CREATE OR REPLACE FUNCTION notify_waitlist_offer()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'offered' AND OLD.status <> 'offered' AND NEW.reservation_id IS NOT NULL THEN
+        UPDATE notification_deliveries
+        SET status = 'skipped'
+        WHERE reservation_id = NEW.reservation_id
+        AND event = 'reservation_created'
+        AND status = 'pending';
+
+        PERFORM enqueue_notification(NEW.user_id, 'waitlist_offer', NEW.reservation_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_waitlist_offer_after_update
+    AFTER UPDATE OF status ON waitlist_entries
+    FOR EACH ROW EXECUTE FUNCTION notify_waitlist_offer();
+
+-- Hand due deliveries to the notification worker. Deliveries stuck in 'sending'
+-- (a worker that died mid-run) are picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF notification_deliveries AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE notification_deliveries d
+    SET
+        status = 'sending',
+        attempts = d.attempts + 1,
+        updated_at = NOW()
+    WHERE d.id IN (
+        SELECT id
+        FROM notification_deliveries
+        WHERE scheduled_for <= NOW()
+        AND (
+            status = 'pending'
+            OR (status = 'sending' AND updated_at < NOW() - INTERVAL '10 minutes')
+        )
+        ORDER BY scheduled_for, created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_notification_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Mark the caller's notifications as read (all of them when no ids are given)
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    UPDATE notifications
+    SET read_at = NOW()
+    WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- NOTIFICATION_DELIVERIES TABLE POLICIES
+-- Staff can view deliveries (written by triggers and the worker only)
+CREATE POLICY "Staff can view all notification deliveries" ON notification_deliveries
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- NOTIFICATIONS TABLE POLICIES
+-- Users can view their own notifications (marked read through mark_notifications_read)
+CREATE POLICY "Users can view own notifications" ON notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Admins can manage notifications
+CREATE POLICY "Admins can manage notifications" ON notifications
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Show new notifications in the inbox as they arrive
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END;
+$$;
+
+-- Grant permissions
+GRANT SELECT ON notification_deliveries TO authenticated;
+GRANT SELECT ON notifications TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(UUID[]) TO authenticated;
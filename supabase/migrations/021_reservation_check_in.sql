@@ -0,0 +1,165 @@
+-- Reservation Check-in
+-- Migration: Front desk check-in that completes a booking, and automatic no-show flagging
+
+-- Confirmed bookings nobody checked in for by the time the slot ended
+ALTER TYPE reservation_status ADD VALUE IF NOT EXISTS 'no_show';
+
+ALTER TABLE reservations
+    ADD COLUMN checked_in_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN checked_in_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_reservations_awaiting_check_in ON reservations(reservation_date, end_time)
+    WHERE status = 'confirmed' AND checked_in_at IS NULL;
+
+-- Checking in completes a booking while the customer is still playing, so completed
+-- bookings keep holding their slot
+ALTER TABLE reservations DROP CONSTRAINT reservations_no_overlap;
+
+ALTER TABLE reservations ADD CONSTRAINT reservations_no_overlap
+    EXCLUDE USING gist (venue_id WITH =, booked_period WITH &&)
+    WHERE (status IN ('pending', 'confirmed', 'completed'));
+
+CREATE OR REPLACE FUNCTION check_venue_availability(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_exclude_reservation_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    conflict_count INTEGER;
+BEGIN
+    -- Check for time conflicts with existing reservations
+    SELECT COUNT(*)
+    INTO conflict_count
+    FROM reservations r
+    WHERE r.venue_id = p_venue_id
+    AND r.reservation_date = p_date
+    AND (
+        r.status IN ('confirmed', 'completed')
+        OR (r.status = 'pending' AND (r.expires_at IS NULL OR r.expires_at > NOW()))
+    )
+    AND (
+        (r.start_time < p_end_time AND r.end_time > p_start_time)
+    )
+    AND (p_exclude_reservation_id IS NULL OR r.id != p_exclude_reservation_id);
+
+    RETURN conflict_count = 0;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- How long before the start of a booking the front desk may check the customer in
+CREATE OR REPLACE FUNCTION check_in_opens_before()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '30 minutes';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Checks a customer in by reservation code at the front desk. Staff only; the booking
+-- must be confirmed, for today and, when p_venue_id is given, for that venue.
+CREATE OR REPLACE FUNCTION check_in_reservation(
+    p_reservation_code TEXT,
+    p_venue_id UUID DEFAULT NULL
+)
+RETURNS reservations AS $$
+DECLARE
+    reservation reservations;
+    venue_name TEXT;
+BEGIN
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only staff can check customers in';
+    END IF;
+
+    SELECT * INTO reservation
+    FROM reservations
+    WHERE reservation_code = UPPER(TRIM(p_reservation_code))
+    FOR UPDATE;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'No booking found with code %', UPPER(TRIM(p_reservation_code));
+    END IF;
+
+    IF p_venue_id IS NOT NULL AND reservation.venue_id <> p_venue_id THEN
+        SELECT name INTO venue_name FROM venues WHERE id = reservation.venue_id;
+        RAISE EXCEPTION 'This booking is for %, not this venue', venue_name;
+    END IF;
+
+    IF reservation.checked_in_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Already checked in at %', TO_CHAR(reservation.checked_in_at AT TIME ZONE venue_time_zone(), 'HH24:MI');
+    END IF;
+
+    IF reservation.status = 'pending' THEN
+        RAISE EXCEPTION 'This booking has not been paid yet';
+    ELSIF reservation.status = 'cancelled' THEN
+        RAISE EXCEPTION 'This booking was cancelled';
+    ELSIF reservation.status = 'no_show' THEN
+        RAISE EXCEPTION 'This booking was marked as a no-show';
+    ELSIF reservation.status <> 'confirmed' THEN
+        RAISE EXCEPTION 'This booking can no longer be checked in';
+    END IF;
+
+    IF reservation.reservation_date <> venue_today() THEN
+        RAISE EXCEPTION 'This booking is for %, not today', TO_CHAR(reservation.reservation_date, 'DD Mon YYYY');
+    END IF;
+
+    IF venue_now() < (reservation.reservation_date + reservation.start_time) - check_in_opens_before() THEN
+        RAISE EXCEPTION 'Check-in for this booking opens at %',
+            TO_CHAR(reservation.start_time - check_in_opens_before(), 'HH24:MI');
+    END IF;
+
+    IF venue_now() >= reservation.reservation_date + reservation.end_time THEN
+        RAISE EXCEPTION 'This booking ended at %', TO_CHAR(reservation.end_time, 'HH24:MI');
+    END IF;
+
+    UPDATE reservations
+    SET
+        status = 'completed',
+        checked_in_at = NOW(),
+        checked_in_by = auth.uid(),
+        updated_at = NOW()
+    WHERE id = reservation.id
+    RETURNING * INTO reservation;
+
+    RETURN reservation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Flag confirmed bookings whose slot has ended without a check-in.
+-- Run every 15 minutes by pg_cron when available, otherwise by /api/cron/flag-no-shows.
+CREATE OR REPLACE FUNCTION flag_no_show_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+    flagged_count INTEGER;
+BEGIN
+    UPDATE reservations
+    SET
+        status = 'no_show',
+        updated_at = NOW()
+    WHERE status = 'confirmed'
+    AND checked_in_at IS NULL
+    AND reservation_date <= venue_today()
+    AND reservation_date + end_time <= venue_now();
+
+    GET DIAGNOSTICS flagged_count = ROW_COUNT;
+    RETURN flagged_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION flag_no_show_reservations() FROM PUBLIC, anon, authenticated;
+
+-- Schedule the no-show job where pg_cron is installed
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+        PERFORM cron.schedule(
+            'flag-no-show-reservations',
+            '*/15 * * * *',
+            'SELECT flag_no_show_reservations()'
+        );
+    END IF;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION check_in_reservation(TEXT, UUID) TO authenticated;
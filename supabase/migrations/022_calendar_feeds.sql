@@ -0,0 +1,94 @@
+-- Calendar Feeds
+-- Migration: Secret-link calendar subscriptions for a customer's bookings and for a venue's schedule
+
+-- A feed URL carries its token instead of a login, so calendar apps can poll it.
+-- venue_id NULL is the owner's own bookings; otherwise the venue's schedule (staff only).
+CREATE TABLE calendar_feeds (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    venue_id UUID REFERENCES venues(id) ON DELETE CASCADE,
+    token TEXT UNIQUE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One feed per person and per person and venue
+CREATE UNIQUE INDEX idx_calendar_feeds_personal ON calendar_feeds(user_id) WHERE venue_id IS NULL;
+CREATE UNIQUE INDEX idx_calendar_feeds_venue ON calendar_feeds(user_id, venue_id) WHERE venue_id IS NOT NULL;
+
+CREATE TRIGGER update_calendar_feeds_updated_at BEFORE UPDATE ON calendar_feeds FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 64 random hex characters (two random UUIDs)
+CREATE OR REPLACE FUNCTION generate_calendar_feed_token()
+RETURNS TEXT AS $$
+    SELECT REPLACE(uuid_generate_v4()::TEXT || uuid_generate_v4()::TEXT, '-', '');
+$$ LANGUAGE sql VOLATILE;
+
+-- Token of the caller's feed, created on first use
+CREATE OR REPLACE FUNCTION get_calendar_feed_token(p_venue_id UUID DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+    feed_token TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    IF p_venue_id IS NOT NULL AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only staff can subscribe to a venue schedule';
+    END IF;
+
+    SELECT token INTO feed_token
+    FROM calendar_feeds
+    WHERE user_id = auth.uid()
+    AND venue_id IS NOT DISTINCT FROM p_venue_id;
+
+    IF feed_token IS NULL THEN
+        INSERT INTO calendar_feeds (user_id, venue_id, token)
+        VALUES (auth.uid(), p_venue_id, generate_calendar_feed_token())
+        ON CONFLICT DO NOTHING
+        RETURNING token INTO feed_token;
+
+        -- Lost a race with another request creating the same feed
+        IF feed_token IS NULL THEN
+            SELECT token INTO feed_token
+            FROM calendar_feeds
+            WHERE user_id = auth.uid()
+            AND venue_id IS NOT DISTINCT FROM p_venue_id;
+        END IF;
+    END IF;
+
+    RETURN feed_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces the token of the caller's feed; the old link stops working
+CREATE OR REPLACE FUNCTION reset_calendar_feed_token(p_venue_id UUID DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+    feed_token TEXT;
+BEGIN
+    UPDATE calendar_feeds
+    SET token = generate_calendar_feed_token()
+    WHERE user_id = auth.uid()
+    AND venue_id IS NOT DISTINCT FROM p_venue_id
+    RETURNING token INTO feed_token;
+
+    RETURN COALESCE(feed_token, get_calendar_feed_token(p_venue_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION generate_calendar_feed_token() FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- CALENDAR_FEEDS TABLE POLICIES
+-- Users can view their own feeds (they are created through get_calendar_feed_token)
+CREATE POLICY "Users can view own calendar feeds" ON calendar_feeds
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Grant permissions
+GRANT SELECT ON calendar_feeds TO authenticated;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_calendar_feed_token(UUID) TO authenticated;
@@ -0,0 +1,228 @@
+-- Walk-in Bookings
+-- Migration: Staff bookings for guests without an account, and live updates for the schedule board
+
+-- A walk-in guest has no profile, so their name and contact details are kept on the booking
+ALTER TABLE reservations ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE reservations ADD COLUMN customer_name TEXT;
+ALTER TABLE reservations ADD COLUMN customer_phone TEXT;
+ALTER TABLE reservations ADD COLUMN customer_email TEXT;
+
+ALTER TABLE reservations ADD CONSTRAINT reservations_customer_check
+    CHECK (user_id IS NOT NULL OR NULLIF(TRIM(customer_name), '') IS NOT NULL);
+
+-- Guests without an account have nowhere to receive notifications
+CREATE OR REPLACE FUNCTION enqueue_notification(
+    p_user_id UUID,
+    p_event notification_event,
+    p_reservation_id UUID,
+    p_scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS VOID AS $$
+BEGIN
+    IF p_user_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO notification_deliveries (user_id, reservation_id, event, channel, scheduled_for)
+    SELECT p_user_id, p_reservation_id, p_event, channel, p_scheduled_for
+    FROM unnest(enum_range(NULL::notification_channel)) AS channel;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The owner can now be empty, so a missing reservation is told apart by its id
+CREATE OR REPLACE FUNCTION get_cancellation_refund(p_reservation_id UUID)
+RETURNS TABLE (
+    hours_before_start DECIMAL,
+    refund_percentage DECIMAL,
+    amount_paid DECIMAL,
+    refund_amount DECIMAL
+) AS $$
+DECLARE
+    reservation RECORD;
+    notice DECIMAL;
+    percentage DECIMAL;
+BEGIN
+    SELECT r.id, r.user_id, r.reservation_date, r.start_time, r.amount_paid, v.venue_type_id
+    INTO reservation
+    FROM reservations r
+    JOIN venues v ON v.id = r.venue_id
+    WHERE r.id = p_reservation_id;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation.user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to view this reservation';
+    END IF;
+
+    notice := EXTRACT(EPOCH FROM ((reservation.reservation_date + reservation.start_time) - venue_now())) / 3600;
+    percentage := get_cancellation_refund_percentage(reservation.venue_type_id, notice);
+
+    RETURN QUERY SELECT
+        ROUND(notice, 1),
+        percentage,
+        reservation.amount_paid,
+        ROUND(reservation.amount_paid * percentage / 100, 2);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION cancel_reservation(
+    p_reservation_id UUID,
+    p_user_id UUID
+)
+RETURNS DECIMAL AS $$
+DECLARE
+    reservation RECORD;
+BEGIN
+    SELECT id, user_id INTO reservation FROM reservations WHERE id = p_reservation_id;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF p_user_id IS DISTINCT FROM auth.uid()
+        OR (reservation.user_id IS DISTINCT FROM p_user_id AND NOT is_staff_or_higher(auth.uid())) THEN
+        RAISE EXCEPTION 'Unauthorized to cancel this reservation';
+    END IF;
+
+    RETURN cancel_reservation_with_refund(p_reservation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Book a slot for a guest at the front desk. The booking is confirmed straight away and
+-- paid at the desk, so it does not hold the slot on a timer like online bookings do.
+-- Conflicts raise SQLSTATE PT409 with hint 'slot_taken', as in create_reservation.
+CREATE OR REPLACE FUNCTION create_walk_in_reservation(
+    p_venue_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_customer_name TEXT,
+    p_customer_phone TEXT DEFAULT NULL,
+    p_customer_email TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    slot_id UUID;
+    base_price DECIMAL;
+    price_breakdown JSONB;
+BEGIN
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only staff can book for walk-in guests';
+    END IF;
+
+    IF NULLIF(TRIM(p_customer_name), '') IS NULL THEN
+        RAISE EXCEPTION 'Customer name is required';
+    END IF;
+
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_reservation_date < venue_today() THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    SELECT id INTO slot_id
+    FROM venue_time_slots
+    WHERE venue_id = p_venue_id
+    AND is_available = true
+    AND start_time <= p_start_time
+    AND end_time > p_start_time
+    ORDER BY start_time DESC
+    LIMIT 1;
+
+    IF slot_id IS NULL THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO base_price, price_breakdown
+    FROM calculate_price_breakdown(p_venue_id, p_reservation_date, p_start_time, p_end_time) b;
+
+    IF base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            customer_name,
+            customer_phone,
+            customer_email,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            total_price,
+            price_breakdown,
+            status,
+            notes
+        ) VALUES (
+            generate_reservation_code(),
+            TRIM(p_customer_name),
+            NULLIF(TRIM(p_customer_phone), ''),
+            NULLIF(TRIM(p_customer_email), ''),
+            p_venue_id,
+            slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600,
+            base_price,
+            base_price,
+            price_breakdown,
+            'confirmed',
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep the schedule board live as bookings and events change
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'reservations'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE reservations;
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'events'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE events;
+        END IF;
+    END IF;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION create_walk_in_reservation(UUID, DATE, TIME, TIME, TEXT, TEXT, TEXT, TEXT) TO authenticated;
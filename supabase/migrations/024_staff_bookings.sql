@@ -0,0 +1,239 @@
+-- Staff Bookings
+-- Migration: Front desk console for booking on behalf of customers, with price adjustments and cash payments
+
+-- Why staff set a price or gave a discount; required whenever they do
+ALTER TABLE reservations ADD COLUMN price_adjustment_reason TEXT;
+
+-- Customers matching a name, phone number or email, for attaching a booking to their
+-- account. Staff can't read profiles directly, and emails live in auth.users.
+CREATE OR REPLACE FUNCTION search_customers(p_query TEXT)
+RETURNS TABLE (
+    id UUID,
+    full_name TEXT,
+    phone TEXT,
+    email TEXT
+) AS $$
+DECLARE
+    pattern TEXT := '%' || TRIM(p_query) || '%';
+BEGIN
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only staff can search customers';
+    END IF;
+
+    IF LENGTH(TRIM(COALESCE(p_query, ''))) < 2 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT p.id, p.full_name::TEXT, p.phone::TEXT, u.email::TEXT
+    FROM profiles p
+    LEFT JOIN auth.users u ON u.id = p.id
+    WHERE COALESCE(p.is_active, true)
+    AND (
+        p.full_name ILIKE pattern
+        OR p.phone ILIKE pattern
+        OR u.email ILIKE pattern
+    )
+    ORDER BY p.full_name
+    LIMIT 10;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- The walk-in booking of 023_walk_in_bookings.sql becomes one case of a staff booking
+DROP FUNCTION create_walk_in_reservation(UUID, DATE, TIME, TIME, TEXT, TEXT, TEXT, TEXT);
+
+-- Book a slot at the front desk, for a customer's account (p_user_id) or for a guest
+-- (p_customer_name). Staff bookings are confirmed straight away and don't hold the slot
+-- on a timer. p_price_override replaces the calculated price and p_discount_percentage
+-- comes off whichever price applies; either needs p_adjustment_reason. Without them a
+-- member gets their tier's discount as online. p_cash_amount records cash taken at the
+-- desk in the same transaction. Conflicts raise SQLSTATE PT409 with hint 'slot_taken'.
+CREATE OR REPLACE FUNCTION create_staff_reservation(
+    p_venue_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_user_id UUID DEFAULT NULL,
+    p_customer_name TEXT DEFAULT NULL,
+    p_customer_phone TEXT DEFAULT NULL,
+    p_customer_email TEXT DEFAULT NULL,
+    p_price_override DECIMAL DEFAULT NULL,
+    p_discount_percentage DECIMAL DEFAULT 0,
+    p_adjustment_reason TEXT DEFAULT NULL,
+    p_cash_amount DECIMAL DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    slot_id UUID;
+    discount_percentage DECIMAL := COALESCE(p_discount_percentage, 0);
+    adjustment_reason TEXT := NULLIF(TRIM(p_adjustment_reason), '');
+    base_price DECIMAL;
+    discount_amount DECIMAL;
+    total_price DECIMAL;
+    price_breakdown JSONB;
+BEGIN
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only staff can book on behalf of customers';
+    END IF;
+
+    IF p_user_id IS NOT NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id) THEN
+            RAISE EXCEPTION 'Customer not found';
+        END IF;
+    ELSIF NULLIF(TRIM(p_customer_name), '') IS NULL THEN
+        RAISE EXCEPTION 'Customer name is required';
+    END IF;
+
+    IF discount_percentage < 0 OR discount_percentage > 100 THEN
+        RAISE EXCEPTION 'Discount percentage must be between 0 and 100';
+    END IF;
+
+    IF p_price_override IS NOT NULL AND p_price_override < 0 THEN
+        RAISE EXCEPTION 'Price cannot be negative';
+    END IF;
+
+    IF (p_price_override IS NOT NULL OR discount_percentage <> 0) AND adjustment_reason IS NULL THEN
+        RAISE EXCEPTION 'A reason is required when changing the price or giving a discount';
+    END IF;
+
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_reservation_date < venue_today() THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    SELECT id INTO slot_id
+    FROM venue_time_slots
+    WHERE venue_id = p_venue_id
+    AND is_available = true
+    AND start_time <= p_start_time
+    AND end_time > p_start_time
+    ORDER BY start_time DESC
+    LIMIT 1;
+
+    IF slot_id IS NULL THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    -- Also refuses days the venue is closed
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO base_price, price_breakdown
+    FROM calculate_price_breakdown(p_venue_id, p_reservation_date, p_start_time, p_end_time) b;
+
+    IF base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    -- A set price has no slot-by-slot breakdown
+    IF p_price_override IS NOT NULL THEN
+        base_price := p_price_override;
+        price_breakdown := NULL;
+    END IF;
+
+    IF p_user_id IS NOT NULL AND discount_percentage = 0 AND p_price_override IS NULL THEN
+        SELECT COALESCE(MAX(membership.discount_percentage), 0)
+        INTO discount_percentage
+        FROM get_active_membership(p_user_id) membership;
+    END IF;
+
+    discount_amount := base_price - ROUND(base_price * (1 - discount_percentage / 100), 2);
+    total_price := base_price - discount_amount;
+
+    IF p_cash_amount IS NOT NULL AND (p_cash_amount <= 0 OR p_cash_amount > total_price) THEN
+        RAISE EXCEPTION 'Cash payment must be more than 0 and at most the booking total';
+    END IF;
+
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            customer_name,
+            customer_phone,
+            customer_email,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            total_price,
+            price_breakdown,
+            price_adjustment_reason,
+            status,
+            notes
+        ) VALUES (
+            generate_reservation_code(),
+            p_user_id,
+            CASE WHEN p_user_id IS NULL THEN TRIM(p_customer_name) END,
+            CASE WHEN p_user_id IS NULL THEN NULLIF(TRIM(p_customer_phone), '') END,
+            CASE WHEN p_user_id IS NULL THEN NULLIF(TRIM(p_customer_email), '') END,
+            p_venue_id,
+            slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            total_price,
+            price_breakdown,
+            adjustment_reason,
+            'confirmed',
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    IF p_cash_amount IS NOT NULL THEN
+        INSERT INTO payments (
+            reservation_id,
+            user_id,
+            payment_kind,
+            amount,
+            payment_method,
+            payment_status,
+            paid_at,
+            notes,
+            created_by
+        ) VALUES (
+            reservation_id,
+            p_user_id,
+            CASE WHEN p_cash_amount >= total_price THEN 'full' ELSE 'partial' END::payment_kind,
+            p_cash_amount,
+            'cash',
+            'completed',
+            NOW(),
+            'Paid at the front desk',
+            auth.uid()
+        );
+    END IF;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION search_customers(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_staff_reservation(UUID, DATE, TIME, TIME, UUID, TEXT, TEXT, TEXT, DECIMAL, DECIMAL, TEXT, DECIMAL, TEXT) TO authenticated;
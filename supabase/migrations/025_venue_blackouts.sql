@@ -0,0 +1,413 @@
+-- Venue Blackouts
+-- Migration: Closing a venue for maintenance or private use without deactivating it
+
+-- Create custom types
+-- none: every day from start_date to end_date; weekly: on start_date's weekday until end_date (or for good)
+CREATE TYPE blackout_recurrence AS ENUM ('none', 'weekly');
+-- public: customers see the reason; internal: customers only see that the venue is unavailable
+CREATE TYPE blackout_visibility AS ENUM ('public', 'internal');
+
+-- Blackout periods (start_time and end_time NULL block the whole day)
+CREATE TABLE venue_blackouts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE,
+    start_time TIME,
+    end_time TIME,
+    recurrence blackout_recurrence NOT NULL DEFAULT 'none',
+    reason VARCHAR(200) NOT NULL,
+    visibility blackout_visibility NOT NULL DEFAULT 'public',
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_blackout_dates CHECK (
+        (end_date IS NULL AND recurrence = 'weekly')
+        OR (end_date IS NOT NULL AND end_date >= start_date)
+    ),
+    CONSTRAINT valid_blackout_times CHECK (
+        (start_time IS NULL AND end_time IS NULL)
+        OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+    )
+);
+
+CREATE INDEX idx_venue_blackouts_venue ON venue_blackouts(venue_id, start_date);
+
+CREATE TRIGGER update_venue_blackouts_updated_at BEFORE UPDATE ON venue_blackouts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether a blackout period covers part of p_start_time to p_end_time on p_date. Takes the
+-- period's fields rather than a row so a blackout can be checked before it is saved.
+CREATE OR REPLACE FUNCTION blackout_covers(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_recurrence blackout_recurrence,
+    p_date DATE,
+    p_period_start TIME,
+    p_period_end TIME
+)
+RETURNS BOOLEAN AS $$
+    SELECT p_date >= p_start_date
+        AND (p_end_date IS NULL OR p_date <= p_end_date)
+        AND (p_recurrence = 'none' OR EXTRACT(DOW FROM p_date) = EXTRACT(DOW FROM p_start_date))
+        AND (p_start_time IS NULL OR (p_start_time < p_period_end AND p_end_time > p_period_start));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether any blackout of the venue falls in the period
+CREATE OR REPLACE FUNCTION is_venue_blacked_out(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM venue_blackouts b
+        WHERE b.venue_id = p_venue_id
+        AND blackout_covers(b.start_date, b.end_date, b.start_time, b.end_time, b.recurrence, p_date, p_start_time, p_end_time)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Blacked-out periods are never available; every booking path goes through this check
+CREATE OR REPLACE FUNCTION check_venue_availability(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_exclude_reservation_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    conflict_count INTEGER;
+BEGIN
+    IF is_venue_blacked_out(p_venue_id, p_date, p_start_time, p_end_time) THEN
+        RETURN false;
+    END IF;
+
+    -- Check for time conflicts with existing reservations
+    SELECT COUNT(*)
+    INTO conflict_count
+    FROM reservations r
+    WHERE r.venue_id = p_venue_id
+    AND r.reservation_date = p_date
+    AND (
+        r.status IN ('confirmed', 'completed')
+        OR (r.status = 'pending' AND (r.expires_at IS NULL OR r.expires_at > NOW()))
+    )
+    AND (
+        (r.start_time < p_end_time AND r.end_time > p_start_time)
+    )
+    AND (p_exclude_reservation_id IS NULL OR r.id != p_exclude_reservation_id);
+
+    RETURN conflict_count = 0;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Time slots of a day with whether they can still be booked: closed days and blackouts
+-- (through check_venue_availability) make a slot unavailable
+CREATE OR REPLACE FUNCTION get_available_time_slots(
+    p_venue_id UUID,
+    p_date DATE
+)
+RETURNS TABLE(
+    slot_id UUID,
+    start_time TIME,
+    end_time TIME,
+    price_multiplier DECIMAL,
+    is_available BOOLEAN
+) AS $$
+DECLARE
+    is_closed BOOLEAN;
+BEGIN
+    SELECT COALESCE(bool_or(sd.is_closed), false)
+    INTO is_closed
+    FROM get_special_date(p_venue_id, p_date) sd;
+
+    RETURN QUERY
+    SELECT
+        vts.id,
+        vts.start_time,
+        vts.end_time,
+        vts.price_multiplier,
+        (
+            NOT is_closed AND
+            vts.is_available AND
+            check_venue_availability(p_venue_id, p_date, vts.start_time, vts.end_time)
+        ) as is_available
+    FROM venue_time_slots vts
+    WHERE vts.venue_id = p_venue_id
+    ORDER BY vts.start_time;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Blackouts day by day between two dates, for one venue or all of them (p_venue_id NULL).
+-- The reason of an internal blackout is only shown to staff.
+CREATE OR REPLACE FUNCTION get_venue_blackouts(
+    p_from DATE,
+    p_to DATE,
+    p_venue_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    blackout_id UUID,
+    venue_id UUID,
+    blackout_date DATE,
+    start_time TIME,
+    end_time TIME,
+    reason TEXT,
+    visibility blackout_visibility
+) AS $$
+DECLARE
+    show_internal BOOLEAN := is_staff_or_higher(auth.uid());
+BEGIN
+    IF p_to < p_from OR p_to - p_from > 366 THEN
+        RAISE EXCEPTION 'Date range must be between 1 and 367 days';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.venue_id,
+        day::DATE,
+        b.start_time,
+        b.end_time,
+        CASE WHEN b.visibility = 'public' OR show_internal THEN b.reason::TEXT END,
+        b.visibility
+    FROM venue_blackouts b
+    CROSS JOIN LATERAL generate_series(
+        GREATEST(b.start_date, p_from),
+        LEAST(COALESCE(b.end_date, p_to), p_to),
+        INTERVAL '1 day'
+    ) day
+    WHERE (p_venue_id IS NULL OR b.venue_id = p_venue_id)
+    AND b.start_date <= p_to
+    AND (b.end_date IS NULL OR b.end_date >= p_from)
+    AND blackout_covers(b.start_date, b.end_date, b.start_time, b.end_time, b.recurrence, day::DATE, '00:00', '24:00')
+    ORDER BY day, b.start_time NULLS FIRST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Upcoming bookings that a blackout period would run into: those that still hold their
+-- slot, from today on. Admins see these before saving a blackout and after.
+CREATE OR REPLACE FUNCTION get_blackout_conflicts(
+    p_venue_id UUID,
+    p_start_date DATE,
+    p_recurrence blackout_recurrence,
+    p_end_date DATE DEFAULT NULL,
+    p_start_time TIME DEFAULT NULL,
+    p_end_time TIME DEFAULT NULL
+)
+RETURNS TABLE (
+    reservation_id UUID,
+    reservation_code VARCHAR,
+    reservation_date DATE,
+    start_time TIME,
+    end_time TIME,
+    status reservation_status,
+    payment_status payment_status,
+    amount_paid DECIMAL,
+    customer_name TEXT
+) AS $$
+BEGIN
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only staff can view blackout conflicts';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.reservation_code,
+        r.reservation_date,
+        r.start_time,
+        r.end_time,
+        r.status,
+        r.payment_status,
+        r.amount_paid,
+        COALESCE(p.full_name, r.customer_name)::TEXT
+    FROM reservations r
+    LEFT JOIN profiles p ON p.id = r.user_id
+    WHERE r.venue_id = p_venue_id
+    AND r.reservation_date >= venue_today()
+    AND (
+        r.status = 'confirmed'
+        OR (r.status = 'pending' AND (r.expires_at IS NULL OR r.expires_at > NOW()))
+    )
+    AND blackout_covers(p_start_date, p_end_date, p_start_time, p_end_time, p_recurrence, r.reservation_date, r.start_time, r.end_time)
+    ORDER BY r.reservation_date, r.start_time;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- cancel_reservation_with_refund() can now refund a set percentage instead of the
+-- cancellation policy's, for cancellations that aren't the customer's doing
+DROP FUNCTION cancel_reservation_with_refund(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION cancel_reservation_with_refund(
+    p_reservation_id UUID,
+    p_reason TEXT DEFAULT NULL,
+    p_refund_percentage DECIMAL DEFAULT NULL
+)
+RETURNS DECIMAL AS $$
+DECLARE
+    reservation RECORD;
+    percentage DECIMAL;
+    refund_total DECIMAL;
+    remaining DECIMAL;
+    charge RECORD;
+    refund_amount DECIMAL;
+BEGIN
+    SELECT r.*, v.venue_type_id
+    INTO reservation
+    FROM reservations r
+    JOIN venues v ON v.id = r.venue_id
+    WHERE r.id = p_reservation_id
+    FOR UPDATE OF r;
+
+    IF reservation.id IS NULL THEN
+        RAISE EXCEPTION 'Reservation not found';
+    END IF;
+
+    IF reservation.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION 'Only pending or confirmed reservations can be cancelled';
+    END IF;
+
+    percentage := COALESCE(p_refund_percentage, get_cancellation_refund_percentage(
+        reservation.venue_type_id,
+        EXTRACT(EPOCH FROM ((reservation.reservation_date + reservation.start_time) - venue_now())) / 3600
+    ));
+    refund_total := ROUND(reservation.amount_paid * percentage / 100, 2);
+
+    UPDATE reservations
+    SET
+        status = 'cancelled',
+        cancellation_reason = COALESCE(p_reason, cancellation_reason),
+        updated_at = NOW()
+    WHERE id = p_reservation_id;
+
+    remaining := refund_total;
+
+    FOR charge IN
+        SELECT
+            p.id,
+            p.payment_method,
+            p.provider,
+            p.provider_reference,
+            p.amount - COALESCE((
+                SELECT SUM(refund.amount)
+                FROM payments refund
+                WHERE refund.refunded_payment_id = p.id
+                AND refund.payment_status IN ('pending', 'completed')
+            ), 0) AS refundable
+        FROM payments p
+        WHERE p.payment_kind <> 'refund'
+        AND p.payment_status = 'completed'
+        AND (
+            p.reservation_id = p_reservation_id
+            OR (reservation.order_id IS NOT NULL AND p.order_id = reservation.order_id)
+        )
+        ORDER BY p.reservation_id IS NULL, p.created_at DESC
+    LOOP
+        EXIT WHEN remaining <= 0;
+
+        refund_amount := LEAST(remaining, charge.refundable);
+        CONTINUE WHEN refund_amount <= 0;
+
+        INSERT INTO payments (
+            payment_kind,
+            refunded_payment_id,
+            amount,
+            payment_method,
+            provider,
+            payment_status,
+            paid_at,
+            notes,
+            created_by
+        ) VALUES (
+            'refund',
+            charge.id,
+            refund_amount,
+            charge.payment_method,
+            charge.provider,
+            CASE WHEN charge.provider_reference IS NULL THEN 'completed' ELSE 'pending' END::payment_transaction_status,
+            CASE WHEN charge.provider_reference IS NULL THEN NOW() END,
+            'Cancellation refund (' || percentage || '%)',
+            auth.uid()
+        );
+
+        remaining := remaining - refund_amount;
+    END LOOP;
+
+    RETURN refund_total - remaining;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cancel_reservation_with_refund(UUID, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Cancel bookings that run into a blackout, refunded in full since the venue is at fault.
+-- p_reservation_ids picks some of them; NULL cancels them all. Bookings that no longer
+-- collide are left alone.
+CREATE OR REPLACE FUNCTION cancel_blackout_reservations(
+    p_blackout_id UUID,
+    p_reservation_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    reservation_id UUID,
+    refund_amount DECIMAL
+) AS $$
+DECLARE
+    blackout RECORD;
+    conflict RECORD;
+    reason TEXT;
+BEGIN
+    IF NOT is_admin_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only admins can cancel bookings for a blackout';
+    END IF;
+
+    SELECT * INTO blackout FROM venue_blackouts WHERE id = p_blackout_id;
+
+    IF blackout.id IS NULL THEN
+        RAISE EXCEPTION 'Blackout not found';
+    END IF;
+
+    reason := CASE
+        WHEN blackout.visibility = 'public' THEN 'Venue unavailable: ' || blackout.reason
+        ELSE 'Venue unavailable'
+    END;
+
+    FOR conflict IN
+        SELECT c.reservation_id
+        FROM get_blackout_conflicts(
+            blackout.venue_id,
+            blackout.start_date,
+            blackout.recurrence,
+            blackout.end_date,
+            blackout.start_time,
+            blackout.end_time
+        ) c
+        WHERE p_reservation_ids IS NULL OR c.reservation_id = ANY(p_reservation_ids)
+    LOOP
+        reservation_id := conflict.reservation_id;
+        refund_amount := cancel_reservation_with_refund(conflict.reservation_id, reason, 100);
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE venue_blackouts ENABLE ROW LEVEL SECURITY;
+
+-- VENUE_BLACKOUTS TABLE POLICIES
+-- Customers see blackouts through get_venue_blackouts(), which hides internal reasons
+CREATE POLICY "Staff can view venue blackouts" ON venue_blackouts
+    FOR SELECT USING (is_staff_or_higher(auth.uid()));
+
+-- Admins can manage venue blackouts
+CREATE POLICY "Admins can manage venue blackouts" ON venue_blackouts
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT ALL ON venue_blackouts TO authenticated;
+GRANT EXECUTE ON FUNCTION is_venue_blacked_out(UUID, DATE, TIME, TIME) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_venue_blackouts(DATE, DATE, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_blackout_conflicts(UUID, DATE, blackout_recurrence, DATE, TIME, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_blackout_reservations(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,332 @@
+-- Operating Hours
+-- Migration: Weekly opening hours per venue, date overrides and slots generated from them
+
+-- Length of a bookable slot for venues of the type, in minutes
+ALTER TABLE venue_types
+    ADD COLUMN slot_duration INTEGER NOT NULL DEFAULT 60,
+    ADD CONSTRAINT valid_slot_duration CHECK (slot_duration BETWEEN 15 AND 240 AND slot_duration % 15 = 0);
+
+-- Weekly opening hours. day_of_week counts like EXTRACT(DOW): 0 is Sunday. A day can have
+-- several periods (e.g. a break for Friday prayers); a day without any is closed.
+CREATE TABLE venue_operating_hours (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+    day_of_week SMALLINT NOT NULL,
+    open_time TIME NOT NULL,
+    close_time TIME NOT NULL, -- 24:00 for midnight
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_day_of_week CHECK (day_of_week BETWEEN 0 AND 6),
+    CONSTRAINT valid_operating_hours CHECK (close_time > open_time),
+    CONSTRAINT no_overlapping_operating_hours
+        EXCLUDE USING gist (
+            venue_id WITH =,
+            day_of_week WITH =,
+            tsrange(DATE '2000-01-01' + open_time, DATE '2000-01-01' + close_time, '[)') WITH &&
+        )
+);
+
+-- Opening hours for a single date. A date with any override ignores the weekly hours;
+-- closing a venue for the whole day is done with a special date instead.
+CREATE TABLE venue_hours_overrides (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+    override_date DATE NOT NULL,
+    open_time TIME NOT NULL,
+    close_time TIME NOT NULL,
+    reason VARCHAR(200),
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_hours_override CHECK (close_time > open_time),
+    CONSTRAINT no_overlapping_hours_overrides
+        EXCLUDE USING gist (
+            venue_id WITH =,
+            tsrange(override_date + open_time, override_date + close_time, '[)') WITH &&
+        )
+);
+
+CREATE INDEX idx_venue_hours_overrides_date ON venue_hours_overrides(venue_id, override_date);
+
+CREATE TRIGGER update_venue_operating_hours_updated_at BEFORE UPDATE ON venue_operating_hours FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_venue_hours_overrides_updated_at BEFORE UPDATE ON venue_hours_overrides FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing venues keep the hours their time slots spanned, every day of the week
+INSERT INTO venue_operating_hours (venue_id, day_of_week, open_time, close_time)
+SELECT hours.venue_id, day_of_week, hours.open_time, hours.close_time
+FROM (
+    SELECT
+        v.id AS venue_id,
+        COALESCE(MIN(vts.start_time), '06:00') AS open_time,
+        COALESCE(MAX(vts.end_time), '23:00') AS close_time
+    FROM venues v
+    LEFT JOIN venue_time_slots vts ON vts.venue_id = v.id AND vts.is_available = true
+    GROUP BY v.id
+) hours
+CROSS JOIN generate_series(0, 6) day_of_week;
+
+-- New venues open 06:00 - 23:00 every day until their hours are set
+CREATE OR REPLACE FUNCTION seed_venue_operating_hours()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO venue_operating_hours (venue_id, day_of_week, open_time, close_time)
+    SELECT NEW.id, day_of_week, '06:00', '23:00'
+    FROM generate_series(0, 6) day_of_week;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER seed_venue_operating_hours AFTER INSERT ON venues FOR EACH ROW EXECUTE FUNCTION seed_venue_operating_hours();
+
+-- Periods a venue is open on a date: the date's overrides when it has any, its weekly
+-- hours otherwise
+CREATE OR REPLACE FUNCTION get_opening_periods(
+    p_venue_id UUID,
+    p_date DATE
+)
+RETURNS TABLE (
+    open_time TIME,
+    close_time TIME
+) AS $$
+    SELECT o.open_time, o.close_time
+    FROM venue_hours_overrides o
+    WHERE o.venue_id = p_venue_id
+    AND o.override_date = p_date
+    UNION ALL
+    SELECT h.open_time, h.close_time
+    FROM venue_operating_hours h
+    WHERE h.venue_id = p_venue_id
+    AND h.day_of_week = EXTRACT(DOW FROM p_date)
+    AND NOT EXISTS (
+        SELECT 1 FROM venue_hours_overrides o
+        WHERE o.venue_id = p_venue_id
+        AND o.override_date = p_date
+    )
+    ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether the venue is open for the whole period; a booking can't run across a break
+CREATE OR REPLACE FUNCTION is_venue_open(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM get_opening_periods(p_venue_id, p_date) p
+        WHERE p.open_time <= p_start_time
+        AND p.close_time >= p_end_time
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Bookable slots of a venue on a date. Each opening period is cut into slots of the venue
+-- type's slot_duration from its opening time; a remainder shorter than a slot is left out.
+-- venue_time_slots are the price bands: a slot takes the id and multiplier of the band it
+-- starts in, and slots no bookable band covers can't be priced so aren't offered.
+CREATE OR REPLACE FUNCTION get_venue_day_slots(
+    p_venue_id UUID,
+    p_date DATE
+)
+RETURNS TABLE (
+    slot_id UUID,
+    start_time TIME,
+    end_time TIME,
+    price_multiplier DECIMAL
+) AS $$
+    SELECT
+        band.id,
+        TIME '00:00' + slot_start * INTERVAL '1 minute',
+        -- Adding to a TIME wraps around at midnight
+        CASE
+            WHEN slot_start + vt.slot_duration >= 24 * 60 THEN TIME '24:00'
+            ELSE TIME '00:00' + (slot_start + vt.slot_duration) * INTERVAL '1 minute'
+        END,
+        COALESCE(band.price_multiplier, 1.0)
+    FROM venues v
+    JOIN venue_types vt ON vt.id = v.venue_type_id
+    CROSS JOIN LATERAL get_opening_periods(v.id, p_date) period
+    CROSS JOIN LATERAL generate_series(
+        (EXTRACT(EPOCH FROM period.open_time) / 60)::INTEGER,
+        (EXTRACT(EPOCH FROM period.close_time) / 60)::INTEGER - vt.slot_duration,
+        vt.slot_duration
+    ) slot_start
+    CROSS JOIN LATERAL (
+        SELECT vts.id, vts.price_multiplier
+        FROM venue_time_slots vts
+        WHERE vts.venue_id = v.id
+        AND vts.is_available = true
+        AND vts.start_time <= TIME '00:00' + slot_start * INTERVAL '1 minute'
+        AND vts.end_time > TIME '00:00' + slot_start * INTERVAL '1 minute'
+        ORDER BY vts.start_time DESC
+        LIMIT 1
+    ) band
+    WHERE v.id = p_venue_id
+    ORDER BY slot_start;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Replace a venue's weekly hours in one go (admins only). p_hours is an array of
+-- {"day_of_week", "open_time", "close_time"}; overlapping periods fail the whole save.
+CREATE OR REPLACE FUNCTION set_venue_operating_hours(
+    p_venue_id UUID,
+    p_hours JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT is_admin_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only admins can change opening hours';
+    END IF;
+
+    IF jsonb_typeof(p_hours) <> 'array' THEN
+        RAISE EXCEPTION 'Opening hours must be an array';
+    END IF;
+
+    DELETE FROM venue_operating_hours WHERE venue_id = p_venue_id;
+
+    INSERT INTO venue_operating_hours (venue_id, day_of_week, open_time, close_time)
+    SELECT
+        p_venue_id,
+        (period->>'day_of_week')::SMALLINT,
+        (period->>'open_time')::TIME,
+        (period->>'close_time')::TIME
+    FROM jsonb_array_elements(p_hours) period;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Opening periods day by day between two dates, for one venue or all of them (p_venue_id NULL)
+CREATE OR REPLACE FUNCTION get_venue_opening_hours(
+    p_from DATE,
+    p_to DATE,
+    p_venue_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    venue_id UUID,
+    hours_date DATE,
+    open_time TIME,
+    close_time TIME
+) AS $$
+BEGIN
+    IF p_to < p_from OR p_to - p_from > 366 THEN
+        RAISE EXCEPTION 'Date range must be between 1 and 367 days';
+    END IF;
+
+    RETURN QUERY
+    SELECT v.id, day::DATE, p.open_time, p.close_time
+    FROM venues v
+    CROSS JOIN generate_series(p_from, p_to, INTERVAL '1 day') day
+    CROSS JOIN LATERAL get_opening_periods(v.id, day::DATE) p
+    WHERE p_venue_id IS NULL OR v.id = p_venue_id
+    ORDER BY v.id, day, p.open_time;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Outside opening hours is never available either
+CREATE OR REPLACE FUNCTION check_venue_availability(
+    p_venue_id UUID,
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_exclude_reservation_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    conflict_count INTEGER;
+BEGIN
+    IF NOT is_venue_open(p_venue_id, p_date, p_start_time, p_end_time) THEN
+        RETURN false;
+    END IF;
+
+    IF is_venue_blacked_out(p_venue_id, p_date, p_start_time, p_end_time) THEN
+        RETURN false;
+    END IF;
+
+    -- Check for time conflicts with existing reservations
+    SELECT COUNT(*)
+    INTO conflict_count
+    FROM reservations r
+    WHERE r.venue_id = p_venue_id
+    AND r.reservation_date = p_date
+    AND (
+        r.status IN ('confirmed', 'completed')
+        OR (r.status = 'pending' AND (r.expires_at IS NULL OR r.expires_at > NOW()))
+    )
+    AND (
+        (r.start_time < p_end_time AND r.end_time > p_start_time)
+    )
+    AND (p_exclude_reservation_id IS NULL OR r.id != p_exclude_reservation_id);
+
+    RETURN conflict_count = 0;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Time slots of a day, generated from the opening hours, with whether they can still be
+-- booked. slot_id is the price band the slot starts in, so several slots can share one.
+CREATE OR REPLACE FUNCTION get_available_time_slots(
+    p_venue_id UUID,
+    p_date DATE
+)
+RETURNS TABLE(
+    slot_id UUID,
+    start_time TIME,
+    end_time TIME,
+    price_multiplier DECIMAL,
+    is_available BOOLEAN
+) AS $$
+DECLARE
+    is_closed BOOLEAN;
+BEGIN
+    SELECT COALESCE(bool_or(sd.is_closed), false)
+    INTO is_closed
+    FROM get_special_date(p_venue_id, p_date) sd;
+
+    RETURN QUERY
+    SELECT
+        s.slot_id,
+        s.start_time,
+        s.end_time,
+        s.price_multiplier,
+        (
+            NOT is_closed AND
+            check_venue_availability(p_venue_id, p_date, s.start_time, s.end_time)
+        ) as is_available
+    FROM get_venue_day_slots(p_venue_id, p_date) s
+    ORDER BY s.start_time;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION seed_venue_operating_hours() FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE venue_operating_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE venue_hours_overrides ENABLE ROW LEVEL SECURITY;
+
+-- VENUE_OPERATING_HOURS TABLE POLICIES
+-- Everyone can view operating hours
+CREATE POLICY "Everyone can view operating hours" ON venue_operating_hours
+    FOR SELECT USING (true);
+
+-- Admins can manage operating hours
+CREATE POLICY "Admins can manage operating hours" ON venue_operating_hours
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- VENUE_HOURS_OVERRIDES TABLE POLICIES
+-- Everyone can view hours overrides
+CREATE POLICY "Everyone can view hours overrides" ON venue_hours_overrides
+    FOR SELECT USING (true);
+
+-- Admins can manage hours overrides
+CREATE POLICY "Admins can manage hours overrides" ON venue_hours_overrides
+    FOR ALL USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT SELECT ON venue_operating_hours TO anon;
+GRANT SELECT ON venue_hours_overrides TO anon;
+GRANT ALL ON venue_operating_hours TO authenticated;
+GRANT ALL ON venue_hours_overrides TO authenticated;
+GRANT EXECUTE ON FUNCTION get_opening_periods(UUID, DATE) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_venue_open(UUID, DATE, TIME, TIME) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_venue_day_slots(UUID, DATE) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_venue_opening_hours(DATE, DATE, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_venue_operating_hours(UUID, JSONB) TO authenticated;
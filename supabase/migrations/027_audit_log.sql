@@ -0,0 +1,162 @@
+-- Audit Log
+-- Migration: Recording who changed reservations, venues, pricing, transactions and user roles
+
+-- Create custom types
+CREATE TYPE audit_action AS ENUM ('insert', 'update', 'delete');
+-- app: a signed-in user through the app; service: webhooks and background jobs using the
+-- service role; system: anything else, e.g. migrations or the SQL editor
+CREATE TYPE audit_source AS ENUM ('app', 'service', 'system');
+
+-- Append-only log of row changes. Inserts keep the new row in new_values and deletes the old
+-- row in old_values; updates keep only the changed columns, before and after. actor_id has no
+-- foreign key so entries outlive the user, and the actor's name and role are kept as they were.
+CREATE TABLE audit_log (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    entity_type TEXT NOT NULL,
+    entity_id UUID NOT NULL,
+    action audit_action NOT NULL,
+    actor_id UUID,
+    actor_name TEXT,
+    actor_role user_role,
+    source audit_source NOT NULL,
+    old_values JSONB,
+    new_values JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+CREATE INDEX idx_audit_log_actor ON audit_log(actor_id, created_at);
+CREATE INDEX idx_audit_log_created ON audit_log(created_at);
+
+-- Entries can't be changed or removed, not even by the service role
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON audit_log FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+CREATE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON audit_log FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Logs the change of a row. Trigger arguments, if any, are the only columns tracked; updates
+-- that leave every tracked column as it was aren't logged.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB;
+    new_row JSONB;
+    changed_old JSONB := '{}';
+    changed_new JSONB := '{}';
+    col TEXT;
+    actor profiles%ROWTYPE;
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        old_row := to_jsonb(OLD) - 'updated_at' - 'booked_period';
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        new_row := to_jsonb(NEW) - 'updated_at' - 'booked_period';
+    END IF;
+
+    IF TG_NARGS > 0 THEN
+        old_row := (SELECT jsonb_object_agg(key, value) FROM jsonb_each(old_row) WHERE key = ANY(TG_ARGV));
+        new_row := (SELECT jsonb_object_agg(key, value) FROM jsonb_each(new_row) WHERE key = ANY(TG_ARGV));
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        FOR col IN SELECT key FROM jsonb_each(new_row) LOOP
+            IF old_row -> col IS DISTINCT FROM new_row -> col THEN
+                changed_old := changed_old || jsonb_build_object(col, old_row -> col);
+                changed_new := changed_new || jsonb_build_object(col, new_row -> col);
+            END IF;
+        END LOOP;
+
+        IF changed_new = '{}' THEN
+            RETURN NULL;
+        END IF;
+
+        old_row := changed_old;
+        new_row := changed_new;
+    END IF;
+
+    SELECT * INTO actor FROM profiles WHERE id = auth.uid();
+
+    INSERT INTO audit_log (
+        entity_type,
+        entity_id,
+        action,
+        actor_id,
+        actor_name,
+        actor_role,
+        source,
+        old_values,
+        new_values
+    ) VALUES (
+        TG_TABLE_NAME,
+        CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+        lower(TG_OP)::audit_action,
+        auth.uid(),
+        actor.full_name,
+        actor.role,
+        CASE auth.role()
+            WHEN 'authenticated' THEN 'app'
+            WHEN 'service_role' THEN 'service'
+            ELSE 'system'
+        END::audit_source,
+        old_row,
+        new_row
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only called by the triggers below
+REVOKE EXECUTE ON FUNCTION audit_row_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER audit_reservations AFTER INSERT OR UPDATE OR DELETE ON reservations FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_venues AFTER INSERT OR UPDATE OR DELETE ON venues FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_venue_time_slots AFTER INSERT OR UPDATE OR DELETE ON venue_time_slots FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+CREATE TRIGGER audit_financial_transactions AFTER INSERT OR UPDATE OR DELETE ON financial_transactions FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+-- Profile edits are the user's own business; only role changes are logged
+CREATE TRIGGER audit_profile_roles AFTER UPDATE OF role ON profiles FOR EACH ROW EXECUTE FUNCTION audit_row_change('role');
+
+-- Changes to a reservation and to the financial transactions booked against it, oldest first
+CREATE OR REPLACE FUNCTION get_reservation_timeline(p_reservation_id UUID)
+RETURNS SETOF audit_log AS $$
+BEGIN
+    IF NOT is_admin_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Only admins can view the audit log';
+    END IF;
+
+    RETURN QUERY
+    SELECT a.*
+    FROM audit_log a
+    WHERE (a.entity_type = 'reservations' AND a.entity_id = p_reservation_id)
+    OR (
+        a.entity_type = 'financial_transactions'
+        AND a.entity_id IN (
+            SELECT t.id FROM financial_transactions t WHERE t.reservation_id = p_reservation_id
+            UNION
+            -- Deleted transactions and ones moved to another reservation
+            SELECT l.entity_id
+            FROM audit_log l
+            WHERE l.entity_type = 'financial_transactions'
+            AND p_reservation_id::TEXT IN (l.old_values ->> 'reservation_id', l.new_values ->> 'reservation_id')
+        )
+    )
+    ORDER BY a.created_at, a.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- AUDIT_LOG TABLE POLICIES
+-- Entries are only written by audit_row_change(), so there are no write policies
+CREATE POLICY "Admins can view the audit log" ON audit_log
+    FOR SELECT USING (is_admin_or_higher(auth.uid()));
+
+-- Grant permissions
+GRANT SELECT ON audit_log TO authenticated;
+GRANT EXECUTE ON FUNCTION get_reservation_timeline(UUID) TO authenticated;
@@ -0,0 +1,177 @@
+-- Venue Local Booking Dates
+-- Migration: create_reservation() checks booking dates against the venue's calendar day
+
+-- Function to create a reservation with validation (replaces the one in 014_memberships.sql).
+-- Price and line items come from calculate_price_breakdown and the code from generate_reservation_code;
+-- the duration is derived from the requested times rather than trusted from the caller.
+-- Members get their tier's discount unless staff give another discount or a promo code is used,
+-- and can book as far ahead as their tier allows. The date must not be before venue_today() or
+-- past the booking window from it; CURRENT_DATE is still yesterday in UTC until 07:00 in Jakarta.
+-- Runs as the function owner so it can use the internal hold and promo helpers; callers are
+-- checked against auth.uid() instead.
+-- Conflicts raise SQLSTATE PT409 (HTTP 409 through PostgREST) with hint 'slot_taken'.
+CREATE OR REPLACE FUNCTION create_reservation(
+    p_user_id UUID,
+    p_venue_id UUID,
+    p_venue_time_slot_id UUID,
+    p_reservation_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_duration_hours DECIMAL,
+    p_discount_percentage DECIMAL DEFAULT 0,
+    p_notes TEXT DEFAULT NULL,
+    p_promo_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    reservation_id UUID;
+    duration_hours DECIMAL;
+    discount_percentage DECIMAL := COALESCE(p_discount_percentage, 0);
+    discount_amount DECIMAL;
+    promo_code_id UUID;
+    base_price DECIMAL;
+    total_price DECIMAL;
+    price_breakdown JSONB;
+    reservation_code TEXT;
+    booking_window_days INTEGER;
+BEGIN
+    -- Customers book for themselves; staff may book on behalf of a customer
+    IF p_user_id IS DISTINCT FROM auth.uid() AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to create a reservation for another user';
+    END IF;
+
+    -- Discounts are granted by staff only
+    IF discount_percentage <> 0 AND NOT is_staff_or_higher(auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized to apply a discount';
+    END IF;
+
+    IF discount_percentage < 0 OR discount_percentage > 100 THEN
+        RAISE EXCEPTION 'Discount percentage must be between 0 and 100';
+    END IF;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL AND discount_percentage <> 0 THEN
+        RAISE EXCEPTION 'A promo code cannot be combined with another discount';
+    END IF;
+
+    -- Validate requested period
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_reservation_date < venue_today() THEN
+        RAISE EXCEPTION 'Cannot book a date in the past';
+    END IF;
+
+    -- Members can book further ahead; staff are not limited
+    IF NOT is_staff_or_higher(auth.uid()) THEN
+        booking_window_days := get_booking_window_days(p_user_id);
+
+        IF p_reservation_date > venue_today() + booking_window_days THEN
+            RAISE EXCEPTION 'Bookings can be made up to % days in advance', booking_window_days;
+        END IF;
+    END IF;
+
+    duration_hours := EXTRACT(EPOCH FROM (p_end_time - p_start_time)) / 3600;
+
+    -- Validate venue exists and is active
+    IF NOT EXISTS (SELECT 1 FROM venues WHERE id = p_venue_id AND is_active = true) THEN
+        RAISE EXCEPTION 'Venue not found or inactive';
+    END IF;
+
+    -- Validate time slot belongs to the venue, is available and covers the start time
+    IF NOT EXISTS (
+        SELECT 1 FROM venue_time_slots
+        WHERE id = p_venue_time_slot_id
+        AND venue_id = p_venue_id
+        AND is_available = true
+        AND start_time <= p_start_time
+        AND end_time > p_start_time
+    ) THEN
+        RAISE EXCEPTION 'Time slot not available';
+    END IF;
+
+    PERFORM release_expired_holds(p_venue_id, p_reservation_date, p_start_time, p_end_time);
+
+    -- Check availability (the exclusion constraint below is the final word under concurrency)
+    IF NOT check_venue_availability(p_venue_id, p_reservation_date, p_start_time, p_end_time) THEN
+        RAISE EXCEPTION 'Time slot is already booked'
+            USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END IF;
+
+    -- Price the booking slot by slot
+    SELECT SUM(b.amount), jsonb_agg(to_jsonb(b) ORDER BY b.start_time)
+    INTO base_price, price_breakdown
+    FROM calculate_price_breakdown(p_venue_id, p_reservation_date, p_start_time, p_end_time) b;
+
+    IF base_price IS NULL THEN
+        RAISE EXCEPTION 'Unable to calculate the price for this booking';
+    END IF;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        SELECT promo.promo_code_id, promo.discount_amount
+        INTO promo_code_id, discount_amount
+        FROM evaluate_promo_code(p_promo_code, p_user_id, p_venue_id, base_price) promo;
+    ELSE
+        IF discount_percentage = 0 THEN
+            SELECT COALESCE(MAX(membership.discount_percentage), 0)
+            INTO discount_percentage
+            FROM get_active_membership(p_user_id) membership;
+        END IF;
+
+        discount_amount := base_price - ROUND(base_price * (1 - discount_percentage / 100), 2);
+    END IF;
+
+    total_price := base_price - discount_amount;
+
+    -- Generate reservation code
+    reservation_code := generate_reservation_code();
+
+    -- Create reservation
+    BEGIN
+        INSERT INTO reservations (
+            reservation_code,
+            user_id,
+            venue_id,
+            venue_time_slot_id,
+            reservation_date,
+            start_time,
+            end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            promo_code_id,
+            total_price,
+            price_breakdown,
+            status,
+            payment_status,
+            notes
+        ) VALUES (
+            reservation_code,
+            p_user_id,
+            p_venue_id,
+            p_venue_time_slot_id,
+            p_reservation_date,
+            p_start_time,
+            p_end_time,
+            duration_hours,
+            base_price,
+            discount_percentage,
+            discount_amount,
+            promo_code_id,
+            total_price,
+            price_breakdown,
+            -- Nothing to pay (e.g. a 100% promo code): confirmed straight away, without a hold
+            CASE WHEN total_price <= 0 THEN 'confirmed' ELSE 'pending' END::reservation_status,
+            CASE WHEN total_price <= 0 THEN 'paid' ELSE 'pending' END::payment_status,
+            p_notes
+        ) RETURNING id INTO reservation_id;
+    EXCEPTION
+        WHEN exclusion_violation THEN
+            RAISE EXCEPTION 'Time slot is already booked'
+                USING ERRCODE = 'PT409', HINT = 'slot_taken';
+    END;
+
+    RETURN reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;